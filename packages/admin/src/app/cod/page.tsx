@@ -0,0 +1,355 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import DashboardLayout from '@/components/DashboardLayout';
+import apiService, { CodAgingReport, CodSettlement, DriverCashBalance, WarehouseOption } from '@/services/apiService';
+import { ArrowDownTrayIcon, BanknotesIcon, XCircleIcon } from '@heroicons/react/24/outline';
+
+type DriverRow = CodAgingReport['drivers'][number];
+
+const formatAmount = (amount?: number | null) => (amount !== null && amount !== undefined ? `₹${amount.toLocaleString()}` : '-');
+
+const getAgeDays = (date: string) => Math.floor((Date.now() - new Date(date).getTime()) / (24 * 60 * 60 * 1000));
+
+export default function CodCashPage() {
+  const [report, setReport] = useState<CodAgingReport | null>(null);
+  const [warehouses, setWarehouses] = useState<WarehouseOption[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [settling, setSettling] = useState<DriverRow | null>(null);
+  const [balance, setBalance] = useState<DriverCashBalance | null>(null);
+  const [selectedEntryIds, setSelectedEntryIds] = useState<string[]>([]);
+  const [warehouseId, setWarehouseId] = useState('');
+  const [depositedAmount, setDepositedAmount] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [settlement, setSettlement] = useState<CodSettlement | null>(null);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      setIsLoading(true);
+      const [agingReport, warehouseList] = await Promise.all([
+        apiService.getCodAgingReport(),
+        apiService.getWarehouses(),
+      ]);
+      setReport(agingReport);
+      setWarehouses(warehouseList);
+    } catch (error) {
+      console.error('Failed to load COD data:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openSettle = async (driver: DriverRow) => {
+    setSettling(driver);
+    setSettlement(null);
+    setBalance(null);
+    setSelectedEntryIds([]);
+    setWarehouseId('');
+    setDepositedAmount('');
+    setNotes('');
+    setError(null);
+
+    const driverBalance = await apiService.getDriverCashBalance(driver.driverId);
+    if (!driverBalance) {
+      setError('Failed to load driver cash balance');
+      return;
+    }
+
+    const entryIds = driverBalance.entries.map((entry) => entry.id);
+    setBalance(driverBalance);
+    setSelectedEntryIds(entryIds);
+    setDepositedAmount(String(driverBalance.cashInHand));
+    setWarehouseId(driverBalance.entries[0]?.consignment.warehouseId || '');
+  };
+
+  const closeSettle = () => {
+    setSettling(null);
+    if (settlement) loadData();
+  };
+
+  const toggleEntry = (entryId: string) => {
+    setSelectedEntryIds((ids) => (ids.includes(entryId) ? ids.filter((id) => id !== entryId) : [...ids, entryId]));
+  };
+
+  const selectedTotal = (balance?.entries || [])
+    .filter((entry) => selectedEntryIds.includes(entry.id))
+    .reduce((sum, entry) => sum + entry.amount, 0);
+
+  const handleSettle = async () => {
+    if (!settling) return;
+    const amount = parseFloat(depositedAmount);
+    if (selectedEntryIds.length === 0) {
+      setError('Select at least one collection to settle');
+      return;
+    }
+    if (!warehouseId) {
+      setError('Select the warehouse receiving the cash');
+      return;
+    }
+    if (isNaN(amount) || amount < 0) {
+      setError('Enter the deposited amount');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      const result = await apiService.settleCodCash({
+        driverId: settling.driverId,
+        warehouseId,
+        entryIds: selectedEntryIds,
+        depositedAmount: amount,
+        notes: notes.trim() || undefined,
+      });
+      setSettlement(result);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to settle COD cash');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDownloadReceipt = async (receipt: CodSettlement) => {
+    try {
+      const blob = await apiService.downloadCodReceipt(receipt.id);
+      const url = URL.createObjectURL(blob);
+      window.open(url, '_blank');
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to download receipt');
+    }
+  };
+
+  const drivers = report?.drivers || [];
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">COD Cash</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Track cash collected by drivers and record deposits at the warehouse
+          </p>
+        </div>
+
+        {/* Stats Cards */}
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-6">
+          <div className="card">
+            <h3 className="text-sm font-medium text-gray-500">Outstanding</h3>
+            <p className="text-2xl font-bold text-gray-900">{formatAmount(report?.totalOutstanding ?? 0)}</p>
+            <p className="text-xs text-gray-500">{drivers.length} drivers</p>
+          </div>
+          {(report?.buckets || []).map((bucket, index) => (
+            <div key={bucket.label} className="card">
+              <h3 className="text-sm font-medium text-gray-500">{bucket.label}</h3>
+              <p className={`text-2xl font-bold ${index >= 2 && bucket.amount > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                {formatAmount(bucket.amount)}
+              </p>
+            </div>
+          ))}
+        </div>
+
+        {/* Drivers */}
+        <div className="card overflow-hidden">
+          <h2 className="text-lg font-medium text-gray-900 mb-4">Cash in Hand by Driver</h2>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Driver
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Outstanding
+                  </th>
+                  {(report?.buckets || []).map((bucket) => (
+                    <th key={bucket.label} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {bucket.label}
+                    </th>
+                  ))}
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Oldest
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {isLoading ? (
+                  <tr>
+                    <td colSpan={8} className="px-6 py-8 text-center text-sm text-gray-500">
+                      Loading COD cash...
+                    </td>
+                  </tr>
+                ) : drivers.length === 0 ? (
+                  <tr>
+                    <td colSpan={8} className="px-6 py-8 text-center text-sm text-gray-500">
+                      No undeposited cash
+                    </td>
+                  </tr>
+                ) : (
+                  drivers.map((driver) => (
+                    <tr key={driver.driverId} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900">{driver.driverName || 'Unnamed driver'}</div>
+                        <div className="text-sm text-gray-500">{driver.driverPhone}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900">{formatAmount(driver.outstanding)}</div>
+                        <div className="text-sm text-gray-500">{driver.entries} deliveries</div>
+                      </td>
+                      {driver.buckets.map((bucket) => (
+                        <td key={bucket.label} className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {bucket.amount > 0 ? formatAmount(bucket.amount) : '-'}
+                        </td>
+                      ))}
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {new Date(driver.oldestCollectedAt).toLocaleDateString()}
+                        <div className="text-xs">{getAgeDays(driver.oldestCollectedAt)} days</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                        <button
+                          className="text-primary-600 hover:text-primary-900"
+                          title="Record deposit"
+                          onClick={() => openSettle(driver)}
+                        >
+                          <BanknotesIcon className="h-5 w-5" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {/* Settle Modal */}
+        {settling && (
+          <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+            <div className="relative top-20 mx-auto p-5 border w-11/12 md:w-2/3 lg:w-1/2 shadow-lg rounded-md bg-white">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-medium text-gray-900">
+                  Deposit: {settling.driverName || 'Unnamed driver'}
+                </h3>
+                <button onClick={closeSettle} className="text-gray-400 hover:text-gray-600">
+                  <XCircleIcon className="h-6 w-6" />
+                </button>
+              </div>
+
+              {settlement ? (
+                <div className="space-y-4">
+                  <p className="text-sm text-gray-700">
+                    Receipt <span className="font-medium">{settlement.receiptNumber}</span> recorded for{' '}
+                    {formatAmount(settlement.depositedAmount)}.
+                  </p>
+                  {settlement.variance !== 0 && (
+                    <p className="text-sm text-red-600">
+                      Variance of {formatAmount(settlement.variance)} against expected {formatAmount(settlement.expectedAmount)}
+                    </p>
+                  )}
+                  <div className="flex justify-end gap-2">
+                    <button className="btn-secondary" onClick={closeSettle}>
+                      Close
+                    </button>
+                    <button
+                      className="btn-primary flex items-center gap-2"
+                      onClick={() => handleDownloadReceipt(settlement)}
+                    >
+                      <ArrowDownTrayIcon className="h-4 w-4" />
+                      Download Receipt
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  <div className="max-h-64 overflow-y-auto border rounded-md divide-y divide-gray-200">
+                    {!balance ? (
+                      <p className="p-4 text-sm text-gray-500">Loading collections...</p>
+                    ) : (
+                      balance.entries.map((entry) => (
+                        <label key={entry.id} className="flex items-center justify-between p-3 text-sm cursor-pointer">
+                          <span className="flex items-center gap-3">
+                            <input
+                              type="checkbox"
+                              checked={selectedEntryIds.includes(entry.id)}
+                              onChange={() => toggleEntry(entry.id)}
+                            />
+                            <span>
+                              <span className="font-medium text-gray-900">{entry.consignment.order.orderNumber}</span>
+                              <span className="block text-xs text-gray-500">
+                                {entry.consignment.consignmentNumber} · {new Date(entry.collectedAt).toLocaleDateString()}
+                              </span>
+                            </span>
+                          </span>
+                          <span className="text-gray-900">{formatAmount(entry.amount)}</span>
+                        </label>
+                      ))
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-500">
+                    Selected: <span className="font-medium text-gray-900">{formatAmount(selectedTotal)}</span>
+                  </p>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Warehouse</label>
+                      <select
+                        className="input-field"
+                        value={warehouseId}
+                        onChange={(e) => setWarehouseId(e.target.value)}
+                      >
+                        <option value="">Select warehouse</option>
+                        {warehouses.map((warehouse) => (
+                          <option key={warehouse.id} value={warehouse.id}>
+                            {warehouse.name} ({warehouse.city})
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Deposited amount (₹)</label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        className="input-field"
+                        value={depositedAmount}
+                        onChange={(e) => setDepositedAmount(e.target.value)}
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                    <textarea
+                      className="input-field"
+                      rows={2}
+                      value={notes}
+                      onChange={(e) => setNotes(e.target.value)}
+                    />
+                  </div>
+                  {error && <p className="text-sm text-red-600">{error}</p>}
+                  <div className="flex justify-end gap-2">
+                    <button className="btn-secondary" onClick={closeSettle}>
+                      Cancel
+                    </button>
+                    <button className="btn-primary" onClick={handleSettle} disabled={isSaving || !balance}>
+                      {isSaving ? 'Saving...' : 'Record Deposit'}
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,502 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import DashboardLayout from '@/components/DashboardLayout';
+import apiService, { Coupon, CouponInput } from '@/services/apiService';
+import {
+  MagnifyingGlassIcon,
+  PlusIcon,
+  PencilIcon,
+  TrashIcon,
+  XCircleIcon,
+} from '@heroicons/react/24/outline';
+
+interface CouponForm {
+  code: string;
+  description: string;
+  discountType: 'PERCENTAGE' | 'FIXED';
+  discountValue: string;
+  minOrderAmount: string;
+  maxDiscountAmount: string;
+  usageLimit: string;
+  perBuyerLimit: string;
+  categoryIds: string;
+  brandIds: string;
+  validFrom: string;
+  validUntil: string;
+  isActive: boolean;
+}
+
+const emptyForm: CouponForm = {
+  code: '',
+  description: '',
+  discountType: 'PERCENTAGE',
+  discountValue: '',
+  minOrderAmount: '',
+  maxDiscountAmount: '',
+  usageLimit: '',
+  perBuyerLimit: '',
+  categoryIds: '',
+  brandIds: '',
+  validFrom: '',
+  validUntil: '',
+  isActive: true,
+};
+
+const toDateInput = (value: string) => value.slice(0, 10);
+
+const toOptionalNumber = (value: string) => (value.trim() === '' ? null : Number(value));
+
+const toIdList = (value: string) =>
+  value
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
+
+const getCouponStatus = (coupon: Coupon) => {
+  const now = Date.now();
+  if (!coupon.isActive) return { label: 'Inactive', color: 'bg-gray-100 text-gray-800' };
+  if (new Date(coupon.validUntil).getTime() < now) return { label: 'Expired', color: 'bg-red-100 text-red-800' };
+  if (new Date(coupon.validFrom).getTime() > now) return { label: 'Scheduled', color: 'bg-blue-100 text-blue-800' };
+  if (coupon.usageLimit && coupon.usedCount >= coupon.usageLimit) {
+    return { label: 'Exhausted', color: 'bg-yellow-100 text-yellow-800' };
+  }
+  return { label: 'Active', color: 'bg-green-100 text-green-800' };
+};
+
+const formatDiscount = (coupon: Coupon) =>
+  coupon.discountType === 'PERCENTAGE'
+    ? `${coupon.discountValue}%${coupon.maxDiscountAmount ? ` (max ₹${coupon.maxDiscountAmount.toLocaleString()})` : ''}`
+    : `₹${coupon.discountValue.toLocaleString()}`;
+
+export default function CouponsPage() {
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingCoupon, setEditingCoupon] = useState<Coupon | null>(null);
+  const [form, setForm] = useState<CouponForm>(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadCoupons();
+  }, []);
+
+  const loadCoupons = async () => {
+    try {
+      setIsLoading(true);
+      setCoupons(await apiService.getCoupons());
+    } catch (error) {
+      console.error('Failed to load coupons:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const filteredCoupons = coupons.filter((coupon) =>
+    coupon.code.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    coupon.description.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  const openCreate = () => {
+    setEditingCoupon(null);
+    setForm(emptyForm);
+    setError(null);
+    setIsModalOpen(true);
+  };
+
+  const openEdit = (coupon: Coupon) => {
+    setEditingCoupon(coupon);
+    setForm({
+      code: coupon.code,
+      description: coupon.description,
+      discountType: coupon.discountType,
+      discountValue: coupon.discountValue.toString(),
+      minOrderAmount: coupon.minOrderAmount?.toString() ?? '',
+      maxDiscountAmount: coupon.maxDiscountAmount?.toString() ?? '',
+      usageLimit: coupon.usageLimit?.toString() ?? '',
+      perBuyerLimit: coupon.perBuyerLimit?.toString() ?? '',
+      categoryIds: coupon.categoryIds.join(', '),
+      brandIds: coupon.brandIds.join(', '),
+      validFrom: toDateInput(coupon.validFrom),
+      validUntil: toDateInput(coupon.validUntil),
+      isActive: coupon.isActive,
+    });
+    setError(null);
+    setIsModalOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.code.trim() || !form.description.trim() || !form.discountValue) {
+      setError('Code, description and discount value are required');
+      return;
+    }
+    if (!form.validFrom || !form.validUntil) {
+      setError('Validity dates are required');
+      return;
+    }
+
+    const payload: CouponInput = {
+      code: form.code.trim().toUpperCase(),
+      description: form.description.trim(),
+      discountType: form.discountType,
+      discountValue: Number(form.discountValue),
+      minOrderAmount: toOptionalNumber(form.minOrderAmount),
+      maxDiscountAmount: toOptionalNumber(form.maxDiscountAmount),
+      usageLimit: toOptionalNumber(form.usageLimit),
+      perBuyerLimit: toOptionalNumber(form.perBuyerLimit),
+      categoryIds: toIdList(form.categoryIds),
+      brandIds: toIdList(form.brandIds),
+      validFrom: new Date(form.validFrom).toISOString(),
+      validUntil: new Date(`${form.validUntil}T23:59:59`).toISOString(),
+      isActive: form.isActive,
+    };
+
+    try {
+      setIsSaving(true);
+      const saved = editingCoupon
+        ? await apiService.updateCoupon(editingCoupon.id, payload)
+        : await apiService.createCoupon(payload);
+      setCoupons((prev) =>
+        editingCoupon
+          ? prev.map((coupon) => (coupon.id === saved.id ? saved : coupon))
+          : [saved, ...prev]
+      );
+      setIsModalOpen(false);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save coupon');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (coupon: Coupon) => {
+    if (!confirm(`Delete coupon ${coupon.code}?`)) return;
+
+    try {
+      await apiService.deleteCoupon(coupon.id);
+      setCoupons((prev) => prev.filter((c) => c.id !== coupon.id));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to delete coupon');
+    }
+  };
+
+  const updateForm = (field: keyof CouponForm, value: string | boolean) =>
+    setForm((prev) => ({ ...prev, [field]: value }));
+
+  const activeCount = coupons.filter((coupon) => getCouponStatus(coupon).label === 'Active').length;
+  const totalRedemptions = coupons.reduce((sum, coupon) => sum + coupon.usedCount, 0);
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-2xl font-semibold text-gray-900">Coupons</h1>
+            <p className="mt-1 text-sm text-gray-500">
+              Create and manage discount coupons for buyers
+            </p>
+          </div>
+          <button className="btn-primary flex items-center gap-2" onClick={openCreate}>
+            <PlusIcon className="h-4 w-4" />
+            New Coupon
+          </button>
+        </div>
+
+        {/* Stats Cards */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="card">
+            <h3 className="text-sm font-medium text-gray-500">Total Coupons</h3>
+            <p className="text-2xl font-bold text-gray-900">{coupons.length}</p>
+          </div>
+          <div className="card">
+            <h3 className="text-sm font-medium text-gray-500">Active</h3>
+            <p className="text-2xl font-bold text-green-600">{activeCount}</p>
+          </div>
+          <div className="card">
+            <h3 className="text-sm font-medium text-gray-500">Redemptions</h3>
+            <p className="text-2xl font-bold text-gray-900">{totalRedemptions}</p>
+          </div>
+        </div>
+
+        {/* Search */}
+        <div className="card p-4">
+          <div className="relative">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+              <MagnifyingGlassIcon className="h-5 w-5 text-gray-400" />
+            </div>
+            <input
+              type="text"
+              className="input-field pl-10"
+              placeholder="Search by code or description..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {/* Coupons Table */}
+        <div className="card overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Coupon
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Discount
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Min Order
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Usage
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Validity
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {isLoading ? (
+                  <tr>
+                    <td colSpan={7} className="px-6 py-8 text-center text-sm text-gray-500">
+                      Loading coupons...
+                    </td>
+                  </tr>
+                ) : (
+                  filteredCoupons.map((coupon) => {
+                    const status = getCouponStatus(coupon);
+                    return (
+                      <tr key={coupon.id} className="hover:bg-gray-50">
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="text-sm font-mono font-medium text-gray-900">{coupon.code}</div>
+                          <div className="text-sm text-gray-500">{coupon.description}</div>
+                          {(coupon.categoryIds.length > 0 || coupon.brandIds.length > 0) && (
+                            <div className="text-xs text-gray-400">
+                              Scoped to {coupon.categoryIds.length} categories, {coupon.brandIds.length} brands
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {formatDiscount(coupon)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {coupon.minOrderAmount ? `₹${coupon.minOrderAmount.toLocaleString()}` : '-'}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {coupon.usedCount}
+                          {coupon.usageLimit ? ` / ${coupon.usageLimit}` : ''}
+                          {coupon.perBuyerLimit && (
+                            <div className="text-xs text-gray-500">{coupon.perBuyerLimit} per buyer</div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {new Date(coupon.validFrom).toLocaleDateString()} –{' '}
+                          {new Date(coupon.validUntil).toLocaleDateString()}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${status.color}`}>
+                            {status.label}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                          <div className="flex gap-2">
+                            <button
+                              className="text-gray-600 hover:text-gray-900"
+                              title="Edit coupon"
+                              onClick={() => openEdit(coupon)}
+                            >
+                              <PencilIcon className="h-4 w-4" />
+                            </button>
+                            <button
+                              className="text-red-600 hover:text-red-900"
+                              title="Delete coupon"
+                              onClick={() => handleDelete(coupon)}
+                            >
+                              <TrashIcon className="h-4 w-4" />
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {/* Coupon Modal */}
+        {isModalOpen && (
+          <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+            <div className="relative top-20 mx-auto p-5 border w-11/12 md:w-2/3 lg:w-1/2 shadow-lg rounded-md bg-white">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-medium text-gray-900">
+                  {editingCoupon ? `Edit Coupon: ${editingCoupon.code}` : 'New Coupon'}
+                </h3>
+                <button
+                  onClick={() => setIsModalOpen(false)}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  <XCircleIcon className="h-6 w-6" />
+                </button>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Code</label>
+                  <input
+                    type="text"
+                    className="input-field uppercase"
+                    value={form.code}
+                    onChange={(e) => updateForm('code', e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Discount Type</label>
+                  <select
+                    className="input-field"
+                    value={form.discountType}
+                    onChange={(e) => updateForm('discountType', e.target.value)}
+                  >
+                    <option value="PERCENTAGE">Percentage</option>
+                    <option value="FIXED">Fixed Amount</option>
+                  </select>
+                </div>
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+                  <input
+                    type="text"
+                    className="input-field"
+                    value={form.description}
+                    onChange={(e) => updateForm('description', e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {form.discountType === 'PERCENTAGE' ? 'Discount (%)' : 'Discount (₹)'}
+                  </label>
+                  <input
+                    type="number"
+                    min={0}
+                    className="input-field"
+                    value={form.discountValue}
+                    onChange={(e) => updateForm('discountValue', e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Max Discount (₹)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    className="input-field"
+                    value={form.maxDiscountAmount}
+                    onChange={(e) => updateForm('maxDiscountAmount', e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Min Order (₹)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    className="input-field"
+                    value={form.minOrderAmount}
+                    onChange={(e) => updateForm('minOrderAmount', e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Total Usage Limit</label>
+                  <input
+                    type="number"
+                    min={1}
+                    className="input-field"
+                    value={form.usageLimit}
+                    onChange={(e) => updateForm('usageLimit', e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Per Buyer Limit</label>
+                  <input
+                    type="number"
+                    min={1}
+                    className="input-field"
+                    value={form.perBuyerLimit}
+                    onChange={(e) => updateForm('perBuyerLimit', e.target.value)}
+                  />
+                </div>
+                <div className="flex items-end">
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={form.isActive}
+                      onChange={(e) => updateForm('isActive', e.target.checked)}
+                    />
+                    Active
+                  </label>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Valid From</label>
+                  <input
+                    type="date"
+                    className="input-field"
+                    value={form.validFrom}
+                    onChange={(e) => updateForm('validFrom', e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Valid Until</label>
+                  <input
+                    type="date"
+                    className="input-field"
+                    value={form.validUntil}
+                    onChange={(e) => updateForm('validUntil', e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Category IDs</label>
+                  <input
+                    type="text"
+                    className="input-field"
+                    placeholder="Comma separated, blank for all"
+                    value={form.categoryIds}
+                    onChange={(e) => updateForm('categoryIds', e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Brand IDs</label>
+                  <input
+                    type="text"
+                    className="input-field"
+                    placeholder="Comma separated, blank for all"
+                    value={form.brandIds}
+                    onChange={(e) => updateForm('brandIds', e.target.value)}
+                  />
+                </div>
+              </div>
+
+              {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+              <div className="flex justify-end gap-2 mt-6">
+                <button className="btn-secondary" onClick={() => setIsModalOpen(false)}>
+                  Cancel
+                </button>
+                <button className="btn-primary" onClick={handleSave} disabled={isSaving}>
+                  {isSaving ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,375 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import DashboardLayout from '@/components/DashboardLayout';
+import apiService, { CreditAccount, CreditLedger } from '@/services/apiService';
+import {
+  MagnifyingGlassIcon,
+  PencilIcon,
+  DocumentTextIcon,
+  XCircleIcon,
+} from '@heroicons/react/24/outline';
+import { clsx } from 'clsx';
+
+const getKycColor = (status: string) => {
+  switch (status) {
+    case 'APPROVED':
+      return 'bg-green-100 text-green-800';
+    case 'PENDING':
+      return 'bg-yellow-100 text-yellow-800';
+    case 'REJECTED':
+      return 'bg-red-100 text-red-800';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+};
+
+const getUtilization = (account: CreditAccount) =>
+  account.creditLimit > 0 ? Math.min(100, Math.round((account.creditUsed / account.creditLimit) * 100)) : 0;
+
+export default function CreditPage() {
+  const [accounts, setAccounts] = useState<CreditAccount[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingAccount, setEditingAccount] = useState<CreditAccount | null>(null);
+  const [newLimit, setNewLimit] = useState('');
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [ledgerAccount, setLedgerAccount] = useState<CreditAccount | null>(null);
+  const [ledger, setLedger] = useState<CreditLedger | null>(null);
+
+  useEffect(() => {
+    loadAccounts();
+  }, []);
+
+  const loadAccounts = async () => {
+    try {
+      setIsLoading(true);
+      setAccounts(await apiService.getCreditAccounts());
+    } catch (error) {
+      console.error('Failed to load credit accounts:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const filteredAccounts = accounts.filter((account) =>
+    account.shopName.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    account.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    account.phone.includes(searchTerm)
+  );
+
+  const openEditor = (account: CreditAccount) => {
+    setEditingAccount(account);
+    setNewLimit(account.creditLimit.toString());
+    setReason('');
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    if (!editingAccount) return;
+
+    const creditLimit = Number(newLimit);
+    if (Number.isNaN(creditLimit) || creditLimit < 0) {
+      setError('Enter a valid credit limit');
+      return;
+    }
+    if (!reason.trim()) {
+      setError('A reason is required for the audit log');
+      return;
+    }
+
+    setIsSaving(true);
+    const saved = await apiService.updateCreditLimit(editingAccount.userId, creditLimit, reason.trim());
+    setIsSaving(false);
+
+    if (!saved) {
+      setError('Failed to update credit limit');
+      return;
+    }
+
+    setAccounts((prev) =>
+      prev.map((account) =>
+        account.userId === editingAccount.userId
+          ? {
+              ...account,
+              creditLimit,
+              availableCredit: Math.max(creditLimit - account.creditUsed, 0),
+            }
+          : account
+      )
+    );
+    setEditingAccount(null);
+  };
+
+  const openLedger = async (account: CreditAccount) => {
+    setLedgerAccount(account);
+    setLedger(await apiService.getCreditLedger(account.userId));
+  };
+
+  const totalLimit = accounts.reduce((sum, account) => sum + account.creditLimit, 0);
+  const totalUsed = accounts.reduce((sum, account) => sum + account.creditUsed, 0);
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">Buyer Credit</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Manage credit limits and review buyer ledgers
+          </p>
+        </div>
+
+        {/* Stats Cards */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="card">
+            <h3 className="text-sm font-medium text-gray-500">Total Credit Extended</h3>
+            <p className="text-2xl font-bold text-gray-900">₹{totalLimit.toLocaleString()}</p>
+          </div>
+          <div className="card">
+            <h3 className="text-sm font-medium text-gray-500">Outstanding</h3>
+            <p className="text-2xl font-bold text-red-600">₹{totalUsed.toLocaleString()}</p>
+          </div>
+          <div className="card">
+            <h3 className="text-sm font-medium text-gray-500">Available</h3>
+            <p className="text-2xl font-bold text-green-600">
+              ₹{Math.max(totalLimit - totalUsed, 0).toLocaleString()}
+            </p>
+          </div>
+        </div>
+
+        {/* Search */}
+        <div className="card p-4">
+          <div className="relative">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+              <MagnifyingGlassIcon className="h-5 w-5 text-gray-400" />
+            </div>
+            <input
+              type="text"
+              className="input-field pl-10"
+              placeholder="Search by shop name, buyer or phone..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {/* Accounts Table */}
+        <div className="card overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Buyer
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    KYC
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Limit
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Used
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Available
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Utilization
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {isLoading ? (
+                  <tr>
+                    <td colSpan={7} className="px-6 py-8 text-center text-sm text-gray-500">
+                      Loading credit accounts...
+                    </td>
+                  </tr>
+                ) : (
+                  filteredAccounts.map((account) => (
+                    <tr key={account.userId} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900">{account.shopName}</div>
+                        <div className="text-sm text-gray-500">
+                          {account.name} · {account.phone}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getKycColor(account.kycStatus)}`}>
+                          {account.kycStatus}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        ₹{account.creditLimit.toLocaleString()}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        ₹{account.creditUsed.toLocaleString()}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        ₹{account.availableCredit.toLocaleString()}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="w-32 bg-gray-200 rounded-full h-2">
+                          <div
+                            className={clsx(
+                              'h-2 rounded-full',
+                              getUtilization(account) >= 90 ? 'bg-red-500' : 'bg-primary-600'
+                            )}
+                            style={{ width: `${getUtilization(account)}%` }}
+                          />
+                        </div>
+                        <div className="text-xs text-gray-500 mt-1">{getUtilization(account)}%</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                        <div className="flex gap-2">
+                          <button
+                            className="text-primary-600 hover:text-primary-900"
+                            title="View ledger"
+                            onClick={() => openLedger(account)}
+                          >
+                            <DocumentTextIcon className="h-4 w-4" />
+                          </button>
+                          <button
+                            className="text-gray-600 hover:text-gray-900"
+                            title="Adjust limit"
+                            onClick={() => openEditor(account)}
+                          >
+                            <PencilIcon className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {/* Adjust Limit Modal */}
+        {editingAccount && (
+          <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+            <div className="relative top-20 mx-auto p-5 border w-11/12 md:w-1/2 lg:w-1/3 shadow-lg rounded-md bg-white">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-medium text-gray-900">
+                  Adjust Credit Limit: {editingAccount.shopName}
+                </h3>
+                <button
+                  onClick={() => setEditingAccount(null)}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  <XCircleIcon className="h-6 w-6" />
+                </button>
+              </div>
+
+              <div className="space-y-4">
+                <p className="text-sm text-gray-500">
+                  Currently used: ₹{editingAccount.creditUsed.toLocaleString()}
+                </p>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    New Credit Limit (₹)
+                  </label>
+                  <input
+                    type="number"
+                    min={0}
+                    className="input-field"
+                    value={newLimit}
+                    onChange={(e) => setNewLimit(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Reason
+                  </label>
+                  <textarea
+                    className="input-field"
+                    rows={3}
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                  />
+                </div>
+                {error && <p className="text-sm text-red-600">{error}</p>}
+                <div className="flex justify-end gap-2">
+                  <button className="btn-secondary" onClick={() => setEditingAccount(null)}>
+                    Cancel
+                  </button>
+                  <button className="btn-primary" onClick={handleSave} disabled={isSaving}>
+                    {isSaving ? 'Saving...' : 'Save'}
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Ledger Modal */}
+        {ledgerAccount && (
+          <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+            <div className="relative top-20 mx-auto p-5 border w-11/12 md:w-3/4 shadow-lg rounded-md bg-white">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-medium text-gray-900">
+                  Credit Ledger: {ledgerAccount.shopName}
+                </h3>
+                <button
+                  onClick={() => {
+                    setLedgerAccount(null);
+                    setLedger(null);
+                  }}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  <XCircleIcon className="h-6 w-6" />
+                </button>
+              </div>
+
+              {ledger ? (
+                <div className="space-y-4">
+                  <div className="flex gap-6 text-sm text-gray-700">
+                    <span>Opening: ₹{ledger.openingBalance.toLocaleString()}</span>
+                    <span>Closing: ₹{ledger.closingBalance.toLocaleString()}</span>
+                    <span>Available: ₹{ledger.availableCredit.toLocaleString()}</span>
+                  </div>
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200 text-sm">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-4 py-2 text-left font-medium text-gray-500">Date</th>
+                          <th className="px-4 py-2 text-left font-medium text-gray-500">Type</th>
+                          <th className="px-4 py-2 text-left font-medium text-gray-500">Reference</th>
+                          <th className="px-4 py-2 text-right font-medium text-gray-500">Debit</th>
+                          <th className="px-4 py-2 text-right font-medium text-gray-500">Credit</th>
+                          <th className="px-4 py-2 text-right font-medium text-gray-500">Balance</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200">
+                        {ledger.entries.map((entry) => (
+                          <tr key={entry.id}>
+                            <td className="px-4 py-2">{new Date(entry.date).toLocaleDateString()}</td>
+                            <td className="px-4 py-2">{entry.type}</td>
+                            <td className="px-4 py-2">{entry.orderNumber || entry.reference || '-'}</td>
+                            <td className="px-4 py-2 text-right">{entry.debit ? `₹${entry.debit.toLocaleString()}` : '-'}</td>
+                            <td className="px-4 py-2 text-right">{entry.credit ? `₹${entry.credit.toLocaleString()}` : '-'}</td>
+                            <td className="px-4 py-2 text-right">₹{entry.balance.toLocaleString()}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">No ledger entries available.</p>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,336 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import DashboardLayout from '@/components/DashboardLayout';
+import apiService, { KycApplicant, KycDocument, KycDocumentType, KycHistory } from '@/services/apiService';
+import { CheckCircleIcon, EyeIcon, XCircleIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+const DOCUMENT_LABELS: Record<KycDocumentType, string> = {
+  GST_CERTIFICATE: 'GST certificate',
+  SHOP_PHOTO: 'Shop photo',
+  PAN: 'PAN card',
+  DRIVING_LICENSE: 'Driving license',
+  VEHICLE_RC: 'Vehicle RC',
+};
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'APPROVED':
+      return 'bg-green-100 text-green-800';
+    case 'REJECTED':
+      return 'bg-red-100 text-red-800';
+    default:
+      return 'bg-yellow-100 text-yellow-800';
+  }
+};
+
+export default function KycReviewPage() {
+  const [applicants, setApplicants] = useState<KycApplicant[]>([]);
+  const [roleFilter, setRoleFilter] = useState<'BUYER' | 'DRIVER' | ''>('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [selected, setSelected] = useState<KycHistory | null>(null);
+  const [rejecting, setRejecting] = useState<KycDocument | null>(null);
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadApplicants();
+  }, []);
+
+  const loadApplicants = async () => {
+    try {
+      setIsLoading(true);
+      setApplicants(await apiService.getPendingKyc());
+    } catch (error) {
+      console.error('Failed to load pending KYC:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openApplicant = async (userId: string) => {
+    setError(null);
+    setRejecting(null);
+    const history = await apiService.getKycHistory(userId);
+    if (!history) {
+      alert('Failed to load KYC documents');
+      return;
+    }
+    setSelected(history);
+  };
+
+  const closeApplicant = () => {
+    setSelected(null);
+    loadApplicants();
+  };
+
+  const viewDocument = async (document: KycDocument) => {
+    try {
+      window.open(await apiService.getKycDocumentUrl(document.id), '_blank');
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to load document');
+    }
+  };
+
+  const review = async (document: KycDocument, status: 'APPROVED' | 'REJECTED') => {
+    if (!selected) return;
+    if (status === 'REJECTED' && !reason.trim()) {
+      setError('A reason is required when rejecting a document');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      await apiService.reviewKycDocument(document.id, status, status === 'REJECTED' ? reason.trim() : undefined);
+      setRejecting(null);
+      setReason('');
+      const history = await apiService.getKycHistory(selected.id);
+      if (history) setSelected(history);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to review document');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const filteredApplicants = applicants.filter((applicant) => !roleFilter || applicant.role === roleFilter);
+  const currentDocuments = selected?.documents.filter((document) => !document.supersededAt) || [];
+  const previousDocuments = selected?.documents.filter((document) => document.supersededAt) || [];
+  const profileStatus = selected?.buyerProfile?.kycStatus || selected?.driverProfile?.kycStatus;
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-semibold text-gray-900">KYC Review</h1>
+            <p className="mt-1 text-sm text-gray-500">
+              Verify buyer and driver documents before credit orders and delivery assignments
+            </p>
+          </div>
+          <select
+            className="input-field w-40"
+            value={roleFilter}
+            onChange={(e) => setRoleFilter(e.target.value as 'BUYER' | 'DRIVER' | '')}
+          >
+            <option value="">All users</option>
+            <option value="BUYER">Buyers</option>
+            <option value="DRIVER">Drivers</option>
+          </select>
+        </div>
+
+        {/* Pending Applicants */}
+        <div className="card overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    User
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Role
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Documents
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Submitted
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {isLoading ? (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-8 text-center text-sm text-gray-500">
+                      Loading KYC applications...
+                    </td>
+                  </tr>
+                ) : filteredApplicants.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-8 text-center text-sm text-gray-500">
+                      No documents awaiting review
+                    </td>
+                  </tr>
+                ) : (
+                  filteredApplicants.map((applicant) => (
+                    <tr key={applicant.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900">
+                          {applicant.buyerProfile?.shopName || applicant.name}
+                        </div>
+                        <div className="text-sm text-gray-500">{applicant.phone}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{applicant.role}</td>
+                      <td className="px-6 py-4">
+                        <div className="flex flex-wrap gap-1">
+                          {applicant.kycDocuments.map((document) => (
+                            <span
+                              key={document.id}
+                              className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(document.status)}`}
+                            >
+                              {DOCUMENT_LABELS[document.type]}
+                            </span>
+                          ))}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {applicant.kycDocuments[0] ? new Date(applicant.kycDocuments[0].createdAt).toLocaleDateString() : '-'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                        <button
+                          className="text-primary-600 hover:text-primary-900"
+                          title="Review"
+                          onClick={() => openApplicant(applicant.id)}
+                        >
+                          <EyeIcon className="h-5 w-5" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {/* Review Modal */}
+        {selected && (
+          <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+            <div className="relative top-20 mx-auto p-5 border w-11/12 md:w-2/3 lg:w-1/2 shadow-lg rounded-md bg-white">
+              <div className="flex items-center justify-between mb-4">
+                <div>
+                  <h3 className="text-lg font-medium text-gray-900">
+                    {selected.buyerProfile?.shopName || selected.name}
+                  </h3>
+                  <p className="text-sm text-gray-500">
+                    {selected.phone}
+                    {selected.buyerProfile?.gstin && ` · GSTIN ${selected.buyerProfile.gstin}`}
+                    {selected.driverProfile && ` · ${selected.driverProfile.vehicleNumber}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3">
+                  {profileStatus && (
+                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(profileStatus)}`}>
+                      {profileStatus}
+                    </span>
+                  )}
+                  <button onClick={closeApplicant} className="text-gray-400 hover:text-gray-600">
+                    <XMarkIcon className="h-6 w-6" />
+                  </button>
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                {currentDocuments.map((document) => (
+                  <div key={document.id} className="border rounded-md p-3">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <div className="text-sm font-medium text-gray-900">{DOCUMENT_LABELS[document.type]}</div>
+                        <div className="text-xs text-gray-500">
+                          {document.documentNumber || document.fileName} · uploaded{' '}
+                          {new Date(document.createdAt).toLocaleDateString()}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(document.status)}`}>
+                          {document.status}
+                        </span>
+                        <button className="text-gray-600 hover:text-gray-900" title="View" onClick={() => viewDocument(document)}>
+                          <EyeIcon className="h-5 w-5" />
+                        </button>
+                        {document.status !== 'APPROVED' && (
+                          <button
+                            className="text-green-600 hover:text-green-900"
+                            title="Approve"
+                            disabled={isSaving}
+                            onClick={() => review(document, 'APPROVED')}
+                          >
+                            <CheckCircleIcon className="h-5 w-5" />
+                          </button>
+                        )}
+                        {document.status !== 'REJECTED' && (
+                          <button
+                            className="text-red-600 hover:text-red-900"
+                            title="Reject"
+                            onClick={() => {
+                              setRejecting(document);
+                              setReason('');
+                              setError(null);
+                            }}
+                          >
+                            <XCircleIcon className="h-5 w-5" />
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                    {document.rejectionReason && (
+                      <p className="text-xs text-red-600 mt-1">Rejected: {document.rejectionReason}</p>
+                    )}
+                    {document.reviews && document.reviews.length > 0 && (
+                      <ul className="mt-2 text-xs text-gray-500 space-y-1">
+                        {document.reviews.map((entry) => (
+                          <li key={entry.id}>
+                            {new Date(entry.createdAt).toLocaleString()}: {entry.status}
+                            {entry.reason && ` (${entry.reason})`}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {rejecting?.id === document.id && (
+                      <div className="mt-3 space-y-2">
+                        <textarea
+                          className="input-field"
+                          rows={2}
+                          placeholder="Reason shown to the user"
+                          value={reason}
+                          onChange={(e) => setReason(e.target.value)}
+                        />
+                        <div className="flex justify-end gap-2">
+                          <button className="btn-secondary" onClick={() => setRejecting(null)}>
+                            Cancel
+                          </button>
+                          <button className="btn-primary" disabled={isSaving} onClick={() => review(document, 'REJECTED')}>
+                            {isSaving ? 'Saving...' : 'Reject'}
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                ))}
+
+                {error && <p className="text-sm text-red-600">{error}</p>}
+
+                {previousDocuments.length > 0 && (
+                  <div>
+                    <h4 className="text-sm font-medium text-gray-700 mb-2">Previous uploads</h4>
+                    <ul className="text-xs text-gray-500 space-y-1">
+                      {previousDocuments.map((document) => (
+                        <li key={document.id} className="flex items-center justify-between">
+                          <span>
+                            {DOCUMENT_LABELS[document.type]} · {new Date(document.createdAt).toLocaleDateString()} ·{' '}
+                            {document.status}
+                            {document.rejectionReason && ` (${document.rejectionReason})`}
+                          </span>
+                          <button className="text-primary-600 hover:text-primary-900" onClick={() => viewDocument(document)}>
+                            View
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -22,61 +22,83 @@ const categories = [
   'Automotive',
 ];
 
-const products = [
+interface ProductVariantRow {
+  id: string;
+  name: string;
+  sku: string;
+  price: number;
+  mrp: number;
+  stock: number;
+}
+
+interface ProductRow {
+  id: string;
+  name: string;
+  category: string;
+  status: string;
+  image: string;
+  createdAt: string;
+  variants: ProductVariantRow[];
+}
+
+const products: ProductRow[] = [
   {
     id: 'PRD-001',
     name: 'Samsung Galaxy S24',
     category: 'Electronics',
-    price: 79999,
-    stock: 45,
     status: 'Active',
     image: '/api/placeholder/60/60',
-    sku: 'SAM-S24-128',
     createdAt: '2024-01-10',
+    variants: [
+      { id: 'VAR-001', name: '128 GB', sku: 'SAM-S24-128', price: 79999, mrp: 84999, stock: 45 },
+      { id: 'VAR-002', name: '256 GB', sku: 'SAM-S24-256', price: 89999, mrp: 94999, stock: 12 },
+    ],
   },
   {
     id: 'PRD-002',
     name: 'Nike Air Max 270',
     category: 'Sports',
-    price: 12999,
-    stock: 23,
     status: 'Active',
     image: '/api/placeholder/60/60',
-    sku: 'NIK-AM270-BLK',
     createdAt: '2024-01-08',
+    variants: [
+      { id: 'VAR-003', name: 'Black / UK 8', sku: 'NIK-AM270-BLK-8', price: 12999, mrp: 14999, stock: 15 },
+      { id: 'VAR-004', name: 'Black / UK 9', sku: 'NIK-AM270-BLK-9', price: 12999, mrp: 14999, stock: 8 },
+    ],
   },
   {
     id: 'PRD-003',
     name: 'MacBook Pro 14"',
     category: 'Electronics',
-    price: 199999,
-    stock: 8,
     status: 'Low Stock',
     image: '/api/placeholder/60/60',
-    sku: 'APL-MBP14-M3',
     createdAt: '2024-01-05',
+    variants: [
+      { id: 'VAR-005', name: 'Default', sku: 'APL-MBP14-M3', price: 199999, mrp: 199999, stock: 8 },
+    ],
   },
   {
     id: 'PRD-004',
     name: 'Levi\'s 501 Jeans',
     category: 'Clothing',
-    price: 4999,
-    stock: 67,
     status: 'Active',
     image: '/api/placeholder/60/60',
-    sku: 'LEV-501-BLU-32',
     createdAt: '2024-01-03',
+    variants: [
+      { id: 'VAR-006', name: 'Blue / 32', sku: 'LEV-501-BLU-32', price: 4999, mrp: 5999, stock: 40 },
+      { id: 'VAR-007', name: 'Blue / 34', sku: 'LEV-501-BLU-34', price: 4999, mrp: 5999, stock: 27 },
+    ],
   },
   {
     id: 'PRD-005',
     name: 'Sony WH-1000XM5',
     category: 'Electronics',
-    price: 29999,
-    stock: 0,
     status: 'Out of Stock',
     image: '/api/placeholder/60/60',
-    sku: 'SON-WH1000XM5',
     createdAt: '2024-01-01',
+    variants: [
+      { id: 'VAR-008', name: 'Default', sku: 'SON-WH1000XM5', price: 29999, mrp: 34990, stock: 0 },
+    ],
   },
 ];
 
@@ -99,10 +121,14 @@ export default function ProductsPage() {
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('All Categories');
   const [showFilters, setShowFilters] = useState(false);
+  const [selectedVariants, setSelectedVariants] = useState<Record<string, string>>({});
+
+  const getSelectedVariant = (product: ProductRow) =>
+    product.variants.find((variant) => variant.id === selectedVariants[product.id]) ?? product.variants[0];
 
   const filteredProducts = products.filter((product) => {
     const matchesSearch = product.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         product.sku.toLowerCase().includes(searchTerm.toLowerCase());
+                         product.variants.some((variant) => variant.sku.toLowerCase().includes(searchTerm.toLowerCase()));
     const matchesCategory = selectedCategory === 'All Categories' || product.category === selectedCategory;
     return matchesSearch && matchesCategory;
   });
@@ -234,6 +260,9 @@ export default function ProductsPage() {
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Product
                   </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Variant
+                  </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     SKU
                   </th>
@@ -255,7 +284,9 @@ export default function ProductsPage() {
                 </tr>
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
-                {filteredProducts.map((product) => (
+                {filteredProducts.map((product) => {
+                  const variant = getSelectedVariant(product);
+                  return (
                   <tr key={product.id} className="hover:bg-gray-50">
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="flex items-center">
@@ -275,16 +306,40 @@ export default function ProductsPage() {
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {product.sku}
+                      {product.variants.length > 1 ? (
+                        <select
+                          className="input-field py-1 text-sm"
+                          value={variant.id}
+                          onChange={(e) =>
+                            setSelectedVariants((prev) => ({ ...prev, [product.id]: e.target.value }))
+                          }
+                        >
+                          {product.variants.map((option) => (
+                            <option key={option.id} value={option.id}>
+                              {option.name}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        variant.name
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {variant.sku}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                       {product.category}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      ₹{product.price.toLocaleString()}
+                      ₹{variant.price.toLocaleString()}
+                      {variant.mrp > variant.price && (
+                        <div className="text-xs text-gray-500 line-through">
+                          ₹{variant.mrp.toLocaleString()}
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {product.stock}
+                      {variant.stock}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(product.status)}`}>
@@ -305,7 +360,8 @@ export default function ProductsPage() {
                       </div>
                     </td>
                   </tr>
-                ))}
+                  );
+                })}
               </tbody>
             </table>
           </div>
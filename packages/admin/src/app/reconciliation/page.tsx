@@ -0,0 +1,358 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import DashboardLayout from '@/components/DashboardLayout';
+import apiService, { ReconciliationRun, ReconciliationException } from '@/services/apiService';
+import { ArrowUpTrayIcon, CheckCircleIcon, XCircleIcon } from '@heroicons/react/24/outline';
+
+const EXCEPTION_LABELS: Record<ReconciliationException['type'], string> = {
+  MISSING_IN_SETTLEMENT: 'Missing in settlement',
+  DUPLICATE: 'Duplicate',
+  AMOUNT_MISMATCH: 'Amount mismatch',
+  GATEWAY_ONLY: 'Gateway only',
+};
+
+const getExceptionColor = (type: ReconciliationException['type']) => {
+  switch (type) {
+    case 'MISSING_IN_SETTLEMENT':
+      return 'bg-red-100 text-red-800';
+    case 'AMOUNT_MISMATCH':
+      return 'bg-yellow-100 text-yellow-800';
+    case 'DUPLICATE':
+      return 'bg-purple-100 text-purple-800';
+    default:
+      return 'bg-blue-100 text-blue-800';
+  }
+};
+
+const formatAmount = (amount?: number | null) => (amount !== null && amount !== undefined ? `₹${amount.toLocaleString()}` : '-');
+
+export default function ReconciliationPage() {
+  const [runs, setRuns] = useState<ReconciliationRun[]>([]);
+  const [exceptions, setExceptions] = useState<ReconciliationException[]>([]);
+  const [statusFilter, setStatusFilter] = useState<ReconciliationException['status'] | ''>('OPEN');
+  const [isLoading, setIsLoading] = useState(true);
+  const [periodStart, setPeriodStart] = useState('');
+  const [periodEnd, setPeriodEnd] = useState('');
+  const [isUploading, setIsUploading] = useState(false);
+  const [resolving, setResolving] = useState<ReconciliationException | null>(null);
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      setIsLoading(true);
+      const [runList, exceptionList] = await Promise.all([
+        apiService.getReconciliationRuns(),
+        apiService.getReconciliationExceptions(),
+      ]);
+      setRuns(runList);
+      setExceptions(exceptionList);
+    } catch (error) {
+      console.error('Failed to load reconciliation data:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setIsUploading(true);
+      await apiService.uploadSettlementReport(file, periodStart || undefined, periodEnd || undefined);
+      await loadData();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to reconcile settlement report');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const openResolve = (exception: ReconciliationException) => {
+    setResolving(exception);
+    setNote('');
+    setError(null);
+  };
+
+  const handleResolve = async () => {
+    if (!resolving) return;
+    if (!note.trim()) {
+      setError('A note is required for the audit log');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await apiService.resolveReconciliationException(resolving.id, note.trim());
+      setResolving(null);
+      await loadData();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to resolve exception');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const filteredExceptions = exceptions.filter((exception) => !statusFilter || exception.status === statusFilter);
+  const lastRun = runs[0];
+  const openCount = exceptions.filter((exception) => exception.status === 'OPEN').length;
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-semibold text-gray-900">Payment Reconciliation</h1>
+            <p className="mt-1 text-sm text-gray-500">
+              Match gateway settlements against captured payments and resolve exceptions
+            </p>
+          </div>
+          <div className="flex items-end gap-2">
+            <div>
+              <label className="block text-xs font-medium text-gray-500 mb-1">Period start</label>
+              <input
+                type="date"
+                className="input-field"
+                value={periodStart}
+                onChange={(e) => setPeriodStart(e.target.value)}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-500 mb-1">Period end</label>
+              <input
+                type="date"
+                className="input-field"
+                value={periodEnd}
+                onChange={(e) => setPeriodEnd(e.target.value)}
+              />
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={handleUpload}
+            />
+            <button
+              className="btn-primary flex items-center gap-2"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isUploading}
+            >
+              <ArrowUpTrayIcon className="h-4 w-4" />
+              {isUploading ? 'Reconciling...' : 'Upload Settlement CSV'}
+            </button>
+          </div>
+        </div>
+
+        {/* Stats Cards */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="card">
+            <h3 className="text-sm font-medium text-gray-500">Last Run</h3>
+            <p className="text-2xl font-bold text-gray-900">
+              {lastRun ? new Date(lastRun.createdAt).toLocaleDateString() : '-'}
+            </p>
+            {lastRun && (
+              <p className="text-xs text-gray-500">
+                {lastRun.matchedCount} matched of {lastRun.totalRows} rows
+              </p>
+            )}
+          </div>
+          <div className="card">
+            <h3 className="text-sm font-medium text-gray-500">Settled (last run)</h3>
+            <p className="text-2xl font-bold text-green-600">{formatAmount(lastRun?.settledAmount)}</p>
+          </div>
+          <div className="card">
+            <h3 className="text-sm font-medium text-gray-500">Open Exceptions</h3>
+            <p className="text-2xl font-bold text-red-600">{openCount}</p>
+          </div>
+        </div>
+
+        {/* Runs */}
+        <div className="card overflow-hidden">
+          <h2 className="text-lg font-medium text-gray-900 mb-4">Recent Runs</h2>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Date</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Source</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Status</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">Rows</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">Matched</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">Exceptions</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">Settled</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {runs.map((run) => (
+                  <tr key={run.id}>
+                    <td className="px-4 py-2">{new Date(run.createdAt).toLocaleString()}</td>
+                    <td className="px-4 py-2">{run.fileName || (run.source === 'GATEWAY_API' ? 'Gateway API' : 'CSV upload')}</td>
+                    <td className="px-4 py-2">
+                      <span className={run.status === 'FAILED' ? 'text-red-600' : 'text-green-600'} title={run.failureReason || undefined}>
+                        {run.status}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2 text-right">{run.totalRows}</td>
+                    <td className="px-4 py-2 text-right">{run.matchedCount}</td>
+                    <td className="px-4 py-2 text-right">{run.exceptionCount}</td>
+                    <td className="px-4 py-2 text-right">{formatAmount(run.settledAmount)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {/* Exceptions */}
+        <div className="card overflow-hidden">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-medium text-gray-900">Exceptions</h2>
+            <select
+              className="input-field w-40"
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as ReconciliationException['status'] | '')}
+            >
+              <option value="OPEN">Open</option>
+              <option value="RESOLVED">Resolved</option>
+              <option value="">All</option>
+            </select>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Type
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Payment
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Expected
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Settled
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Details
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {isLoading ? (
+                  <tr>
+                    <td colSpan={6} className="px-6 py-8 text-center text-sm text-gray-500">
+                      Loading exceptions...
+                    </td>
+                  </tr>
+                ) : filteredExceptions.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="px-6 py-8 text-center text-sm text-gray-500">
+                      No exceptions
+                    </td>
+                  </tr>
+                ) : (
+                  filteredExceptions.map((exception) => (
+                    <tr key={exception.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getExceptionColor(exception.type)}`}>
+                          {EXCEPTION_LABELS[exception.type]}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900">{exception.razorpayPaymentId || '-'}</div>
+                        {exception.payment && (
+                          <div className="text-sm text-gray-500">{exception.payment.order.orderNumber}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {formatAmount(exception.expectedAmount)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {formatAmount(exception.settledAmount)}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-500">
+                        {exception.details}
+                        {exception.resolutionNote && (
+                          <div className="text-xs text-green-700 mt-1">Resolved: {exception.resolutionNote}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                        {exception.status === 'OPEN' && (
+                          <button
+                            className="text-primary-600 hover:text-primary-900"
+                            title="Resolve"
+                            onClick={() => openResolve(exception)}
+                          >
+                            <CheckCircleIcon className="h-5 w-5" />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {/* Resolve Modal */}
+        {resolving && (
+          <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+            <div className="relative top-20 mx-auto p-5 border w-11/12 md:w-1/2 lg:w-1/3 shadow-lg rounded-md bg-white">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-medium text-gray-900">
+                  Resolve: {EXCEPTION_LABELS[resolving.type]}
+                </h3>
+                <button
+                  onClick={() => setResolving(null)}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  <XCircleIcon className="h-6 w-6" />
+                </button>
+              </div>
+
+              <div className="space-y-4">
+                <p className="text-sm text-gray-500">{resolving.details}</p>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Resolution note
+                  </label>
+                  <textarea
+                    className="input-field"
+                    rows={3}
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                  />
+                </div>
+                {error && <p className="text-sm text-red-600">{error}</p>}
+                <div className="flex justify-end gap-2">
+                  <button className="btn-secondary" onClick={() => setResolving(null)}>
+                    Cancel
+                  </button>
+                  <button className="btn-primary" onClick={handleResolve} disabled={isSaving}>
+                    {isSaving ? 'Saving...' : 'Resolve'}
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
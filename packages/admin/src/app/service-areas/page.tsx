@@ -0,0 +1,447 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import DashboardLayout from '@/components/DashboardLayout';
+import apiService, { ServiceArea, ServiceAreaInput, ServiceAreaImportResult } from '@/services/apiService';
+import {
+  MagnifyingGlassIcon,
+  PlusIcon,
+  PencilIcon,
+  TrashIcon,
+  XCircleIcon,
+  ArrowUpTrayIcon,
+} from '@heroicons/react/24/outline';
+
+interface ServiceAreaForm {
+  pincode: string;
+  city: string;
+  state: string;
+  deliveryFee: string;
+  freeDeliveryThreshold: string;
+  etaHours: string;
+  isActive: boolean;
+}
+
+const emptyForm: ServiceAreaForm = {
+  pincode: '',
+  city: '',
+  state: '',
+  deliveryFee: '',
+  freeDeliveryThreshold: '',
+  etaHours: '24',
+  isActive: true,
+};
+
+export default function ServiceAreasPage() {
+  const [serviceAreas, setServiceAreas] = useState<ServiceArea[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingArea, setEditingArea] = useState<ServiceArea | null>(null);
+  const [form, setForm] = useState<ServiceAreaForm>(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importResult, setImportResult] = useState<ServiceAreaImportResult | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    loadServiceAreas();
+  }, []);
+
+  const loadServiceAreas = async () => {
+    try {
+      setIsLoading(true);
+      setServiceAreas(await apiService.getServiceAreas());
+    } catch (error) {
+      console.error('Failed to load service areas:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const filteredAreas = serviceAreas.filter((area) =>
+    area.pincode.includes(searchTerm) ||
+    area.city.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    area.state.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  const openCreate = () => {
+    setEditingArea(null);
+    setForm(emptyForm);
+    setError(null);
+    setIsModalOpen(true);
+  };
+
+  const openEdit = (area: ServiceArea) => {
+    setEditingArea(area);
+    setForm({
+      pincode: area.pincode,
+      city: area.city,
+      state: area.state,
+      deliveryFee: area.deliveryFee.toString(),
+      freeDeliveryThreshold: area.freeDeliveryThreshold?.toString() ?? '',
+      etaHours: area.etaHours.toString(),
+      isActive: area.isActive,
+    });
+    setError(null);
+    setIsModalOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!/^[1-9][0-9]{5}$/.test(form.pincode.trim())) {
+      setError('Enter a valid 6-digit pincode');
+      return;
+    }
+    if (!form.city.trim() || !form.state.trim() || form.deliveryFee === '') {
+      setError('City, state and delivery fee are required');
+      return;
+    }
+
+    const payload: ServiceAreaInput = {
+      pincode: form.pincode.trim(),
+      city: form.city.trim(),
+      state: form.state.trim(),
+      deliveryFee: Number(form.deliveryFee),
+      freeDeliveryThreshold: form.freeDeliveryThreshold.trim() === '' ? null : Number(form.freeDeliveryThreshold),
+      etaHours: Number(form.etaHours),
+      isActive: form.isActive,
+    };
+
+    try {
+      setIsSaving(true);
+      const saved = editingArea
+        ? await apiService.updateServiceArea(editingArea.id, payload)
+        : await apiService.createServiceArea(payload);
+      setServiceAreas((prev) =>
+        editingArea
+          ? prev.map((area) => (area.id === saved.id ? saved : area))
+          : [...prev, saved].sort((a, b) => a.pincode.localeCompare(b.pincode))
+      );
+      setIsModalOpen(false);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save service area');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (area: ServiceArea) => {
+    if (!confirm(`Delete service area ${area.pincode}?`)) return;
+
+    try {
+      await apiService.deleteServiceArea(area.id);
+      setServiceAreas((prev) => prev.filter((a) => a.id !== area.id));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to delete service area');
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setIsImporting(true);
+      setImportResult(await apiService.importServiceAreas(file));
+      await loadServiceAreas();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to import service areas');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const updateForm = (field: keyof ServiceAreaForm, value: string | boolean) =>
+    setForm((prev) => ({ ...prev, [field]: value }));
+
+  const activeCount = serviceAreas.filter((area) => area.isActive).length;
+  const freeDeliveryCount = serviceAreas.filter((area) => area.freeDeliveryThreshold != null).length;
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-2xl font-semibold text-gray-900">Service Areas</h1>
+            <p className="mt-1 text-sm text-gray-500">
+              Manage serviceable pincodes, delivery fees and delivery times
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={handleImport}
+            />
+            <button
+              className="btn-secondary flex items-center gap-2"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isImporting}
+            >
+              <ArrowUpTrayIcon className="h-4 w-4" />
+              {isImporting ? 'Importing...' : 'Import CSV'}
+            </button>
+            <button className="btn-primary flex items-center gap-2" onClick={openCreate}>
+              <PlusIcon className="h-4 w-4" />
+              New Service Area
+            </button>
+          </div>
+        </div>
+
+        {/* Import Result */}
+        {importResult && (
+          <div className="card p-4">
+            <div className="flex items-start justify-between">
+              <div className="text-sm text-gray-700">
+                Imported {importResult.created} new and updated {importResult.updated} existing service areas.
+                {importResult.failed.length > 0 && (
+                  <ul className="mt-2 text-red-600">
+                    {importResult.failed.map((failure) => (
+                      <li key={failure.line}>
+                        Line {failure.line}: {failure.error}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <p className="mt-2 text-xs text-gray-500">
+                  Columns: pincode, city, state, deliveryFee, etaHours, freeDeliveryThreshold, isActive
+                </p>
+              </div>
+              <button onClick={() => setImportResult(null)} className="text-gray-400 hover:text-gray-600">
+                <XCircleIcon className="h-5 w-5" />
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Stats Cards */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="card">
+            <h3 className="text-sm font-medium text-gray-500">Total Pincodes</h3>
+            <p className="text-2xl font-bold text-gray-900">{serviceAreas.length}</p>
+          </div>
+          <div className="card">
+            <h3 className="text-sm font-medium text-gray-500">Serviceable</h3>
+            <p className="text-2xl font-bold text-green-600">{activeCount}</p>
+          </div>
+          <div className="card">
+            <h3 className="text-sm font-medium text-gray-500">With Free Delivery</h3>
+            <p className="text-2xl font-bold text-gray-900">{freeDeliveryCount}</p>
+          </div>
+        </div>
+
+        {/* Search */}
+        <div className="card p-4">
+          <div className="relative">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+              <MagnifyingGlassIcon className="h-5 w-5 text-gray-400" />
+            </div>
+            <input
+              type="text"
+              className="input-field pl-10"
+              placeholder="Search by pincode, city or state..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {/* Service Areas Table */}
+        <div className="card overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Pincode
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Location
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Delivery Fee
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Free Above
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    ETA
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {isLoading ? (
+                  <tr>
+                    <td colSpan={7} className="px-6 py-8 text-center text-sm text-gray-500">
+                      Loading service areas...
+                    </td>
+                  </tr>
+                ) : (
+                  filteredAreas.map((area) => (
+                    <tr key={area.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-mono font-medium text-gray-900">
+                        {area.pincode}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm text-gray-900">{area.city}</div>
+                        <div className="text-sm text-gray-500">{area.state}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        ₹{area.deliveryFee.toLocaleString()}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {area.freeDeliveryThreshold != null ? `₹${area.freeDeliveryThreshold.toLocaleString()}` : '-'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {area.etaHours}h
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span
+                          className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                            area.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                          }`}
+                        >
+                          {area.isActive ? 'Active' : 'Inactive'}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                        <div className="flex gap-2">
+                          <button
+                            className="text-gray-600 hover:text-gray-900"
+                            title="Edit service area"
+                            onClick={() => openEdit(area)}
+                          >
+                            <PencilIcon className="h-4 w-4" />
+                          </button>
+                          <button
+                            className="text-red-600 hover:text-red-900"
+                            title="Delete service area"
+                            onClick={() => handleDelete(area)}
+                          >
+                            <TrashIcon className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {/* Service Area Modal */}
+        {isModalOpen && (
+          <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+            <div className="relative top-20 mx-auto p-5 border w-11/12 md:w-2/3 lg:w-1/2 shadow-lg rounded-md bg-white">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-medium text-gray-900">
+                  {editingArea ? `Edit Service Area: ${editingArea.pincode}` : 'New Service Area'}
+                </h3>
+                <button
+                  onClick={() => setIsModalOpen(false)}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  <XCircleIcon className="h-6 w-6" />
+                </button>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Pincode</label>
+                  <input
+                    type="text"
+                    maxLength={6}
+                    className="input-field"
+                    value={form.pincode}
+                    onChange={(e) => updateForm('pincode', e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">City</label>
+                  <input
+                    type="text"
+                    className="input-field"
+                    value={form.city}
+                    onChange={(e) => updateForm('city', e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">State</label>
+                  <input
+                    type="text"
+                    className="input-field"
+                    value={form.state}
+                    onChange={(e) => updateForm('state', e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">ETA (hours)</label>
+                  <input
+                    type="number"
+                    min={1}
+                    className="input-field"
+                    value={form.etaHours}
+                    onChange={(e) => updateForm('etaHours', e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Delivery Fee (₹)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    className="input-field"
+                    value={form.deliveryFee}
+                    onChange={(e) => updateForm('deliveryFee', e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Free Delivery Above (₹)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    className="input-field"
+                    placeholder="Blank for default"
+                    value={form.freeDeliveryThreshold}
+                    onChange={(e) => updateForm('freeDeliveryThreshold', e.target.value)}
+                  />
+                </div>
+                <div className="flex items-end">
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={form.isActive}
+                      onChange={(e) => updateForm('isActive', e.target.checked)}
+                    />
+                    Serviceable
+                  </label>
+                </div>
+              </div>
+
+              {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+              <div className="flex justify-end gap-2 mt-6">
+                <button className="btn-secondary" onClick={() => setIsModalOpen(false)}>
+                  Cancel
+                </button>
+                <button className="btn-primary" onClick={handleSave} disabled={isSaving}>
+                  {isSaving ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -12,6 +12,12 @@ import {
   ChartBarIcon,
   CogIcon,
   CommandLineIcon,
+  BanknotesIcon,
+  TicketIcon,
+  MapPinIcon,
+  ScaleIcon,
+  CurrencyRupeeIcon,
+  IdentificationIcon,
   Bars3Icon,
   XMarkIcon,
 } from '@heroicons/react/24/outline';
@@ -22,7 +28,13 @@ const navigation = [
   { name: 'Products', href: '/products', icon: ShoppingBagIcon },
   { name: 'Orders', href: '/orders', icon: ClipboardDocumentListIcon },
   { name: 'Logistics', href: '/logistics', icon: TruckIcon },
+  { name: 'COD Cash', href: '/cod', icon: CurrencyRupeeIcon },
   { name: 'Users', href: '/users', icon: UsersIcon },
+  { name: 'KYC Review', href: '/kyc', icon: IdentificationIcon },
+  { name: 'Credit', href: '/credit', icon: BanknotesIcon },
+  { name: 'Reconciliation', href: '/reconciliation', icon: ScaleIcon },
+  { name: 'Coupons', href: '/coupons', icon: TicketIcon },
+  { name: 'Service Areas', href: '/service-areas', icon: MapPinIcon },
   { name: 'APIs', href: '/apis', icon: CommandLineIcon },
   { name: 'Analytics', href: '/analytics', icon: ChartBarIcon },
   { name: 'Settings', href: '/settings', icon: CogIcon },
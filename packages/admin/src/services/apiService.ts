@@ -28,6 +28,214 @@ interface ApiConfiguration {
   alertThreshold: number;
 }
 
+interface CreditAccount {
+  userId: string;
+  name: string;
+  phone: string;
+  shopName: string;
+  kycStatus: 'PENDING' | 'APPROVED' | 'REJECTED';
+  creditLimit: number;
+  creditUsed: number;
+  availableCredit: number;
+}
+
+interface CreditLedgerEntry {
+  id: string;
+  date: string;
+  type: 'ORDER' | 'PAYMENT' | 'CANCELLATION' | 'REFUND' | 'ADJUSTMENT';
+  orderNumber?: string;
+  reference?: string;
+  notes?: string;
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+interface CreditLedger {
+  creditLimit: number;
+  creditUsed: number;
+  availableCredit: number;
+  openingBalance: number;
+  closingBalance: number;
+  entries: CreditLedgerEntry[];
+}
+
+interface Coupon {
+  id: string;
+  code: string;
+  description: string;
+  discountType: 'PERCENTAGE' | 'FIXED';
+  discountValue: number;
+  minOrderAmount?: number | null;
+  maxDiscountAmount?: number | null;
+  usageLimit?: number | null;
+  perBuyerLimit?: number | null;
+  usedCount: number;
+  categoryIds: string[];
+  brandIds: string[];
+  validFrom: string;
+  validUntil: string;
+  isActive: boolean;
+}
+
+type CouponInput = Omit<Coupon, 'id' | 'usedCount'>;
+
+interface ServiceArea {
+  id: string;
+  pincode: string;
+  city: string;
+  state: string;
+  deliveryFee: number;
+  freeDeliveryThreshold?: number | null;
+  etaHours: number;
+  isActive: boolean;
+}
+
+type ServiceAreaInput = Omit<ServiceArea, 'id'>;
+
+interface ServiceAreaImportResult {
+  created: number;
+  updated: number;
+  failed: { line: number; error: string }[];
+}
+
+interface ReconciliationRun {
+  id: string;
+  source: 'CSV_UPLOAD' | 'GATEWAY_API';
+  status: 'COMPLETED' | 'FAILED';
+  reportDate?: string | null;
+  fileName?: string | null;
+  periodStart?: string | null;
+  periodEnd?: string | null;
+  totalRows: number;
+  matchedCount: number;
+  exceptionCount: number;
+  settledAmount: number;
+  failureReason?: string | null;
+  createdAt: string;
+}
+
+interface ReconciliationException {
+  id: string;
+  runId: string;
+  type: 'MISSING_IN_SETTLEMENT' | 'DUPLICATE' | 'AMOUNT_MISMATCH' | 'GATEWAY_ONLY';
+  status: 'OPEN' | 'RESOLVED';
+  paymentId?: string | null;
+  razorpayPaymentId?: string | null;
+  expectedAmount?: number | null;
+  settledAmount?: number | null;
+  settlementId?: string | null;
+  details?: string | null;
+  resolutionNote?: string | null;
+  resolvedAt?: string | null;
+  createdAt: string;
+  payment?: { id: string; order: { id: string; orderNumber: string } } | null;
+}
+
+interface WarehouseOption {
+  id: string;
+  name: string;
+  city: string;
+}
+
+interface CodLedgerEntry {
+  id: string;
+  consignmentId: string;
+  driverId: string;
+  amount: number;
+  expectedAmount: number;
+  collectedAt: string;
+  settledAt?: string | null;
+  consignment: {
+    consignmentNumber: string;
+    warehouseId: string;
+    order: { id: string; orderNumber: string };
+  };
+}
+
+interface DriverCashBalance {
+  driverId: string;
+  cashInHand: number;
+  expectedAmount: number;
+  pendingEntries: number;
+  oldestCollectedAt: string | null;
+  entries: CodLedgerEntry[];
+}
+
+interface CodAgingReport {
+  generatedAt: string;
+  totalOutstanding: number;
+  buckets: { label: string; amount: number }[];
+  drivers: {
+    driverId: string;
+    driverName: string | null;
+    driverPhone: string | null;
+    outstanding: number;
+    entries: number;
+    oldestCollectedAt: string;
+    buckets: { label: string; amount: number }[];
+  }[];
+}
+
+interface CodSettlement {
+  id: string;
+  receiptNumber: string;
+  driverId: string;
+  warehouseId: string;
+  expectedAmount: number;
+  depositedAmount: number;
+  variance: number;
+  notes?: string | null;
+  createdAt: string;
+}
+
+interface SettleCodCashInput {
+  driverId: string;
+  warehouseId: string;
+  entryIds: string[];
+  depositedAmount: number;
+  notes?: string;
+}
+
+type KycDocumentType = 'GST_CERTIFICATE' | 'SHOP_PHOTO' | 'PAN' | 'DRIVING_LICENSE' | 'VEHICLE_RC';
+
+interface KycDocument {
+  id: string;
+  userId: string;
+  type: KycDocumentType;
+  documentNumber?: string | null;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  status: 'PENDING' | 'APPROVED' | 'REJECTED';
+  rejectionReason?: string | null;
+  reviewedBy?: string | null;
+  reviewedAt?: string | null;
+  supersededAt?: string | null;
+  createdAt: string;
+  reviews?: {
+    id: string;
+    status: 'PENDING' | 'APPROVED' | 'REJECTED';
+    reason?: string | null;
+    reviewedBy: string;
+    createdAt: string;
+  }[];
+}
+
+interface KycApplicant {
+  id: string;
+  name: string;
+  phone: string;
+  role: 'BUYER' | 'DRIVER';
+  buyerProfile?: { shopName: string; gstin?: string | null; kycStatus: string } | null;
+  driverProfile?: { licenseNumber: string; vehicleNumber: string; kycStatus: string } | null;
+  kycDocuments: KycDocument[];
+}
+
+interface KycHistory extends Omit<KycApplicant, 'kycDocuments'> {
+  documents: KycDocument[];
+}
+
 class ApiService {
   private baseUrl: string;
   private adminToken: string | null;
@@ -44,6 +252,12 @@ class ApiService {
     };
   }
 
+  // Backend responses are wrapped as { success, data, message }
+  private async readData<T>(response: Response): Promise<T> {
+    const body = await response.json();
+    return body && typeof body.success === 'boolean' && 'data' in body ? body.data : body;
+  }
+
   // Fetch all API endpoints
   async getApiEndpoints(): Promise<ApiEndpoint[]> {
     try {
@@ -195,7 +409,549 @@ class ApiService {
     }
   }
 
+  // Fetch buyer credit accounts
+  async getCreditAccounts(search?: string): Promise<CreditAccount[]> {
+    try {
+      const query = search ? `?search=${encodeURIComponent(search)}` : '';
+      const response = await fetch(`${this.baseUrl}/api/v1/credit/accounts${query}`, {
+        headers: this.getHeaders(),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch credit accounts');
+      }
+
+      const data = await this.readData<any>(response);
+      return data.accounts;
+    } catch (error) {
+      console.error('Error fetching credit accounts:', error);
+      // Return mock data for development
+      return this.getMockCreditAccounts();
+    }
+  }
+
+  // Fetch credit ledger for a buyer
+  async getCreditLedger(userId: string): Promise<CreditLedger | null> {
+    try {
+      const response = await fetch(`${this.baseUrl}/api/v1/credit/accounts/${userId}/ledger`, {
+        headers: this.getHeaders(),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch credit ledger');
+      }
+
+      return await this.readData<CreditLedger>(response);
+    } catch (error) {
+      console.error('Error fetching credit ledger:', error);
+      return null;
+    }
+  }
+
+  // Update buyer credit limit
+  async updateCreditLimit(userId: string, creditLimit: number, reason?: string): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseUrl}/api/v1/credit/accounts/${userId}/limit`, {
+        method: 'PUT',
+        headers: this.getHeaders(),
+        body: JSON.stringify({ creditLimit, reason }),
+      });
+
+      return response.ok;
+    } catch (error) {
+      console.error('Error updating credit limit:', error);
+      return false;
+    }
+  }
+
+  // Fetch coupons
+  async getCoupons(search?: string): Promise<Coupon[]> {
+    try {
+      const query = search ? `?search=${encodeURIComponent(search)}` : '';
+      const response = await fetch(`${this.baseUrl}/api/v1/coupons${query}`, {
+        headers: this.getHeaders(),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch coupons');
+      }
+
+      const data = await this.readData<any>(response);
+      return data.coupons;
+    } catch (error) {
+      console.error('Error fetching coupons:', error);
+      // Return mock data for development
+      return this.getMockCoupons();
+    }
+  }
+
+  // Create coupon
+  async createCoupon(coupon: CouponInput): Promise<Coupon> {
+    const response = await fetch(`${this.baseUrl}/api/v1/coupons`, {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify(coupon),
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      throw new Error(data?.message || 'Failed to create coupon');
+    }
+
+    return this.readData(response);
+  }
+
+  // Update coupon
+  async updateCoupon(id: string, updates: Partial<CouponInput>): Promise<Coupon> {
+    const response = await fetch(`${this.baseUrl}/api/v1/coupons/${id}`, {
+      method: 'PUT',
+      headers: this.getHeaders(),
+      body: JSON.stringify(updates),
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      throw new Error(data?.message || 'Failed to update coupon');
+    }
+
+    return this.readData(response);
+  }
+
+  // Delete coupon
+  async deleteCoupon(id: string): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/api/v1/coupons/${id}`, {
+      method: 'DELETE',
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      throw new Error(data?.message || 'Failed to delete coupon');
+    }
+  }
+
+  // Fetch service areas
+  async getServiceAreas(search?: string): Promise<ServiceArea[]> {
+    try {
+      const query = search ? `?search=${encodeURIComponent(search)}&limit=100` : '?limit=100';
+      const response = await fetch(`${this.baseUrl}/api/v1/service-areas${query}`, {
+        headers: this.getHeaders(),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch service areas');
+      }
+
+      const data = await this.readData<any>(response);
+      return data.serviceAreas;
+    } catch (error) {
+      console.error('Error fetching service areas:', error);
+      // Return mock data for development
+      return this.getMockServiceAreas();
+    }
+  }
+
+  // Create service area
+  async createServiceArea(area: ServiceAreaInput): Promise<ServiceArea> {
+    const response = await fetch(`${this.baseUrl}/api/v1/service-areas`, {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify(area),
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      throw new Error(data?.message || 'Failed to create service area');
+    }
+
+    return this.readData(response);
+  }
+
+  // Update service area
+  async updateServiceArea(id: string, updates: Partial<ServiceAreaInput>): Promise<ServiceArea> {
+    const response = await fetch(`${this.baseUrl}/api/v1/service-areas/${id}`, {
+      method: 'PUT',
+      headers: this.getHeaders(),
+      body: JSON.stringify(updates),
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      throw new Error(data?.message || 'Failed to update service area');
+    }
+
+    return this.readData(response);
+  }
+
+  // Delete service area
+  async deleteServiceArea(id: string): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/api/v1/service-areas/${id}`, {
+      method: 'DELETE',
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      throw new Error(data?.message || 'Failed to delete service area');
+    }
+  }
+
+  // Bulk import service areas from CSV
+  async importServiceAreas(file: File): Promise<ServiceAreaImportResult> {
+    const formData = new FormData();
+    formData.append('file', file);
+
+    const response = await fetch(`${this.baseUrl}/api/v1/service-areas/import`, {
+      method: 'POST',
+      headers: this.adminToken ? { Authorization: `Bearer ${this.adminToken}` } : undefined,
+      body: formData,
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      throw new Error(data?.message || 'Failed to import service areas');
+    }
+
+    return this.readData(response);
+  }
+
+  // Fetch settlement reconciliation runs
+  async getReconciliationRuns(): Promise<ReconciliationRun[]> {
+    try {
+      const response = await fetch(`${this.baseUrl}/api/v1/payments/reconciliation/runs?limit=20`, {
+        headers: this.getHeaders(),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch reconciliation runs');
+      }
+
+      const data = await this.readData<any>(response);
+      return data.runs;
+    } catch (error) {
+      console.error('Error fetching reconciliation runs:', error);
+      return [];
+    }
+  }
+
+  // Fetch reconciliation exceptions
+  async getReconciliationExceptions(): Promise<ReconciliationException[]> {
+    try {
+      const response = await fetch(`${this.baseUrl}/api/v1/payments/reconciliation/exceptions?limit=100`, {
+        headers: this.getHeaders(),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch reconciliation exceptions');
+      }
+
+      const data = await this.readData<any>(response);
+      return data.exceptions;
+    } catch (error) {
+      console.error('Error fetching reconciliation exceptions:', error);
+      return [];
+    }
+  }
+
+  // Upload a settlement report CSV for reconciliation
+  async uploadSettlementReport(file: File, periodStart?: string, periodEnd?: string): Promise<ReconciliationRun> {
+    const formData = new FormData();
+    formData.append('file', file);
+    if (periodStart) formData.append('periodStart', periodStart);
+    if (periodEnd) formData.append('periodEnd', periodEnd);
+
+    const response = await fetch(`${this.baseUrl}/api/v1/payments/reconciliation/import`, {
+      method: 'POST',
+      headers: this.adminToken ? { Authorization: `Bearer ${this.adminToken}` } : undefined,
+      body: formData,
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      throw new Error(data?.message || 'Failed to reconcile settlement report');
+    }
+
+    return this.readData(response);
+  }
+
+  // Resolve a reconciliation exception with a note
+  async resolveReconciliationException(id: string, note: string): Promise<ReconciliationException> {
+    const response = await fetch(`${this.baseUrl}/api/v1/payments/reconciliation/exceptions/${id}/resolve`, {
+      method: 'PUT',
+      headers: this.getHeaders(),
+      body: JSON.stringify({ note }),
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      throw new Error(data?.message || 'Failed to resolve exception');
+    }
+
+    return this.readData(response);
+  }
+
+  // Fetch users with KYC documents awaiting review
+  async getPendingKyc(): Promise<KycApplicant[]> {
+    try {
+      const response = await fetch(`${this.baseUrl}/api/v1/kyc/pending?limit=100`, {
+        headers: this.getHeaders(),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch pending KYC');
+      }
+
+      const data = await this.readData<any>(response);
+      return data.items;
+    } catch (error) {
+      console.error('Error fetching pending KYC:', error);
+      return [];
+    }
+  }
+
+  // Fetch every KYC document and review for a user
+  async getKycHistory(userId: string): Promise<KycHistory | null> {
+    try {
+      const response = await fetch(`${this.baseUrl}/api/v1/kyc/users/${userId}`, {
+        headers: this.getHeaders(),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch KYC history');
+      }
+
+      return await this.readData<KycHistory>(response);
+    } catch (error) {
+      console.error('Error fetching KYC history:', error);
+      return null;
+    }
+  }
+
+  // Approve or reject a KYC document
+  async reviewKycDocument(documentId: string, status: 'APPROVED' | 'REJECTED', reason?: string): Promise<KycDocument> {
+    const response = await fetch(`${this.baseUrl}/api/v1/kyc/documents/${documentId}/review`, {
+      method: 'PUT',
+      headers: this.getHeaders(),
+      body: JSON.stringify({ status, reason }),
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      throw new Error(data?.message || 'Failed to review KYC document');
+    }
+
+    return this.readData(response);
+  }
+
+  // Get a short-lived signed URL for a KYC document
+  async getKycDocumentUrl(documentId: string): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/api/v1/kyc/documents/${documentId}/url`, {
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to load document');
+    }
+
+    const data = await this.readData<{ url: string }>(response);
+    // Local storage signs URLs served by the API itself; S3 returns an absolute URL
+    return data.url.startsWith('http') ? data.url : `${this.baseUrl}${data.url}`;
+  }
+
+  // Fetch active warehouses
+  async getWarehouses(): Promise<WarehouseOption[]> {
+    try {
+      const response = await fetch(`${this.baseUrl}/api/v1/warehouses/active?limit=100`, {
+        headers: this.getHeaders(),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch warehouses');
+      }
+
+      const data = await this.readData<any>(response);
+      return data.items;
+    } catch (error) {
+      console.error('Error fetching warehouses:', error);
+      return [];
+    }
+  }
+
+  // Fetch undeposited COD cash by driver and age
+  async getCodAgingReport(): Promise<CodAgingReport | null> {
+    try {
+      const response = await fetch(`${this.baseUrl}/api/v1/logistics/cod/aging`, {
+        headers: this.getHeaders(),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch COD aging report');
+      }
+
+      return await this.readData<CodAgingReport>(response);
+    } catch (error) {
+      console.error('Error fetching COD aging report:', error);
+      return null;
+    }
+  }
+
+  // Fetch a driver's undeposited COD collections
+  async getDriverCashBalance(driverId: string): Promise<DriverCashBalance | null> {
+    try {
+      const response = await fetch(`${this.baseUrl}/api/v1/logistics/cod/drivers/${driverId}/balance`, {
+        headers: this.getHeaders(),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch driver cash balance');
+      }
+
+      return await this.readData<DriverCashBalance>(response);
+    } catch (error) {
+      console.error('Error fetching driver cash balance:', error);
+      return null;
+    }
+  }
+
+  // Deposit a driver's COD cash against ledger entries
+  async settleCodCash(settlement: SettleCodCashInput): Promise<CodSettlement> {
+    const response = await fetch(`${this.baseUrl}/api/v1/logistics/cod/settlements`, {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify(settlement),
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      throw new Error(data?.message || 'Failed to settle COD cash');
+    }
+
+    return this.readData(response);
+  }
+
+  // Download a COD settlement receipt PDF
+  async downloadCodReceipt(settlementId: string): Promise<Blob> {
+    const response = await fetch(`${this.baseUrl}/api/v1/logistics/cod/settlements/${settlementId}/receipt`, {
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to download receipt');
+    }
+
+    return response.blob();
+  }
+
   // Mock data for development
+  private getMockServiceAreas(): ServiceArea[] {
+    return [
+      {
+        id: '1',
+        pincode: '500001',
+        city: 'Hyderabad',
+        state: 'Telangana',
+        deliveryFee: 40,
+        freeDeliveryThreshold: 2000,
+        etaHours: 24,
+        isActive: true,
+      },
+      {
+        id: '2',
+        pincode: '500081',
+        city: 'Hyderabad',
+        state: 'Telangana',
+        deliveryFee: 50,
+        freeDeliveryThreshold: null,
+        etaHours: 24,
+        isActive: true,
+      },
+      {
+        id: '3',
+        pincode: '560001',
+        city: 'Bengaluru',
+        state: 'Karnataka',
+        deliveryFee: 80,
+        freeDeliveryThreshold: 5000,
+        etaHours: 48,
+        isActive: false,
+      },
+    ];
+  }
+
+  private getMockCoupons(): Coupon[] {
+    return [
+      {
+        id: '1',
+        code: 'WELCOME10',
+        description: '10% off on your first order',
+        discountType: 'PERCENTAGE',
+        discountValue: 10,
+        minOrderAmount: 2000,
+        maxDiscountAmount: 500,
+        usageLimit: null,
+        perBuyerLimit: 1,
+        usedCount: 42,
+        categoryIds: [],
+        brandIds: [],
+        validFrom: new Date(Date.now() - 30 * 86400000).toISOString(),
+        validUntil: new Date(Date.now() + 60 * 86400000).toISOString(),
+        isActive: true,
+      },
+      {
+        id: '2',
+        code: 'FLAT250',
+        description: 'Flat ₹250 off on orders above ₹5000',
+        discountType: 'FIXED',
+        discountValue: 250,
+        minOrderAmount: 5000,
+        maxDiscountAmount: null,
+        usageLimit: 100,
+        perBuyerLimit: null,
+        usedCount: 100,
+        categoryIds: [],
+        brandIds: [],
+        validFrom: new Date(Date.now() - 60 * 86400000).toISOString(),
+        validUntil: new Date(Date.now() - 86400000).toISOString(),
+        isActive: false,
+      },
+    ];
+  }
+
+  private getMockCreditAccounts(): CreditAccount[] {
+    return [
+      {
+        userId: '1',
+        name: 'Ravi Kumar',
+        phone: '+91 9876543210',
+        shopName: 'Sri Lakshmi Kirana',
+        kycStatus: 'APPROVED',
+        creditLimit: 50000,
+        creditUsed: 32500,
+        availableCredit: 17500,
+      },
+      {
+        userId: '2',
+        name: 'Anitha Reddy',
+        phone: '+91 9876543211',
+        shopName: 'Reddy General Stores',
+        kycStatus: 'APPROVED',
+        creditLimit: 25000,
+        creditUsed: 24000,
+        availableCredit: 1000,
+      },
+      {
+        userId: '3',
+        name: 'Mohammed Irfan',
+        phone: '+91 9876543212',
+        shopName: 'Irfan Provisions',
+        kycStatus: 'PENDING',
+        creditLimit: 0,
+        creditUsed: 0,
+        availableCredit: 0,
+      },
+    ];
+  }
+
   private getMockApiEndpoints(): ApiEndpoint[] {
     return [
       {
@@ -292,4 +1048,27 @@ class ApiService {
 
 const apiService = new ApiService();
 export default apiService;
-export type { ApiEndpoint, ApiHealthCheck, ApiConfiguration };
\ No newline at end of file
+export type {
+  ApiEndpoint,
+  ApiHealthCheck,
+  ApiConfiguration,
+  CreditAccount,
+  CreditLedger,
+  CreditLedgerEntry,
+  Coupon,
+  CouponInput,
+  ServiceArea,
+  ServiceAreaInput,
+  ServiceAreaImportResult,
+  ReconciliationRun,
+  ReconciliationException,
+  WarehouseOption,
+  CodLedgerEntry,
+  DriverCashBalance,
+  CodAgingReport,
+  CodSettlement,
+  KycDocumentType,
+  KycDocument,
+  KycApplicant,
+  KycHistory,
+};
\ No newline at end of file
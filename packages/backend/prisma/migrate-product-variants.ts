@@ -0,0 +1,112 @@
+import { PrismaClient } from '@prisma/client';
+
+/**
+ * One-off migration: turns every existing product into a single-variant product.
+ *
+ * Run it against the pre-variant database before the next `prisma migrate dev`:
+ *   npm run db:migrate-variants
+ *   npx prisma migrate diff --from-schema-datasource prisma/schema.prisma \
+ *     --to-schema-datamodel prisma/schema.prisma --script
+ *   npm run migrate
+ *
+ * Each product gets a "Default" variant carrying its SKU, price and MRP. The variant
+ * reuses the product ID so inventory, cart, order and pricing-tier rows are backfilled
+ * with a plain copy of their productId. The script then makes the same schema change
+ * Prisma would, constraint names included, so the diff lists nothing for variants and
+ * the migration `migrate dev` creates next neither drops nor rebuilds variant data.
+ * Everything runs in one transaction.
+ */
+const prisma = new PrismaClient();
+
+async function columnExists(table: string, column: string): Promise<boolean> {
+  const rows = await prisma.$queryRaw<{ exists: boolean }[]>`
+    SELECT EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_name = ${table} AND column_name = ${column}
+    ) AS "exists"
+  `;
+  return rows[0]?.exists ?? false;
+}
+
+async function main() {
+  if (!(await columnExists('products', 'sku'))) {
+    console.log('Products no longer carry SKU/price; nothing to migrate.');
+    return;
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await tx.$executeRawUnsafe(`
+      CREATE TABLE IF NOT EXISTS "product_variants" (
+        "id" TEXT NOT NULL,
+        "productId" TEXT NOT NULL,
+        "sku" TEXT NOT NULL,
+        "name" TEXT NOT NULL,
+        "attributes" JSONB NOT NULL DEFAULT '{}',
+        "barcode" TEXT,
+        "price" DOUBLE PRECISION NOT NULL,
+        "mrp" DOUBLE PRECISION NOT NULL,
+        "isActive" BOOLEAN NOT NULL DEFAULT true,
+        "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        "updatedAt" TIMESTAMP(3) NOT NULL,
+        CONSTRAINT "product_variants_pkey" PRIMARY KEY ("id")
+      )
+    `);
+
+    const created = await tx.$executeRawUnsafe(`
+      INSERT INTO "product_variants" ("id", "productId", "sku", "name", "price", "mrp", "isActive", "createdAt", "updatedAt")
+      SELECT p."id", p."id", p."sku", 'Default', p."price", p."mrp", true, p."createdAt", NOW()
+      FROM "products" p
+      WHERE NOT EXISTS (SELECT 1 FROM "product_variants" v WHERE v."productId" = p."id")
+    `);
+    console.log(`Created ${created} default variants`);
+
+    for (const table of ['inventory', 'cart_items', 'order_items', 'pricing_tiers']) {
+      await tx.$executeRawUnsafe(`ALTER TABLE "${table}" ADD COLUMN IF NOT EXISTS "variantId" TEXT`);
+      const updated = await tx.$executeRawUnsafe(
+        `UPDATE "${table}" SET "variantId" = "productId" WHERE "variantId" IS NULL`,
+      );
+      console.log(`Backfilled ${updated} ${table} rows`);
+      await tx.$executeRawUnsafe(`ALTER TABLE "${table}" ALTER COLUMN "variantId" SET NOT NULL`);
+      await tx.$executeRawUnsafe(`ALTER TABLE "${table}" DROP CONSTRAINT IF EXISTS "${table}_variantId_fkey"`);
+      await tx.$executeRawUnsafe(`
+        ALTER TABLE "${table}" ADD CONSTRAINT "${table}_variantId_fkey" FOREIGN KEY ("variantId")
+        REFERENCES "product_variants"("id")
+        ON DELETE ${table === 'pricing_tiers' ? 'CASCADE' : 'RESTRICT'} ON UPDATE CASCADE
+      `);
+    }
+
+    // Variant keys and indexes, under the names Prisma generates for the schema
+    const statements = [
+      `CREATE UNIQUE INDEX IF NOT EXISTS "product_variants_sku_key" ON "product_variants"("sku")`,
+      `CREATE UNIQUE INDEX IF NOT EXISTS "product_variants_barcode_key" ON "product_variants"("barcode")`,
+      `CREATE INDEX IF NOT EXISTS "product_variants_productId_idx" ON "product_variants"("productId")`,
+      `ALTER TABLE "product_variants" DROP CONSTRAINT IF EXISTS "product_variants_productId_fkey"`,
+      `ALTER TABLE "product_variants" ADD CONSTRAINT "product_variants_productId_fkey" FOREIGN KEY ("productId")
+        REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE CASCADE`,
+      `DROP INDEX IF EXISTS "inventory_warehouseId_productId_key"`,
+      `CREATE UNIQUE INDEX IF NOT EXISTS "inventory_warehouseId_variantId_key" ON "inventory"("warehouseId", "variantId")`,
+      `CREATE INDEX IF NOT EXISTS "inventory_productId_idx" ON "inventory"("productId")`,
+      `DROP INDEX IF EXISTS "cart_items_cartId_productId_key"`,
+      `CREATE UNIQUE INDEX IF NOT EXISTS "cart_items_cartId_variantId_key" ON "cart_items"("cartId", "variantId")`,
+      `DROP INDEX IF EXISTS "pricing_tiers_productId_minQuantity_key"`,
+      `CREATE UNIQUE INDEX IF NOT EXISTS "pricing_tiers_variantId_minQuantity_key" ON "pricing_tiers"("variantId", "minQuantity")`,
+      // Data has been copied over, so the product-level columns can go
+      `ALTER TABLE "pricing_tiers" DROP CONSTRAINT IF EXISTS "pricing_tiers_productId_fkey"`,
+      `ALTER TABLE "pricing_tiers" DROP COLUMN "productId"`,
+      `DROP INDEX IF EXISTS "products_sku_key"`,
+      `ALTER TABLE "products" DROP COLUMN "sku", DROP COLUMN "price", DROP COLUMN "mrp"`,
+    ];
+    for (const statement of statements) {
+      await tx.$executeRawUnsafe(statement);
+    }
+  });
+
+  console.log('Product variant schema in place; run `npm run migrate` next.');
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  })
+  .finally(() => prisma.$disconnect());
@@ -11,11 +11,16 @@ import { UsersModule } from './users/users.module';
 import { KycModule } from './kyc/kyc.module';
 import { ProductsModule } from './products/products.module';
 import { OrdersModule } from './orders/orders.module';
+import { CreditModule } from './credit/credit.module';
+import { CouponsModule } from './coupons/coupons.module';
+import { ServiceAreasModule } from './service-areas/service-areas.module';
 import { LogisticsModule } from './logistics/logistics.module';
 import { WarehousesModule } from './warehouses/warehouses.module';
+import { ProcurementModule } from './procurement/procurement.module';
 import { ReportsModule } from './reports/reports.module';
 import { PaymentsModule } from './payments/payments.module';
 import { NotificationsModule } from './notifications/notifications.module';
+import { SmsModule } from './sms/sms.module';
 import { MapsModule } from './maps/maps.module';
 import { FilesModule } from './files/files.module';
 import { AdminModule } from './admin/admin.module';
@@ -71,11 +76,16 @@ import configuration from './config/configuration';
     KycModule,
     ProductsModule,
     OrdersModule,
+    CreditModule,
+    CouponsModule,
+    ServiceAreasModule,
     LogisticsModule,
     WarehousesModule,
+    ProcurementModule,
     ReportsModule,
     PaymentsModule,
     NotificationsModule,
+    SmsModule,
     MapsModule,
     FilesModule,
     AdminModule,
@@ -3,16 +3,21 @@ import {
   Post,
   Body,
   Get,
+  Delete,
+  Param,
   UseGuards,
   Req,
   HttpCode,
   HttpStatus,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiParam } from '@nestjs/swagger';
 import { Request } from 'express';
 import { AuthService } from './auth.service';
+import { SessionsService } from './sessions.service';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
 import { Public } from '../common/decorators/public.decorator';
+import { Roles } from '../common/decorators/roles.decorator';
 import { User } from '../common/decorators/user.decorator';
 import { IsString, IsEnum, IsOptional, IsPhoneNumber } from 'class-validator';
 import { UserRole, Language } from '@mawell/shared';
@@ -40,6 +45,10 @@ class RegisterRequestDto {
   @IsOptional()
   language?: Language = Language.ENGLISH;
 
+  @IsString()
+  @IsOptional()
+  deviceName?: string;
+
   // Buyer specific fields
   @IsString()
   @IsOptional()
@@ -65,6 +74,10 @@ class LoginRequestDto {
 
   @IsString()
   otp: string;
+
+  @IsString()
+  @IsOptional()
+  deviceName?: string;
 }
 
 class RefreshTokenDto {
@@ -83,7 +96,10 @@ class VerifyPhoneDto {
 @ApiTags('Authentication')
 @Controller('auth')
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly sessionsService: SessionsService,
+  ) {}
 
   @Public()
   @Post('send-otp')
@@ -131,8 +147,11 @@ export class AuthController {
   @ApiOperation({ summary: 'Refresh access token' })
   @ApiResponse({ status: 200, description: 'Token refreshed successfully' })
   @ApiResponse({ status: 401, description: 'Invalid refresh token' })
-  async refreshToken(@Body() refreshTokenDto: RefreshTokenDto) {
-    return this.authService.refreshToken(refreshTokenDto.refreshToken);
+  async refreshToken(@Body() refreshTokenDto: RefreshTokenDto, @Req() req: Request) {
+    const ipAddress = req.ip || req.connection.remoteAddress;
+    const userAgent = req.get('User-Agent');
+
+    return this.authService.refreshToken(refreshTokenDto.refreshToken, ipAddress, userAgent);
   }
 
   @UseGuards(JwtAuthGuard)
@@ -141,17 +160,76 @@ export class AuthController {
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Logout user' })
   @ApiResponse({ status: 200, description: 'Logout successful' })
-  async logout(@User('id') userId: string, @Req() req: Request) {
+  async logout(@User() user: any, @Req() req: Request) {
     const ipAddress = req.ip || req.connection.remoteAddress;
     const userAgent = req.get('User-Agent');
     
-    await this.authService.logout(userId, ipAddress, userAgent);
+    await this.authService.logout(user.id, user.sessionId, ipAddress, userAgent);
     
     return {
       message: 'Logout successful',
     };
   }
 
+  @UseGuards(JwtAuthGuard)
+  @Get('sessions')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List active sessions of the current user' })
+  @ApiResponse({ status: 200, description: 'Sessions retrieved successfully' })
+  async getSessions(@User() user: any) {
+    return this.sessionsService.findActiveSessions(user.id, user.sessionId, user.id, user.role);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Delete('sessions/:id')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Revoke a session of the current user' })
+  @ApiParam({ name: 'id', description: 'Session ID' })
+  @ApiResponse({ status: 200, description: 'Session revoked successfully' })
+  @ApiResponse({ status: 404, description: 'Session not found' })
+  async revokeSession(@Param('id') sessionId: string, @User() user: any) {
+    return this.sessionsService.revokeUserSession(user.id, sessionId, user.id, user.role);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @Get('users/:userId/sessions')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List active sessions of a user (Admin only)' })
+  @ApiParam({ name: 'userId', description: 'User ID' })
+  @ApiResponse({ status: 200, description: 'Sessions retrieved successfully' })
+  async getUserSessions(@Param('userId') userId: string, @User() user: any) {
+    return this.sessionsService.findActiveSessions(userId, user.sessionId, user.id, user.role);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @Delete('users/:userId/sessions/:id')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Revoke a session of a user (Admin only)' })
+  @ApiParam({ name: 'userId', description: 'User ID' })
+  @ApiParam({ name: 'id', description: 'Session ID' })
+  @ApiResponse({ status: 200, description: 'Session revoked successfully' })
+  @ApiResponse({ status: 404, description: 'Session not found' })
+  async revokeUserSession(
+    @Param('userId') userId: string,
+    @Param('id') sessionId: string,
+    @User() user: any,
+  ) {
+    return this.sessionsService.revokeUserSession(userId, sessionId, user.id, user.role);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @Delete('users/:userId/sessions')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Revoke all sessions of a user (Admin only)' })
+  @ApiParam({ name: 'userId', description: 'User ID' })
+  @ApiResponse({ status: 200, description: 'Sessions revoked successfully' })
+  async revokeAllUserSessions(@Param('userId') userId: string, @User() user: any) {
+    return this.sessionsService.revokeAllUserSessions(userId, user.id, user.role);
+  }
+
   @UseGuards(JwtAuthGuard)
   @Get('profile')
   @ApiBearerAuth()
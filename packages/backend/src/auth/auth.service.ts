@@ -5,18 +5,17 @@ import {
   ConflictException,
   Logger,
 } from '@nestjs/common';
-import { JwtService } from '@nestjs/jwt';
-import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../prisma/prisma.service';
 import { OtpService } from './otp.service';
+import { SessionsService, SessionTokens } from './sessions.service';
 import { AuditService } from '../common/services/audit.service';
 import { ValidationService } from '../common/services/validation.service';
 import { UserRole, Language } from '@mawell/shared';
-import { JwtPayload } from './strategies/jwt.strategy';
 
 export interface LoginDto {
   phone: string;
   otp: string;
+  deviceName?: string;
 }
 
 export interface RegisterDto {
@@ -24,6 +23,7 @@ export interface RegisterDto {
   name: string;
   role: UserRole;
   language?: Language;
+  deviceName?: string;
   // Buyer specific fields
   businessName?: string;
   gstin?: string;
@@ -48,10 +48,7 @@ export interface AuthResponse {
     buyerProfile?: any;
     driverProfile?: any;
   };
-  tokens: {
-    accessToken: string;
-    refreshToken: string;
-  };
+  tokens: SessionTokens;
 }
 
 @Injectable()
@@ -60,9 +57,8 @@ export class AuthService {
 
   constructor(
     private prisma: PrismaService,
-    private jwtService: JwtService,
-    private configService: ConfigService,
     private otpService: OtpService,
+    private sessionsService: SessionsService,
     private auditService: AuditService,
     private validationService: ValidationService,
   ) {}
@@ -110,7 +106,7 @@ export class AuthService {
    * Register new user
    */
   async register(registerDto: RegisterDto, ipAddress?: string, userAgent?: string): Promise<AuthResponse> {
-    const { phone, role, language = Language.ENGLISH, ...profileData } = registerDto;
+    const { phone, role, language = Language.ENGLISH, deviceName, ...profileData } = registerDto;
 
     // Validate phone number
     const phoneValidation = this.validationService.validatePhoneNumber(phone);
@@ -178,8 +174,8 @@ export class AuthService {
       return newUser;
     });
 
-    // Generate tokens
-    const tokens = await this.generateTokens(user);
+    // Open a session for this device
+    const tokens = await this.sessionsService.createSession(user, { deviceName, ipAddress, userAgent });
 
     // Log audit trail
     await this.auditService.logCreate(
@@ -206,7 +202,7 @@ export class AuthService {
    * Login user with OTP
    */
   async login(loginDto: LoginDto, ipAddress?: string, userAgent?: string): Promise<AuthResponse> {
-    const { phone, otp } = loginDto;
+    const { phone, otp, deviceName } = loginDto;
 
     // Validate phone number
     const phoneValidation = this.validationService.validatePhoneNumber(phone);
@@ -250,8 +246,8 @@ export class AuthService {
       });
     }
 
-    // Generate tokens
-    const tokens = await this.generateTokens(user);
+    // Open a session for this device
+    const tokens = await this.sessionsService.createSession(user, { deviceName, ipAddress, userAgent });
 
     // Log successful login
     await this.auditService.logLogin(
@@ -273,44 +269,20 @@ export class AuthService {
   }
 
   /**
-   * Refresh access token
+   * Rotate the refresh token and issue a new token pair
    */
-  async refreshToken(refreshToken: string): Promise<{ accessToken: string }> {
-    try {
-      const payload = this.jwtService.verify(refreshToken, {
-        secret: this.configService.get<string>('jwt.refreshSecret'),
-      });
-
-      const user = await this.prisma.user.findUnique({
-        where: { id: payload.sub },
-      });
-
-      if (!user || !user.isActive) {
-        throw new UnauthorizedException('Invalid refresh token');
-      }
-
-      const accessToken = this.jwtService.sign(
-        {
-          sub: user.id,
-          phone: user.phone,
-          role: user.role,
-        } as JwtPayload,
-        {
-          secret: this.configService.get<string>('jwt.secret'),
-          expiresIn: this.configService.get<string>('jwt.expiresIn'),
-        },
-      );
-
-      return { accessToken };
-    } catch (error) {
-      throw new UnauthorizedException('Invalid refresh token');
-    }
+  async refreshToken(refreshToken: string, ipAddress?: string, userAgent?: string): Promise<SessionTokens> {
+    return this.sessionsService.rotateRefreshToken(refreshToken, { ipAddress, userAgent });
   }
 
   /**
-   * Logout user
+   * Logout user by revoking the session the request was made with
    */
-  async logout(userId: string, ipAddress?: string, userAgent?: string): Promise<void> {
+  async logout(userId: string, sessionId?: string, ipAddress?: string, userAgent?: string): Promise<void> {
+    if (sessionId) {
+      await this.sessionsService.revokeSession(sessionId, 'LOGOUT');
+    }
+
     const user = await this.prisma.user.findUnique({
       where: { id: userId },
     });
@@ -323,36 +295,6 @@ export class AuthService {
         userAgent,
       );
     }
-
-    // In a production app, you might want to blacklist the token
-    // or store logout events in a separate table
-  }
-
-  /**
-   * Generate JWT tokens
-   */
-  private async generateTokens(user: any): Promise<{ accessToken: string; refreshToken: string }> {
-    const payload: JwtPayload = {
-      sub: user.id,
-      phone: user.phone,
-      role: user.role,
-    };
-
-    const [accessToken, refreshToken] = await Promise.all([
-      this.jwtService.signAsync(payload, {
-        secret: this.configService.get<string>('jwt.secret'),
-        expiresIn: this.configService.get<string>('jwt.expiresIn'),
-      }),
-      this.jwtService.signAsync(payload, {
-        secret: this.configService.get<string>('jwt.refreshSecret'),
-        expiresIn: this.configService.get<string>('jwt.refreshExpiresIn'),
-      }),
-    ]);
-
-    return {
-      accessToken,
-      refreshToken,
-    };
   }
 
   /**
@@ -2,8 +2,8 @@ import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../prisma/prisma.service';
 import { EncryptionService } from '../common/services/encryption.service';
+import { SmsService } from '../sms/sms.service';
 import { generateOTP } from '@mawell/shared';
-import axios from 'axios';
 
 export interface SendOtpResult {
   success: boolean;
@@ -29,6 +29,7 @@ export class OtpService {
     private configService: ConfigService,
     private prisma: PrismaService,
     private encryptionService: EncryptionService,
+    private smsService: SmsService,
   ) {
     this.otpLength = this.configService.get<number>('otp.length', 6);
     this.otpExpiryMinutes = this.configService.get<number>('otp.expiryMinutes', 10);
@@ -83,7 +84,7 @@ export class OtpService {
       return {
         success: true,
         message: 'OTP sent successfully',
-        requestId: smsResult.requestId,
+        requestId: smsResult.deliveryId,
       };
     } catch (error) {
       this.logger.error('Error sending OTP', error);
@@ -211,111 +212,16 @@ export class OtpService {
   }
 
   /**
-   * Send SMS using configured provider
+   * Send OTP SMS through the SMS providers
    */
-  private async sendSms(phone: string, otp: string, purpose: string): Promise<{ success: boolean; message: string; requestId?: string }> {
-    const provider = this.configService.get<string>('sms.provider');
-    
-    switch (provider) {
-      case 'MSG91':
-        return this.sendViaMSG91(phone, otp, purpose);
-      case 'TWILIO':
-        return this.sendViaTwilio(phone, otp, purpose);
-      default:
-        // For development, log OTP instead of sending
-        if (this.configService.get<string>('NODE_ENV') === 'development') {
-          this.logger.log(`[DEV] OTP for ${phone}: ${otp}`);
-          return {
-            success: true,
-            message: 'OTP logged for development',
-            requestId: 'dev-' + Date.now(),
-          };
-        }
-        return {
-          success: false,
-          message: 'SMS provider not configured',
-        };
-    }
-  }
-
-  /**
-   * Send SMS via MSG91
-   */
-  private async sendViaMSG91(phone: string, otp: string, purpose: string): Promise<{ success: boolean; message: string; requestId?: string }> {
-    try {
-      const authKey = this.configService.get<string>('sms.msg91.authKey');
-      const templateId = this.configService.get<string>('sms.msg91.templateId');
-      
-      const response = await axios.post('https://api.msg91.com/api/v5/otp', {
-        template_id: templateId,
-        mobile: phone,
-        authkey: authKey,
-        otp,
-        purpose,
-      });
-
-      if (response.data.type === 'success') {
-        return {
-          success: true,
-          message: 'OTP sent successfully',
-          requestId: response.data.request_id,
-        };
-      }
-
-      return {
-        success: false,
-        message: response.data.message || 'Failed to send OTP',
-      };
-    } catch (error) {
-      this.logger.error('MSG91 SMS error', error);
-      return {
-        success: false,
-        message: 'SMS service error',
-      };
-    }
-  }
-
-  /**
-   * Send SMS via Twilio
-   */
-  private async sendViaTwilio(phone: string, otp: string, _purpose: string): Promise<{ success: boolean; message: string; requestId?: string }> {
-    try {
-      const accountSid = this.configService.get<string>('sms.twilio.accountSid');
-      const authToken = this.configService.get<string>('sms.twilio.authToken');
-      const fromNumber = this.configService.get<string>('sms.twilio.fromNumber');
-      
-      const message = `Your MAWELL B2B verification code is: ${otp}. Valid for ${this.otpExpiryMinutes} minutes. Do not share this code.`;
-      
-      const response = await axios.post(
-        `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`,
-        new URLSearchParams({
-          To: `+91${phone}`,
-          From: fromNumber,
-          Body: message,
-        }),
-        {
-          auth: {
-            username: accountSid,
-            password: authToken,
-          },
-          headers: {
-            'Content-Type': 'application/x-www-form-urlencoded',
-          },
-        },
-      );
-
-      return {
-        success: true,
-        message: 'OTP sent successfully',
-        requestId: response.data.sid,
-      };
-    } catch (error) {
-      this.logger.error('Twilio SMS error', error);
-      return {
-        success: false,
-        message: 'SMS service error',
-      };
-    }
+  private async sendSms(phone: string, otp: string, purpose: string) {
+    return this.smsService.send({
+      to: phone,
+      body: `Your MAWELL B2B verification code is: ${otp}. Valid for ${this.otpExpiryMinutes} minutes. Do not share this code.`,
+      purpose: `OTP_${purpose}`,
+      variables: { otp },
+      redact: [otp],
+    });
   }
 
   /**
@@ -0,0 +1,311 @@
+import {
+  Injectable,
+  UnauthorizedException,
+  NotFoundException,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { UserSession as UserSessionRecord } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../common/services/audit.service';
+import { UserRole, UserSession } from '@mawell/shared';
+import { JwtPayload } from './strategies/jwt.strategy';
+
+export interface SessionContext {
+  deviceName?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+interface SessionUser {
+  id: string;
+  phone: string;
+  role: string;
+}
+
+// lastSeenAt is only written when it is older than this, so authenticated requests stay read-only
+const LAST_SEEN_UPDATE_INTERVAL_MS = 5 * 60 * 1000;
+
+@Injectable()
+export class SessionsService {
+  private readonly logger = new Logger(SessionsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private jwtService: JwtService,
+    private configService: ConfigService,
+    private auditService: AuditService,
+  ) {}
+
+  /**
+   * Open a session for the device the user signed in from and issue its first token pair
+   */
+  async createSession(user: SessionUser, context: SessionContext): Promise<SessionTokens> {
+    const session = await this.prisma.userSession.create({
+      data: {
+        userId: user.id,
+        refreshTokenHash: '',
+        deviceName: context.deviceName,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+        expiresAt: new Date(),
+      },
+    });
+
+    const { tokens, refreshTokenHash, expiresAt } = await this.signTokens(user, session.id);
+
+    await this.prisma.userSession.update({
+      where: { id: session.id },
+      data: { refreshTokenHash, expiresAt },
+    });
+
+    return tokens;
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair. Every refresh token is single use:
+   * presenting one that was already rotated means it was copied, so the whole session
+   * is revoked and every device holding a token from it has to sign in again.
+   */
+  async rotateRefreshToken(refreshToken: string, context: SessionContext): Promise<SessionTokens> {
+    let payload: JwtPayload;
+    try {
+      payload = this.jwtService.verify<JwtPayload>(refreshToken, {
+        secret: this.configService.get<string>('jwt.refreshSecret'),
+      });
+    } catch (error) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    const session = payload.sid
+      ? await this.prisma.userSession.findUnique({
+          where: { id: payload.sid },
+          include: { user: true },
+        })
+      : null;
+
+    if (!session || session.userId !== payload.sub) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    if (session.revokedAt) {
+      throw new UnauthorizedException('Session has been revoked');
+    }
+
+    if (!session.user.isActive) {
+      throw new UnauthorizedException('Account is deactivated');
+    }
+
+    const { tokens, refreshTokenHash, expiresAt } = await this.signTokens(session.user, session.id);
+
+    // Swap the hash only if the presented token is still the current one
+    const { count } = await this.prisma.userSession.updateMany({
+      where: {
+        id: session.id,
+        refreshTokenHash: this.hashToken(refreshToken),
+        revokedAt: null,
+      },
+      data: {
+        refreshTokenHash,
+        expiresAt,
+        lastSeenAt: new Date(),
+        ...(context.ipAddress && { ipAddress: context.ipAddress }),
+        ...(context.userAgent && { userAgent: context.userAgent }),
+      },
+    });
+
+    if (count === 0) {
+      await this.revokeSession(session.id, 'REFRESH_TOKEN_REUSE');
+      await this.auditService.log({
+        userId: session.userId,
+        userRole: session.user.role as UserRole,
+        action: 'REFRESH_TOKEN_REUSE',
+        resource: 'AUTH',
+        resourceId: session.id,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+      });
+
+      this.logger.warn(`Refresh token reuse detected; session ${session.id} revoked`);
+
+      throw new UnauthorizedException('Refresh token has already been used');
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Reject access tokens whose session was revoked or has expired
+   */
+  async assertActiveSession(sessionId: string | undefined, userId: string): Promise<void> {
+    const session = sessionId
+      ? await this.prisma.userSession.findUnique({ where: { id: sessionId } })
+      : null;
+
+    if (!session || session.userId !== userId || session.revokedAt || session.expiresAt < new Date()) {
+      throw new UnauthorizedException('Session has been revoked');
+    }
+
+    if (Date.now() - session.lastSeenAt.getTime() > LAST_SEEN_UPDATE_INTERVAL_MS) {
+      await this.prisma.userSession.update({
+        where: { id: session.id },
+        data: { lastSeenAt: new Date() },
+      });
+    }
+  }
+
+  /**
+   * Get a user's active sessions, most recently used first
+   */
+  async findActiveSessions(
+    userId: string,
+    currentSessionId: string | undefined,
+    requestingUserId: string,
+    requestingUserRole: UserRole,
+  ): Promise<UserSession[]> {
+    this.assertCanManage(userId, requestingUserId, requestingUserRole);
+
+    const sessions = await this.prisma.userSession.findMany({
+      where: {
+        userId,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      orderBy: { lastSeenAt: 'desc' },
+    });
+
+    return sessions.map((session) => this.toSessionView(session, currentSessionId));
+  }
+
+  /**
+   * Revoke one of a user's sessions (the user themselves or an admin)
+   */
+  async revokeUserSession(
+    userId: string,
+    sessionId: string,
+    requestingUserId: string,
+    requestingUserRole: UserRole,
+  ) {
+    this.assertCanManage(userId, requestingUserId, requestingUserRole);
+
+    const session = await this.prisma.userSession.findFirst({
+      where: { id: sessionId, userId },
+    });
+    if (!session) {
+      throw new NotFoundException('Session not found');
+    }
+
+    const reason = requestingUserId === userId ? 'USER_REVOKED' : 'ADMIN_REVOKED';
+    await this.revokeSession(sessionId, reason);
+
+    await this.auditService.logUpdate(
+      'USER_SESSION',
+      sessionId,
+      { revokedAt: session.revokedAt },
+      { revokedReason: reason },
+      requestingUserId,
+      requestingUserRole,
+    );
+
+    return { message: 'Session revoked successfully' };
+  }
+
+  /**
+   * Revoke every active session of a user (Admin only), e.g. when a shared phone changes hands
+   */
+  async revokeAllUserSessions(userId: string, requestingUserId: string, requestingUserRole: UserRole) {
+    if (requestingUserRole !== UserRole.ADMIN) {
+      throw new ForbiddenException('Only admins can revoke all sessions of a user');
+    }
+
+    const { count } = await this.prisma.userSession.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: 'ADMIN_REVOKED' },
+    });
+
+    await this.auditService.logUpdate(
+      'USER_SESSION',
+      userId,
+      {},
+      { revokedSessions: count, revokedReason: 'ADMIN_REVOKED' },
+      requestingUserId,
+      requestingUserRole,
+    );
+
+    this.logger.log(`Revoked ${count} session(s) of user ${userId}`);
+
+    return { revoked: count };
+  }
+
+  /**
+   * Revoke a single session; repeated calls keep the original reason
+   */
+  async revokeSession(sessionId: string, reason: string): Promise<void> {
+    await this.prisma.userSession.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+  }
+
+  // Helper methods
+
+  private assertCanManage(userId: string, requestingUserId: string, requestingUserRole: UserRole) {
+    if (requestingUserRole !== UserRole.ADMIN && userId !== requestingUserId) {
+      throw new ForbiddenException('You can only manage your own sessions');
+    }
+  }
+
+  private async signTokens(user: SessionUser, sessionId: string) {
+    const payload: JwtPayload = {
+      sub: user.id,
+      phone: user.phone,
+      role: user.role as UserRole,
+      sid: sessionId,
+    };
+
+    const [accessToken, refreshToken] = await Promise.all([
+      this.jwtService.signAsync(payload, {
+        secret: this.configService.get<string>('jwt.secret'),
+        expiresIn: this.configService.get<string>('jwt.expiresIn'),
+      }),
+      this.jwtService.signAsync(payload, {
+        secret: this.configService.get<string>('jwt.refreshSecret'),
+        expiresIn: this.configService.get<string>('jwt.refreshExpiresIn'),
+        jwtid: crypto.randomUUID(),
+      }),
+    ]);
+
+    const { exp } = this.jwtService.decode(refreshToken) as JwtPayload;
+
+    return {
+      tokens: { accessToken, refreshToken },
+      refreshTokenHash: this.hashToken(refreshToken),
+      expiresAt: new Date(exp! * 1000),
+    };
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private toSessionView(session: UserSessionRecord, currentSessionId?: string): UserSession {
+    return {
+      id: session.id,
+      deviceName: session.deviceName ?? undefined,
+      ipAddress: session.ipAddress ?? undefined,
+      userAgent: session.userAgent ?? undefined,
+      lastSeenAt: session.lastSeenAt,
+      expiresAt: session.expiresAt,
+      createdAt: session.createdAt,
+      isCurrent: session.id === currentSessionId,
+    };
+  }
+}
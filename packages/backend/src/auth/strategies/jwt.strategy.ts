@@ -3,12 +3,14 @@ import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../../prisma/prisma.service';
+import { SessionsService } from '../sessions.service';
 import { UserRole } from '@mawell/shared';
 
 export interface JwtPayload {
   sub: string; // user id
   phone: string;
   role: UserRole;
+  sid?: string; // session id
   iat?: number;
   exp?: number;
 }
@@ -18,6 +20,7 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
   constructor(
     private configService: ConfigService,
     private prisma: PrismaService,
+    private sessionsService: SessionsService,
   ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
@@ -27,7 +30,10 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
   }
 
   async validate(payload: JwtPayload) {
-    const { sub: userId, phone, role } = payload;
+    const { sub: userId, phone, role, sid: sessionId } = payload;
+
+    // Logged out and revoked devices are rejected even while their access token is unexpired
+    await this.sessionsService.assertActiveSession(sessionId, userId);
 
     // Find user in database
     const user = await this.prisma.user.findUnique({
@@ -57,6 +63,7 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
     // Return user object that will be attached to request
     return {
       id: user.id,
+      sessionId,
       phone: user.phone,
       role: user.role,
       isActive: user.isActive,
@@ -0,0 +1,25 @@
+import { ConflictException } from '@nestjs/common';
+
+export interface StockShortage {
+  variantId: string;
+  sku: string;
+  warehouseId: string;
+  requested: number;
+  available: number;
+}
+
+/**
+ * Thrown when one or more cart lines cannot be reserved from available stock
+ * (quantity minus already-reserved units)
+ */
+export class InsufficientStockException extends ConflictException {
+  constructor(public readonly shortages: StockShortage[]) {
+    super({
+      message: `Insufficient stock for SKU${shortages.length > 1 ? 's' : ''}: ${shortages
+        .map((shortage) => shortage.sku)
+        .join(', ')}`,
+      error: 'InsufficientStock',
+      details: { shortages },
+    });
+  }
+}
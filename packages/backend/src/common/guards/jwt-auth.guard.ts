@@ -53,6 +53,9 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
 
     // Handle authentication errors
     if (err || !user) {
+      if (err instanceof UnauthorizedException) {
+        throw err;
+      }
       if (info?.name === 'TokenExpiredError') {
         throw new UnauthorizedException('Token has expired');
       }
@@ -107,7 +107,7 @@ export class ValidationService {
     }
 
     if (!validateGSTIN(gstin)) {
-      return { isValid: false, error: 'Invalid GSTIN format' };
+      return { isValid: false, error: 'Invalid GSTIN: check the format and check digit' };
     }
 
     return { isValid: true };
@@ -36,19 +36,43 @@ export default () => ({
       forcePathStyle: process.env.AWS_S3_FORCE_PATH_STYLE === 'true',
     },
   },
+  storage: {
+    driver: process.env.STORAGE_DRIVER || 'LOCAL',
+    localPath: process.env.STORAGE_LOCAL_PATH || './uploads',
+    // Prefix for file URLs handed to clients, e.g. https://api.mawell.com
+    publicBaseUrl: process.env.STORAGE_PUBLIC_BASE_URL || '',
+    signingSecret: process.env.STORAGE_SIGNING_SECRET || process.env.JWT_SECRET || 'your-super-secret-jwt-key',
+    signedUrlTtl: parseInt(process.env.STORAGE_SIGNED_URL_TTL, 10) || 900, // seconds
+  },
 
   // SMS
   sms: {
     provider: process.env.SMS_PROVIDER || 'MSG91',
+    fallbackProvider: process.env.SMS_FALLBACK_PROVIDER,
     msg91: {
       apiKey: process.env.MSG91_API_KEY,
       templateId: process.env.MSG91_TEMPLATE_ID,
+      // DLT flow per notification SMS, referenced by the templates' smsFlow
+      flows: {
+        orderConfirmed: process.env.MSG91_FLOW_ORDER_CONFIRMED,
+        orderShipped: process.env.MSG91_FLOW_ORDER_SHIPPED,
+        orderDelivered: process.env.MSG91_FLOW_ORDER_DELIVERED,
+        orderCancelled: process.env.MSG91_FLOW_ORDER_CANCELLED,
+        consignmentAssigned: process.env.MSG91_FLOW_CONSIGNMENT_ASSIGNED,
+        consignmentOutForDelivery: process.env.MSG91_FLOW_CONSIGNMENT_OUT_FOR_DELIVERY,
+        refundProcessed: process.env.MSG91_FLOW_REFUND_PROCESSED,
+        kycApproved: process.env.MSG91_FLOW_KYC_APPROVED,
+        kycRejected: process.env.MSG91_FLOW_KYC_REJECTED,
+      },
     },
     twilio: {
       accountSid: process.env.TWILIO_ACCOUNT_SID,
       authToken: process.env.TWILIO_AUTH_TOKEN,
       phoneNumber: process.env.TWILIO_PHONE_NUMBER,
     },
+    outbox: {
+      path: process.env.SMS_OUTBOX_PATH,
+    },
   },
 
   // Email
@@ -134,9 +158,34 @@ export default () => ({
   business: {
     defaultDeliveryFee: parseFloat(process.env.DEFAULT_DELIVERY_FEE) || 50,
     defaultEtaHours: parseInt(process.env.DEFAULT_ETA_HOURS, 10) || 24,
+    freeDeliveryThreshold: parseFloat(process.env.FREE_DELIVERY_THRESHOLD) || 0,
     defaultTaxRate: parseFloat(process.env.DEFAULT_TAX_RATE) || 18,
     minOrderAmount: parseFloat(process.env.MIN_ORDER_AMOUNT) || 100,
     maxCodAmount: parseFloat(process.env.MAX_COD_AMOUNT) || 5000,
+    reservationTtlMinutes: parseInt(process.env.RESERVATION_TTL_MINUTES, 10) || 30,
+    reorderLookbackDays: parseInt(process.env.REORDER_LOOKBACK_DAYS, 10) || 30,
+    reorderCoverDays: parseInt(process.env.REORDER_COVER_DAYS, 10) || 14,
+    // Batches expiring within this many days show on the near-expiry report
+    nearExpiryDays: parseInt(process.env.NEAR_EXPIRY_DAYS, 10) || 30,
+  },
+
+  // Procurement
+  procurement: {
+    // Extra units a GRN may accept beyond the ordered quantity, as a percentage of it
+    overReceiptTolerancePercent: parseFloat(process.env.PO_OVER_RECEIPT_TOLERANCE_PERCENT) || 0,
+  },
+
+  // Tax Invoices
+  invoice: {
+    generateOn: process.env.INVOICE_GENERATE_ON || 'CONFIRMED',
+    prefix: process.env.INVOICE_PREFIX || 'INV',
+    creditNotePrefix: process.env.CREDIT_NOTE_PREFIX || 'CN',
+    seller: {
+      name: process.env.INVOICE_SELLER_NAME || 'Mawell Distribution Pvt Ltd',
+      gstin: process.env.INVOICE_SELLER_GSTIN,
+      address: process.env.INVOICE_SELLER_ADDRESS,
+      state: process.env.INVOICE_SELLER_STATE || 'Telangana',
+    },
   },
 
   // Location
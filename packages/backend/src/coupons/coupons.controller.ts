@@ -0,0 +1,273 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import {
+  IsString,
+  IsOptional,
+  IsNumber,
+  IsBoolean,
+  IsEnum,
+  IsArray,
+  IsDateString,
+  IsInt,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { CouponsService } from './coupons.service';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { Public } from '../common/decorators/public.decorator';
+import { User } from '../common/decorators/user.decorator';
+import { UserRole, DiscountType } from '@mawell/shared';
+
+// DTOs
+class CreateCouponRequestDto {
+  @IsString()
+  code: string;
+
+  @IsString()
+  description: string;
+
+  @IsEnum(DiscountType)
+  discountType: DiscountType;
+
+  @IsNumber()
+  @Min(0)
+  discountValue: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minOrderAmount?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  maxDiscountAmount?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  usageLimit?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  perBuyerLimit?: number;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  categoryIds?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  brandIds?: string[];
+
+  @IsDateString()
+  validFrom: string;
+
+  @IsDateString()
+  validUntil: string;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+class UpdateCouponRequestDto {
+  @IsOptional()
+  @IsString()
+  code?: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsOptional()
+  @IsEnum(DiscountType)
+  discountType?: DiscountType;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  discountValue?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minOrderAmount?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  maxDiscountAmount?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  usageLimit?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  perBuyerLimit?: number;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  categoryIds?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  brandIds?: string[];
+
+  @IsOptional()
+  @IsDateString()
+  validFrom?: string;
+
+  @IsOptional()
+  @IsDateString()
+  validUntil?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+class CouponFiltersDto {
+  @IsOptional()
+  @IsString()
+  search?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
+
+@ApiTags('Coupons')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('coupons')
+export class CouponsController {
+  constructor(private readonly couponsService: CouponsService) {}
+
+  @Post()
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Create coupon (Admin only)' })
+  @ApiResponse({ status: 201, description: 'Coupon created successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request - Invalid data' })
+  @ApiResponse({ status: 409, description: 'Coupon code already exists' })
+  async createCoupon(
+    @Body(ValidationPipe) couponData: CreateCouponRequestDto,
+    @User() user: any,
+  ) {
+    return this.couponsService.createCoupon(
+      {
+        ...couponData,
+        validFrom: new Date(couponData.validFrom),
+        validUntil: new Date(couponData.validUntil),
+      },
+      user.id,
+      user.role,
+    );
+  }
+
+  @Get()
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Get coupons (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Coupons retrieved successfully' })
+  async getCoupons(@Query() filters: CouponFiltersDto, @User() user: any) {
+    return this.couponsService.findCoupons(filters, user.role);
+  }
+
+  @Get('health')
+  @Public()
+  @ApiOperation({ summary: 'Coupons service health check' })
+  @ApiResponse({ status: 200, description: 'Service is healthy' })
+  async healthCheck() {
+    return {
+      status: 'ok',
+      service: 'coupons',
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  @Get(':id')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Get coupon by ID (Admin only)' })
+  @ApiParam({ name: 'id', description: 'Coupon ID' })
+  @ApiResponse({ status: 200, description: 'Coupon retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Coupon not found' })
+  async getCoupon(@Param('id') id: string) {
+    return this.couponsService.findById(id);
+  }
+
+  @Put(':id')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Update coupon (Admin only)' })
+  @ApiParam({ name: 'id', description: 'Coupon ID' })
+  @ApiResponse({ status: 200, description: 'Coupon updated successfully' })
+  @ApiResponse({ status: 404, description: 'Coupon not found' })
+  async updateCoupon(
+    @Param('id') id: string,
+    @Body(ValidationPipe) updateData: UpdateCouponRequestDto,
+    @User() user: any,
+  ) {
+    const { validFrom, validUntil, ...rest } = updateData;
+    return this.couponsService.updateCoupon(
+      id,
+      {
+        ...rest,
+        ...(validFrom && { validFrom: new Date(validFrom) }),
+        ...(validUntil && { validUntil: new Date(validUntil) }),
+      },
+      user.id,
+      user.role,
+    );
+  }
+
+  @Delete(':id')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Delete coupon (Admin only)' })
+  @ApiParam({ name: 'id', description: 'Coupon ID' })
+  @ApiResponse({ status: 200, description: 'Coupon deleted successfully' })
+  @ApiResponse({ status: 400, description: 'Coupon has been redeemed' })
+  @ApiResponse({ status: 404, description: 'Coupon not found' })
+  async deleteCoupon(@Param('id') id: string, @User() user: any) {
+    return this.couponsService.deleteCoupon(id, user.id, user.role);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { CouponsService } from './coupons.service';
+import { CouponsController } from './coupons.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { CommonModule } from '../common/common.module';
+
+@Module({
+  imports: [PrismaModule, CommonModule],
+  controllers: [CouponsController],
+  providers: [CouponsService],
+  exports: [CouponsService],
+})
+export class CouponsModule {}
@@ -0,0 +1,396 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  ConflictException,
+  Logger,
+} from '@nestjs/common';
+import { Coupon, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../common/services/audit.service';
+import { ValidationService } from '../common/services/validation.service';
+import { UserRole, DiscountType, roundCurrency } from '@mawell/shared';
+
+export interface CreateCouponDto {
+  code: string;
+  description: string;
+  discountType: DiscountType;
+  discountValue: number;
+  minOrderAmount?: number;
+  maxDiscountAmount?: number;
+  usageLimit?: number;
+  perBuyerLimit?: number;
+  categoryIds?: string[];
+  brandIds?: string[];
+  validFrom: Date;
+  validUntil: Date;
+  isActive?: boolean;
+}
+
+export interface UpdateCouponDto extends Partial<CreateCouponDto> {}
+
+export interface CouponFilters {
+  search?: string;
+  isActive?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Minimal line shape needed to evaluate a coupon against a cart
+ */
+export interface CouponLine {
+  totalPrice: number;
+  product: {
+    categoryId: string;
+    brandId: string | null;
+  };
+}
+
+export interface CouponEvaluation {
+  coupon: Coupon;
+  eligibleSubtotal: number;
+  discountAmount: number;
+  lineDiscounts: number[];
+}
+
+@Injectable()
+export class CouponsService {
+  private readonly logger = new Logger(CouponsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+    private validationService: ValidationService,
+  ) {}
+
+  /**
+   * Validate a coupon for a buyer's cart and compute its discount.
+   * The discount is apportioned across eligible lines so GST applies to the discounted value.
+   */
+  async evaluateCoupon(
+    code: string,
+    userId: string,
+    lines: CouponLine[],
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<CouponEvaluation> {
+    const coupon = await client.coupon.findUnique({
+      where: { code: this.normalizeCode(code) },
+    });
+    if (!coupon) {
+      throw new BadRequestException('Invalid coupon code');
+    }
+
+    await this.assertRedeemable(coupon, userId, client);
+
+    const eligible = lines.map((line) => this.isLineEligible(coupon, line));
+    const eligibleSubtotal = roundCurrency(
+      lines.reduce((sum, line, index) => (eligible[index] ? sum + line.totalPrice : sum), 0),
+    );
+
+    if (eligibleSubtotal <= 0) {
+      throw new BadRequestException('Coupon does not apply to any item in your cart');
+    }
+    if (coupon.minOrderAmount && eligibleSubtotal < coupon.minOrderAmount) {
+      throw new BadRequestException(
+        `Coupon requires a minimum order of ${coupon.minOrderAmount} on eligible items`,
+      );
+    }
+
+    let discountAmount =
+      coupon.discountType === DiscountType.PERCENTAGE
+        ? (eligibleSubtotal * coupon.discountValue) / 100
+        : coupon.discountValue;
+    if (coupon.maxDiscountAmount) {
+      discountAmount = Math.min(discountAmount, coupon.maxDiscountAmount);
+    }
+    discountAmount = roundCurrency(Math.min(discountAmount, eligibleSubtotal));
+
+    return {
+      coupon,
+      eligibleSubtotal,
+      discountAmount,
+      lineDiscounts: this.apportionDiscount(lines, eligible, eligibleSubtotal, discountAmount),
+    };
+  }
+
+  /**
+   * Redeem a coupon inside the order transaction. The coupon row is locked so
+   * usage and per-buyer limits are re-checked safely under concurrency.
+   */
+  async redeemCoupon(
+    tx: Prisma.TransactionClient,
+    couponId: string,
+    userId: string,
+    orderId: string,
+    discountAmount: number,
+  ) {
+    await tx.$queryRaw`SELECT "id" FROM "coupons" WHERE "id" = ${couponId} FOR UPDATE`;
+
+    const coupon = await tx.coupon.findUnique({ where: { id: couponId } });
+    if (!coupon) {
+      throw new BadRequestException('Invalid coupon code');
+    }
+
+    await this.assertRedeemable(coupon, userId, tx);
+
+    await tx.coupon.update({
+      where: { id: couponId },
+      data: { usedCount: { increment: 1 } },
+    });
+
+    return tx.couponRedemption.create({
+      data: {
+        couponId,
+        userId,
+        orderId,
+        discountAmount,
+      },
+    });
+  }
+
+  /**
+   * Return a coupon use when its order is cancelled. Pass the cancelling transaction
+   * so the release commits or rolls back with the order.
+   */
+  async releaseRedemption(orderId: string, tx?: Prisma.TransactionClient) {
+    if (!tx) {
+      return this.prisma.$transaction((client) => this.releaseRedemption(orderId, client));
+    }
+
+    const redemption = await tx.couponRedemption.findUnique({ where: { orderId } });
+    if (!redemption) {
+      return;
+    }
+
+    // Only the release that actually deletes the redemption gives the use back
+    const { count } = await tx.couponRedemption.deleteMany({ where: { id: redemption.id } });
+    if (count === 0) {
+      return;
+    }
+    await tx.coupon.update({
+      where: { id: redemption.couponId },
+      data: { usedCount: { decrement: 1 } },
+    });
+
+    this.logger.log(`Coupon redemption released for order ${orderId}`);
+  }
+
+  /**
+   * Create coupon (Admin only)
+   */
+  async createCoupon(couponData: CreateCouponDto, requestingUserId: string, requestingUserRole: UserRole) {
+    this.assertAdmin(requestingUserRole);
+    this.validateCouponData(couponData);
+
+    const code = this.normalizeCode(couponData.code);
+    const existing = await this.prisma.coupon.findUnique({ where: { code } });
+    if (existing) {
+      throw new ConflictException('Coupon code already exists');
+    }
+
+    const coupon = await this.prisma.coupon.create({
+      data: {
+        ...couponData,
+        code,
+        categoryIds: couponData.categoryIds ?? [],
+        brandIds: couponData.brandIds ?? [],
+      },
+    });
+
+    await this.auditService.logCreate('COUPON', coupon.id, couponData, requestingUserId, requestingUserRole);
+
+    this.logger.log(`Coupon created: ${coupon.code}`);
+
+    return coupon;
+  }
+
+  /**
+   * Get coupon by ID
+   */
+  async findById(couponId: string) {
+    const coupon = await this.prisma.coupon.findUnique({
+      where: { id: couponId },
+      include: {
+        _count: {
+          select: {
+            redemptions: true,
+          },
+        },
+      },
+    });
+    if (!coupon) {
+      throw new NotFoundException('Coupon not found');
+    }
+    return coupon;
+  }
+
+  /**
+   * Get coupons with filters and pagination (Admin only)
+   */
+  async findCoupons(filters: CouponFilters, requestingUserRole: UserRole) {
+    this.assertAdmin(requestingUserRole);
+
+    const { page, limit } = this.validationService.validatePagination(filters.page, filters.limit);
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.CouponWhereInput = {};
+    if (filters.isActive !== undefined) where.isActive = filters.isActive;
+    if (filters.search) {
+      where.OR = [
+        { code: { contains: filters.search, mode: 'insensitive' } },
+        { description: { contains: filters.search, mode: 'insensitive' } },
+      ];
+    }
+
+    const [coupons, total] = await Promise.all([
+      this.prisma.coupon.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.coupon.count({ where }),
+    ]);
+
+    return {
+      coupons,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Update coupon (Admin only)
+   */
+  async updateCoupon(
+    couponId: string,
+    updateData: UpdateCouponDto,
+    requestingUserId: string,
+    requestingUserRole: UserRole,
+  ) {
+    this.assertAdmin(requestingUserRole);
+
+    const coupon = await this.findById(couponId);
+    this.validateCouponData({ ...coupon, ...updateData } as CreateCouponDto);
+
+    const data: Prisma.CouponUpdateInput = { ...updateData };
+    if (updateData.code !== undefined) {
+      data.code = this.normalizeCode(updateData.code);
+      if (data.code !== coupon.code) {
+        const existing = await this.prisma.coupon.findUnique({ where: { code: data.code } });
+        if (existing) {
+          throw new ConflictException('Coupon code already exists');
+        }
+      }
+    }
+
+    const updatedCoupon = await this.prisma.coupon.update({
+      where: { id: couponId },
+      data,
+    });
+
+    await this.auditService.logUpdate(
+      'COUPON',
+      couponId,
+      coupon,
+      updateData,
+      requestingUserId,
+      requestingUserRole,
+    );
+
+    this.logger.log(`Coupon updated: ${updatedCoupon.code}`);
+
+    return updatedCoupon;
+  }
+
+  /**
+   * Delete coupon (Admin only). Redeemed coupons must be deactivated instead.
+   */
+  async deleteCoupon(couponId: string, requestingUserId: string, requestingUserRole: UserRole) {
+    this.assertAdmin(requestingUserRole);
+
+    const coupon = await this.findById(couponId);
+    if (coupon._count.redemptions > 0) {
+      throw new BadRequestException('Coupon has been redeemed; deactivate it instead');
+    }
+
+    await this.prisma.coupon.delete({ where: { id: couponId } });
+
+    await this.auditService.logDelete('COUPON', couponId, coupon, requestingUserId, requestingUserRole);
+
+    this.logger.log(`Coupon deleted: ${coupon.code}`);
+
+    return { message: 'Coupon deleted successfully' };
+  }
+
+  // Helper methods
+
+  private normalizeCode(code: string): string {
+    return code.trim().toUpperCase();
+  }
+
+  private assertAdmin(requestingUserRole: UserRole) {
+    if (requestingUserRole !== UserRole.ADMIN) {
+      throw new ForbiddenException('Only admins can manage coupons');
+    }
+  }
+
+  private validateCouponData(couponData: CreateCouponDto) {
+    if (new Date(couponData.validUntil) <= new Date(couponData.validFrom)) {
+      throw new BadRequestException('validUntil must be after validFrom');
+    }
+    if (couponData.discountType === DiscountType.PERCENTAGE && couponData.discountValue > 100) {
+      throw new BadRequestException('Percentage discount cannot exceed 100');
+    }
+  }
+
+  private async assertRedeemable(coupon: Coupon, userId: string, client: Prisma.TransactionClient) {
+    const now = new Date();
+    if (!coupon.isActive || now < coupon.validFrom || now > coupon.validUntil) {
+      throw new BadRequestException('Coupon is not active');
+    }
+    if (coupon.usageLimit !== null && coupon.usedCount >= coupon.usageLimit) {
+      throw new BadRequestException('Coupon usage limit has been reached');
+    }
+    if (coupon.perBuyerLimit !== null) {
+      const buyerRedemptions = await client.couponRedemption.count({
+        where: { couponId: coupon.id, userId },
+      });
+      if (buyerRedemptions >= coupon.perBuyerLimit) {
+        throw new BadRequestException('You have already used this coupon the maximum number of times');
+      }
+    }
+  }
+
+  private isLineEligible(coupon: Coupon, line: CouponLine): boolean {
+    const categoryMatch =
+      coupon.categoryIds.length === 0 || coupon.categoryIds.includes(line.product.categoryId);
+    const brandMatch =
+      coupon.brandIds.length === 0 ||
+      (line.product.brandId !== null && coupon.brandIds.includes(line.product.brandId));
+    return categoryMatch && brandMatch;
+  }
+
+  private apportionDiscount(
+    lines: CouponLine[],
+    eligible: boolean[],
+    eligibleSubtotal: number,
+    discountAmount: number,
+  ): number[] {
+    const lastEligibleIndex = eligible.lastIndexOf(true);
+    let allocated = 0;
+
+    return lines.map((line, index) => {
+      if (!eligible[index]) return 0;
+      if (index === lastEligibleIndex) return roundCurrency(discountAmount - allocated);
+
+      const share = roundCurrency((line.totalPrice / eligibleSubtotal) * discountAmount);
+      allocated += share;
+      return share;
+    });
+  }
+}
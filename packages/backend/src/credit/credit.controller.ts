@@ -0,0 +1,175 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiQuery,
+  ApiParam,
+} from '@nestjs/swagger';
+import { IsOptional, IsString, IsNumber, IsEnum, IsDateString, IsInt, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import { CreditService, UpdateCreditLimitDto } from './credit.service';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { Public } from '../common/decorators/public.decorator';
+import { User } from '../common/decorators/user.decorator';
+import { UserRole, KYCStatus } from '@mawell/shared';
+
+// DTOs
+class UpdateCreditLimitRequestDto implements UpdateCreditLimitDto {
+  @IsNumber()
+  @Min(0)
+  creditLimit: number;
+
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
+
+class CreditLedgerQueryDto {
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 50;
+}
+
+class CreditAccountQueryDto {
+  @IsOptional()
+  @IsString()
+  search?: string;
+
+  @IsOptional()
+  @IsEnum(KYCStatus)
+  kycStatus?: KYCStatus;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
+
+@ApiTags('Credit')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('credit')
+export class CreditController {
+  constructor(private readonly creditService: CreditService) {}
+
+  @Get('summary')
+  @Roles(UserRole.BUYER)
+  @ApiOperation({ summary: 'Get current buyer credit limit and availability' })
+  @ApiResponse({ status: 200, description: 'Credit summary retrieved successfully' })
+  async getMyCreditSummary(@User() user: any) {
+    return this.creditService.getCreditSummary(user.id, user.id, user.role);
+  }
+
+  @Get('ledger')
+  @Roles(UserRole.BUYER)
+  @ApiOperation({ summary: 'Get current buyer credit ledger' })
+  @ApiQuery({ name: 'startDate', required: false, type: String })
+  @ApiQuery({ name: 'endDate', required: false, type: String })
+  @ApiResponse({ status: 200, description: 'Credit ledger retrieved successfully' })
+  async getMyLedger(
+    @Query() query: CreditLedgerQueryDto,
+    @User() user: any,
+  ) {
+    return this.creditService.getLedger(user.id, this.toLedgerFilters(query), user.id, user.role);
+  }
+
+  @Get('accounts')
+  @Roles(UserRole.ADMIN, UserRole.OPS)
+  @ApiOperation({ summary: 'List buyer credit accounts (Admin/OPS)' })
+  @ApiResponse({ status: 200, description: 'Credit accounts retrieved successfully' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin/OPS access required' })
+  async getCreditAccounts(
+    @Query() query: CreditAccountQueryDto,
+    @User() user: any,
+  ) {
+    return this.creditService.getCreditAccounts(query, user.role);
+  }
+
+  @Get('accounts/:userId/ledger')
+  @Roles(UserRole.ADMIN, UserRole.OPS)
+  @ApiOperation({ summary: 'Get buyer credit ledger (Admin/OPS)' })
+  @ApiParam({ name: 'userId', description: 'Buyer user ID' })
+  @ApiResponse({ status: 200, description: 'Credit ledger retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Buyer profile not found' })
+  async getBuyerLedger(
+    @Param('userId') userId: string,
+    @Query() query: CreditLedgerQueryDto,
+    @User() user: any,
+  ) {
+    return this.creditService.getLedger(userId, this.toLedgerFilters(query), user.id, user.role);
+  }
+
+  @Put('accounts/:userId/limit')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Update buyer credit limit (Admin only)' })
+  @ApiParam({ name: 'userId', description: 'Buyer user ID' })
+  @ApiResponse({ status: 200, description: 'Credit limit updated successfully' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin access required' })
+  @ApiResponse({ status: 404, description: 'Buyer profile not found' })
+  async updateCreditLimit(
+    @Param('userId') userId: string,
+    @Body(ValidationPipe) updateData: UpdateCreditLimitRequestDto,
+    @User() user: any,
+  ) {
+    return this.creditService.updateCreditLimit(userId, updateData, user.id, user.role);
+  }
+
+  @Get('health')
+  @Public()
+  @ApiOperation({ summary: 'Credit service health check' })
+  @ApiResponse({ status: 200, description: 'Service is healthy' })
+  async healthCheck() {
+    return {
+      status: 'ok',
+      service: 'credit',
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  private toLedgerFilters(query: CreditLedgerQueryDto) {
+    return {
+      page: query.page,
+      limit: query.limit,
+      startDate: query.startDate ? new Date(query.startDate) : undefined,
+      endDate: query.endDate ? new Date(query.endDate) : undefined,
+    };
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { CreditService } from './credit.service';
+import { CreditController } from './credit.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { CommonModule } from '../common/common.module';
+
+@Module({
+  imports: [PrismaModule, CommonModule],
+  controllers: [CreditController],
+  providers: [CreditService],
+  exports: [CreditService],
+})
+export class CreditModule {}
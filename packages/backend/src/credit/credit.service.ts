@@ -0,0 +1,402 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../common/services/audit.service';
+import { ValidationService } from '../common/services/validation.service';
+import { UserRole, KYCStatus, CreditEntryType, roundCurrency } from '@mawell/shared';
+
+export interface UpdateCreditLimitDto {
+  creditLimit: number;
+  reason?: string;
+}
+
+export interface CreditLedgerFilters {
+  startDate?: Date;
+  endDate?: Date;
+  page?: number;
+  limit?: number;
+}
+
+export interface CreditAccountFilters {
+  search?: string;
+  kycStatus?: KYCStatus;
+  page?: number;
+  limit?: number;
+}
+
+export interface ReleaseCreditOptions {
+  amount?: number;
+  reference?: string;
+  notes?: string;
+  createdBy?: string;
+}
+
+const RELEASE_ENTRY_TYPES = [
+  CreditEntryType.PAYMENT,
+  CreditEntryType.CANCELLATION,
+  CreditEntryType.REFUND,
+];
+
+@Injectable()
+export class CreditService {
+  private readonly logger = new Logger(CreditService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+    private validationService: ValidationService,
+  ) {}
+
+  /**
+   * Draw credit for an order. Must run inside the order transaction; the
+   * conditional update makes the limit check and the increment atomic.
+   */
+  async chargeOrder(
+    tx: Prisma.TransactionClient,
+    buyerProfileId: string,
+    orderId: string,
+    amount: number,
+    createdBy?: string,
+  ) {
+    const updated = await tx.$executeRaw`
+      UPDATE "buyer_profiles"
+      SET "creditUsed" = COALESCE("creditUsed", 0) + ${amount}, "updatedAt" = NOW()
+      WHERE "id" = ${buyerProfileId}
+        AND COALESCE("creditUsed", 0) + ${amount} <= COALESCE("creditLimit", 0)
+    `;
+
+    if (updated === 0) {
+      const profile = await tx.buyerProfile.findUnique({ where: { id: buyerProfileId } });
+      const available = roundCurrency((profile?.creditLimit ?? 0) - (profile?.creditUsed ?? 0));
+      throw new BadRequestException(
+        `Insufficient credit: order total is ${roundCurrency(amount)}, available credit is ${Math.max(available, 0)}`,
+      );
+    }
+
+    return this.recordEntry(tx, buyerProfileId, {
+      orderId,
+      type: CreditEntryType.ORDER,
+      amount,
+      createdBy,
+    });
+  }
+
+  /**
+   * Give back credit drawn by an order, capped at what is still outstanding for it
+   */
+  async releaseOrderCredit(
+    orderId: string,
+    type: CreditEntryType,
+    options: ReleaseCreditOptions = {},
+    tx?: Prisma.TransactionClient,
+  ) {
+    if (!RELEASE_ENTRY_TYPES.includes(type)) {
+      throw new BadRequestException(`${type} entries cannot release order credit`);
+    }
+
+    if (!tx) {
+      return this.prisma.$transaction((client) => this.releaseOrderCredit(orderId, type, options, client));
+    }
+
+    const firstEntry = await tx.creditLedgerEntry.findFirst({ where: { orderId } });
+    if (!firstEntry) {
+      return null;
+    }
+
+    // Lock the buyer's profile so concurrent releases for the order see each other's entries
+    const buyerProfileId = firstEntry.buyerProfileId;
+    await tx.$queryRaw`SELECT "id" FROM "buyer_profiles" WHERE "id" = ${buyerProfileId} FOR UPDATE`;
+
+    const entries = await tx.creditLedgerEntry.findMany({ where: { orderId } });
+    const outstanding = roundCurrency(entries.reduce((sum, entry) => sum + entry.amount, 0));
+    const amount = roundCurrency(Math.min(options.amount ?? outstanding, outstanding));
+    if (amount <= 0) {
+      return null;
+    }
+
+    await tx.buyerProfile.update({
+      where: { id: buyerProfileId },
+      data: { creditUsed: { decrement: amount } },
+    });
+
+    const entry = await this.recordEntry(tx, buyerProfileId, {
+      orderId,
+      type,
+      amount: -amount,
+      reference: options.reference,
+      notes: options.notes,
+      createdBy: options.createdBy,
+    });
+
+    this.logger.log(`Released ${amount} credit for order ${orderId} (${type})`);
+
+    return entry;
+  }
+
+  /**
+   * Credit a refund to the buyer's ledger. Unlike a release this is not capped by what
+   * the order still owes, so a refund on a settled order leaves the buyer with credit.
+   * Must run inside the refund transaction.
+   */
+  async refundToCredit(
+    tx: Prisma.TransactionClient,
+    buyerProfileId: string,
+    orderId: string,
+    amount: number,
+    options: ReleaseCreditOptions = {},
+  ) {
+    await tx.buyerProfile.update({
+      where: { id: buyerProfileId },
+      data: { creditUsed: { decrement: roundCurrency(amount) } },
+    });
+
+    const entry = await this.recordEntry(tx, buyerProfileId, {
+      orderId,
+      type: CreditEntryType.REFUND,
+      amount: -amount,
+      reference: options.reference,
+      notes: options.notes,
+      createdBy: options.createdBy,
+    });
+
+    this.logger.log(`Refunded ${roundCurrency(amount)} to credit ledger for order ${orderId}`);
+
+    return entry;
+  }
+
+  /**
+   * Get credit summary for a buyer
+   */
+  async getCreditSummary(userId: string, requestingUserId: string, requestingUserRole: UserRole) {
+    this.checkLedgerAccess(userId, requestingUserId, requestingUserRole);
+
+    const profile = await this.findBuyerProfile(userId);
+
+    return this.toCreditSummary(profile);
+  }
+
+  /**
+   * Get buyer credit ledger with opening balance and running balance
+   */
+  async getLedger(
+    userId: string,
+    filters: CreditLedgerFilters,
+    requestingUserId: string,
+    requestingUserRole: UserRole,
+  ) {
+    this.checkLedgerAccess(userId, requestingUserId, requestingUserRole);
+
+    const profile = await this.findBuyerProfile(userId);
+    const { page, limit } = this.validationService.validatePagination(filters.page, filters.limit);
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.CreditLedgerEntryWhereInput = { buyerProfileId: profile.id };
+    if (filters.startDate || filters.endDate) {
+      where.createdAt = {};
+      if (filters.startDate) where.createdAt.gte = filters.startDate;
+      if (filters.endDate) where.createdAt.lte = filters.endDate;
+    }
+
+    const [openingEntry, closingEntry, entries, total] = await Promise.all([
+      filters.startDate
+        ? this.prisma.creditLedgerEntry.findFirst({
+            where: { buyerProfileId: profile.id, createdAt: { lt: filters.startDate } },
+            orderBy: { createdAt: 'desc' },
+          })
+        : null,
+      this.prisma.creditLedgerEntry.findFirst({
+        where,
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.creditLedgerEntry.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'asc' },
+        include: {
+          order: {
+            select: {
+              orderNumber: true,
+            },
+          },
+        },
+      }),
+      this.prisma.creditLedgerEntry.count({ where }),
+    ]);
+
+    const openingBalance = openingEntry?.balanceAfter ?? 0;
+
+    return {
+      ...this.toCreditSummary(profile),
+      openingBalance,
+      closingBalance: closingEntry?.balanceAfter ?? openingBalance,
+      entries: entries.map((entry) => ({
+        id: entry.id,
+        date: entry.createdAt,
+        type: entry.type,
+        orderId: entry.orderId,
+        orderNumber: entry.order?.orderNumber,
+        reference: entry.reference,
+        notes: entry.notes,
+        debit: entry.amount > 0 ? entry.amount : 0,
+        credit: entry.amount < 0 ? -entry.amount : 0,
+        balance: entry.balanceAfter,
+      })),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * List buyer credit accounts (Admin/OPS)
+   */
+  async getCreditAccounts(filters: CreditAccountFilters, requestingUserRole: UserRole) {
+    if (![UserRole.ADMIN, UserRole.OPS].includes(requestingUserRole)) {
+      throw new ForbiddenException('Only admins and ops users can view credit accounts');
+    }
+
+    const { page, limit } = this.validationService.validatePagination(filters.page, filters.limit);
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.BuyerProfileWhereInput = {};
+    if (filters.kycStatus) where.kycStatus = filters.kycStatus;
+    if (filters.search) {
+      where.OR = [
+        { shopName: { contains: filters.search, mode: 'insensitive' } },
+        { user: { phone: { contains: filters.search } } },
+      ];
+    }
+
+    const [profiles, total] = await Promise.all([
+      this.prisma.buyerProfile.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { shopName: 'asc' },
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              phone: true,
+            },
+          },
+        },
+      }),
+      this.prisma.buyerProfile.count({ where }),
+    ]);
+
+    return {
+      accounts: profiles.map((profile) => ({
+        ...this.toCreditSummary(profile),
+        userId: profile.userId,
+        name: profile.user.name,
+        phone: profile.user.phone,
+        shopName: profile.shopName,
+        kycStatus: profile.kycStatus,
+      })),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Update buyer credit limit (Admin only)
+   */
+  async updateCreditLimit(
+    userId: string,
+    updateData: UpdateCreditLimitDto,
+    requestingUserId: string,
+    requestingUserRole: UserRole,
+  ) {
+    if (requestingUserRole !== UserRole.ADMIN) {
+      throw new ForbiddenException('Only admins can update credit limits');
+    }
+
+    if (updateData.creditLimit < 0) {
+      throw new BadRequestException('Credit limit cannot be negative');
+    }
+
+    const profile = await this.findBuyerProfile(userId);
+    const creditLimit = roundCurrency(updateData.creditLimit);
+
+    const updatedProfile = await this.prisma.buyerProfile.update({
+      where: { id: profile.id },
+      data: { creditLimit },
+    });
+
+    await this.auditService.logUpdate(
+      'CREDIT_LIMIT',
+      profile.id,
+      { creditLimit: profile.creditLimit ?? 0 },
+      { creditLimit, reason: updateData.reason },
+      requestingUserId,
+      requestingUserRole,
+    );
+
+    this.logger.log(`Credit limit for buyer ${userId} updated to ${creditLimit}`);
+
+    return this.toCreditSummary(updatedProfile);
+  }
+
+  // Helper methods
+
+  private async recordEntry(
+    tx: Prisma.TransactionClient,
+    buyerProfileId: string,
+    entry: Omit<Prisma.CreditLedgerEntryUncheckedCreateInput, 'buyerProfileId' | 'balanceAfter'>,
+  ) {
+    const profile = await tx.buyerProfile.findUnique({
+      where: { id: buyerProfileId },
+      select: { creditUsed: true },
+    });
+
+    return tx.creditLedgerEntry.create({
+      data: {
+        ...entry,
+        buyerProfileId,
+        amount: roundCurrency(entry.amount as number),
+        balanceAfter: roundCurrency(profile?.creditUsed ?? 0),
+      },
+    });
+  }
+
+  private async findBuyerProfile(userId: string) {
+    const profile = await this.prisma.buyerProfile.findUnique({ where: { userId } });
+    if (!profile) {
+      throw new NotFoundException('Buyer profile not found');
+    }
+    return profile;
+  }
+
+  private checkLedgerAccess(userId: string, requestingUserId: string, requestingUserRole: UserRole) {
+    if (
+      userId !== requestingUserId &&
+      requestingUserRole !== UserRole.ADMIN &&
+      requestingUserRole !== UserRole.OPS
+    ) {
+      throw new ForbiddenException('You can only view your own credit ledger');
+    }
+  }
+
+  private toCreditSummary(profile: { creditLimit: number | null; creditUsed: number | null }) {
+    const creditLimit = profile.creditLimit ?? 0;
+    const creditUsed = profile.creditUsed ?? 0;
+
+    return {
+      creditLimit,
+      creditUsed,
+      availableCredit: roundCurrency(Math.max(creditLimit - creditUsed, 0)),
+    };
+  }
+}
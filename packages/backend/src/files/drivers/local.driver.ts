@@ -0,0 +1,46 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createReadStream, existsSync } from 'fs';
+import { mkdir, rm, writeFile } from 'fs/promises';
+import { dirname, resolve, sep } from 'path';
+import { Readable } from 'stream';
+import { StorageDriver } from './storage-driver.interface';
+
+@Injectable()
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'LOCAL';
+
+  constructor(private configService: ConfigService) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async put(key: string, body: Buffer, _mimeType: string): Promise<void> {
+    const filePath = this.resolvePath(key);
+    await mkdir(dirname(filePath), { recursive: true });
+    await writeFile(filePath, body);
+  }
+
+  async get(key: string): Promise<Readable | null> {
+    const filePath = this.resolvePath(key);
+    return existsSync(filePath) ? createReadStream(filePath) : null;
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolvePath(key), { force: true });
+  }
+
+  async getSignedUrl(_key: string, _expiresInSeconds: number): Promise<string | null> {
+    return null;
+  }
+
+  private resolvePath(key: string): string {
+    const root = resolve(process.cwd(), this.configService.get<string>('storage.localPath', './uploads'));
+    const filePath = resolve(root, key);
+    if (!filePath.startsWith(root + sep)) {
+      throw new Error(`Storage key escapes the upload directory: ${key}`);
+    }
+    return filePath;
+  }
+}
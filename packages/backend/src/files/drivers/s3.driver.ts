@@ -0,0 +1,74 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { S3 } from 'aws-sdk';
+import { Readable } from 'stream';
+import { StorageDriver } from './storage-driver.interface';
+
+/**
+ * S3 or any S3-compatible store (MinIO, R2) via aws.s3.endpoint and forcePathStyle
+ */
+@Injectable()
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 'S3';
+  private client: S3 | null = null;
+
+  constructor(private configService: ConfigService) {}
+
+  isConfigured(): boolean {
+    return Boolean(
+      this.configService.get<string>('aws.accessKeyId') &&
+      this.configService.get<string>('aws.secretAccessKey') &&
+      this.configService.get<string>('aws.s3.bucket'),
+    );
+  }
+
+  async put(key: string, body: Buffer, mimeType: string): Promise<void> {
+    await this.getClient()
+      .putObject({ Bucket: this.getBucket(), Key: key, Body: body, ContentType: mimeType })
+      .promise();
+  }
+
+  async get(key: string): Promise<Readable | null> {
+    const client = this.getClient();
+    try {
+      await client.headObject({ Bucket: this.getBucket(), Key: key }).promise();
+    } catch (error) {
+      if (error.code === 'NotFound' || error.code === 'NoSuchKey') {
+        return null;
+      }
+      throw error;
+    }
+
+    return client.getObject({ Bucket: this.getBucket(), Key: key }).createReadStream();
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.getClient().deleteObject({ Bucket: this.getBucket(), Key: key }).promise();
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds: number): Promise<string | null> {
+    return this.getClient().getSignedUrlPromise('getObject', {
+      Bucket: this.getBucket(),
+      Key: key,
+      Expires: expiresInSeconds,
+    });
+  }
+
+  private getBucket(): string {
+    return this.configService.get<string>('aws.s3.bucket');
+  }
+
+  private getClient(): S3 {
+    if (!this.client) {
+      this.client = new S3({
+        accessKeyId: this.configService.get<string>('aws.accessKeyId'),
+        secretAccessKey: this.configService.get<string>('aws.secretAccessKey'),
+        region: this.configService.get<string>('aws.region'),
+        endpoint: this.configService.get<string>('aws.s3.endpoint') || undefined,
+        s3ForcePathStyle: this.configService.get<boolean>('aws.s3.forcePathStyle'),
+        signatureVersion: 'v4',
+      });
+    }
+    return this.client;
+  }
+}
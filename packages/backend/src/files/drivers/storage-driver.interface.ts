@@ -0,0 +1,14 @@
+import { Readable } from 'stream';
+
+export const STORAGE_DRIVERS = 'STORAGE_DRIVERS';
+
+export interface StorageDriver {
+  readonly name: string;
+  isConfigured(): boolean;
+  put(key: string, body: Buffer, mimeType: string): Promise<void>;
+  // Null when the object does not exist
+  get(key: string): Promise<Readable | null>;
+  delete(key: string): Promise<void>;
+  // Time-limited URL served by the backend itself, or null when objects are served through the API
+  getSignedUrl(key: string, expiresInSeconds: number): Promise<string | null>;
+}
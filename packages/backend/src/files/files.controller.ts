@@ -1,22 +1,36 @@
 import { FilesService } from './files.service';
 import {
+    BadRequestException,
+    Body,
     Controller,
+    Delete,
     Get,
     Param,
     Post,
+    Query,
     Res,
     UploadedFile,
     UploadedFiles,
     UseGuards,
     UseInterceptors,
+    ValidationPipe,
 } from '@nestjs/common';
 import { FileInterceptor, FilesInterceptor } from '@nestjs/platform-express';
 import { ApiBearerAuth, ApiConsumes, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { IsEnum, IsOptional } from 'class-validator';
 import { Response } from 'express';
+import { FilePurpose } from '@mawell/shared';
 import { Public } from '../common/decorators/public.decorator';
 import { User } from '../common/decorators/user.decorator';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
 
+// DTOs
+class UploadFileRequestDto {
+  @IsOptional()
+  @IsEnum(FilePurpose)
+  purpose?: FilePurpose;
+}
+
 @ApiTags('Files')
 @Controller('files')
 @UseGuards(JwtAuthGuard)
@@ -31,9 +45,13 @@ export class FilesController {
   @ApiResponse({ status: 201, description: 'File uploaded successfully' })
   async uploadFile(
     @UploadedFile() file: Express.Multer.File,
+    @Body(ValidationPipe) uploadData: UploadFileRequestDto,
     @User() user: any,
   ) {
-    return this.filesService.uploadFile(file, user.id);
+    if (!file) {
+      throw new BadRequestException('File is required');
+    }
+    return this.filesService.uploadFile(file, uploadData.purpose || FilePurpose.ATTACHMENT, user.id, user.role);
   }
 
   @Post('upload/multiple')
@@ -43,20 +61,13 @@ export class FilesController {
   @ApiResponse({ status: 201, description: 'Files uploaded successfully' })
   async uploadFiles(
     @UploadedFiles() files: Express.Multer.File[],
+    @Body(ValidationPipe) uploadData: UploadFileRequestDto,
     @User() user: any,
   ) {
-    return this.filesService.uploadFiles(files, user.id);
-  }
-
-  @Get(':id')
-  @Public()
-  @ApiOperation({ summary: 'Get file by ID' })
-  @ApiResponse({ status: 200, description: 'File retrieved successfully' })
-  async getFile(
-    @Param('id') id: string,
-    @Res() res: Response,
-  ) {
-    return this.filesService.getFile(id, res);
+    if (!files?.length) {
+      throw new BadRequestException('At least one file is required');
+    }
+    return this.filesService.uploadFiles(files, uploadData.purpose || FilePurpose.ATTACHMENT, user.id, user.role);
   }
 
   @Get('health')
@@ -70,4 +81,49 @@ export class FilesController {
       timestamp: new Date().toISOString(),
     };
   }
+
+  @Get(':id')
+  @Public()
+  @ApiOperation({ summary: 'Get a public file, or a private file through a signed URL' })
+  @ApiResponse({ status: 200, description: 'File retrieved successfully' })
+  @ApiResponse({ status: 403, description: 'Signed URL is invalid or has expired' })
+  async getFile(
+    @Param('id') id: string,
+    @Query('expires') expires: string,
+    @Query('signature') signature: string,
+    @Res() res: Response,
+  ) {
+    return this.filesService.serveFile(id, expires, signature, res);
+  }
+
+  @Get(':id/thumbnail')
+  @Public()
+  @ApiOperation({ summary: 'Get the thumbnail of a public image' })
+  @ApiResponse({ status: 200, description: 'Thumbnail retrieved successfully' })
+  async getThumbnail(
+    @Param('id') id: string,
+    @Res() res: Response,
+  ) {
+    return this.filesService.serveThumbnail(id, res);
+  }
+
+  @Get(':id/details')
+  @ApiOperation({ summary: 'Get file metadata with a fresh URL' })
+  @ApiResponse({ status: 200, description: 'File details retrieved successfully' })
+  async getFileDetails(
+    @Param('id') id: string,
+    @User() user: any,
+  ) {
+    return this.filesService.getFileDetails(id, user.id, user.role);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a file' })
+  @ApiResponse({ status: 200, description: 'File deleted successfully' })
+  async deleteFile(
+    @Param('id') id: string,
+    @User() user: any,
+  ) {
+    return this.filesService.deleteFile(id, user.id, user.role);
+  }
 }
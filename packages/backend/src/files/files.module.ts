@@ -1,32 +1,39 @@
 import { FilesController } from '@/files/files.controller';
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { MulterModule } from '@nestjs/platform-express';
-import { diskStorage } from 'multer';
-import { extname } from 'path';
+import { memoryStorage } from 'multer';
 import { PrismaModule } from '../prisma/prisma.module';
 import { FilesService } from './files.service';
+import { STORAGE_DRIVERS } from './drivers/storage-driver.interface';
+import { LocalStorageDriver } from './drivers/local.driver';
+import { S3StorageDriver } from './drivers/s3.driver';
 
 @Module({
   imports: [
     PrismaModule,
-    MulterModule.register({
-      storage: diskStorage({
-        destination: './uploads',
-        filename: (req, file, cb) => {
-          const randomName = Array(32)
-            .fill(null)
-            .map(() => Math.round(Math.random() * 16).toString(16))
-            .join('');
-          cb(null, `${randomName}${extname(file.originalname)}`);
+    // Files are kept in memory until FilesService hands them to the storage driver
+    MulterModule.registerAsync({
+      useFactory: (configService: ConfigService) => ({
+        storage: memoryStorage(),
+        limits: {
+          fileSize: configService.get<number>('upload.maxFileSize', 10 * 1024 * 1024),
         },
       }),
-      limits: {
-        fileSize: 10 * 1024 * 1024, // 10MB
-      },
+      inject: [ConfigService],
     }),
   ],
   controllers: [FilesController],
-  providers: [FilesService],
+  providers: [
+    LocalStorageDriver,
+    S3StorageDriver,
+    {
+      provide: STORAGE_DRIVERS,
+      useFactory: (local: LocalStorageDriver, s3: S3StorageDriver) => [local, s3],
+      inject: [LocalStorageDriver, S3StorageDriver],
+    },
+    FilesService,
+  ],
   exports: [FilesService],
 })
-export class FilesModule {}
\ No newline at end of file
+export class FilesModule {}
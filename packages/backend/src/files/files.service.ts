@@ -1,44 +1,102 @@
-import { Injectable, Logger, NotFoundException } from '@nestjs/common';
-import { PrismaService } from '../prisma/prisma.service';
+import { BadRequestException, ForbiddenException, Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { Response } from 'express';
-import { createReadStream, existsSync } from 'fs';
-import { join } from 'path';
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { extname } from 'path';
+import { Readable } from 'stream';
+import Jimp from 'jimp-compact';
+import { PrismaService } from '../prisma/prisma.service';
+import { FilePurpose, UserRole } from '@mawell/shared';
+import { STORAGE_DRIVERS, StorageDriver } from './drivers/storage-driver.interface';
+
+interface FilePurposeRule {
+  isPublic: boolean;
+  allowedTypes: string[];
+  maxSize: number;
+  // Roles that may upload through the API; server-generated purposes have none
+  uploadRoles: UserRole[];
+  // Evidence kept for review once uploaded: only admins and ops can delete it, not its owner
+  retained?: boolean;
+  thumbnail?: boolean;
+}
+
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const DOCUMENT_TYPES = ['application/pdf', 'image/jpeg', 'image/png'];
+const MB = 1024 * 1024;
+
+const FILE_PURPOSE_RULES: Record<FilePurpose, FilePurposeRule> = {
+  [FilePurpose.PRODUCT_IMAGE]: {
+    isPublic: true,
+    allowedTypes: IMAGE_TYPES,
+    maxSize: 5 * MB,
+    uploadRoles: [UserRole.ADMIN, UserRole.OPS],
+    thumbnail: true,
+  },
+  [FilePurpose.KYC_DOCUMENT]: {
+    isPublic: false,
+    allowedTypes: DOCUMENT_TYPES,
+    maxSize: 5 * MB,
+    uploadRoles: [UserRole.BUYER, UserRole.DRIVER],
+    retained: true,
+  },
+  [FilePurpose.POD_PHOTO]: {
+    isPublic: false,
+    allowedTypes: ['image/jpeg', 'image/png'],
+    maxSize: 10 * MB,
+    uploadRoles: [UserRole.DRIVER, UserRole.ADMIN, UserRole.OPS],
+    retained: true,
+  },
+  [FilePurpose.INVOICE]: {
+    isPublic: false,
+    allowedTypes: ['application/pdf'],
+    maxSize: 10 * MB,
+    uploadRoles: [],
+  },
+  [FilePurpose.CREDIT_NOTE]: {
+    isPublic: false,
+    allowedTypes: ['application/pdf'],
+    maxSize: 10 * MB,
+    uploadRoles: [],
+  },
+  [FilePurpose.ATTACHMENT]: {
+    isPublic: false,
+    allowedTypes: DOCUMENT_TYPES,
+    maxSize: 10 * MB,
+    uploadRoles: [UserRole.ADMIN, UserRole.OPS, UserRole.BUYER, UserRole.DRIVER],
+  },
+};
+
+const THUMBNAIL_SIZE = 320;
 
 @Injectable()
 export class FilesService {
   private readonly logger = new Logger(FilesService.name);
 
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    @Inject(STORAGE_DRIVERS) private drivers: StorageDriver[],
+    private prisma: PrismaService,
+    private configService: ConfigService,
+  ) {}
 
-  async uploadFile(file: Express.Multer.File, userId: string) {
-    this.logger.log(`Uploading file ${file.originalname} for user ${userId}`);
-    
-    // Mock implementation - in real app, save to database
-    return {
-      id: `file_${Date.now()}`,
-      filename: file.filename,
-      originalName: file.originalname,
-      mimetype: file.mimetype,
-      size: file.size,
-      path: file.path,
-      uploadedBy: userId,
-      uploadedAt: new Date().toISOString(),
-    };
+  async uploadFile(file: Express.Multer.File, purpose: FilePurpose, userId: string, userRole: UserRole) {
+    this.logger.log(`Uploading ${purpose} file ${file.originalname} for user ${userId}`);
+
+    const rule = FILE_PURPOSE_RULES[purpose];
+    if (!rule.uploadRoles.includes(userRole)) {
+      throw new ForbiddenException(`You cannot upload ${purpose.toLowerCase().replace(/_/g, ' ')} files`);
+    }
+
+    const stored = await this.saveFile(file.buffer, file.originalname, file.mimetype, purpose, userId);
+    return this.toFileResponse(stored);
   }
 
-  async uploadFiles(files: Express.Multer.File[], userId: string) {
+  async uploadFiles(files: Express.Multer.File[], purpose: FilePurpose, userId: string, userRole: UserRole) {
     this.logger.log(`Uploading ${files.length} files for user ${userId}`);
-    
-    const uploadedFiles = files.map(file => ({
-      id: `file_${Date.now()}_${Math.random()}`,
-      filename: file.filename,
-      originalName: file.originalname,
-      mimetype: file.mimetype,
-      size: file.size,
-      path: file.path,
-      uploadedBy: userId,
-      uploadedAt: new Date().toISOString(),
-    }));
+
+    const uploadedFiles = [];
+    for (const file of files) {
+      uploadedFiles.push(await this.uploadFile(file, purpose, userId, userRole));
+    }
 
     return {
       files: uploadedFiles,
@@ -46,27 +104,299 @@ export class FilesService {
     };
   }
 
+  /**
+   * Validate and store a file against its purpose rules. Used for uploads and
+   * for server-generated files such as invoice PDFs.
+   */
+  async saveFile(buffer: Buffer, originalName: string, mimetype: string, purpose: FilePurpose, ownerId?: string) {
+    const rule = FILE_PURPOSE_RULES[purpose];
+    if (!buffer || buffer.length === 0) {
+      throw new BadRequestException('File is empty');
+    }
+    if (!rule.allowedTypes.includes(mimetype)) {
+      throw new BadRequestException(`File type ${mimetype} is not allowed`);
+    }
+    if (buffer.length > rule.maxSize) {
+      throw new BadRequestException(`File size must be less than ${rule.maxSize / MB}MB`);
+    }
+
+    const driver = this.getWriteDriver();
+    const key = this.generateKey(purpose, originalName);
+    await driver.put(key, buffer, mimetype);
+
+    let thumbnailKey: string | null = null;
+    if (rule.thumbnail) {
+      thumbnailKey = await this.storeThumbnail(driver, key, buffer);
+    }
+
+    const file = await this.prisma.file.create({
+      data: {
+        storage: driver.name,
+        key,
+        purpose,
+        ownerId,
+        originalName,
+        mimeType: mimetype,
+        size: buffer.length,
+        checksum: createHash('sha256').update(buffer).digest('hex'),
+        isPublic: rule.isPublic,
+        thumbnailKey,
+      },
+    });
+
+    this.logger.log(`Stored ${purpose} file ${originalName} as ${driver.name}:${key}`);
+
+    return file;
+  }
+
+  /**
+   * Remove a stored file, ignoring files that are already gone
+   */
+  async removeStoredFile(fileId: string) {
+    const file = await this.prisma.file.findUnique({ where: { id: fileId } });
+    if (!file || file.deletedAt) {
+      return;
+    }
+
+    const driver = this.getDriver(file.storage);
+    await driver.delete(file.key);
+    if (file.thumbnailKey) {
+      await driver.delete(file.thumbnailKey);
+    }
+
+    await this.prisma.file.update({ where: { id: fileId }, data: { deletedAt: new Date() } });
+    this.logger.log(`Removed stored file ${fileId}`);
+  }
+
+  /**
+   * Stream a file without access checks; callers check access themselves
+   */
   async getFile(fileId: string, res: Response) {
     this.logger.log(`Getting file ${fileId}`);
-    
-    // Mock implementation - in real app, get from database
-    const filePath = join(process.cwd(), 'uploads', fileId);
-    
-    if (!existsSync(filePath)) {
+
+    const file = await this.prisma.file.findUnique({ where: { id: fileId } });
+    if (!file) {
+      // Files generated before the files table was introduced were addressed by their name on disk
+      const legacy = await this.getDriver('LOCAL').get(fileId);
+      if (!legacy) {
+        throw new NotFoundException('File not found');
+      }
+      legacy.pipe(res);
+      return;
+    }
+    if (file.deletedAt) {
       throw new NotFoundException('File not found');
     }
 
-    const fileStream = createReadStream(filePath);
-    fileStream.pipe(res);
+    const stream = await this.getDriver(file.storage).get(file.key);
+    this.pipeFile(stream, res, file.mimeType, file.originalName, file.isPublic);
+  }
+
+  /**
+   * Serve a file by URL: public files as-is, private files only with a valid
+   * unexpired signature from createSignedUrl
+   */
+  async serveFile(fileId: string, expires: string | undefined, signature: string | undefined, res: Response) {
+    const file = await this.findActiveFile(fileId);
+    if (!file.isPublic && !this.verifySignature(fileId, expires, signature)) {
+      throw new ForbiddenException('This link is invalid or has expired');
+    }
+
+    const stream = await this.getDriver(file.storage).get(file.key);
+    this.pipeFile(stream, res, file.mimeType, file.originalName, file.isPublic);
+  }
+
+  async serveThumbnail(fileId: string, res: Response) {
+    const file = await this.findActiveFile(fileId);
+    if (!file.isPublic || !file.thumbnailKey) {
+      throw new NotFoundException('Thumbnail not found');
+    }
+
+    const stream = await this.getDriver(file.storage).get(file.thumbnailKey);
+    this.pipeFile(stream, res, 'image/jpeg', `thumb-${file.originalName}`, true);
+  }
+
+  async getFileDetails(fileId: string, userId: string, userRole: UserRole) {
+    const file = await this.findActiveFile(fileId);
+    this.assertCanAccess(file, userId, userRole);
+
+    return this.toFileResponse(file);
+  }
+
+  /**
+   * Time-limited URL for a file, for callers that have already checked access
+   */
+  async createSignedUrl(fileId: string) {
+    const file = await this.findActiveFile(fileId);
+    const ttl = this.configService.get<number>('storage.signedUrlTtl', 900);
+    const expiresAt = new Date(Date.now() + ttl * 1000);
+
+    const driverUrl = await this.getDriver(file.storage).getSignedUrl(file.key, ttl);
+    if (driverUrl) {
+      return { url: driverUrl, expiresAt };
+    }
+
+    const expires = Math.floor(expiresAt.getTime() / 1000).toString();
+    const signature = this.sign(fileId, expires);
+    return { url: `${this.getFileUrl(fileId)}?expires=${expires}&signature=${signature}`, expiresAt };
   }
 
-  async deleteFile(fileId: string, userId: string) {
+  async deleteFile(fileId: string, userId: string, userRole: UserRole) {
     this.logger.log(`Deleting file ${fileId} by user ${userId}`);
-    
-    // Mock implementation
+
+    const file = await this.findActiveFile(fileId);
+    if (![UserRole.ADMIN, UserRole.OPS].includes(userRole) && file.ownerId !== userId) {
+      throw new ForbiddenException('You can only delete your own files');
+    }
+    const rule = FILE_PURPOSE_RULES[file.purpose as FilePurpose];
+    if (rule.uploadRoles.length === 0) {
+      throw new BadRequestException('Generated documents cannot be deleted');
+    }
+    if (rule.retained && ![UserRole.ADMIN, UserRole.OPS].includes(userRole)) {
+      throw new ForbiddenException('Submitted KYC documents and delivery photos can only be removed by ops');
+    }
+    if (file.purpose === FilePurpose.KYC_DOCUMENT) {
+      const document = await this.prisma.kycDocument.findFirst({ where: { fileId, supersededAt: null } });
+      if (document) {
+        throw new BadRequestException('This file backs a current KYC document; supersede the document first');
+      }
+    }
+
+    await this.removeStoredFile(fileId);
+
     return {
       success: true,
       message: 'File deleted successfully',
     };
   }
-}
\ No newline at end of file
+
+  // Helper methods
+
+  private async findActiveFile(fileId: string) {
+    const file = await this.prisma.file.findUnique({ where: { id: fileId } });
+    if (!file || file.deletedAt) {
+      throw new NotFoundException('File not found');
+    }
+    return file;
+  }
+
+  private assertCanAccess(file: { isPublic: boolean; ownerId: string | null }, userId: string, userRole: UserRole) {
+    if (file.isPublic || [UserRole.ADMIN, UserRole.OPS].includes(userRole) || file.ownerId === userId) {
+      return;
+    }
+    throw new ForbiddenException('You do not have access to this file');
+  }
+
+  private async toFileResponse(file: {
+    id: string;
+    purpose: string;
+    originalName: string;
+    mimeType: string;
+    size: number;
+    checksum: string;
+    isPublic: boolean;
+    thumbnailKey: string | null;
+    createdAt: Date;
+  }) {
+    const signed = file.isPublic ? null : await this.createSignedUrl(file.id);
+
+    return {
+      id: file.id,
+      purpose: file.purpose,
+      originalName: file.originalName,
+      mimeType: file.mimeType,
+      size: file.size,
+      checksum: file.checksum,
+      isPublic: file.isPublic,
+      url: signed ? signed.url : this.getFileUrl(file.id),
+      urlExpiresAt: signed?.expiresAt ?? null,
+      thumbnailUrl: file.thumbnailKey ? `${this.getFileUrl(file.id)}/thumbnail` : null,
+      createdAt: file.createdAt,
+    };
+  }
+
+  private getWriteDriver(): StorageDriver {
+    const name = this.configService.get<string>('storage.driver', 'LOCAL').toUpperCase();
+    const driver = this.drivers.find((candidate) => candidate.name === name);
+    if (driver?.isConfigured()) {
+      return driver;
+    }
+
+    this.logger.warn(`Storage driver ${name} is not configured, storing files locally`);
+    return this.getDriver('LOCAL');
+  }
+
+  private getDriver(name: string): StorageDriver {
+    const driver = this.drivers.find((candidate) => candidate.name === name);
+    if (!driver) {
+      throw new Error(`Unknown storage driver ${name}`);
+    }
+    return driver;
+  }
+
+  private generateKey(purpose: FilePurpose, originalName: string): string {
+    const now = new Date();
+    const month = String(now.getUTCMonth() + 1).padStart(2, '0');
+    const extension = extname(originalName).toLowerCase().replace(/[^.a-z0-9]/g, '');
+
+    return `${purpose.toLowerCase().replace(/_/g, '-')}/${now.getUTCFullYear()}/${month}/${randomBytes(16).toString('hex')}${extension}`;
+  }
+
+  private async storeThumbnail(driver: StorageDriver, key: string, buffer: Buffer): Promise<string | null> {
+    try {
+      const image = await Jimp.read(buffer);
+      image.scaleToFit(THUMBNAIL_SIZE, THUMBNAIL_SIZE).quality(80);
+      const thumbnail: Buffer = await image.getBufferAsync(Jimp.MIME_JPEG);
+
+      const thumbnailKey = `thumbnails/${key.replace(/\.[^./]+$/, '')}.jpg`;
+      await driver.put(thumbnailKey, thumbnail, 'image/jpeg');
+      return thumbnailKey;
+    } catch (error) {
+      // A missing thumbnail should not fail the upload itself
+      this.logger.warn(`Failed to generate thumbnail for ${key}: ${error.message}`);
+      return null;
+    }
+  }
+
+  private getFileUrl(fileId: string): string {
+    const baseUrl = this.configService.get<string>('storage.publicBaseUrl', '').replace(/\/$/, '');
+    const apiPrefix = this.configService.get<string>('apiPrefix', 'api/v1');
+    return `${baseUrl}/${apiPrefix}/files/${fileId}`;
+  }
+
+  private sign(fileId: string, expires: string): string {
+    return createHmac('sha256', this.configService.get<string>('storage.signingSecret'))
+      .update(`${fileId}:${expires}`)
+      .digest('hex');
+  }
+
+  private verifySignature(fileId: string, expires?: string, signature?: string): boolean {
+    if (!expires || !signature || Number(expires) * 1000 < Date.now()) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(fileId, expires));
+    const received = Buffer.from(signature);
+    return expected.length === received.length && timingSafeEqual(expected, received);
+  }
+
+  private pipeFile(stream: Readable | null, res: Response, mimeType: string, fileName: string, isPublic: boolean) {
+    if (!stream) {
+      throw new NotFoundException('File not found');
+    }
+
+    // Callers such as invoice downloads may already have set their own headers
+    if (!res.hasHeader('Content-Type')) {
+      res.setHeader('Content-Type', mimeType);
+    }
+    if (!res.hasHeader('Content-Disposition')) {
+      res.setHeader('Content-Disposition', `inline; filename="${fileName.replace(/"/g, '')}"`);
+    }
+    res.setHeader('Cache-Control', isPublic ? 'public, max-age=86400' : 'private, no-store');
+    stream.on('error', (error) => {
+      this.logger.error(`Failed to stream file ${fileName}`, error);
+      res.destroy(error);
+    });
+    stream.pipe(res);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { InvoicesService } from './invoices.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { CommonModule } from '../common/common.module';
+import { FilesModule } from '../files/files.module';
+
+@Module({
+  imports: [PrismaModule, CommonModule, FilesModule],
+  providers: [InvoicesService],
+  exports: [InvoicesService],
+})
+export class InvoicesModule {}
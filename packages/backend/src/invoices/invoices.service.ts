@@ -0,0 +1,784 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  ConflictException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CreditNote, Invoice, Prisma } from '@prisma/client';
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
+import { Response } from 'express';
+import PDFDocument from 'pdfkit';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../common/services/audit.service';
+import { FilesService } from '../files/files.service';
+import {
+  UserRole,
+  OrderStatus,
+  FilePurpose,
+  amountInWords,
+  roundCurrency,
+} from '@mawell/shared';
+
+const INVOICE_TRIGGER_STATUSES = [OrderStatus.CONFIRMED, OrderStatus.DELIVERED];
+const MAX_NUMBER_ALLOCATION_ATTEMPTS = 3;
+
+const invoiceOrderInclude = Prisma.validator<Prisma.OrderInclude>()({
+  buyer: {
+    select: {
+      phone: true,
+      name: true,
+      buyerProfile: {
+        select: {
+          shopName: true,
+          gstin: true,
+        },
+      },
+    },
+  },
+  deliveryAddress: true,
+  items: {
+    include: {
+      product: {
+        select: {
+          name: true,
+        },
+      },
+      variant: {
+        select: {
+          name: true,
+          sku: true,
+        },
+      },
+    },
+  },
+});
+
+type InvoiceOrder = Prisma.OrderGetPayload<{ include: typeof invoiceOrderInclude }>;
+
+const creditNoteRefundInclude = Prisma.validator<Prisma.RefundInclude>()({
+  order: { include: invoiceOrderInclude },
+  items: true,
+});
+
+type CreditNoteRefund = Prisma.RefundGetPayload<{ include: typeof creditNoteRefundInclude }>;
+
+@Injectable()
+export class InvoicesService {
+  private readonly logger = new Logger(InvoicesService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+    private filesService: FilesService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Generate the invoice when an order reaches the configured status.
+   * Failures are logged so they never block the status change itself.
+   */
+  async handleOrderStatusChange(orderId: string, status: OrderStatus) {
+    if (status !== this.getTriggerStatus()) {
+      return null;
+    }
+
+    try {
+      return await this.generateInvoice(orderId);
+    } catch (error) {
+      this.logger.error(`Failed to generate invoice for order ${orderId}: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Generate invoice for an order, reusing the existing number if one was allocated
+   */
+  async generateInvoice(orderId: string) {
+    const existing = await this.prisma.invoice.findUnique({ where: { orderId } });
+    if (existing?.fileId) {
+      return existing;
+    }
+
+    const invoice = existing ?? (await this.allocateInvoice(orderId));
+    return this.renderAndStore(invoice);
+  }
+
+  /**
+   * Get invoice for an order
+   */
+  async getOrderInvoice(orderId: string, requestingUserId: string, requestingUserRole: UserRole) {
+    const order = await this.prisma.order.findUnique({
+      where: { id: orderId },
+      select: { buyerId: true },
+    });
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    if (
+      requestingUserRole !== UserRole.ADMIN &&
+      requestingUserRole !== UserRole.OPS &&
+      order.buyerId !== requestingUserId
+    ) {
+      throw new ForbiddenException('You can only view invoices for your own orders');
+    }
+
+    const invoice = await this.prisma.invoice.findUnique({ where: { orderId } });
+    if (!invoice) {
+      throw new NotFoundException('Invoice has not been generated for this order yet');
+    }
+
+    // Re-render if the stored PDF was never written
+    return invoice.fileId ? invoice : this.renderAndStore(invoice);
+  }
+
+  /**
+   * Stream the invoice PDF for an order
+   */
+  async downloadOrderInvoice(
+    orderId: string,
+    res: Response,
+    requestingUserId: string,
+    requestingUserRole: UserRole,
+  ) {
+    const invoice = await this.getOrderInvoice(orderId, requestingUserId, requestingUserRole);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${invoice.invoiceNumber.replace(/\//g, '-')}.pdf"`,
+    );
+
+    return this.filesService.getFile(invoice.fileId, res);
+  }
+
+  /**
+   * Regenerate invoice PDF (Admin/OPS). The invoice number never changes.
+   */
+  async regenerateInvoice(orderId: string, requestingUserId: string, requestingUserRole: UserRole) {
+    if (![UserRole.ADMIN, UserRole.OPS].includes(requestingUserRole)) {
+      throw new ForbiddenException('Only admins and ops users can regenerate invoices');
+    }
+
+    const order = await this.prisma.order.findUnique({
+      where: { id: orderId },
+      select: { status: true },
+    });
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+    if ([OrderStatus.PENDING, OrderStatus.CANCELLED].includes(order.status as OrderStatus)) {
+      throw new BadRequestException(`Cannot generate an invoice for a ${order.status} order`);
+    }
+
+    const existing = await this.prisma.invoice.findUnique({ where: { orderId } });
+    const invoice = await this.renderAndStore(existing ?? (await this.allocateInvoice(orderId)));
+
+    if (existing?.fileId) {
+      await this.filesService.removeStoredFile(existing.fileId);
+    }
+
+    await this.auditService.logUpdate(
+      'INVOICE',
+      invoice.id,
+      { pdfUrl: existing?.pdfUrl ?? null },
+      { pdfUrl: invoice.pdfUrl },
+      requestingUserId,
+      requestingUserRole,
+    );
+
+    this.logger.log(`Invoice ${invoice.invoiceNumber} regenerated`);
+
+    return invoice;
+  }
+
+  /**
+   * Issue the credit note for a processed refund, reversing tax in proportion to what
+   * was refunded. Reuses the existing number if one was allocated.
+   */
+  async generateCreditNote(refundId: string) {
+    const existing = await this.prisma.creditNote.findUnique({ where: { refundId } });
+    if (existing?.fileId) {
+      return existing;
+    }
+
+    const refund = await this.prisma.refund.findUnique({
+      where: { id: refundId },
+      include: creditNoteRefundInclude,
+    });
+    if (!refund) {
+      throw new NotFoundException('Refund not found');
+    }
+
+    const creditNote = existing ?? (await this.allocateCreditNote(refund));
+    return this.renderAndStoreCreditNote(creditNote, refund);
+  }
+
+  /**
+   * Stream the credit note PDF for a refund
+   */
+  async downloadCreditNote(
+    refundId: string,
+    res: Response,
+    requestingUserId: string,
+    requestingUserRole: UserRole,
+  ) {
+    const refund = await this.prisma.refund.findUnique({
+      where: { id: refundId },
+      include: { order: { select: { buyerId: true } }, creditNote: true },
+    });
+    if (!refund) {
+      throw new NotFoundException('Refund not found');
+    }
+
+    if (
+      requestingUserRole !== UserRole.ADMIN &&
+      requestingUserRole !== UserRole.OPS &&
+      refund.order.buyerId !== requestingUserId
+    ) {
+      throw new ForbiddenException('You can only view credit notes for your own orders');
+    }
+
+    if (!refund.creditNote) {
+      throw new NotFoundException('Credit note has not been issued for this refund yet');
+    }
+
+    const creditNote = refund.creditNote.fileId ? refund.creditNote : await this.generateCreditNote(refundId);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${creditNote.creditNoteNumber.replace(/\//g, '-')}.pdf"`,
+    );
+
+    return this.filesService.getFile(creditNote.fileId!, res);
+  }
+
+  // Helper methods
+
+  private getTriggerStatus(): OrderStatus {
+    const status = this.configService.get<string>('invoice.generateOn') as OrderStatus;
+    return INVOICE_TRIGGER_STATUSES.includes(status) ? status : OrderStatus.CONFIRMED;
+  }
+
+  /**
+   * Allocate the next sequential number in the current financial year.
+   * The (financialYear, sequence) unique constraint guards concurrent allocation.
+   */
+  private async allocateInvoice(orderId: string): Promise<Invoice> {
+    const financialYear = this.getFinancialYear(new Date());
+
+    for (let attempt = 0; attempt < MAX_NUMBER_ALLOCATION_ATTEMPTS; attempt++) {
+      const last = await this.prisma.invoice.findFirst({
+        where: { financialYear },
+        orderBy: { sequence: 'desc' },
+      });
+      const sequence = (last?.sequence ?? 0) + 1;
+
+      try {
+        const invoice = await this.prisma.invoice.create({
+          data: {
+            orderId,
+            financialYear,
+            sequence,
+            invoiceNumber: this.formatInvoiceNumber(financialYear, sequence),
+            issuedAt: new Date(),
+          },
+        });
+
+        await this.auditService.logCreate('INVOICE', invoice.id, {
+          orderId,
+          invoiceNumber: invoice.invoiceNumber,
+        });
+
+        return invoice;
+      } catch (error) {
+        if (!(error instanceof PrismaClientKnownRequestError) || error.code !== 'P2002') {
+          throw error;
+        }
+
+        // Another request may have invoiced this order concurrently
+        const existing = await this.prisma.invoice.findUnique({ where: { orderId } });
+        if (existing) {
+          return existing;
+        }
+      }
+    }
+
+    throw new ConflictException('Could not allocate an invoice number, please retry');
+  }
+
+  /**
+   * Indian financial year (April to March, IST) as "2025-26"
+   */
+  private getFinancialYear(date: Date): string {
+    const ist = new Date(date.getTime() + 330 * 60 * 1000);
+    const startYear = ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+    return `${startYear}-${(startYear + 1).toString().slice(-2)}`;
+  }
+
+  private formatInvoiceNumber(financialYear: string, sequence: number): string {
+    const prefix = this.configService.get<string>('invoice.prefix') || 'INV';
+    return `${prefix}/${financialYear.slice(2)}/${sequence.toString().padStart(6, '0')}`;
+  }
+
+  /**
+   * Allocate the next credit note number in the current financial year, with the tax
+   * split frozen at issue time
+   */
+  private async allocateCreditNote(refund: CreditNoteRefund): Promise<CreditNote> {
+    const financialYear = this.getFinancialYear(new Date());
+    const taxes = this.splitRefundTax(refund);
+
+    for (let attempt = 0; attempt < MAX_NUMBER_ALLOCATION_ATTEMPTS; attempt++) {
+      const last = await this.prisma.creditNote.findFirst({
+        where: { financialYear },
+        orderBy: { sequence: 'desc' },
+      });
+      const sequence = (last?.sequence ?? 0) + 1;
+      const prefix = this.configService.get<string>('invoice.creditNotePrefix') || 'CN';
+
+      try {
+        const creditNote = await this.prisma.creditNote.create({
+          data: {
+            refundId: refund.id,
+            financialYear,
+            sequence,
+            creditNoteNumber: `${prefix}/${financialYear.slice(2)}/${sequence.toString().padStart(6, '0')}`,
+            ...taxes,
+            issuedAt: new Date(),
+          },
+        });
+
+        await this.auditService.logCreate('CREDIT_NOTE', creditNote.id, {
+          refundId: refund.id,
+          creditNoteNumber: creditNote.creditNoteNumber,
+        });
+
+        return creditNote;
+      } catch (error) {
+        if (!(error instanceof PrismaClientKnownRequestError) || error.code !== 'P2002') {
+          throw error;
+        }
+
+        const existing = await this.prisma.creditNote.findUnique({ where: { refundId: refund.id } });
+        if (existing) {
+          return existing;
+        }
+      }
+    }
+
+    throw new ConflictException('Could not allocate a credit note number, please retry');
+  }
+
+  /**
+   * Item refunds reverse the tax of the refunded units; amount-only refunds reverse the
+   * order's tax proportionally. Either way the split is scaled to the refunded amount.
+   */
+  private splitRefundTax(refund: CreditNoteRefund) {
+    const { order } = refund;
+    let basis = { total: order.totalAmount, cgst: order.cgstAmount, sgst: order.sgstAmount, igst: order.igstAmount };
+
+    if (refund.items.length > 0) {
+      basis = { total: 0, cgst: 0, sgst: 0, igst: 0 };
+      for (const refundItem of refund.items) {
+        const item = order.items.find((orderItem) => orderItem.id === refundItem.orderItemId);
+        if (!item) continue;
+        const share = refundItem.quantity / item.quantity;
+        basis.total += refundItem.amount;
+        basis.cgst += item.cgstAmount * share;
+        basis.sgst += item.sgstAmount * share;
+        basis.igst += item.igstAmount * share;
+      }
+    }
+
+    const factor = basis.total > 0 ? refund.amount / basis.total : 0;
+    const cgstAmount = roundCurrency(basis.cgst * factor);
+    const sgstAmount = roundCurrency(basis.sgst * factor);
+    const igstAmount = roundCurrency(basis.igst * factor);
+
+    return {
+      taxableAmount: roundCurrency(refund.amount - cgstAmount - sgstAmount - igstAmount),
+      cgstAmount,
+      sgstAmount,
+      igstAmount,
+      totalAmount: roundCurrency(refund.amount),
+    };
+  }
+
+  private async renderAndStoreCreditNote(creditNote: CreditNote, refund: CreditNoteRefund): Promise<CreditNote> {
+    const invoice = await this.prisma.invoice.findUnique({ where: { orderId: refund.orderId } });
+    const generatedAt = new Date();
+    const pdf = await this.renderCreditNotePdf(creditNote, refund, invoice);
+    const fileName = `${creditNote.creditNoteNumber.replace(/\//g, '-')}.pdf`;
+    const file = await this.filesService.saveFile(
+      pdf,
+      fileName,
+      'application/pdf',
+      FilePurpose.CREDIT_NOTE,
+      refund.order.buyerId,
+    );
+    const apiPrefix = this.configService.get<string>('apiPrefix');
+
+    const updated = await this.prisma.creditNote.update({
+      where: { id: creditNote.id },
+      data: {
+        fileId: file.id,
+        pdfUrl: `/${apiPrefix}/payments/refunds/${refund.id}/credit-note`,
+        generatedAt,
+      },
+    });
+
+    this.logger.log(`Credit note ${creditNote.creditNoteNumber} generated for order ${refund.order.orderNumber}`);
+
+    return updated;
+  }
+
+  private async renderAndStore(invoice: Invoice): Promise<Invoice> {
+    const order = await this.prisma.order.findUnique({
+      where: { id: invoice.orderId },
+      include: invoiceOrderInclude,
+    });
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    const generatedAt = new Date();
+    const pdf = await this.renderPdf(invoice, order);
+    const fileName = `${invoice.invoiceNumber.replace(/\//g, '-')}.pdf`;
+    const file = await this.filesService.saveFile(pdf, fileName, 'application/pdf', FilePurpose.INVOICE, order.buyerId);
+    const apiPrefix = this.configService.get<string>('apiPrefix');
+
+    const updated = await this.prisma.invoice.update({
+      where: { id: invoice.id },
+      data: {
+        fileId: file.id,
+        pdfUrl: `/${apiPrefix}/orders/${order.id}/invoice`,
+        generatedAt,
+      },
+    });
+
+    this.logger.log(`Invoice ${invoice.invoiceNumber} generated for order ${order.orderNumber}`);
+
+    return updated;
+  }
+
+  private renderPdf(invoice: Invoice, order: InvoiceOrder): Promise<Buffer> {
+    const seller = this.configService.get('invoice.seller');
+    const buyerProfile = order.buyer.buyerProfile;
+    const buyerName = buyerProfile?.shopName || order.buyer.name || order.buyer.phone;
+    const address = order.deliveryAddress;
+    const money = (amount: number) => roundCurrency(amount).toFixed(2);
+
+    // Cancelled units were never supplied, so only the units still open are billed. An
+    // unpaid order's cancelledAmount also carries the cancelled share of the delivery fee.
+    const items = order.items
+      .filter((item) => item.quantity > item.quantityCancelled)
+      .map((item) => {
+        const share = (item.quantity - item.quantityCancelled) / item.quantity;
+        return {
+          ...item,
+          quantity: item.quantity - item.quantityCancelled,
+          totalPrice: item.totalPrice * share,
+          discountAmount: item.discountAmount * share,
+          cgstAmount: item.cgstAmount * share,
+          sgstAmount: item.sgstAmount * share,
+          igstAmount: item.igstAmount * share,
+        };
+      });
+    const sum = (amount: (item: (typeof items)[number]) => number) =>
+      roundCurrency(items.reduce((total, item) => total + amount(item), 0));
+    const billed = {
+      gross: sum((item) => item.totalPrice),
+      discount: sum((item) => item.discountAmount),
+      cgst: sum((item) => item.cgstAmount),
+      sgst: sum((item) => item.sgstAmount),
+      igst: sum((item) => item.igstAmount),
+      deliveryFee:
+        order.totalAmount > 0
+          ? roundCurrency(order.deliveryFee * (1 - order.cancelledAmount / order.totalAmount))
+          : order.deliveryFee,
+    };
+    const invoiceTotal = roundCurrency(
+      billed.gross - billed.discount + billed.cgst + billed.sgst + billed.igst + billed.deliveryFee,
+    );
+
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({ size: 'A4', margin: 40 });
+      const chunks: Buffer[] = [];
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      const left = doc.page.margins.left;
+      const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+      const ensureSpace = (height: number) => {
+        if (doc.y + height > doc.page.height - doc.page.margins.bottom) {
+          doc.addPage();
+        }
+      };
+      const row = (cells: { text: string; width: number; align?: 'left' | 'right' }[], bold = false) => {
+        ensureSpace(14);
+        const y = doc.y;
+        let x = left;
+        doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(8);
+        let height = 0;
+        for (const cell of cells) {
+          const options = { width: cell.width - 4, align: cell.align ?? 'left' };
+          doc.text(cell.text, x + 2, y, options);
+          height = Math.max(height, doc.heightOfString(cell.text, options));
+          x += cell.width;
+        }
+        doc.x = left;
+        doc.y = y + height + 4;
+      };
+
+      // Header
+      doc.font('Helvetica-Bold').fontSize(16).text('TAX INVOICE', { align: 'center' });
+      doc.moveDown(0.5);
+      doc.font('Helvetica-Bold').fontSize(10).text(seller.name);
+      doc.font('Helvetica').fontSize(9);
+      if (seller.address) doc.text(seller.address);
+      doc.text(`State: ${seller.state}`);
+      doc.text(`GSTIN: ${seller.gstin || 'Not registered'}`);
+      doc.moveDown();
+
+      const detailsTop = doc.y;
+      doc.font('Helvetica-Bold').text('Bill To', left, detailsTop);
+      doc.font('Helvetica').text(buyerName);
+      doc.text([address.line1, address.line2].filter(Boolean).join(', '));
+      doc.text(`${address.city}, ${address.state} - ${address.pincode}`);
+      doc.text(`GSTIN: ${buyerProfile?.gstin || 'Unregistered'}`);
+      const buyerBottom = doc.y;
+
+      const detailsX = left + width / 2;
+      doc.font('Helvetica-Bold').text(`Invoice No: ${invoice.invoiceNumber}`, detailsX, detailsTop);
+      doc.font('Helvetica');
+      doc.text(`Invoice Date: ${invoice.issuedAt.toLocaleDateString('en-IN')}`, detailsX);
+      doc.text(`Order No: ${order.orderNumber}`, detailsX);
+      doc.text(`Order Date: ${order.createdAt.toLocaleDateString('en-IN')}`, detailsX);
+      doc.text(`Place of Supply: ${address.state}`, detailsX);
+      doc.x = left;
+      doc.y = Math.max(buyerBottom, doc.y);
+      doc.moveDown();
+
+      // Line items
+      const columns = [20, 140, 50, 35, 55, 60, 35, 40, 40, 40];
+      const amountCell = (text: string, index: number) => ({ text, width: columns[index], align: 'right' as const });
+      row(
+        [
+          { text: '#', width: columns[0] },
+          { text: 'Item', width: columns[1] },
+          { text: 'HSN', width: columns[2] },
+          amountCell('Qty', 3),
+          amountCell('Rate', 4),
+          amountCell('Taxable', 5),
+          amountCell('GST %', 6),
+          amountCell('CGST', 7),
+          amountCell('SGST', 8),
+          amountCell('IGST', 9),
+        ],
+        true,
+      );
+      items.forEach((item, index) => {
+        row([
+          { text: `${index + 1}`, width: columns[0] },
+          { text: `${item.product.name} - ${item.variant.name} (${item.variant.sku})`, width: columns[1] },
+          { text: item.hsnCode || '-', width: columns[2] },
+          amountCell(`${item.quantity}`, 3),
+          amountCell(money(item.price), 4),
+          amountCell(money(item.totalPrice - item.discountAmount), 5),
+          amountCell(`${item.taxRate}`, 6),
+          amountCell(money(item.cgstAmount), 7),
+          amountCell(money(item.sgstAmount), 8),
+          amountCell(money(item.igstAmount), 9),
+        ]);
+      });
+      doc.moveDown();
+
+      // HSN-wise summary
+      const hsnSummary = new Map<string, { hsnCode: string; taxRate: number; taxable: number; cgst: number; sgst: number; igst: number }>();
+      for (const item of items) {
+        const key = `${item.hsnCode || '-'}|${item.taxRate}`;
+        const entry = hsnSummary.get(key) ?? {
+          hsnCode: item.hsnCode || '-',
+          taxRate: item.taxRate,
+          taxable: 0,
+          cgst: 0,
+          sgst: 0,
+          igst: 0,
+        };
+        entry.taxable += item.totalPrice - item.discountAmount;
+        entry.cgst += item.cgstAmount;
+        entry.sgst += item.sgstAmount;
+        entry.igst += item.igstAmount;
+        hsnSummary.set(key, entry);
+      }
+
+      ensureSpace(40);
+      doc.font('Helvetica-Bold').fontSize(9).text('HSN Summary');
+      const summaryColumns = [110, 60, 90, 80, 80, 95];
+      const summaryCell = (text: string, index: number) => ({
+        text,
+        width: summaryColumns[index],
+        align: index === 0 ? ('left' as const) : ('right' as const),
+      });
+      row(
+        ['HSN', 'GST %', 'Taxable Value', 'CGST', 'SGST', 'IGST'].map((text, index) => summaryCell(text, index)),
+        true,
+      );
+      for (const entry of hsnSummary.values()) {
+        row([
+          summaryCell(entry.hsnCode, 0),
+          summaryCell(`${entry.taxRate}`, 1),
+          summaryCell(money(entry.taxable), 2),
+          summaryCell(money(entry.cgst), 3),
+          summaryCell(money(entry.sgst), 4),
+          summaryCell(money(entry.igst), 5),
+        ]);
+      }
+      doc.moveDown();
+
+      // Totals
+      const totals: [string, number][] = [
+        ...(billed.discount > 0
+          ? ([
+              ['Gross Value', billed.gross],
+              ['Discount', -billed.discount],
+            ] as [string, number][])
+          : []),
+        ['Taxable Value', billed.gross - billed.discount],
+        // Lines are taxed by their fulfilling warehouse's state, so an order can carry both splits
+        ['CGST', billed.cgst],
+        ['SGST', billed.sgst],
+        ['IGST', billed.igst],
+        ['Delivery Charges', billed.deliveryFee],
+      ];
+      for (const [label, amount] of totals) {
+        if (amount === 0 && label !== 'Taxable Value') continue;
+        row([
+          { text: label, width: width - 100, align: 'right' },
+          { text: money(amount), width: 100, align: 'right' },
+        ]);
+      }
+      row(
+        [
+          { text: 'Invoice Total', width: width - 100, align: 'right' },
+          { text: money(invoiceTotal), width: 100, align: 'right' },
+        ],
+        true,
+      );
+      doc.moveDown();
+
+      ensureSpace(40);
+      doc.font('Helvetica-Bold').fontSize(9).text('Amount in words: ', { continued: true });
+      doc.font('Helvetica').text(amountInWords(invoiceTotal));
+      doc.moveDown(2);
+      doc.fontSize(8).text('This is a computer generated invoice and does not require a signature.', {
+        align: 'center',
+      });
+
+      doc.end();
+    });
+  }
+
+  private renderCreditNotePdf(
+    creditNote: CreditNote,
+    refund: CreditNoteRefund,
+    invoice: Invoice | null,
+  ): Promise<Buffer> {
+    const seller = this.configService.get('invoice.seller');
+    const { order } = refund;
+    const buyerProfile = order.buyer.buyerProfile;
+    const buyerName = buyerProfile?.shopName || order.buyer.name || order.buyer.phone;
+    const address = order.deliveryAddress;
+    const money = (amount: number) => roundCurrency(amount).toFixed(2);
+
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({ size: 'A4', margin: 40 });
+      const chunks: Buffer[] = [];
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      const left = doc.page.margins.left;
+      const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+      const row = (label: string, value: string, bold = false) => {
+        const y = doc.y;
+        doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(9);
+        doc.text(label, left, y, { width: width - 120 });
+        doc.text(value, left + width - 120, y, { width: 120, align: 'right' });
+        doc.x = left;
+        doc.moveDown(0.3);
+      };
+
+      // Header
+      doc.font('Helvetica-Bold').fontSize(16).text('CREDIT NOTE', { align: 'center' });
+      doc.moveDown(0.5);
+      doc.font('Helvetica-Bold').fontSize(10).text(seller.name);
+      doc.font('Helvetica').fontSize(9);
+      if (seller.address) doc.text(seller.address);
+      doc.text(`State: ${seller.state}`);
+      doc.text(`GSTIN: ${seller.gstin || 'Not registered'}`);
+      doc.moveDown();
+
+      const detailsTop = doc.y;
+      doc.font('Helvetica-Bold').text('Issued To', left, detailsTop);
+      doc.font('Helvetica').text(buyerName);
+      doc.text([address.line1, address.line2].filter(Boolean).join(', '));
+      doc.text(`${address.city}, ${address.state} - ${address.pincode}`);
+      doc.text(`GSTIN: ${buyerProfile?.gstin || 'Unregistered'}`);
+      const buyerBottom = doc.y;
+
+      const detailsX = left + width / 2;
+      doc.font('Helvetica-Bold').text(`Credit Note No: ${creditNote.creditNoteNumber}`, detailsX, detailsTop);
+      doc.font('Helvetica');
+      doc.text(`Date: ${creditNote.issuedAt.toLocaleDateString('en-IN')}`, detailsX);
+      doc.text(`Against Invoice: ${invoice?.invoiceNumber || '-'}`, detailsX);
+      doc.text(`Order No: ${order.orderNumber}`, detailsX);
+      doc.text(`Reason: ${refund.reason.replace(/_/g, ' ')}`, detailsX);
+      doc.x = left;
+      doc.y = Math.max(buyerBottom, doc.y);
+      doc.moveDown();
+
+      // Returned items
+      if (refund.items.length > 0) {
+        doc.font('Helvetica-Bold').fontSize(9).text('Items');
+        doc.moveDown(0.3);
+        for (const refundItem of refund.items) {
+          const item = order.items.find((orderItem) => orderItem.id === refundItem.orderItemId);
+          if (!item) continue;
+          row(
+            `${item.product.name} - ${item.variant.name} (${item.variant.sku}) x ${refundItem.quantity}`,
+            money(refundItem.amount),
+          );
+        }
+        doc.moveDown();
+      }
+
+      // Totals
+      row('Taxable Value', money(creditNote.taxableAmount));
+      if (creditNote.igstAmount > 0) row('IGST', money(creditNote.igstAmount));
+      if (creditNote.cgstAmount > 0) row('CGST', money(creditNote.cgstAmount));
+      if (creditNote.sgstAmount > 0) row('SGST', money(creditNote.sgstAmount));
+      row('Credit Note Total', money(creditNote.totalAmount), true);
+      doc.moveDown();
+
+      doc.font('Helvetica-Bold').fontSize(9).text('Amount in words: ', { continued: true });
+      doc.font('Helvetica').text(amountInWords(creditNote.totalAmount));
+      if (refund.notes) {
+        doc.moveDown(0.5);
+        doc.text(`Notes: ${refund.notes}`);
+      }
+      doc.moveDown(2);
+      doc.fontSize(8).text('This is a computer generated credit note and does not require a signature.', {
+        align: 'center',
+      });
+
+      doc.end();
+    });
+  }
+}
@@ -8,17 +8,41 @@ import {
   Query,
   UseGuards,
   UseInterceptors,
-  UploadedFiles,
+  UploadedFile,
+  BadRequestException,
+  ValidationPipe,
 } from '@nestjs/common';
-import { FilesInterceptor } from '@nestjs/platform-express';
+import { FileInterceptor } from '@nestjs/platform-express';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiConsumes } from '@nestjs/swagger';
+import { IsEnum, IsIn, IsOptional, IsString, MaxLength } from 'class-validator';
 import { KycService } from './kyc.service';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../common/guards/roles.guard';
 import { Roles } from '../common/decorators/roles.decorator';
 import { User } from '../common/decorators/user.decorator';
 import { Public } from '../common/decorators/public.decorator';
-import { UserRole, KYCStatus } from '@mawell/shared';
+import { UserRole, KYCStatus, KycDocumentType } from '@mawell/shared';
+
+// DTOs
+class SubmitKycDocumentRequestDto {
+  @IsEnum(KycDocumentType)
+  type: KycDocumentType;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(30)
+  documentNumber?: string;
+}
+
+class ReviewKycDocumentRequestDto {
+  @IsIn([KYCStatus.APPROVED, KYCStatus.REJECTED])
+  status: KYCStatus.APPROVED | KYCStatus.REJECTED;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
 
 @ApiTags('KYC')
 @Controller('kyc')
@@ -27,17 +51,22 @@ import { UserRole, KYCStatus } from '@mawell/shared';
 export class KycController {
   constructor(private readonly kycService: KycService) {}
 
-  @Post('submit')
-  @UseInterceptors(FilesInterceptor('documents', 10))
-  @ApiOperation({ summary: 'Submit KYC documents' })
+  @Post('documents')
+  @Roles(UserRole.BUYER, UserRole.DRIVER)
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiOperation({ summary: 'Upload a KYC document' })
   @ApiConsumes('multipart/form-data')
-  @ApiResponse({ status: 201, description: 'KYC documents submitted successfully' })
-  async submitKyc(
-    @Body() kycData: any,
-    @UploadedFiles() documents: Express.Multer.File[],
+  @ApiResponse({ status: 201, description: 'KYC document submitted successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid document or document number' })
+  async submitDocument(
+    @UploadedFile() file: Express.Multer.File,
+    @Body(ValidationPipe) documentData: SubmitKycDocumentRequestDto,
     @User() user: any,
   ) {
-    return this.kycService.submitKyc(user.id, kycData, documents);
+    if (!file) {
+      throw new BadRequestException('A document file is required');
+    }
+    return this.kycService.submitDocument(user.id, user.role, documentData, file);
   }
 
   @Get('status')
@@ -59,16 +88,30 @@ export class KycController {
     return this.kycService.getPendingKyc(page, limit, user.id, user.role);
   }
 
-  @Put(':kycId/review')
+  @Get('users/:userId')
+  @ApiOperation({ summary: 'Get all KYC documents and review history for a user' })
+  @ApiResponse({ status: 200, description: 'KYC history retrieved successfully' })
+  async getUserKycHistory(@Param('userId') userId: string, @User() user: any) {
+    return this.kycService.getUserKycHistory(userId, user.id, user.role);
+  }
+
+  @Put('documents/:documentId/review')
   @Roles(UserRole.ADMIN, UserRole.OPS)
-  @ApiOperation({ summary: 'Review KYC application' })
-  @ApiResponse({ status: 200, description: 'KYC application reviewed successfully' })
-  async reviewKyc(
-    @Param('kycId') kycId: string,
-    @Body() reviewData: { status: KYCStatus; remarks?: string },
+  @ApiOperation({ summary: 'Approve or reject a KYC document' })
+  @ApiResponse({ status: 200, description: 'KYC document reviewed successfully' })
+  async reviewDocument(
+    @Param('documentId') documentId: string,
+    @Body(ValidationPipe) reviewData: ReviewKycDocumentRequestDto,
     @User() user: any,
   ) {
-    return this.kycService.reviewKyc(kycId, reviewData, user.id, user.role);
+    return this.kycService.reviewDocument(documentId, reviewData, user.id, user.role);
+  }
+
+  @Get('documents/:documentId/url')
+  @ApiOperation({ summary: 'Get a short-lived signed URL for a KYC document' })
+  @ApiResponse({ status: 200, description: 'Signed URL generated successfully' })
+  async getDocumentFileUrl(@Param('documentId') documentId: string, @User() user: any) {
+    return this.kycService.getDocumentFileUrl(documentId, user.id, user.role);
   }
 
   @Get('health')
@@ -82,4 +125,4 @@ export class KycController {
       timestamp: new Date().toISOString(),
     };
   }
-}
\ No newline at end of file
+}
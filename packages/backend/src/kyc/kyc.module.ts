@@ -1,11 +1,13 @@
 import { KycController } from '@/kyc/kyc.controller';
 import { Module } from '@nestjs/common';
+import { CommonModule } from '../common/common.module';
 import { FilesModule } from '../files/files.module';
+import { NotificationsModule } from '../notifications/notifications.module';
 import { PrismaModule } from '../prisma/prisma.module';
 import { KycService } from './kyc.service';
 
 @Module({
-  imports: [PrismaModule, FilesModule],
+  imports: [PrismaModule, CommonModule, FilesModule, NotificationsModule],
   controllers: [KycController],
   providers: [KycService],
   exports: [KycService],
@@ -1,109 +1,445 @@
-import { Injectable, Logger, ForbiddenException } from '@nestjs/common';
+import { Injectable, Logger, ForbiddenException, BadRequestException, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
-import { KYCStatus, UserRole } from '@mawell/shared';
+import { FilesService } from '../files/files.service';
+import { AuditService } from '../common/services/audit.service';
+import { ValidationService } from '../common/services/validation.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { FilePurpose, KYCStatus, KycDocumentType, NotificationType, UserRole, validatePAN } from '@mawell/shared';
+
+export interface SubmitKycDocumentDto {
+  type: KycDocumentType;
+  documentNumber?: string;
+}
+
+export interface ReviewKycDocumentDto {
+  status: KYCStatus.APPROVED | KYCStatus.REJECTED;
+  reason?: string;
+}
+
+// Document types each role may upload; the rest of the KYC state follows from these
+const DOCUMENT_TYPES_BY_ROLE: Partial<Record<UserRole, KycDocumentType[]>> = {
+  [UserRole.BUYER]: [KycDocumentType.GST_CERTIFICATE, KycDocumentType.SHOP_PHOTO, KycDocumentType.PAN],
+  [UserRole.DRIVER]: [KycDocumentType.DRIVING_LICENSE, KycDocumentType.VEHICLE_RC],
+};
+
+const DOCUMENT_LABELS: Record<KycDocumentType, string> = {
+  [KycDocumentType.GST_CERTIFICATE]: 'GST certificate',
+  [KycDocumentType.SHOP_PHOTO]: 'Shop photo',
+  [KycDocumentType.PAN]: 'PAN card',
+  [KycDocumentType.DRIVING_LICENSE]: 'Driving license',
+  [KycDocumentType.VEHICLE_RC]: 'Vehicle RC',
+};
+
+const documentSelect = Prisma.validator<Prisma.KycDocumentSelect>()({
+  id: true,
+  userId: true,
+  type: true,
+  documentNumber: true,
+  fileName: true,
+  mimeType: true,
+  size: true,
+  status: true,
+  rejectionReason: true,
+  reviewedBy: true,
+  reviewedAt: true,
+  supersededAt: true,
+  createdAt: true,
+});
 
 @Injectable()
 export class KycService {
   private readonly logger = new Logger(KycService.name);
 
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private filesService: FilesService,
+    private auditService: AuditService,
+    private validationService: ValidationService,
+    private notificationsService: NotificationsService,
+  ) {}
+
+  /**
+   * Upload a KYC document. A new upload of the same type supersedes the
+   * previous one and goes back into the review queue.
+   */
+  async submitDocument(
+    userId: string,
+    userRole: UserRole,
+    documentData: SubmitKycDocumentDto,
+    file: Express.Multer.File,
+  ) {
+    const allowedTypes = DOCUMENT_TYPES_BY_ROLE[userRole];
+    if (!allowedTypes) {
+      throw new ForbiddenException('Only buyers and drivers submit KYC documents');
+    }
+    if (!allowedTypes.includes(documentData.type)) {
+      throw new BadRequestException(`${DOCUMENT_LABELS[documentData.type] || documentData.type} is not a KYC document for your account`);
+    }
+
+    const documentNumber = this.validateDocumentNumber(documentData.type, documentData.documentNumber);
 
-  async submitKyc(userId: string, kycData: any, documents: Express.Multer.File[]) {
-    this.logger.log(`Submitting KYC for user ${userId}`);
-    
-    // Mock implementation - in real app, save to database
-    const kycSubmission = {
-      id: `kyc_${Date.now()}`,
+    // File type and size limits come from the KYC_DOCUMENT storage rules
+    const stored = await this.filesService.saveFile(
+      file.buffer,
+      file.originalname,
+      file.mimetype,
+      FilePurpose.KYC_DOCUMENT,
       userId,
-      status: KYCStatus.PENDING,
-      documents: documents.map(doc => ({
-        filename: doc.filename,
-        originalName: doc.originalname,
-        mimetype: doc.mimetype,
-        size: doc.size,
-        path: doc.path,
-      })),
-      personalInfo: kycData.personalInfo || {},
-      businessInfo: kycData.businessInfo || {},
-      submittedAt: new Date().toISOString(),
-    };
+    );
 
-    return {
-      success: true,
-      message: 'KYC documents submitted successfully',
-      data: kycSubmission,
-    };
+    const document = await this.prisma.$transaction(async (tx) => {
+      await tx.kycDocument.updateMany({
+        where: { userId, type: documentData.type, supersededAt: null },
+        data: { supersededAt: new Date() },
+      });
+
+      const created = await tx.kycDocument.create({
+        data: {
+          userId,
+          type: documentData.type,
+          documentNumber,
+          fileId: stored.id,
+          fileName: file.originalname,
+          mimeType: file.mimetype,
+          size: file.size,
+        },
+        select: documentSelect,
+      });
+
+      // Keep the profile's own identity fields in step with what was submitted
+      if (documentNumber && documentData.type === KycDocumentType.GST_CERTIFICATE) {
+        await tx.buyerProfile.update({ where: { userId }, data: { gstin: documentNumber } });
+      } else if (documentNumber && documentData.type === KycDocumentType.DRIVING_LICENSE) {
+        await tx.driverProfile.update({ where: { userId }, data: { licenseNumber: documentNumber } });
+      } else if (documentNumber && documentData.type === KycDocumentType.VEHICLE_RC) {
+        await tx.driverProfile.update({ where: { userId }, data: { vehicleNumber: documentNumber } });
+      }
+
+      return created;
+    });
+
+    await this.auditService.logCreate(
+      'KYC_DOCUMENT',
+      document.id,
+      { type: document.type, documentNumber, fileName: document.fileName },
+      userId,
+      userRole,
+    );
+
+    await this.refreshProfileStatus(userId);
+
+    this.logger.log(`KYC document ${document.type} submitted by user ${userId}`);
+
+    return document;
   }
 
+  /**
+   * Current KYC state for the requesting user
+   */
   async getKycStatus(userId: string) {
-    this.logger.log(`Getting KYC status for user ${userId}`);
-    
-    // Mock implementation
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      include: { buyerProfile: true, driverProfile: true },
+    });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const documents = await this.prisma.kycDocument.findMany({
+      where: { userId, supersededAt: null },
+      select: documentSelect,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const requiredTypes = this.getRequiredTypes(user.role as UserRole, user.buyerProfile?.gstin);
+    const submittedTypes = new Set(documents.map((document) => document.type));
+
     return {
       userId,
-      status: KYCStatus.PENDING,
-      submittedAt: new Date().toISOString(),
-      reviewedAt: null,
-      reviewedBy: null,
-      remarks: null,
-      documents: [],
+      status: user.buyerProfile?.kycStatus ?? user.driverProfile?.kycStatus ?? null,
+      rejectionReason: user.buyerProfile?.kycRejectionReason ?? null,
+      requiredTypes,
+      missingTypes: requiredTypes.filter((type) => !submittedTypes.has(type)),
+      documents,
     };
   }
 
-  async getPendingKyc(page: number, limit: number, adminId: string, adminRole: UserRole) {
+  /**
+   * Users with documents waiting for review, oldest submission first
+   */
+  async getPendingKyc(requestedPage: number, requestedLimit: number, adminId: string, adminRole: UserRole) {
     this.logger.log(`Getting pending KYC applications for admin ${adminId}`);
-    
+
     if (adminRole !== UserRole.ADMIN && adminRole !== UserRole.OPS) {
       throw new ForbiddenException('Insufficient permissions to view KYC applications');
     }
 
-    // Mock implementation
+    const { page, limit } = this.validationService.validatePagination(requestedPage, requestedLimit);
+    const skip = (page - 1) * limit;
+    const where: Prisma.UserWhereInput = {
+      kycDocuments: { some: { status: KYCStatus.PENDING, supersededAt: null } },
+    };
+
+    const [users, total] = await Promise.all([
+      this.prisma.user.findMany({
+        where,
+        select: {
+          id: true,
+          name: true,
+          phone: true,
+          role: true,
+          buyerProfile: { select: { shopName: true, gstin: true, kycStatus: true } },
+          driverProfile: { select: { licenseNumber: true, vehicleNumber: true, kycStatus: true } },
+          kycDocuments: {
+            where: { supersededAt: null },
+            select: documentSelect,
+            orderBy: { createdAt: 'asc' },
+          },
+        },
+        orderBy: { createdAt: 'asc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.user.count({ where }),
+    ]);
+
     return {
-      items: [],
-      total: 0,
+      items: users,
+      total,
       page,
       limit,
-      totalPages: 0,
+      totalPages: Math.ceil(total / limit),
     };
   }
 
-  async reviewKyc(
-    kycId: string,
-    reviewData: { status: KYCStatus; remarks?: string },
+  /**
+   * Every document a user has submitted, including superseded ones, with
+   * the review history of each
+   */
+  async getUserKycHistory(userId: string, requesterId: string, requesterRole: UserRole) {
+    if (requesterRole !== UserRole.ADMIN && requesterRole !== UserRole.OPS && requesterId !== userId) {
+      throw new ForbiddenException('You can only view your own KYC documents');
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        name: true,
+        phone: true,
+        role: true,
+        buyerProfile: { select: { shopName: true, gstin: true, kycStatus: true, kycRejectionReason: true } },
+        driverProfile: { select: { licenseNumber: true, vehicleNumber: true, kycStatus: true } },
+      },
+    });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const documents = await this.prisma.kycDocument.findMany({
+      where: { userId },
+      select: {
+        ...documentSelect,
+        reviews: { orderBy: { createdAt: 'asc' } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return { ...user, documents };
+  }
+
+  /**
+   * Approve or reject a single document
+   */
+  async reviewDocument(
+    documentId: string,
+    reviewData: ReviewKycDocumentDto,
     reviewerId: string,
     reviewerRole: UserRole,
   ) {
-    this.logger.log(`Reviewing KYC ${kycId} by ${reviewerId}`);
-    
+    this.logger.log(`Reviewing KYC document ${documentId} by ${reviewerId}`);
+
     if (reviewerRole !== UserRole.ADMIN && reviewerRole !== UserRole.OPS) {
       throw new ForbiddenException('Insufficient permissions to review KYC applications');
     }
 
-    // Mock implementation
-    return {
-      success: true,
-      message: `KYC application ${reviewData.status.toLowerCase()} successfully`,
-      data: {
-        kycId,
-        status: reviewData.status,
-        remarks: reviewData.remarks,
-        reviewedBy: reviewerId,
-        reviewedAt: new Date().toISOString(),
-      },
-    };
+    const reason = reviewData.reason?.trim() || null;
+    if (reviewData.status === KYCStatus.REJECTED && !reason) {
+      throw new BadRequestException('A reason is required when rejecting a document');
+    }
+
+    const document = await this.prisma.kycDocument.findUnique({ where: { id: documentId } });
+    if (!document) {
+      throw new NotFoundException('KYC document not found');
+    }
+    if (document.supersededAt) {
+      throw new BadRequestException('This document has been replaced by a newer upload');
+    }
+
+    const reviewedAt = new Date();
+    const updated = await this.prisma.$transaction(async (tx) => {
+      await tx.kycReview.create({
+        data: {
+          documentId,
+          status: reviewData.status,
+          reason,
+          reviewedBy: reviewerId,
+        },
+      });
+
+      return tx.kycDocument.update({
+        where: { id: documentId },
+        data: {
+          status: reviewData.status,
+          rejectionReason: reviewData.status === KYCStatus.REJECTED ? reason : null,
+          reviewedBy: reviewerId,
+          reviewedAt,
+        },
+        select: documentSelect,
+      });
+    });
+
+    await this.auditService.logUpdate(
+      'KYC_DOCUMENT',
+      documentId,
+      { status: document.status, rejectionReason: document.rejectionReason },
+      { status: updated.status, rejectionReason: updated.rejectionReason },
+      reviewerId,
+      reviewerRole,
+    );
+
+    const kycStatus = await this.refreshProfileStatus(document.userId);
+
+    return { ...updated, kycStatus };
   }
 
-  async getKycById(kycId: string, requesterId: string, _requesterRole: UserRole) {
-    this.logger.log(`Getting KYC ${kycId} for user ${requesterId}`);
-    
-    // Mock implementation
-    return {
-      id: kycId,
-      status: KYCStatus.PENDING,
-      submittedAt: new Date().toISOString(),
-      documents: [],
-      personalInfo: {},
-      businessInfo: {},
-    };
+  /**
+   * Short-lived signed URL for a document, for its owner or a reviewer
+   */
+  async getDocumentFileUrl(documentId: string, requesterId: string, requesterRole: UserRole) {
+    const document = await this.prisma.kycDocument.findUnique({ where: { id: documentId } });
+    if (!document) {
+      throw new NotFoundException('KYC document not found');
+    }
+    if (requesterRole !== UserRole.ADMIN && requesterRole !== UserRole.OPS && document.userId !== requesterId) {
+      throw new ForbiddenException('You can only view your own KYC documents');
+    }
+
+    return this.filesService.createSignedUrl(document.fileId);
+  }
+
+  // Helper methods
+
+  private getRequiredTypes(role: UserRole, gstin?: string | null): KycDocumentType[] {
+    if (role === UserRole.DRIVER) {
+      return [KycDocumentType.DRIVING_LICENSE, KycDocumentType.VEHICLE_RC];
+    }
+    if (role === UserRole.BUYER) {
+      // Unregistered shops have no GST certificate to show
+      return gstin
+        ? [KycDocumentType.GST_CERTIFICATE, KycDocumentType.SHOP_PHOTO, KycDocumentType.PAN]
+        : [KycDocumentType.SHOP_PHOTO, KycDocumentType.PAN];
+    }
+    return [];
+  }
+
+  private validateDocumentNumber(type: KycDocumentType, documentNumber?: string): string | null {
+    const value = documentNumber?.trim().toUpperCase().replace(/\s+/g, '') || null;
+
+    switch (type) {
+      case KycDocumentType.GST_CERTIFICATE: {
+        const gstinValidation = this.validationService.validateGSTIN(value || '');
+        if (!gstinValidation.isValid) {
+          throw new BadRequestException(gstinValidation.error);
+        }
+        return value;
+      }
+      case KycDocumentType.PAN:
+        if (!value || !validatePAN(value)) {
+          throw new BadRequestException('A valid PAN is required');
+        }
+        return value;
+      case KycDocumentType.DRIVING_LICENSE:
+      case KycDocumentType.VEHICLE_RC:
+        if (!value) {
+          throw new BadRequestException(`${DOCUMENT_LABELS[type]} number is required`);
+        }
+        return value;
+      default:
+        return value;
+    }
+  }
+
+  /**
+   * Derive the profile KYC status from the current documents: rejected if any
+   * current document is rejected, approved once every required document is
+   * approved, pending otherwise. Notifies the user when the status changes.
+   */
+  private async refreshProfileStatus(userId: string): Promise<KYCStatus | null> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      include: { buyerProfile: true, driverProfile: true },
+    });
+    const profile = user?.buyerProfile ?? user?.driverProfile;
+    if (!user || !profile) {
+      return null;
+    }
+
+    const documents = await this.prisma.kycDocument.findMany({
+      where: { userId, supersededAt: null },
+      orderBy: { createdAt: 'desc' },
+    });
+    const byType = new Map(documents.map((document) => [document.type as KycDocumentType, document]));
+    const requiredTypes = this.getRequiredTypes(user.role as UserRole, user.buyerProfile?.gstin);
+
+    const rejected = documents.find((document) => document.status === KYCStatus.REJECTED);
+    let status = KYCStatus.PENDING;
+    if (rejected) {
+      status = KYCStatus.REJECTED;
+    } else if (requiredTypes.every((type) => byType.get(type)?.status === KYCStatus.APPROVED)) {
+      status = KYCStatus.APPROVED;
+    }
+
+    const reason = rejected
+      ? `${DOCUMENT_LABELS[rejected.type as KycDocumentType]}: ${rejected.rejectionReason}`
+      : null;
+
+    if (user.buyerProfile) {
+      const primary = byType.get(KycDocumentType.GST_CERTIFICATE) ?? byType.get(KycDocumentType.SHOP_PHOTO);
+      await this.prisma.buyerProfile.update({
+        where: { userId },
+        data: {
+          kycStatus: status,
+          kycRejectionReason: reason,
+          kycDocumentUrl: primary ? this.getDocumentUrl(primary.id) : null,
+        },
+      });
+    } else {
+      const license = byType.get(KycDocumentType.DRIVING_LICENSE);
+      await this.prisma.driverProfile.update({
+        where: { userId },
+        data: {
+          kycStatus: status,
+          licenseDocumentUrl: license ? this.getDocumentUrl(license.id) : null,
+        },
+      });
+    }
+
+    if (status !== profile.kycStatus) {
+      this.logger.log(`KYC status for user ${userId} changed from ${profile.kycStatus} to ${status}`);
+
+      if (status === KYCStatus.APPROVED) {
+        await this.notificationsService.notify(userId, NotificationType.KYC_APPROVED);
+      } else if (status === KYCStatus.REJECTED) {
+        await this.notificationsService.notify(userId, NotificationType.KYC_REJECTED, { reason: reason || '' });
+      }
+    }
+
+    return status;
+  }
+
+  private getDocumentUrl(documentId: string): string {
+    return `/api/v1/kyc/documents/${documentId}/url`;
   }
-}
\ No newline at end of file
+}
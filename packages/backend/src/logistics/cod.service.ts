@@ -0,0 +1,500 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CODSettlement, Prisma } from '@prisma/client';
+import { Response } from 'express';
+import PDFDocument from 'pdfkit';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../common/services/audit.service';
+import { ValidationService } from '../common/services/validation.service';
+import { UserRole, PaymentMethod, PaymentStatus, roundCurrency } from '@mawell/shared';
+
+export interface CodLedgerFilters {
+  driverId?: string;
+  warehouseId?: string;
+  settled?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+export interface SettleCodCashDto {
+  driverId: string;
+  warehouseId: string;
+  entryIds: string[];
+  depositedAmount: number;
+  notes?: string;
+}
+
+interface CodConsignment {
+  id: string;
+  consignmentNumber: string;
+  orderId: string;
+  driverId: string | null;
+  codAmount: number | null;
+}
+
+// Age buckets for cash still with drivers, by whole days since collection
+const AGING_BUCKETS = [
+  { label: '0-1 days', maxDays: 1 },
+  { label: '2-3 days', maxDays: 3 },
+  { label: '4-7 days', maxDays: 7 },
+  { label: '8+ days', maxDays: Infinity },
+];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ledgerInclude = Prisma.validator<Prisma.CODLedgerInclude>()({
+  consignment: {
+    select: {
+      consignmentNumber: true,
+      warehouseId: true,
+      order: { select: { id: true, orderNumber: true } },
+    },
+  },
+});
+
+@Injectable()
+export class CodService {
+  private readonly logger = new Logger(CodService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private auditService: AuditService,
+    private validationService: ValidationService,
+  ) {}
+
+  /**
+   * Cash to collect for a warehouse's share of a COD order. Each line counts at what the
+   * buyer pays for it, tax included, and delivery fee and order discounts are spread in
+   * proportion, so the consignments of an order add up to its total.
+   */
+  async calculateConsignmentAmount(
+    orderId: string,
+    warehouseId: string,
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<number | null> {
+    const order = await client.order.findUnique({
+      where: { id: orderId },
+      include: { items: true },
+    });
+    if (!order || order.paymentMethod !== PaymentMethod.COD) {
+      return null;
+    }
+
+    const lineTotal = (item: (typeof order.items)[number]) =>
+      item.totalPrice - item.discountAmount + item.cgstAmount + item.sgstAmount + item.igstAmount;
+
+    const orderLinesTotal = order.items.reduce((sum, item) => sum + lineTotal(item), 0);
+    if (orderLinesTotal <= 0) {
+      return 0;
+    }
+
+    const warehouseTotal = order.items
+      .filter((item) => item.warehouseId === warehouseId)
+      .reduce((sum, item) => sum + (lineTotal(item) / item.quantity) * (item.quantity - item.quantityCancelled), 0);
+
+    return roundCurrency((warehouseTotal / orderLinesTotal) * order.totalAmount);
+  }
+
+  /**
+   * Record the cash a driver collected on delivering a COD consignment, in the
+   * transaction that marks it delivered. Short or excess collection is kept as the
+   * difference from the expected amount. The order is marked paid once its
+   * consignments have brought in its total, less any cancelled lines.
+   */
+  async recordCollection(tx: Prisma.TransactionClient, consignment: CodConsignment, collectedAmount: number) {
+    if (!consignment.driverId) {
+      throw new BadRequestException('Assign a driver before recording COD collection');
+    }
+    if (!Number.isFinite(collectedAmount) || collectedAmount < 0) {
+      throw new BadRequestException('Collected amount must be a non-negative number');
+    }
+
+    const amount = roundCurrency(collectedAmount);
+    const expectedAmount = consignment.codAmount ?? 0;
+
+    // A concurrent delivery of the same consignment records its cash first and wins
+    const { count } = await tx.consignment.updateMany({
+      where: { id: consignment.id, codCollected: false },
+      data: { codCollected: true },
+    });
+    if (count === 0) {
+      throw new ConflictException('COD collection was already recorded for this consignment');
+    }
+
+    const entry = await tx.cODLedger.create({
+      data: {
+        consignmentId: consignment.id,
+        driverId: consignment.driverId,
+        amount,
+        expectedAmount,
+        collectedAt: new Date(),
+      },
+    });
+
+    const order = await tx.order.findUnique({ where: { id: consignment.orderId } });
+    const collected = await tx.cODLedger.aggregate({
+      where: { consignment: { orderId: consignment.orderId } },
+      _sum: { amount: true },
+    });
+    if (
+      order &&
+      order.paymentStatus === PaymentStatus.PENDING &&
+      roundCurrency(collected._sum.amount ?? 0) >= roundCurrency(order.totalAmount - order.cancelledAmount)
+    ) {
+      await tx.order.update({
+        where: { id: order.id },
+        data: { paymentStatus: PaymentStatus.PAID, paymentDate: new Date() },
+      });
+    }
+
+    const variance = roundCurrency(amount - expectedAmount);
+    if (variance !== 0) {
+      this.logger.warn(
+        `COD ${variance < 0 ? 'short' : 'excess'} collection of ₹${Math.abs(variance)} on ${consignment.consignmentNumber}`,
+      );
+    }
+
+    return entry;
+  }
+
+  /**
+   * Cash a driver is holding: everything collected and not yet deposited
+   */
+  async getDriverCashBalance(driverId: string, requestingUserId: string, requestingUserRole: UserRole) {
+    this.assertCanViewDriver(driverId, requestingUserId, requestingUserRole);
+
+    const entries = await this.prisma.cODLedger.findMany({
+      where: { driverId, settledAt: null },
+      include: ledgerInclude,
+      orderBy: { collectedAt: 'asc' },
+    });
+
+    return {
+      driverId,
+      cashInHand: roundCurrency(entries.reduce((sum, entry) => sum + entry.amount, 0)),
+      expectedAmount: roundCurrency(entries.reduce((sum, entry) => sum + entry.expectedAmount, 0)),
+      pendingEntries: entries.length,
+      oldestCollectedAt: entries[0]?.collectedAt ?? null,
+      entries,
+    };
+  }
+
+  async findLedgerEntries(filters: CodLedgerFilters, requestingUserRole: UserRole) {
+    this.assertOps(requestingUserRole);
+
+    const { page, limit } = this.validationService.validatePagination(filters.page, filters.limit);
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.CODLedgerWhereInput = {};
+    if (filters.driverId) where.driverId = filters.driverId;
+    if (filters.warehouseId) where.consignment = { warehouseId: filters.warehouseId };
+    if (filters.settled !== undefined) where.settledAt = filters.settled ? { not: null } : null;
+
+    const [entries, total] = await Promise.all([
+      this.prisma.cODLedger.findMany({
+        where,
+        skip,
+        take: limit,
+        include: ledgerInclude,
+        orderBy: { collectedAt: 'desc' },
+      }),
+      this.prisma.cODLedger.count({ where }),
+    ]);
+
+    return {
+      entries,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Deposit a driver's cash at the warehouse against many ledger entries at once and
+   * issue a receipt. A deposit that differs from the entries' total is accepted and the
+   * difference stays visible on the receipt.
+   */
+  async settleCash(settlementData: SettleCodCashDto, requestingUserId: string, requestingUserRole: UserRole) {
+    this.assertOps(requestingUserRole);
+
+    const entryIds = [...new Set(settlementData.entryIds)];
+    if (entryIds.length === 0) {
+      throw new BadRequestException('Select at least one ledger entry to settle');
+    }
+    if (!Number.isFinite(settlementData.depositedAmount) || settlementData.depositedAmount < 0) {
+      throw new BadRequestException('Deposited amount must be a non-negative number');
+    }
+
+    const warehouse = await this.prisma.warehouse.findUnique({ where: { id: settlementData.warehouseId } });
+    if (!warehouse) {
+      throw new BadRequestException('Warehouse not found');
+    }
+
+    const entries = await this.prisma.cODLedger.findMany({
+      where: { id: { in: entryIds }, driverId: settlementData.driverId, settledAt: null },
+    });
+    if (entries.length !== entryIds.length) {
+      throw new BadRequestException('Some entries are not open cash collections of this driver');
+    }
+
+    const expectedAmount = roundCurrency(entries.reduce((sum, entry) => sum + entry.amount, 0));
+    const receiptNumber = await this.generateReceiptNumber();
+
+    const settlement = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.cODSettlement.create({
+        data: {
+          receiptNumber,
+          driverId: settlementData.driverId,
+          warehouseId: settlementData.warehouseId,
+          expectedAmount,
+          depositedAmount: roundCurrency(settlementData.depositedAmount),
+          notes: settlementData.notes,
+          settledBy: requestingUserId,
+        },
+      });
+
+      // Only still-open entries are taken, so two deposits cannot settle the same cash
+      const { count } = await tx.cODLedger.updateMany({
+        where: { id: { in: entryIds }, settledAt: null },
+        data: { settledAt: created.createdAt, settlementId: created.id },
+      });
+      if (count !== entryIds.length) {
+        throw new ConflictException('Some entries were settled by another deposit');
+      }
+
+      return created;
+    });
+
+    await this.auditService.logCreate(
+      'COD_SETTLEMENT',
+      settlement.id,
+      {
+        receiptNumber,
+        driverId: settlement.driverId,
+        entries: entryIds.length,
+        expectedAmount,
+        depositedAmount: settlement.depositedAmount,
+      },
+      requestingUserId,
+      requestingUserRole,
+    );
+
+    this.logger.log(
+      `COD settlement ${receiptNumber}: ₹${settlement.depositedAmount} deposited against ₹${expectedAmount}`,
+    );
+
+    return this.getSettlement(settlement.id, requestingUserId, requestingUserRole);
+  }
+
+  async getSettlement(settlementId: string, requestingUserId: string, requestingUserRole: UserRole) {
+    const settlement = await this.prisma.cODSettlement.findUnique({
+      where: { id: settlementId },
+      include: { entries: { include: ledgerInclude, orderBy: { collectedAt: 'asc' } } },
+    });
+    if (!settlement) {
+      throw new NotFoundException('COD settlement not found');
+    }
+
+    this.assertCanViewDriver(settlement.driverId, requestingUserId, requestingUserRole);
+
+    return {
+      ...settlement,
+      variance: roundCurrency(settlement.depositedAmount - settlement.expectedAmount),
+    };
+  }
+
+  /**
+   * Stream the settlement receipt PDF
+   */
+  async downloadSettlementReceipt(
+    settlementId: string,
+    res: Response,
+    requestingUserId: string,
+    requestingUserRole: UserRole,
+  ) {
+    const settlement = await this.getSettlement(settlementId, requestingUserId, requestingUserRole);
+    const [driver, warehouse] = await Promise.all([
+      this.prisma.user.findUnique({ where: { id: settlement.driverId }, select: { name: true, phone: true } }),
+      this.prisma.warehouse.findUnique({ where: { id: settlement.warehouseId }, select: { name: true } }),
+    ]);
+
+    const pdf = await this.renderReceiptPdf(settlement, driver, warehouse?.name ?? settlement.warehouseId);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${settlement.receiptNumber}.pdf"`);
+    res.send(pdf);
+  }
+
+  /**
+   * Undeposited cash by driver, bucketed by how long it has been held
+   */
+  async getAgingReport(requestingUserRole: UserRole, warehouseId?: string) {
+    this.assertOps(requestingUserRole);
+
+    const entries = await this.prisma.cODLedger.findMany({
+      where: {
+        settledAt: null,
+        ...(warehouseId && { consignment: { warehouseId } }),
+      },
+      select: { driverId: true, amount: true, collectedAt: true },
+    });
+
+    const now = Date.now();
+    const driverStats = new Map<string, { total: number; count: number; oldestCollectedAt: Date; buckets: number[] }>();
+
+    entries.forEach((entry) => {
+      const ageDays = Math.floor((now - entry.collectedAt.getTime()) / DAY_MS);
+      const bucket = AGING_BUCKETS.findIndex((candidate) => ageDays <= candidate.maxDays);
+
+      const stats = driverStats.get(entry.driverId) || {
+        total: 0,
+        count: 0,
+        oldestCollectedAt: entry.collectedAt,
+        buckets: AGING_BUCKETS.map(() => 0),
+      };
+      stats.total += entry.amount;
+      stats.count += 1;
+      stats.buckets[bucket] += entry.amount;
+      if (entry.collectedAt < stats.oldestCollectedAt) stats.oldestCollectedAt = entry.collectedAt;
+      driverStats.set(entry.driverId, stats);
+    });
+
+    const drivers = await this.prisma.user.findMany({
+      where: { id: { in: Array.from(driverStats.keys()) } },
+      select: { id: true, name: true, phone: true },
+    });
+    const driversById = new Map(drivers.map((driver) => [driver.id, driver]));
+
+    const rows = Array.from(driverStats.entries())
+      .map(([driverId, stats]) => ({
+        driverId,
+        driverName: driversById.get(driverId)?.name ?? null,
+        driverPhone: driversById.get(driverId)?.phone ?? null,
+        outstanding: roundCurrency(stats.total),
+        entries: stats.count,
+        oldestCollectedAt: stats.oldestCollectedAt,
+        buckets: AGING_BUCKETS.map((bucket, index) => ({
+          label: bucket.label,
+          amount: roundCurrency(stats.buckets[index]),
+        })),
+      }))
+      .sort((a, b) => a.oldestCollectedAt.getTime() - b.oldestCollectedAt.getTime());
+
+    return {
+      generatedAt: new Date(),
+      totalOutstanding: roundCurrency(rows.reduce((sum, row) => sum + row.outstanding, 0)),
+      buckets: AGING_BUCKETS.map((bucket, index) => ({
+        label: bucket.label,
+        amount: roundCurrency(rows.reduce((sum, row) => sum + row.buckets[index].amount, 0)),
+      })),
+      drivers: rows,
+    };
+  }
+
+  // Helper methods
+
+  private assertOps(requestingUserRole: UserRole) {
+    if (![UserRole.ADMIN, UserRole.OPS].includes(requestingUserRole)) {
+      throw new ForbiddenException('Only admins and ops users can manage COD cash');
+    }
+  }
+
+  private assertCanViewDriver(driverId: string, requestingUserId: string, requestingUserRole: UserRole) {
+    if (requestingUserRole === UserRole.DRIVER && driverId !== requestingUserId) {
+      throw new ForbiddenException('You can only view your own COD cash');
+    }
+    if (![UserRole.ADMIN, UserRole.OPS, UserRole.DRIVER].includes(requestingUserRole)) {
+      throw new ForbiddenException('Insufficient permissions');
+    }
+  }
+
+  private async generateReceiptNumber(): Promise<string> {
+    const today = new Date();
+    const year = today.getFullYear().toString().slice(-2);
+    const month = (today.getMonth() + 1).toString().padStart(2, '0');
+    const day = today.getDate().toString().padStart(2, '0');
+
+    const startOfDay = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+    const endOfDay = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1);
+
+    const count = await this.prisma.cODSettlement.count({
+      where: { createdAt: { gte: startOfDay, lt: endOfDay } },
+    });
+
+    return `CODR${year}${month}${day}${(count + 1).toString().padStart(4, '0')}`;
+  }
+
+  private renderReceiptPdf(
+    settlement: CODSettlement & {
+      variance: number;
+      entries: Prisma.CODLedgerGetPayload<{ include: typeof ledgerInclude }>[];
+    },
+    driver: { name: string | null; phone: string } | null,
+    warehouseName: string,
+  ): Promise<Buffer> {
+    const seller = this.configService.get('invoice.seller');
+    const money = (amount: number) => roundCurrency(amount).toFixed(2);
+
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({ size: 'A5', margin: 36 });
+      const chunks: Buffer[] = [];
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      const left = doc.page.margins.left;
+      const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+      const row = (label: string, value: string, bold = false) => {
+        const y = doc.y;
+        doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(9);
+        doc.text(label, left, y, { width: width - 100 });
+        doc.text(value, left + width - 100, y, { width: 100, align: 'right' });
+        doc.x = left;
+        doc.moveDown(0.3);
+      };
+
+      doc.font('Helvetica-Bold').fontSize(14).text('COD CASH RECEIPT', { align: 'center' });
+      doc.moveDown(0.5);
+      doc.font('Helvetica-Bold').fontSize(10).text(seller?.name ?? 'Mawell');
+      doc.font('Helvetica').fontSize(9);
+      doc.text(`Receipt No: ${settlement.receiptNumber}`);
+      doc.text(`Date: ${settlement.createdAt.toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' })}`);
+      doc.text(`Warehouse: ${warehouseName}`);
+      doc.text(`Driver: ${driver?.name || '-'} (${driver?.phone || settlement.driverId})`);
+      doc.moveDown();
+
+      doc.font('Helvetica-Bold').fontSize(9).text('Collections');
+      doc.moveDown(0.3);
+      for (const entry of settlement.entries) {
+        row(
+          `${entry.consignment.consignmentNumber} / ${entry.consignment.order.orderNumber} - ${entry.collectedAt.toLocaleDateString('en-IN')}`,
+          money(entry.amount),
+        );
+      }
+      doc.moveDown(0.5);
+
+      row('Total collected', money(settlement.expectedAmount), true);
+      row('Deposited', money(settlement.depositedAmount), true);
+      if (settlement.variance !== 0) {
+        row(settlement.variance < 0 ? 'Short deposit' : 'Excess deposit', money(Math.abs(settlement.variance)), true);
+      }
+      if (settlement.notes) {
+        doc.moveDown(0.5);
+        doc.font('Helvetica').fontSize(9).text(`Notes: ${settlement.notes}`);
+      }
+
+      doc.moveDown(2);
+      doc.font('Helvetica').fontSize(9).text('Received by: ____________________', left);
+
+      doc.end();
+    });
+  }
+}
@@ -6,10 +6,13 @@ import {
   Body,
   Param,
   Query,
+  Res,
   UseGuards,
   Logger,
 } from '@nestjs/common';
+import { Response } from 'express';
 import { LogisticsService } from './logistics.service';
+import { CodService } from './cod.service';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../common/guards/roles.guard';
 import { Roles } from '../common/decorators/roles.decorator';
@@ -25,10 +28,14 @@ import {
   Min,
   Max,
   IsInt,
+  IsNumber,
+  IsBoolean,
+  IsArray,
+  ArrayNotEmpty,
   IsLatitude,
   IsLongitude,
 } from 'class-validator';
-import { Type } from 'class-transformer';
+import { Transform, Type } from 'class-transformer';
 
 // DTOs
 export class CreateConsignmentRequestDto {
@@ -71,6 +78,22 @@ export class UpdateConsignmentRequestDto {
   @IsOptional()
   @IsString()
   notes?: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  codCollectedAmount?: number;
+}
+
+export class DeliverConsignmentRequestDto {
+  @IsOptional()
+  @IsString()
+  notes?: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  codCollectedAmount?: number;
 }
 
 export class AssignDriverRequestDto {
@@ -141,12 +164,64 @@ export class ConsignmentFiltersDto {
   sortOrder?: 'asc' | 'desc' = 'desc';
 }
 
+export class CodLedgerFiltersDto {
+  @IsOptional()
+  @IsString()
+  driverId?: string;
+
+  @IsOptional()
+  @IsString()
+  warehouseId?: string;
+
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  settled?: boolean;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
+
+export class SettleCodCashRequestDto {
+  @IsString()
+  driverId: string;
+
+  @IsString()
+  warehouseId: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  entryIds: string[];
+
+  @IsNumber()
+  @Min(0)
+  depositedAmount: number;
+
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
 @Controller('logistics')
 @UseGuards(JwtAuthGuard, RolesGuard)
 export class LogisticsController {
   private readonly logger = new Logger(LogisticsController.name);
 
-  constructor(private readonly logisticsService: LogisticsService) {}
+  constructor(
+    private readonly logisticsService: LogisticsService,
+    private readonly codService: CodService,
+  ) {}
 
   // Consignment Management
 
@@ -378,7 +453,7 @@ export class LogisticsController {
   @Roles(UserRole.DRIVER, UserRole.ADMIN, UserRole.OPS)
   async markDelivered(
     @Param('consignmentId') consignmentId: string,
-    @Body() body: { notes?: string },
+    @Body() body: DeliverConsignmentRequestDto,
     @User() user: any,
   ) {
     this.logger.log(`Marking consignment ${consignmentId} as delivered`);
@@ -388,6 +463,7 @@ export class LogisticsController {
         status: ConsignmentStatus.DELIVERED,
         actualDeliveryDate: new Date(),
         notes: body.notes,
+        codCollectedAmount: body.codCollectedAmount,
       },
       user.id,
       user.role,
@@ -416,6 +492,91 @@ export class LogisticsController {
     );
   }
 
+  // COD Cash
+
+  /**
+   * Get current driver's undeposited COD cash
+   */
+  @Get('cod/my-balance')
+  @Roles(UserRole.DRIVER)
+  async getMyCashBalance(@User() user: any) {
+    return this.codService.getDriverCashBalance(user.id, user.id, user.role);
+  }
+
+  /**
+   * Get a driver's undeposited COD cash
+   */
+  @Get('cod/drivers/:driverId/balance')
+  @Roles(UserRole.ADMIN, UserRole.OPS, UserRole.DRIVER)
+  async getDriverCashBalance(
+    @Param('driverId') driverId: string,
+    @User() user: any,
+  ) {
+    return this.codService.getDriverCashBalance(driverId, user.id, user.role);
+  }
+
+  /**
+   * Get COD ledger entries
+   */
+  @Get('cod/ledger')
+  @Roles(UserRole.ADMIN, UserRole.OPS)
+  async getCodLedger(
+    @Query() filters: CodLedgerFiltersDto,
+    @User() user: any,
+  ) {
+    return this.codService.findLedgerEntries(filters, user.role);
+  }
+
+  /**
+   * Get undeposited COD cash by driver and age
+   */
+  @Get('cod/aging')
+  @Roles(UserRole.ADMIN, UserRole.OPS)
+  async getCodAgingReport(
+    @Query('warehouseId') warehouseId: string | undefined,
+    @User() user: any,
+  ) {
+    return this.codService.getAgingReport(user.role, warehouseId);
+  }
+
+  /**
+   * Deposit a driver's COD cash at the warehouse
+   */
+  @Post('cod/settlements')
+  @Roles(UserRole.ADMIN, UserRole.OPS)
+  async settleCodCash(
+    @Body() settleCodCashDto: SettleCodCashRequestDto,
+    @User() user: any,
+  ) {
+    this.logger.log(`Settling ${settleCodCashDto.entryIds.length} COD entries for driver ${settleCodCashDto.driverId}`);
+    return this.codService.settleCash(settleCodCashDto, user.id, user.role);
+  }
+
+  /**
+   * Get COD settlement
+   */
+  @Get('cod/settlements/:settlementId')
+  @Roles(UserRole.ADMIN, UserRole.OPS, UserRole.DRIVER)
+  async getCodSettlement(
+    @Param('settlementId') settlementId: string,
+    @User() user: any,
+  ) {
+    return this.codService.getSettlement(settlementId, user.id, user.role);
+  }
+
+  /**
+   * Download COD settlement receipt
+   */
+  @Get('cod/settlements/:settlementId/receipt')
+  @Roles(UserRole.ADMIN, UserRole.OPS, UserRole.DRIVER)
+  async downloadCodReceipt(
+    @Param('settlementId') settlementId: string,
+    @Res() res: Response,
+    @User() user: any,
+  ) {
+    return this.codService.downloadSettlementReceipt(settlementId, res, user.id, user.role);
+  }
+
   // Tracking and Reports
 
   /**
@@ -1,13 +1,16 @@
 import { Module } from '@nestjs/common';
 import { LogisticsService } from './logistics.service';
+import { CodService } from './cod.service';
 import { LogisticsController } from './logistics.controller';
 import { PrismaModule } from '../prisma/prisma.module';
 import { CommonModule } from '../common/common.module';
+import { InvoicesModule } from '../invoices/invoices.module';
+import { NotificationsModule } from '../notifications/notifications.module';
 
 @Module({
-  imports: [PrismaModule, CommonModule],
+  imports: [PrismaModule, CommonModule, InvoicesModule, NotificationsModule],
   controllers: [LogisticsController],
-  providers: [LogisticsService],
-  exports: [LogisticsService],
+  providers: [LogisticsService, CodService],
+  exports: [LogisticsService, CodService],
 })
 export class LogisticsModule {}
\ No newline at end of file
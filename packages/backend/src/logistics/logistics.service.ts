@@ -8,7 +8,20 @@ import {
 import { PrismaService } from '../prisma/prisma.service';
 import { AuditService } from '../common/services/audit.service';
 import { ValidationService } from '../common/services/validation.service';
-import { UserRole, ConsignmentStatus, OrderStatus } from '@mawell/shared';
+import { InvoicesService } from '../invoices/invoices.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { CodService } from './cod.service';
+import { Prisma, Warehouse } from '@prisma/client';
+import { UserRole, ConsignmentStatus, OrderStatus, FulfilmentStatus, NotificationType, KYCStatus } from '@mawell/shared';
+
+// Order statuses that the consignment roll-up is allowed to move between
+const FULFILMENT_ORDER_STATUSES: OrderStatus[] = [
+  OrderStatus.CONFIRMED,
+  OrderStatus.PROCESSING,
+  OrderStatus.PARTIALLY_SHIPPED,
+  OrderStatus.SHIPPED,
+  OrderStatus.PARTIALLY_DELIVERED,
+];
 
 export interface CreateConsignmentDto {
   orderId: string;
@@ -24,6 +37,8 @@ export interface UpdateConsignmentDto {
   estimatedDeliveryDate?: Date;
   actualDeliveryDate?: Date;
   notes?: string;
+  // Cash taken from the buyer when delivering a COD consignment
+  codCollectedAmount?: number;
 }
 
 export interface UpdateLocationDto {
@@ -54,6 +69,9 @@ export class LogisticsService {
     private prisma: PrismaService,
     private auditService: AuditService,
     private validationService: ValidationService,
+    private invoicesService: InvoicesService,
+    private notificationsService: NotificationsService,
+    private codService: CodService,
   ) {}
 
   // Consignment Management
@@ -77,6 +95,7 @@ export class LogisticsService {
         items: {
           where: {
             warehouseId: consignmentData.warehouseId,
+            fulfilmentStatus: { not: FulfilmentStatus.CANCELLED },
           },
           include: {
             product: true,
@@ -101,8 +120,8 @@ export class LogisticsService {
       throw new NotFoundException('Order not found');
     }
 
-    if (order.status !== OrderStatus.CONFIRMED && order.status !== OrderStatus.PROCESSING) {
-      throw new BadRequestException('Order must be confirmed or processing to create consignment');
+    if (!FULFILMENT_ORDER_STATUSES.includes(order.status as OrderStatus) || order.status === OrderStatus.SHIPPED) {
+      throw new BadRequestException('Order must be confirmed or awaiting shipment to create consignment');
     }
 
     if (order.items.length === 0) {
@@ -119,26 +138,15 @@ export class LogisticsService {
 
     // Verify driver if provided
     if (consignmentData.driverId) {
-      const driver = await this.prisma.user.findUnique({
-        where: {
-          id: consignmentData.driverId,
-          role: UserRole.DRIVER,
-          isActive: true,
-        },
-        include: {
-          driverProfile: true,
-        },
-      });
-      if (!driver || !driver.driverProfile) {
-        throw new BadRequestException('Driver not found or inactive');
-      }
+      await this.validateDriver(consignmentData.driverId);
     }
 
-    // Check if consignment already exists for this order and warehouse
+    // Check if an active consignment already exists for this order and warehouse
     const existingConsignment = await this.prisma.consignment.findFirst({
       where: {
         orderId: consignmentData.orderId,
         warehouseId: consignmentData.warehouseId,
+        status: { not: ConsignmentStatus.CANCELLED },
       },
     });
     if (existingConsignment) {
@@ -148,30 +156,7 @@ export class LogisticsService {
     // Generate consignment number
     const consignmentNumber = await this.generateConsignmentNumber();
 
-    // Create or find pickup address for warehouse
-    let pickupAddress = await this.prisma.address.findFirst({
-      where: {
-        line1: warehouse.address,
-        city: warehouse.city,
-        state: warehouse.state,
-        pincode: warehouse.pincode,
-      },
-    });
-
-    if (!pickupAddress) {
-      pickupAddress = await this.prisma.address.create({
-        data: {
-          userId: order.buyerId, // Using buyer as owner for now
-          line1: warehouse.address,
-          city: warehouse.city,
-          state: warehouse.state,
-          pincode: warehouse.pincode,
-          latitude: warehouse.latitude,
-          longitude: warehouse.longitude,
-          isDefault: false,
-        },
-      });
-    }
+    const pickupAddress = await this.resolvePickupAddress(warehouse, order.buyerId);
 
     const consignment = await this.prisma.consignment.create({
       data: {
@@ -182,6 +167,7 @@ export class LogisticsService {
         status: consignmentData.driverId ? ConsignmentStatus.ASSIGNED : ConsignmentStatus.PENDING,
         estimatedDeliveryDate: consignmentData.estimatedDeliveryDate,
         notes: consignmentData.notes,
+        codAmount: await this.codService.calculateConsignmentAmount(order.id, consignmentData.warehouseId),
         pickupAddressId: pickupAddress.id,
         deliveryAddressId: order.deliveryAddressId,
       },
@@ -236,9 +222,230 @@ export class LogisticsService {
 
     this.logger.log(`Consignment created: ${consignment.consignmentNumber}`);
 
+    if (consignment.driverId) {
+      await this.notifyDriverAssigned(consignment);
+    }
+
     return consignment;
   }
 
+  /**
+   * Split a confirmed order into one consignment per fulfilling warehouse.
+   * Warehouses that already have an active consignment are skipped.
+   */
+  async createOrderConsignments(orderId: string, client: Prisma.TransactionClient = this.prisma) {
+    const order = await client.order.findUnique({
+      where: { id: orderId },
+      include: {
+        items: true,
+        consignments: {
+          where: { status: { not: ConsignmentStatus.CANCELLED } },
+        },
+      },
+    });
+
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    const coveredWarehouseIds = new Set(order.consignments.map((consignment) => consignment.warehouseId));
+    const warehouseIds = [
+      ...new Set(
+        order.items
+          .filter((item) => item.quantity - item.quantityCancelled > 0)
+          .map((item) => item.warehouseId),
+      ),
+    ].filter((warehouseId) => !coveredWarehouseIds.has(warehouseId));
+
+    const consignments = [];
+    for (const warehouseId of warehouseIds) {
+      const warehouse = await client.warehouse.findUnique({
+        where: { id: warehouseId },
+      });
+      const pickupAddress = await this.resolvePickupAddress(warehouse, order.buyerId, client);
+
+      const consignment = await client.consignment.create({
+        data: {
+          consignmentNumber: await this.generateConsignmentNumber(client),
+          orderId,
+          warehouseId,
+          status: ConsignmentStatus.PENDING,
+          estimatedDeliveryDate: order.estimatedDeliveryAt,
+          codAmount: await this.codService.calculateConsignmentAmount(orderId, warehouseId, client),
+          pickupAddressId: pickupAddress.id,
+          deliveryAddressId: order.deliveryAddressId,
+        },
+      });
+
+      await this.auditService.logCreate('CONSIGNMENT', consignment.id, { orderId, warehouseId });
+
+      consignments.push(consignment);
+    }
+
+    if (consignments.length > 0) {
+      this.logger.log(`Order ${order.orderNumber} split into ${consignments.length} consignment(s)`);
+    }
+
+    return consignments;
+  }
+
+  /**
+   * Cancel consignments that have not been picked up yet, e.g. when the order or
+   * all of its lines from a warehouse are cancelled.
+   */
+  async cancelOpenConsignments(
+    orderId: string,
+    warehouseId?: string,
+    client: Prisma.TransactionClient = this.prisma,
+  ) {
+    const openConsignments = await client.consignment.findMany({
+      where: {
+        orderId,
+        ...(warehouseId && { warehouseId }),
+        status: { in: [ConsignmentStatus.PENDING, ConsignmentStatus.ASSIGNED] },
+      },
+    });
+
+    for (const consignment of openConsignments) {
+      await client.consignment.update({
+        where: { id: consignment.id },
+        data: { status: ConsignmentStatus.CANCELLED },
+      });
+      await client.consignmentEvent.create({
+        data: {
+          consignmentId: consignment.id,
+          status: ConsignmentStatus.CANCELLED,
+          notes: 'Order lines cancelled',
+        },
+      });
+    }
+
+    return openConsignments.length;
+  }
+
+  /**
+   * Recompute the cash to collect on a warehouse's consignments that have not been
+   * picked up yet, after some of its order lines were cancelled.
+   */
+  async refreshCodAmounts(orderId: string, warehouseId: string, client: Prisma.TransactionClient = this.prisma) {
+    const codAmount = await this.codService.calculateConsignmentAmount(orderId, warehouseId, client);
+    if (codAmount === null) {
+      return 0;
+    }
+
+    const { count } = await client.consignment.updateMany({
+      where: {
+        orderId,
+        warehouseId,
+        status: { in: [ConsignmentStatus.PENDING, ConsignmentStatus.ASSIGNED] },
+      },
+      data: { codAmount },
+    });
+    return count;
+  }
+
+  /**
+   * Raise a consignment to carry a dispatched stock transfer from its source
+   * warehouse to the destination. It has no order, so no COD or order roll-up.
+   */
+  async createTransferConsignment(
+    transfer: { id: string; transferNumber: string; fromWarehouseId: string; toWarehouseId: string },
+    options: { driverId?: string; estimatedDeliveryDate?: Date },
+    requestingUserId: string,
+    requestingUserRole: UserRole,
+  ) {
+    const [fromWarehouse, toWarehouse] = await Promise.all([
+      this.prisma.warehouse.findUnique({ where: { id: transfer.fromWarehouseId } }),
+      this.prisma.warehouse.findUnique({ where: { id: transfer.toWarehouseId } }),
+    ]);
+    if (!fromWarehouse || !toWarehouse) {
+      throw new BadRequestException('Warehouse not found');
+    }
+
+    const pickupAddress = await this.resolvePickupAddress(fromWarehouse, requestingUserId);
+    const deliveryAddress = await this.resolvePickupAddress(toWarehouse, requestingUserId);
+
+    const consignment = await this.prisma.consignment.create({
+      data: {
+        consignmentNumber: await this.generateConsignmentNumber(),
+        transferId: transfer.id,
+        warehouseId: transfer.fromWarehouseId,
+        driverId: options.driverId || null,
+        status: options.driverId ? ConsignmentStatus.ASSIGNED : ConsignmentStatus.PENDING,
+        estimatedDeliveryDate: options.estimatedDeliveryDate,
+        notes: `Stock transfer ${transfer.transferNumber} to ${toWarehouse.name}`,
+        pickupAddressId: pickupAddress.id,
+        deliveryAddressId: deliveryAddress.id,
+      },
+    });
+
+    await this.auditService.logCreate(
+      'CONSIGNMENT',
+      consignment.id,
+      { transferId: transfer.id, warehouseId: transfer.fromWarehouseId, driverId: options.driverId },
+      requestingUserId,
+      requestingUserRole,
+    );
+
+    this.logger.log(`Consignment ${consignment.consignmentNumber} raised for transfer ${transfer.transferNumber}`);
+
+    if (consignment.driverId) {
+      await this.notifyDriverAssigned(consignment);
+    }
+
+    return consignment;
+  }
+
+  /**
+   * Close the consignment of a transfer once the destination has received it,
+   * whether or not the driver marked it delivered
+   */
+  async completeTransferConsignment(transferId: string, requestingUserId: string) {
+    const consignment = await this.prisma.consignment.findUnique({
+      where: { transferId },
+    });
+    if (
+      !consignment ||
+      consignment.status === ConsignmentStatus.DELIVERED ||
+      consignment.status === ConsignmentStatus.CANCELLED
+    ) {
+      return;
+    }
+
+    await this.prisma.consignment.update({
+      where: { id: consignment.id },
+      data: { status: ConsignmentStatus.DELIVERED, deliveredAt: new Date() },
+    });
+    await this.createTrackingUpdate(
+      consignment.id,
+      ConsignmentStatus.DELIVERED,
+      'Received at destination warehouse',
+      requestingUserId,
+    );
+  }
+
+  /**
+   * Check a driver can be given consignments: active, with approved KYC
+   */
+  async validateDriver(driverId: string) {
+    const driver = await this.prisma.user.findUnique({
+      where: {
+        id: driverId,
+        role: UserRole.DRIVER,
+        isActive: true,
+      },
+      include: {
+        driverProfile: true,
+      },
+    });
+    if (!driver || !driver.driverProfile) {
+      throw new BadRequestException('Driver not found or inactive');
+    }
+    if (driver.driverProfile.kycStatus !== KYCStatus.APPROVED) {
+      throw new BadRequestException('Driver has not completed KYC verification');
+    }
+  }
+
   /**
    * Get consignment by ID
    */
@@ -275,6 +482,17 @@ export class LogisticsService {
             },
           },
         },
+        transfer: {
+          include: {
+            toWarehouse: true,
+            items: {
+              include: {
+                product: { select: { id: true, name: true } },
+                variant: { select: { id: true, sku: true, name: true } },
+              },
+            },
+          },
+        },
         warehouse: true,
         driver: {
           select: {
@@ -305,7 +523,7 @@ export class LogisticsService {
 
     // Check permissions
     if (requestingUserRole === UserRole.BUYER) {
-      if (consignment.order.buyerId !== requestingUserId) {
+      if (consignment.order?.buyerId !== requestingUserId) {
         throw new ForbiddenException('You can only view your own consignments');
       }
     } else if (requestingUserRole === UserRole.DRIVER) {
@@ -325,7 +543,9 @@ export class LogisticsService {
         },
       });
       const assignedWarehouseIds = opsUser?.warehouseOpsUser?.map(w => w.warehouseId) || [];
-      if (!assignedWarehouseIds.includes(consignment.warehouseId)) {
+      // Transfer consignments are also visible to the receiving warehouse
+      const visibleWarehouseIds = [consignment.warehouseId, consignment.transfer?.toWarehouseId];
+      if (!visibleWarehouseIds.some((warehouseId) => warehouseId && assignedWarehouseIds.includes(warehouseId))) {
         throw new ForbiddenException('You can only view consignments from your assigned warehouses');
       }
     }
@@ -507,19 +727,7 @@ export class LogisticsService {
 
     // Validate driver assignment
     if (updateData.driverId) {
-      const driver = await this.prisma.user.findUnique({
-        where: {
-          id: updateData.driverId,
-          role: UserRole.DRIVER,
-          isActive: true,
-        },
-        include: {
-          driverProfile: true,
-        },
-      });
-      if (!driver || !driver.driverProfile) {
-        throw new BadRequestException('Driver not found or inactive');
-      }
+      await this.validateDriver(updateData.driverId);
     }
 
     // Validate status transition
@@ -533,7 +741,7 @@ export class LogisticsService {
         throw new ForbiddenException('You can only update your assigned consignments');
       }
       // Restrict what drivers can update
-      const allowedUpdates = ['status', 'actualDeliveryDate', 'notes'];
+      const allowedUpdates = ['status', 'actualDeliveryDate', 'notes', 'codCollectedAmount'];
       const updateKeys = Object.keys(updateData);
       const invalidKeys = updateKeys.filter(key => !allowedUpdates.includes(key));
       if (invalidKeys.length > 0) {
@@ -541,15 +749,52 @@ export class LogisticsService {
       }
     }
 
-    await this.prisma.consignment.update({
-      where: { id: consignmentId },
-      data: {
-        ...updateData,
-        notes: updateData.notes ? `${consignment.notes || ''}
+    // COD cash has to be counted before the consignment can be closed as delivered
+    const isCodDelivery =
+      updateData.status === ConsignmentStatus.DELIVERED &&
+      consignment.codAmount !== null &&
+      !consignment.codCollected;
+    if (isCodDelivery) {
+      if (updateData.codCollectedAmount === undefined || updateData.codCollectedAmount < 0) {
+        throw new BadRequestException('Enter the cash collected for this COD consignment');
+      }
+      if (!consignment.driverId) {
+        throw new BadRequestException('Assign a driver before recording COD collection');
+      }
+    }
+
+    const { actualDeliveryDate, codCollectedAmount, ...consignmentUpdate } = updateData;
+
+    // The delivery and its COD cash are recorded together or not at all
+    const codEntry = await this.prisma.$transaction(async (tx) => {
+      await tx.consignment.update({
+        where: { id: consignmentId },
+        data: {
+          ...consignmentUpdate,
+          ...(updateData.status === ConsignmentStatus.DELIVERED && { deliveredAt: actualDeliveryDate ?? new Date() }),
+          notes: updateData.notes ? `${consignment.notes || ''}
 ${updateData.notes}` : consignment.notes,
-      } as any,
+        } as any,
+      });
+
+      return isCodDelivery ? this.codService.recordCollection(tx, consignment, codCollectedAmount!) : null;
     });
 
+    if (codEntry) {
+      await this.auditService.logCreate(
+        'COD_LEDGER',
+        codEntry.id,
+        {
+          consignmentId,
+          driverId: codEntry.driverId,
+          amount: codEntry.amount,
+          expectedAmount: codEntry.expectedAmount,
+        },
+        requestingUserId,
+        requestingUserRole,
+      );
+    }
+
     // Create tracking update if status changed
     if (updateData.status && updateData.status !== consignment.status) {
       await this.createTrackingUpdate(
@@ -560,8 +805,9 @@ ${updateData.notes}` : consignment.notes,
       );
     }
 
-    // Update order status if consignment is delivered
-    if (updateData.status === ConsignmentStatus.DELIVERED) {
+    // Move the consignment's order lines along and roll them up into the order status
+    if (consignment.orderId && updateData.status && updateData.status !== consignment.status) {
+      await this.syncItemFulfilment(consignment.orderId, consignment.warehouseId, updateData.status);
       await this.checkAndUpdateOrderStatus(consignment.orderId);
     }
 
@@ -577,6 +823,22 @@ ${updateData.notes}` : consignment.notes,
 
     this.logger.log(`Consignment ${consignment.consignmentNumber} updated`);
 
+    if (updateData.driverId && updateData.driverId !== consignment.driverId) {
+      await this.notifyDriverAssigned({ ...consignment, driverId: updateData.driverId });
+    }
+    if (
+      consignment.order &&
+      updateData.status === ConsignmentStatus.IN_TRANSIT &&
+      consignment.status !== ConsignmentStatus.IN_TRANSIT
+    ) {
+      await this.notificationsService.notify(
+        consignment.order.buyerId,
+        NotificationType.CONSIGNMENT_OUT_FOR_DELIVERY,
+        { orderNumber: consignment.order.orderNumber, consignmentNumber: consignment.consignmentNumber },
+        { orderId: consignment.orderId, consignmentId },
+      );
+    }
+
     return this.findConsignmentById(consignmentId, requestingUserId, requestingUserRole);
   }
 
@@ -721,6 +983,11 @@ ${updateData.notes}` : consignment.notes,
             items: {
               include: {
                 product: {
+                  select: {
+                    name: true,
+                  },
+                },
+                variant: {
                   select: {
                     name: true,
                     sku: true,
@@ -730,6 +997,27 @@ ${updateData.notes}` : consignment.notes,
             },
           },
         },
+        transfer: {
+          include: {
+            toWarehouse: {
+              select: {
+                name: true,
+                address: true,
+                city: true,
+                latitude: true,
+                longitude: true,
+                contactPerson: true,
+                contactPhone: true,
+              },
+            },
+            items: {
+              include: {
+                product: { select: { name: true } },
+                variant: { select: { name: true, sku: true } },
+              },
+            },
+          },
+        },
         warehouse: {
           select: {
             name: true,
@@ -748,9 +1036,99 @@ ${updateData.notes}` : consignment.notes,
     return consignments;
   }
 
+  /**
+   * Roll the order's line fulfilment up into its status: every open line delivered
+   * makes it DELIVERED, some delivered PARTIALLY_DELIVERED, and likewise for shipped.
+   */
+  async checkAndUpdateOrderStatus(orderId: string) {
+    const order = await this.prisma.order.findUnique({
+      where: { id: orderId },
+      include: { items: true },
+    });
+
+    if (!order || !FULFILMENT_ORDER_STATUSES.includes(order.status as OrderStatus)) {
+      return;
+    }
+
+    const openItems = order.items.filter((item) => item.fulfilmentStatus !== FulfilmentStatus.CANCELLED);
+    if (openItems.length === 0) {
+      return;
+    }
+
+    const deliveredCount = openItems.filter(
+      (item) => item.fulfilmentStatus === FulfilmentStatus.DELIVERED,
+    ).length;
+    const shippedCount = openItems.filter(
+      (item) =>
+        item.fulfilmentStatus === FulfilmentStatus.SHIPPED ||
+        item.fulfilmentStatus === FulfilmentStatus.DELIVERED,
+    ).length;
+
+    let status: OrderStatus;
+    if (deliveredCount === openItems.length) {
+      status = OrderStatus.DELIVERED;
+    } else if (deliveredCount > 0) {
+      status = OrderStatus.PARTIALLY_DELIVERED;
+    } else if (shippedCount === openItems.length) {
+      status = OrderStatus.SHIPPED;
+    } else if (shippedCount > 0) {
+      status = OrderStatus.PARTIALLY_SHIPPED;
+    } else if (order.status === OrderStatus.CONFIRMED) {
+      return;
+    } else {
+      // Everything that left the warehouse came back; the order is being processed again
+      status = OrderStatus.PROCESSING;
+    }
+
+    if (status === order.status) {
+      return;
+    }
+
+    await this.prisma.order.update({
+      where: { id: orderId },
+      data: {
+        status,
+        ...(status === OrderStatus.DELIVERED && { deliveredAt: new Date() }),
+      },
+    });
+
+    await this.auditService.logUpdate('ORDER', orderId, { status: order.status }, { status });
+
+    if (status === OrderStatus.DELIVERED) {
+      await this.invoicesService.handleOrderStatusChange(orderId, OrderStatus.DELIVERED);
+    }
+
+    this.logger.log(`Order ${order.orderNumber} status rolled up to ${status}`);
+
+    await this.notificationsService.notifyOrderStatus(order, status);
+  }
+
   // Helper methods
 
-  private async generateConsignmentNumber(): Promise<string> {
+  private async notifyDriverAssigned(consignment: {
+    id: string;
+    consignmentNumber: string;
+    orderId: string | null;
+    transferId?: string | null;
+    driverId: string | null;
+  }) {
+    if (!consignment.driverId) {
+      return;
+    }
+
+    await this.notificationsService.notify(
+      consignment.driverId,
+      NotificationType.CONSIGNMENT_ASSIGNED,
+      { consignmentNumber: consignment.consignmentNumber },
+      {
+        consignmentId: consignment.id,
+        ...(consignment.orderId && { orderId: consignment.orderId }),
+        ...(consignment.transferId && { transferId: consignment.transferId }),
+      },
+    );
+  }
+
+  private async generateConsignmentNumber(client: Prisma.TransactionClient = this.prisma): Promise<string> {
     const today = new Date();
     const year = today.getFullYear().toString().slice(-2);
     const month = (today.getMonth() + 1).toString().padStart(2, '0');
@@ -762,7 +1140,7 @@ ${updateData.notes}` : consignment.notes,
     const startOfDay = new Date(today.getFullYear(), today.getMonth(), today.getDate());
     const endOfDay = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1);
     
-    const count = await this.prisma.consignment.count({
+    const count = await client.consignment.count({
       where: {
         createdAt: {
           gte: startOfDay,
@@ -809,23 +1187,89 @@ ${updateData.notes}` : consignment.notes,
     });
   }
 
-  private async checkAndUpdateOrderStatus(orderId: string) {
-    // Check if all consignments for this order are delivered
-    const consignments = await this.prisma.consignment.findMany({
-      where: { orderId },
+  private async resolvePickupAddress(
+    warehouse: Warehouse,
+    ownerId: string,
+    client: Prisma.TransactionClient = this.prisma,
+  ) {
+    // Create or find pickup address for warehouse
+    const pickupAddress = await client.address.findFirst({
+      where: {
+        line1: warehouse.address,
+        city: warehouse.city,
+        state: warehouse.state,
+        pincode: warehouse.pincode,
+      },
     });
 
-    const allDelivered = consignments.every(
-      consignment => consignment.status === ConsignmentStatus.DELIVERED
-    );
+    if (pickupAddress) {
+      return pickupAddress;
+    }
 
-    if (allDelivered && consignments.length > 0) {
-      await this.prisma.order.update({
-        where: { id: orderId },
-        data: {
-          status: OrderStatus.DELIVERED,
-        },
-      });
+    return client.address.create({
+      data: {
+        userId: ownerId, // Using buyer as owner for now
+        line1: warehouse.address,
+        city: warehouse.city,
+        state: warehouse.state,
+        pincode: warehouse.pincode,
+        latitude: warehouse.latitude,
+        longitude: warehouse.longitude,
+        isDefault: false,
+      },
+    });
+  }
+
+  /**
+   * Apply a consignment status change to the order lines it carries. A consignment
+   * ships every open line of its warehouse; a failed or cancelled one puts them
+   * back on backorder until a new consignment is raised.
+   */
+  private async syncItemFulfilment(orderId: string, warehouseId: string, status: ConsignmentStatus) {
+    const items = await this.prisma.orderItem.findMany({
+      where: {
+        orderId,
+        warehouseId,
+        fulfilmentStatus: { not: FulfilmentStatus.CANCELLED },
+      },
+    });
+
+    for (const item of items) {
+      const openQuantity = item.quantity - item.quantityCancelled;
+      let data: {
+        fulfilmentStatus: FulfilmentStatus;
+        quantityShipped: number;
+        quantityDelivered: number;
+      } | null = null;
+
+      switch (status) {
+        case ConsignmentStatus.PICKED_UP:
+        case ConsignmentStatus.IN_TRANSIT:
+          if (item.fulfilmentStatus !== FulfilmentStatus.DELIVERED) {
+            data = { fulfilmentStatus: FulfilmentStatus.SHIPPED, quantityShipped: openQuantity, quantityDelivered: 0 };
+          }
+          break;
+        case ConsignmentStatus.DELIVERED:
+          data = {
+            fulfilmentStatus: FulfilmentStatus.DELIVERED,
+            quantityShipped: openQuantity,
+            quantityDelivered: openQuantity,
+          };
+          break;
+        case ConsignmentStatus.FAILED:
+        case ConsignmentStatus.CANCELLED:
+          if (item.fulfilmentStatus !== FulfilmentStatus.DELIVERED) {
+            data = { fulfilmentStatus: FulfilmentStatus.BACKORDERED, quantityShipped: 0, quantityDelivered: 0 };
+          }
+          break;
+      }
+
+      if (data) {
+        await this.prisma.orderItem.update({
+          where: { id: item.id },
+          data,
+        });
+      }
     }
   }
 }
\ No newline at end of file
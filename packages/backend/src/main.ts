@@ -11,6 +11,8 @@ import { LoggingInterceptor } from './common/interceptors/logging.interceptor';
 async function bootstrap() {
   const app = await NestFactory.create(AppModule, {
     logger: ['error', 'warn', 'log', 'debug', 'verbose'],
+    // Webhook signatures are computed over the exact bytes received
+    rawBody: true,
   });
 
   const configService = app.get(ConfigService);
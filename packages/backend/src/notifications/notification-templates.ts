@@ -0,0 +1,271 @@
+import { Language, NotificationChannel, NotificationType } from '@mawell/shared';
+
+export interface NotificationTemplate {
+  channels: NotificationChannel[];
+  // Key under sms.msg91.flows of the DLT-approved MSG91 flow for the SMS, which gets the
+  // template variables; required when `channels` includes SMS
+  smsFlow?: string;
+  content: Record<Language, { title: string; body: string }>;
+}
+
+const { PUSH, SMS, EMAIL } = NotificationChannel;
+
+/**
+ * Transactional notification templates. Placeholders are written as {{name}} and filled
+ * from the variables passed to NotificationsService.notify. Every notification is also
+ * stored in the in-app inbox, so `channels` only lists the outbound ones.
+ */
+export const NOTIFICATION_TEMPLATES: Record<NotificationType, NotificationTemplate> = {
+  [NotificationType.ORDER_PLACED]: {
+    channels: [PUSH, EMAIL],
+    content: {
+      [Language.ENGLISH]: {
+        title: 'Order placed',
+        body: 'Your order {{orderNumber}} for ₹{{totalAmount}} has been placed.',
+      },
+      [Language.TELUGU]: {
+        title: 'ఆర్డర్ చేయబడింది',
+        body: 'మీ ఆర్డర్ {{orderNumber}} (₹{{totalAmount}}) చేయబడింది.',
+      },
+    },
+  },
+  [NotificationType.ORDER_CONFIRMED]: {
+    channels: [PUSH, SMS, EMAIL],
+    smsFlow: 'orderConfirmed',
+    content: {
+      [Language.ENGLISH]: {
+        title: 'Order confirmed',
+        body: 'Your order {{orderNumber}} is confirmed and being prepared.',
+      },
+      [Language.TELUGU]: {
+        title: 'ఆర్డర్ నిర్ధారించబడింది',
+        body: 'మీ ఆర్డర్ {{orderNumber}} నిర్ధారించబడింది, సిద్ధం చేయబడుతోంది.',
+      },
+    },
+  },
+  [NotificationType.ORDER_PARTIALLY_SHIPPED]: {
+    channels: [PUSH],
+    content: {
+      [Language.ENGLISH]: {
+        title: 'Part of your order has shipped',
+        body: 'Some items of order {{orderNumber}} are on their way. The rest will follow.',
+      },
+      [Language.TELUGU]: {
+        title: 'ఆర్డర్‌లో కొంత భాగం పంపబడింది',
+        body: 'ఆర్డర్ {{orderNumber}} లోని కొన్ని వస్తువులు పంపబడ్డాయి. మిగిలినవి త్వరలో వస్తాయి.',
+      },
+    },
+  },
+  [NotificationType.ORDER_SHIPPED]: {
+    channels: [PUSH, SMS],
+    smsFlow: 'orderShipped',
+    content: {
+      [Language.ENGLISH]: {
+        title: 'Order shipped',
+        body: 'Your order {{orderNumber}} has been shipped.',
+      },
+      [Language.TELUGU]: {
+        title: 'ఆర్డర్ పంపబడింది',
+        body: 'మీ ఆర్డర్ {{orderNumber}} పంపబడింది.',
+      },
+    },
+  },
+  [NotificationType.ORDER_PARTIALLY_DELIVERED]: {
+    channels: [PUSH],
+    content: {
+      [Language.ENGLISH]: {
+        title: 'Part of your order was delivered',
+        body: 'Some items of order {{orderNumber}} have been delivered.',
+      },
+      [Language.TELUGU]: {
+        title: 'ఆర్డర్‌లో కొంత భాగం డెలివరీ అయింది',
+        body: 'ఆర్డర్ {{orderNumber}} లోని కొన్ని వస్తువులు డెలివరీ అయ్యాయి.',
+      },
+    },
+  },
+  [NotificationType.ORDER_DELIVERED]: {
+    channels: [PUSH, SMS, EMAIL],
+    smsFlow: 'orderDelivered',
+    content: {
+      [Language.ENGLISH]: {
+        title: 'Order delivered',
+        body: 'Your order {{orderNumber}} has been delivered. Thank you for shopping with Mawell.',
+      },
+      [Language.TELUGU]: {
+        title: 'ఆర్డర్ డెలివరీ అయింది',
+        body: 'మీ ఆర్డర్ {{orderNumber}} డెలివరీ అయింది. Mawell ను ఎంచుకున్నందుకు ధన్యవాదాలు.',
+      },
+    },
+  },
+  [NotificationType.ORDER_CANCELLED]: {
+    channels: [PUSH, SMS, EMAIL],
+    smsFlow: 'orderCancelled',
+    content: {
+      [Language.ENGLISH]: {
+        title: 'Order cancelled',
+        body: 'Your order {{orderNumber}} has been cancelled.',
+      },
+      [Language.TELUGU]: {
+        title: 'ఆర్డర్ రద్దు చేయబడింది',
+        body: 'మీ ఆర్డర్ {{orderNumber}} రద్దు చేయబడింది.',
+      },
+    },
+  },
+  [NotificationType.PAYMENT_RECEIVED]: {
+    channels: [PUSH, EMAIL],
+    content: {
+      [Language.ENGLISH]: {
+        title: 'Payment received',
+        body: 'We received your payment of ₹{{amount}} for order {{orderNumber}}.',
+      },
+      [Language.TELUGU]: {
+        title: 'చెల్లింపు అందింది',
+        body: 'ఆర్డర్ {{orderNumber}} కోసం మీ ₹{{amount}} చెల్లింపు అందింది.',
+      },
+    },
+  },
+  [NotificationType.PAYMENT_FAILED]: {
+    channels: [PUSH],
+    content: {
+      [Language.ENGLISH]: {
+        title: 'Payment failed',
+        body: 'Your payment for order {{orderNumber}} did not go through. Please try again.',
+      },
+      [Language.TELUGU]: {
+        title: 'చెల్లింపు విఫలమైంది',
+        body: 'ఆర్డర్ {{orderNumber}} కోసం మీ చెల్లింపు విఫలమైంది. దయచేసి మళ్ళీ ప్రయత్నించండి.',
+      },
+    },
+  },
+  [NotificationType.CONSIGNMENT_ASSIGNED]: {
+    channels: [PUSH, SMS],
+    smsFlow: 'consignmentAssigned',
+    content: {
+      [Language.ENGLISH]: {
+        title: 'New delivery assigned',
+        body: 'Consignment {{consignmentNumber}} has been assigned to you.',
+      },
+      [Language.TELUGU]: {
+        title: 'కొత్త డెలివరీ కేటాయించబడింది',
+        body: 'కన్సైన్‌మెంట్ {{consignmentNumber}} మీకు కేటాయించబడింది.',
+      },
+    },
+  },
+  [NotificationType.CONSIGNMENT_OUT_FOR_DELIVERY]: {
+    channels: [PUSH, SMS],
+    smsFlow: 'consignmentOutForDelivery',
+    content: {
+      [Language.ENGLISH]: {
+        title: 'Out for delivery',
+        body: 'Items from order {{orderNumber}} are out for delivery.',
+      },
+      [Language.TELUGU]: {
+        title: 'డెలివరీకి బయలుదేరింది',
+        body: 'ఆర్డర్ {{orderNumber}} లోని వస్తువులు డెలివరీకి బయలుదేరాయి.',
+      },
+    },
+  },
+  [NotificationType.REFUND_PROCESSED]: {
+    channels: [PUSH, SMS, EMAIL],
+    smsFlow: 'refundProcessed',
+    content: {
+      [Language.ENGLISH]: {
+        title: 'Refund processed',
+        body: 'Your refund of ₹{{amount}} for order {{orderNumber}} has been processed.',
+      },
+      [Language.TELUGU]: {
+        title: 'రీఫండ్ పూర్తయింది',
+        body: 'ఆర్డర్ {{orderNumber}} కోసం మీ ₹{{amount}} రీఫండ్ పూర్తయింది.',
+      },
+    },
+  },
+  [NotificationType.KYC_APPROVED]: {
+    channels: [PUSH, SMS, EMAIL],
+    smsFlow: 'kycApproved',
+    content: {
+      [Language.ENGLISH]: {
+        title: 'KYC approved',
+        body: 'Your KYC documents have been verified. Your account is fully active.',
+      },
+      [Language.TELUGU]: {
+        title: 'KYC ఆమోదించబడింది',
+        body: 'మీ KYC పత్రాలు ధృవీకరించబడ్డాయి. మీ ఖాతా పూర్తిగా సక్రియంగా ఉంది.',
+      },
+    },
+  },
+  [NotificationType.KYC_REJECTED]: {
+    channels: [PUSH, SMS, EMAIL],
+    smsFlow: 'kycRejected',
+    content: {
+      [Language.ENGLISH]: {
+        title: 'KYC rejected',
+        body: 'Your KYC documents could not be verified: {{reason}}. Please upload them again.',
+      },
+      [Language.TELUGU]: {
+        title: 'KYC తిరస్కరించబడింది',
+        body: 'మీ KYC పత్రాలు ధృవీకరించబడలేదు: {{reason}}. దయచేసి మళ్ళీ అప్‌లోడ్ చేయండి.',
+      },
+    },
+  },
+  [NotificationType.LOW_STOCK]: {
+    channels: [PUSH, EMAIL],
+    content: {
+      [Language.ENGLISH]: {
+        title: 'Low stock: {{sku}}',
+        body: '{{productName}} ({{sku}}) at {{warehouseName}} is down to {{available}} available. Suggested reorder: {{suggestedQuantity}} units.',
+      },
+      [Language.TELUGU]: {
+        title: 'తక్కువ స్టాక్: {{sku}}',
+        body: '{{warehouseName}} లో {{productName}} ({{sku}}) {{available}} మాత్రమే అందుబాటులో ఉంది. సూచించిన రీఆర్డర్: {{suggestedQuantity}} యూనిట్లు.',
+      },
+    },
+  },
+  [NotificationType.OVERSTOCK]: {
+    channels: [PUSH],
+    content: {
+      [Language.ENGLISH]: {
+        title: 'Overstock: {{sku}}',
+        body: '{{productName}} ({{sku}}) at {{warehouseName}} holds {{quantity}} units, above the maximum of {{threshold}}.',
+      },
+      [Language.TELUGU]: {
+        title: 'అధిక స్టాక్: {{sku}}',
+        body: '{{warehouseName}} లో {{productName}} ({{sku}}) {{quantity}} యూనిట్లు ఉన్నాయి, గరిష్ట పరిమితి {{threshold}} కంటే ఎక్కువ.',
+      },
+    },
+  },
+  [NotificationType.STOCK_TRANSFER_DISPATCHED]: {
+    channels: [PUSH],
+    content: {
+      [Language.ENGLISH]: {
+        title: 'Transfer {{transferNumber}} on the way',
+        body: '{{totalUnits}} units are in transit from {{fromWarehouseName}} to {{toWarehouseName}}. Receive them when they arrive.',
+      },
+      [Language.TELUGU]: {
+        title: 'బదిలీ {{transferNumber}} రవాణాలో ఉంది',
+        body: '{{fromWarehouseName}} నుండి {{toWarehouseName}} కు {{totalUnits}} యూనిట్లు వస్తున్నాయి. చేరిన తర్వాత స్వీకరించండి.',
+      },
+    },
+  },
+  [NotificationType.STOCK_TRANSFER_DISCREPANCY]: {
+    channels: [PUSH, EMAIL],
+    content: {
+      [Language.ENGLISH]: {
+        title: 'Transfer {{transferNumber}} received short',
+        body: '{{toWarehouseName}} received {{receivedUnits}} of {{totalUnits}} units sent from {{fromWarehouseName}}. The difference needs to be resolved.',
+      },
+      [Language.TELUGU]: {
+        title: 'బదిలీ {{transferNumber}} లో తేడా',
+        body: '{{fromWarehouseName}} నుండి పంపిన {{totalUnits}} యూనిట్లలో {{toWarehouseName}} కు {{receivedUnits}} మాత్రమే అందాయి. తేడాను పరిష్కరించాలి.',
+      },
+    },
+  },
+};
+
+/**
+ * Fill {{name}} placeholders; unknown placeholders are left blank rather than shown raw
+ */
+export function renderTemplate(text: string, variables: Record<string, string | number>): string {
+  return text.replace(/\{\{(\w+)\}\}/g, (_, name) =>
+    variables[name] !== undefined ? String(variables[name]) : '',
+  );
+}
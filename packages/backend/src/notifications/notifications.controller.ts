@@ -1,5 +1,18 @@
-import { Controller, Get, Post, Param, Query, UseGuards } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiParam } from '@nestjs/swagger';
+import { IsBoolean, IsIn, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
 import { NotificationsService } from './notifications.service';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../common/guards/roles.guard';
@@ -7,6 +20,56 @@ import { RolesGuard } from '../common/guards/roles.guard';
 import { User } from '../common/decorators/user.decorator';
 import { Public } from '../common/decorators/public.decorator';
 
+// DTOs
+class NotificationFiltersDto {
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  unreadOnly?: boolean;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
+
+class UpdateNotificationPreferencesRequestDto {
+  @IsOptional()
+  @IsBoolean()
+  pushEnabled?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  smsEnabled?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  emailEnabled?: boolean;
+}
+
+class RegisterDeviceTokenRequestDto {
+  @IsString()
+  token: string;
+
+  @IsIn(['ios', 'android', 'web'])
+  platform: 'ios' | 'android' | 'web';
+
+  @IsOptional()
+  @IsString()
+  deviceId?: string;
+
+  @IsOptional()
+  @IsString()
+  appVersion?: string;
+}
 
 @ApiTags('Notifications')
 @Controller('notifications')
@@ -18,22 +81,54 @@ export class NotificationsController {
   @Get()
   @ApiOperation({ summary: 'Get user notifications' })
   @ApiResponse({ status: 200, description: 'Notifications retrieved successfully' })
-  async getNotifications(
-    @User() user: any,
-    @Query('page') page: number = 1,
-    @Query('limit') limit: number = 20,
-  ) {
-    return this.notificationsService.getUserNotifications(user.id, page, limit);
+  async getNotifications(@Query(ValidationPipe) filters: NotificationFiltersDto, @User() user: any) {
+    return this.notificationsService.getUserNotifications(user.id, filters);
   }
 
-  @Post(':id/read')
-  @ApiOperation({ summary: 'Mark notification as read' })
-  @ApiResponse({ status: 200, description: 'Notification marked as read' })
-  async markAsRead(
-    @Param('id') id: string,
+  @Get('unread-count')
+  @ApiOperation({ summary: 'Get unread notification count' })
+  @ApiResponse({ status: 200, description: 'Unread count retrieved successfully' })
+  async getUnreadCount(@User() user: any) {
+    return this.notificationsService.getUnreadCount(user.id);
+  }
+
+  @Post('read-all')
+  @ApiOperation({ summary: 'Mark all notifications as read' })
+  @ApiResponse({ status: 200, description: 'Notifications marked as read' })
+  async markAllAsRead(@User() user: any) {
+    return this.notificationsService.markAllAsRead(user.id);
+  }
+
+  @Get('preferences')
+  @ApiOperation({ summary: 'Get notification channel preferences' })
+  @ApiResponse({ status: 200, description: 'Preferences retrieved successfully' })
+  async getPreferences(@User() user: any) {
+    return this.notificationsService.getPreferences(user.id);
+  }
+
+  @Put('preferences')
+  @ApiOperation({ summary: 'Update notification channel preferences' })
+  @ApiResponse({ status: 200, description: 'Preferences updated successfully' })
+  async updatePreferences(
+    @Body(ValidationPipe) updateData: UpdateNotificationPreferencesRequestDto,
     @User() user: any,
   ) {
-    return this.notificationsService.markAsRead(id, user.id);
+    return this.notificationsService.updatePreferences(user.id, updateData);
+  }
+
+  @Post('devices')
+  @ApiOperation({ summary: 'Register a device for push notifications' })
+  @ApiResponse({ status: 201, description: 'Device token registered successfully' })
+  async registerDevice(@Body(ValidationPipe) deviceData: RegisterDeviceTokenRequestDto, @User() user: any) {
+    return this.notificationsService.registerDeviceToken(user.id, deviceData);
+  }
+
+  @Delete('devices/:token')
+  @ApiOperation({ summary: 'Remove a device from push notifications' })
+  @ApiParam({ name: 'token', description: 'Push token of the device' })
+  @ApiResponse({ status: 200, description: 'Device token removed successfully' })
+  async unregisterDevice(@Param('token') token: string, @User() user: any) {
+    return this.notificationsService.unregisterDeviceToken(user.id, token);
   }
 
   @Get('health')
@@ -47,4 +142,16 @@ export class NotificationsController {
       timestamp: new Date().toISOString(),
     };
   }
-}
\ No newline at end of file
+
+  @Post(':id/read')
+  @ApiOperation({ summary: 'Mark notification as read' })
+  @ApiParam({ name: 'id', description: 'Notification ID' })
+  @ApiResponse({ status: 200, description: 'Notification marked as read' })
+  @ApiResponse({ status: 404, description: 'Notification not found' })
+  async markAsRead(
+    @Param('id') id: string,
+    @User() user: any,
+  ) {
+    return this.notificationsService.markAsRead(id, user.id);
+  }
+}
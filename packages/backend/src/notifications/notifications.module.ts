@@ -3,9 +3,10 @@ import { NotificationsController } from './notifications.controller';
 import { NotificationsService } from './notifications.service';
 import { PrismaModule } from '../prisma/prisma.module';
 import { CommonModule } from '../common/common.module';
+import { SmsModule } from '../sms/sms.module';
 
 @Module({
-  imports: [PrismaModule, CommonModule],
+  imports: [PrismaModule, CommonModule, SmsModule],
   controllers: [NotificationsController],
   providers: [NotificationsService],
   exports: [NotificationsService],
@@ -1,36 +1,70 @@
-import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import * as admin from 'firebase-admin';
+import * as nodemailer from 'nodemailer';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
-import { AuditService } from '../common/services/audit.service';
-import { UserRole } from '@mawell/shared';
-
-export interface NotificationPayload {
-  title: string;
-  body: string;
-  data?: Record<string, string>;
-  imageUrl?: string;
+import { ValidationService } from '../common/services/validation.service';
+import { SmsService } from '../sms/sms.service';
+import { NOTIFICATION_TEMPLATES, renderTemplate } from './notification-templates';
+import {
+  Language,
+  NotificationChannel,
+  NotificationPreferences,
+  NotificationType,
+  OrderStatus,
+} from '@mawell/shared';
+
+export interface NotificationFilters {
+  unreadOnly?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+export interface RegisterDeviceTokenDto {
+  token: string;
+  platform: 'ios' | 'android' | 'web';
+  deviceId?: string;
+  appVersion?: string;
 }
 
-export interface SendNotificationDto {
-  userId?: string;
-  userRole?: UserRole;
-  deviceToken?: string;
-  payload: NotificationPayload;
-  topic?: string;
+export interface UpdateNotificationPreferencesDto extends Partial<NotificationPreferences> {}
+
+interface OrderNotificationTarget {
+  id: string;
+  orderNumber: string;
+  buyerId: string;
 }
 
+const ORDER_STATUS_NOTIFICATIONS: Partial<Record<OrderStatus, NotificationType>> = {
+  [OrderStatus.CONFIRMED]: NotificationType.ORDER_CONFIRMED,
+  [OrderStatus.PARTIALLY_SHIPPED]: NotificationType.ORDER_PARTIALLY_SHIPPED,
+  [OrderStatus.SHIPPED]: NotificationType.ORDER_SHIPPED,
+  [OrderStatus.PARTIALLY_DELIVERED]: NotificationType.ORDER_PARTIALLY_DELIVERED,
+  [OrderStatus.DELIVERED]: NotificationType.ORDER_DELIVERED,
+  [OrderStatus.CANCELLED]: NotificationType.ORDER_CANCELLED,
+};
+
+// FCM error codes meaning the token will never work again and should be forgotten
+const STALE_TOKEN_ERRORS = [
+  'messaging/registration-token-not-registered',
+  'messaging/invalid-registration-token',
+];
+
 @Injectable()
 export class NotificationsService {
   private readonly logger = new Logger(NotificationsService.name);
   private firebaseApp: admin.app.App;
+  private mailTransport: nodemailer.Transporter;
 
   constructor(
     private readonly prisma: PrismaService,
     private readonly configService: ConfigService,
-    private readonly auditService: AuditService,
+    private readonly validationService: ValidationService,
+    private readonly smsService: SmsService,
   ) {
     this.initializeFirebase();
+    this.initializeMail();
   }
 
   private initializeFirebase() {
@@ -56,105 +90,275 @@ export class NotificationsService {
     }
   }
 
-  /**
-   * Send notification to a specific user
-   */
-  async sendToUser(notificationData: SendNotificationDto, _senderId?: string) {
-    if (!this.firebaseApp) {
-      this.logger.warn('Firebase not configured, skipping notification');
-      return { success: false, message: 'Firebase not configured' };
+  private initializeMail() {
+    const smtp = this.configService.get('email.smtp');
+    if (!smtp?.host) {
+      this.logger.warn('SMTP not configured');
+      return;
     }
 
-    try {
-      let deviceTokens: string[] = [];
+    this.mailTransport = nodemailer.createTransport({
+      host: smtp.host,
+      port: smtp.port,
+      secure: smtp.port === 465,
+      ...(smtp.user && { auth: { user: smtp.user, pass: smtp.pass } }),
+    });
+  }
 
-      if (notificationData.deviceToken) {
-        deviceTokens = [notificationData.deviceToken];
-      } else if (notificationData.userId) {
-        // Mock device tokens since UserDevice table might not exist
-        deviceTokens = [`mock_token_${notificationData.userId}`];
+  /**
+   * Render a template in the user's language, store it in their inbox and deliver it on
+   * the template's channels the user has not switched off. Delivery failures are logged,
+   * never thrown, so the business flow that triggered the notification is not affected.
+   */
+  async notify(
+    userId: string,
+    type: NotificationType,
+    variables: Record<string, string | number> = {},
+    data: Record<string, string> = {},
+  ) {
+    try {
+      const user = await this.prisma.user.findUnique({
+        where: { id: userId },
+        include: { notificationPreference: true },
+      });
+      if (!user || !user.isActive) {
+        return null;
       }
 
-      if (deviceTokens.length === 0) {
-        this.logger.warn(`No device tokens found for user ${notificationData.userId}`);
-        return { success: false, message: 'No device tokens found' };
+      const template = NOTIFICATION_TEMPLATES[type];
+      const content = template.content[user.language as Language] ?? template.content[Language.ENGLISH];
+      const title = renderTemplate(content.title, variables);
+      const body = renderTemplate(content.body, variables);
+      const payloadData = { ...data, type };
+
+      const notification = await this.prisma.notification.create({
+        data: { userId, type, title, body, data: payloadData },
+      });
+
+      const preferences = user.notificationPreference;
+      const deliveries: Promise<void>[] = [];
+
+      if (template.channels.includes(NotificationChannel.PUSH) && preferences?.pushEnabled !== false) {
+        deliveries.push(this.sendPush(userId, title, body, { ...payloadData, notificationId: notification.id }));
+      }
+      if (template.channels.includes(NotificationChannel.SMS) && preferences?.smsEnabled !== false) {
+        deliveries.push(this.sendSms(user.phone, type, body, template.smsFlow, variables));
       }
+      if (
+        template.channels.includes(NotificationChannel.EMAIL) &&
+        preferences?.emailEnabled !== false &&
+        user.email
+      ) {
+        deliveries.push(this.sendEmail(user.email, title, body));
+      }
+
+      await Promise.all(deliveries);
 
-      // Mock FCM response for now
-      this.logger.log(`Would send FCM notification: ${notificationData.payload.title}`);
-      
-      return {
-        success: true,
-        message: 'Notification sent successfully',
-        data: {
-          notificationId: `notif_${Date.now()}`,
-          successCount: 1,
-          failureCount: 0,
-        },
-      };
+      return notification;
     } catch (error) {
-      this.logger.error('Failed to send notification:', error);
-      throw new BadRequestException('Failed to send notification');
+      this.logger.error(`Failed to send ${type} notification to user ${userId}: ${error.message}`);
+      return null;
     }
   }
 
-  async getUserNotifications(userId: string, page: number = 1, limit: number = 20) {
-    this.logger.log(`Getting notifications for user ${userId}`);
-    
-    // Mock data since notification table might not exist
+  /**
+   * Notify the buyer of an order status change, if the status is one buyers hear about
+   */
+  async notifyOrderStatus(order: OrderNotificationTarget, status: OrderStatus | string) {
+    const type = ORDER_STATUS_NOTIFICATIONS[status as OrderStatus];
+    if (!type) {
+      return null;
+    }
+
+    return this.notify(order.buyerId, type, { orderNumber: order.orderNumber }, { orderId: order.id });
+  }
+
+  /**
+   * Get the user's inbox, newest first, with the unread count
+   */
+  async getUserNotifications(userId: string, filters: NotificationFilters) {
+    const { page, limit } = this.validationService.validatePagination(filters.page, filters.limit);
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.NotificationWhereInput = { userId };
+    if (filters.unreadOnly) where.read = false;
+
+    const [notifications, total, unreadCount] = await Promise.all([
+      this.prisma.notification.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.notification.count({ where }),
+      this.prisma.notification.count({ where: { userId, read: false } }),
+    ]);
+
     return {
-      items: [],
-      total: 0,
+      notifications,
+      total,
       page,
       limit,
-      totalPages: 0,
+      totalPages: Math.ceil(total / limit),
+      unreadCount,
     };
   }
 
+  async getUnreadCount(userId: string) {
+    const unreadCount = await this.prisma.notification.count({ where: { userId, read: false } });
+    return { unreadCount };
+  }
+
   async markAsRead(notificationId: string, userId: string) {
-    this.logger.log(`Marking notification ${notificationId} as read for user ${userId}`);
-    
+    const notification = await this.prisma.notification.findFirst({
+      where: { id: notificationId, userId },
+    });
+    if (!notification) {
+      throw new NotFoundException('Notification not found');
+    }
+
+    if (notification.read) {
+      return notification;
+    }
+
+    return this.prisma.notification.update({
+      where: { id: notificationId },
+      data: { read: true, readAt: new Date() },
+    });
+  }
+
+  async markAllAsRead(userId: string) {
+    const { count } = await this.prisma.notification.updateMany({
+      where: { userId, read: false },
+      data: { read: true, readAt: new Date() },
+    });
+
+    return { updated: count };
+  }
+
+  /**
+   * Get the user's channel preferences; every channel is on until switched off
+   */
+  async getPreferences(userId: string): Promise<NotificationPreferences> {
+    const preferences = await this.prisma.notificationPreference.findUnique({ where: { userId } });
+
     return {
-      success: true,
-      message: 'Notification marked as read',
+      pushEnabled: preferences?.pushEnabled ?? true,
+      smsEnabled: preferences?.smsEnabled ?? true,
+      emailEnabled: preferences?.emailEnabled ?? true,
     };
   }
 
-  async sendNotification(userId: string, title: string, message: string, type: string = 'info') {
-    this.logger.log(`Sending notification to user ${userId}: ${title}`);
-    
-    return this.sendToUser({
-      userId,
-      payload: {
-        title,
-        body: message,
-        data: { type },
-      },
+  async updatePreferences(
+    userId: string,
+    updateData: UpdateNotificationPreferencesDto,
+  ): Promise<NotificationPreferences> {
+    const preferences = await this.prisma.notificationPreference.upsert({
+      where: { userId },
+      create: { userId, ...updateData },
+      update: updateData,
     });
+
+    return {
+      pushEnabled: preferences.pushEnabled,
+      smsEnabled: preferences.smsEnabled,
+      emailEnabled: preferences.emailEnabled,
+    };
   }
 
   /**
-   * Register device token
+   * Register device token. A token moves to whichever user last signed in on the device.
    */
-  async registerDeviceToken(
-    userId: string,
-    deviceToken: string,
-    deviceInfo: {
-      deviceId: string;
-      platform: 'ios' | 'android' | 'web';
-      appVersion?: string;
-    },
+  async registerDeviceToken(userId: string, deviceData: RegisterDeviceTokenDto) {
+    const device = await this.prisma.deviceToken.upsert({
+      where: { token: deviceData.token },
+      create: { userId, ...deviceData },
+      update: { userId, ...deviceData, lastSeenAt: new Date() },
+    });
+
+    this.logger.log(`Device token registered for user ${userId} (${device.platform})`);
+
+    return device;
+  }
+
+  async unregisterDeviceToken(userId: string, token: string) {
+    await this.prisma.deviceToken.deleteMany({ where: { userId, token } });
+
+    return { message: 'Device token removed successfully' };
+  }
+
+  // Helper methods
+
+  private async sendPush(userId: string, title: string, body: string, data: Record<string, string>) {
+    if (!this.firebaseApp) {
+      return;
+    }
+
+    const devices = await this.prisma.deviceToken.findMany({ where: { userId } });
+    if (devices.length === 0) {
+      return;
+    }
+
+    try {
+      const response = await this.firebaseApp.messaging().sendEachForMulticast({
+        tokens: devices.map((device) => device.token),
+        notification: { title, body },
+        data,
+      });
+
+      const staleTokens = response.responses
+        .map((result, index) => ({ result, token: devices[index].token }))
+        .filter(({ result }) => result.error && STALE_TOKEN_ERRORS.includes(result.error.code))
+        .map(({ token }) => token);
+
+      if (staleTokens.length > 0) {
+        await this.prisma.deviceToken.deleteMany({ where: { token: { in: staleTokens } } });
+      }
+    } catch (error) {
+      this.logger.warn(`Push to user ${userId} failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Providers that only send DLT-approved templates (MSG91) get the template's flow and
+   * variables; the others send the rendered body.
+   */
+  private async sendSms(
+    phone: string,
+    type: NotificationType,
+    body: string,
+    smsFlow: string | undefined,
+    variables: Record<string, string | number>,
   ) {
-    this.logger.log(`Registering device token for user ${userId}`);
-    
-    // Mock implementation since UserDevice table might not exist
-    return {
-      success: true,
-      message: 'Device token registered successfully',
-      data: {
-        deviceId: deviceInfo.deviceId,
-        platform: deviceInfo.platform,
+    const templateId = smsFlow ? this.configService.get<string>(`sms.msg91.flows.${smsFlow}`) : undefined;
+    const result = await this.smsService.send({
+      to: phone,
+      body,
+      purpose: `NOTIFICATION_${type}`,
+      variables: {
+        ...Object.fromEntries(Object.entries(variables).map(([name, value]) => [name, String(value)])),
+        ...(templateId && { templateId }),
       },
-    };
+    });
+    if (!result.success) {
+      this.logger.warn(`SMS ${type} to ${phone} failed: ${result.message}`);
+    }
   }
-}
\ No newline at end of file
+
+  private async sendEmail(email: string, subject: string, text: string) {
+    if (!this.mailTransport) {
+      return;
+    }
+
+    try {
+      await this.mailTransport.sendMail({
+        from: this.configService.get<string>('email.smtp.from'),
+        to: email,
+        subject,
+        text,
+      });
+    } catch (error) {
+      this.logger.warn(`Email to ${email} failed: ${error.message}`);
+    }
+  }
+}
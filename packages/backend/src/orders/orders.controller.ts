@@ -9,8 +9,11 @@ import {
   Query,
   UseGuards,
   Logger,
+  Res,
 } from '@nestjs/common';
+import { Response } from 'express';
 import { OrdersService } from './orders.service';
+import { InvoicesService } from '../invoices/invoices.service';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../common/guards/roles.guard';
 import { Roles } from '../common/decorators/roles.decorator';
@@ -26,13 +29,19 @@ import {
   Min,
   Max,
   IsInt,
+  IsNumber,
 } from 'class-validator';
 import { Type } from 'class-transformer';
 
 // DTOs
 export class AddToCartRequestDto {
+  @IsOptional()
   @IsUUID()
-  productId: string;
+  productId?: string;
+
+  @IsOptional()
+  @IsString()
+  variantId?: string;
 
   @IsInt()
   @Min(1)
@@ -50,10 +59,20 @@ export class UpdateCartItemRequestDto {
   quantity: number;
 }
 
-export class CreateOrderRequestDto {
-  @IsUUID()
+export class EstimateOrderRequestDto {
+  @IsString()
   deliveryAddressId: string;
 
+  @IsOptional()
+  @IsDateString()
+  requestedDeliveryDate?: string;
+
+  @IsOptional()
+  @IsString()
+  couponCode?: string;
+}
+
+export class CreateOrderRequestDto extends EstimateOrderRequestDto {
   @IsEnum(PaymentMethod)
   paymentMethod: PaymentMethod;
 
@@ -62,8 +81,14 @@ export class CreateOrderRequestDto {
   notes?: string;
 
   @IsOptional()
-  @IsDateString()
-  requestedDeliveryDate?: string;
+  @IsNumber()
+  @Min(0)
+  expectedTotalAmount?: number;
+}
+
+export class ApplyCouponRequestDto {
+  @IsString()
+  code: string;
 }
 
 export class UpdateOrderStatusRequestDto {
@@ -75,6 +100,16 @@ export class UpdateOrderStatusRequestDto {
   notes?: string;
 }
 
+export class CancelOrderItemRequestDto {
+  @IsInt()
+  @Min(1)
+  quantity: number;
+
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
+
 export class UpdatePaymentStatusRequestDto {
   @IsEnum(PaymentStatus)
   paymentStatus: PaymentStatus;
@@ -144,7 +179,10 @@ export class OrderFiltersDto {
 export class OrdersController {
   private readonly logger = new Logger(OrdersController.name);
 
-  constructor(private readonly ordersService: OrdersService) {}
+  constructor(
+    private readonly ordersService: OrdersService,
+    private readonly invoicesService: InvoicesService,
+  ) {}
 
   // Cart Management Endpoints
 
@@ -224,6 +262,18 @@ export class OrdersController {
     return this.ordersService.clearCart(user.id, user.id, user.role);
   }
 
+  /**
+   * Preview a coupon against the cart
+   */
+  @Post('cart/apply-coupon')
+  @Roles(UserRole.BUYER)
+  async applyCoupon(
+    @Body() applyCouponDto: ApplyCouponRequestDto,
+    @User() user: any,
+  ) {
+    return this.ordersService.applyCoupon(user.id, applyCouponDto.code, user.id, user.role);
+  }
+
   // Admin Cart Management
 
   /**
@@ -313,6 +363,24 @@ export class OrdersController {
 
   // Order Management Endpoints
 
+  /**
+   * Estimate checkout totals for the cart without placing an order
+   */
+  @Post('estimate')
+  @Roles(UserRole.BUYER)
+  async estimateOrder(
+    @Body() estimateOrderDto: EstimateOrderRequestDto,
+    @User() user: any,
+  ) {
+    const estimateData = {
+      ...estimateOrderDto,
+      requestedDeliveryDate: estimateOrderDto.requestedDeliveryDate
+        ? new Date(estimateOrderDto.requestedDeliveryDate)
+        : undefined,
+    };
+    return this.ordersService.estimateOrder(user.id, estimateData, user.id, user.role);
+  }
+
   /**
    * Create order from cart
    */
@@ -386,6 +454,33 @@ export class OrdersController {
     return this.ordersService.findOrderById(orderId, user.role, user.id);
   }
 
+  /**
+   * Download tax invoice PDF for an order
+   */
+  @Get(':orderId/invoice')
+  @Roles(UserRole.BUYER, UserRole.ADMIN, UserRole.OPS)
+  async downloadInvoice(
+    @Param('orderId') orderId: string,
+    @User() user: any,
+    @Res() res: Response,
+  ) {
+    this.logger.log(`Downloading invoice for order ${orderId} by user ${user.id}`);
+    return this.invoicesService.downloadOrderInvoice(orderId, res, user.id, user.role);
+  }
+
+  /**
+   * Regenerate tax invoice for an order (Admin/OPS)
+   */
+  @Post(':orderId/invoice/regenerate')
+  @Roles(UserRole.ADMIN, UserRole.OPS)
+  async regenerateInvoice(
+    @Param('orderId') orderId: string,
+    @User() user: any,
+  ) {
+    this.logger.log(`Regenerating invoice for order ${orderId} by user ${user.id}`);
+    return this.invoicesService.regenerateInvoice(orderId, user.id, user.role);
+  }
+
   /**
    * Create order for user (Admin only)
    */
@@ -430,6 +525,27 @@ export class OrdersController {
     );
   }
 
+  /**
+   * Cancel unshipped quantity of an order item
+   */
+  @Put(':orderId/items/:itemId/cancel')
+  @Roles(UserRole.ADMIN, UserRole.OPS)
+  async cancelOrderItem(
+    @Param('orderId') orderId: string,
+    @Param('itemId') itemId: string,
+    @Body() cancelItemDto: CancelOrderItemRequestDto,
+    @User() user: any,
+  ) {
+    this.logger.log(`Cancelling ${cancelItemDto.quantity} unit(s) of item ${itemId} on order ${orderId}`);
+    return this.ordersService.cancelOrderItem(
+      orderId,
+      itemId,
+      cancelItemDto,
+      user.id,
+      user.role,
+    );
+  }
+
   /**
    * Update payment status
    */
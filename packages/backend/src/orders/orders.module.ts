@@ -1,14 +1,34 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { OrdersService } from './orders.service';
 import { OrdersController } from './orders.controller';
+import { OrdersScheduler } from './orders.scheduler';
 import { PrismaModule } from '../prisma/prisma.module';
 import { CommonModule } from '../common/common.module';
 import { ProductsModule } from '../products/products.module';
+import { InvoicesModule } from '../invoices/invoices.module';
+import { CreditModule } from '../credit/credit.module';
+import { CouponsModule } from '../coupons/coupons.module';
+import { ServiceAreasModule } from '../service-areas/service-areas.module';
+import { LogisticsModule } from '../logistics/logistics.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { PaymentsModule } from '../payments/payments.module';
 
 @Module({
-  imports: [PrismaModule, CommonModule, ProductsModule],
+  imports: [
+    PrismaModule,
+    CommonModule,
+    ProductsModule,
+    InvoicesModule,
+    CreditModule,
+    CouponsModule,
+    ServiceAreasModule,
+    LogisticsModule,
+    NotificationsModule,
+    // Payments builds on orders; orders only needs refunds for cancelled lines
+    forwardRef(() => PaymentsModule),
+  ],
   controllers: [OrdersController],
-  providers: [OrdersService],
+  providers: [OrdersService, OrdersScheduler],
   exports: [OrdersService],
 })
 export class OrdersModule {}
\ No newline at end of file
@@ -0,0 +1,25 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { OrdersService } from './orders.service';
+
+@Injectable()
+export class OrdersScheduler {
+  private readonly logger = new Logger(OrdersScheduler.name);
+
+  constructor(private readonly ordersService: OrdersService) {}
+
+  /**
+   * Release stock held by unpaid online orders once their reservation expires
+   */
+  @Cron(CronExpression.EVERY_5_MINUTES)
+  async releaseExpiredReservations() {
+    try {
+      const { released } = await this.ordersService.releaseExpiredReservations();
+      if (released > 0) {
+        this.logger.log(`Released ${released} expired order reservations`);
+      }
+    } catch (error) {
+      this.logger.error('Failed to release expired reservations', error.stack);
+    }
+  }
+}
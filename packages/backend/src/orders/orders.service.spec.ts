@@ -0,0 +1,225 @@
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { KYCStatus, OrderStatus, PaymentMethod, PaymentStatus, StockMovementType, UserRole } from '@mawell/shared';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../common/services/audit.service';
+import { ValidationService } from '../common/services/validation.service';
+import { InsufficientStockException } from '../common/exceptions/insufficient-stock.exception';
+import { ProductsService } from '../products/products.service';
+import { StockLedgerService } from '../products/stock-ledger.service';
+import { InventoryBatchesService } from '../products/inventory-batches.service';
+import { InvoicesService } from '../invoices/invoices.service';
+import { CreditService } from '../credit/credit.service';
+import { CouponsService } from '../coupons/coupons.service';
+import { ServiceAreasService } from '../service-areas/service-areas.service';
+import { LogisticsService } from '../logistics/logistics.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { RefundsService } from '../payments/refunds.service';
+import { OrdersService } from './orders.service';
+
+const model = () => ({
+  findUnique: jest.fn(),
+  findMany: jest.fn(),
+  create: jest.fn(),
+  update: jest.fn(),
+  updateMany: jest.fn(),
+  deleteMany: jest.fn(),
+});
+
+// Each interactive transaction runs against the same mocked client
+const createPrismaMock = () => {
+  const prisma = {
+    user: model(),
+    order: model(),
+    orderItem: model(),
+    inventory: model(),
+    cartItem: model(),
+    $executeRaw: jest.fn(),
+    $transaction: jest.fn(),
+  };
+  prisma.$transaction.mockImplementation((run) => run(prisma));
+  return prisma;
+};
+
+describe('OrdersService', () => {
+  let service: OrdersService;
+  let prisma: ReturnType<typeof createPrismaMock>;
+  const stockLedgerService = { recordMovement: jest.fn(), applyMovement: jest.fn() };
+  const inventoryBatchesService = {
+    getExpiredQuantity: jest.fn(),
+    allocateFefo: jest.fn(),
+    releaseAllocations: jest.fn(),
+  };
+  const couponsService = { releaseRedemption: jest.fn() };
+  const auditService = { logCreate: jest.fn(), logUpdate: jest.fn() };
+  const notificationsService = { notify: jest.fn(), notifyOrderStatus: jest.fn() };
+
+  const buyer = {
+    id: 'buyer-1',
+    role: UserRole.BUYER,
+    buyerProfile: { id: 'profile-1', kycStatus: KYCStatus.APPROVED },
+  };
+  const cartItem = {
+    productId: 'product-1',
+    variantId: 'variant-1',
+    warehouseId: 'warehouse-1',
+    quantity: 5,
+    price: 100,
+    product: { hsnCode: '8471' },
+    variant: { sku: 'SKU-1' },
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    prisma = createPrismaMock();
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        OrdersService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: AuditService, useValue: auditService },
+        { provide: ValidationService, useValue: {} },
+        { provide: ProductsService, useValue: {} },
+        { provide: StockLedgerService, useValue: stockLedgerService },
+        { provide: InventoryBatchesService, useValue: inventoryBatchesService },
+        { provide: InvoicesService, useValue: {} },
+        { provide: CreditService, useValue: {} },
+        { provide: CouponsService, useValue: couponsService },
+        { provide: ServiceAreasService, useValue: {} },
+        { provide: LogisticsService, useValue: {} },
+        { provide: NotificationsService, useValue: notificationsService },
+        { provide: ConfigService, useValue: { get: (_key: string, fallback?: unknown) => fallback } },
+        { provide: RefundsService, useValue: {} },
+      ],
+    }).compile();
+
+    service = moduleRef.get(OrdersService);
+  });
+
+  describe('createOrder', () => {
+    const placeOrder = () =>
+      service.createOrder(
+        buyer.id,
+        { deliveryAddressId: 'address-1', paymentMethod: PaymentMethod.UPI } as any,
+        buyer.id,
+        UserRole.BUYER,
+      );
+
+    beforeEach(() => {
+      prisma.user.findUnique.mockResolvedValue(buyer);
+      prisma.order.create.mockResolvedValue({ id: 'order-1', orderNumber: 'ORD-1', buyerId: buyer.id, totalAmount: 590 });
+      prisma.orderItem.create.mockResolvedValue({ id: 'item-1' });
+      inventoryBatchesService.getExpiredQuantity.mockResolvedValue(0);
+      jest.spyOn(service as any, 'priceCheckout').mockResolvedValue({
+        lines: [
+          {
+            cartItem,
+            totalPrice: 500,
+            discountAmount: 0,
+            taxRate: 18,
+            taxAmount: 90,
+            cgstAmount: 45,
+            sgstAmount: 45,
+            igstAmount: 0,
+          },
+        ],
+        coupon: null,
+        subtotal: 500,
+        discountAmount: 0,
+        taxAmount: 90,
+        cgstAmount: 45,
+        sgstAmount: 45,
+        igstAmount: 0,
+        deliveryFee: 0,
+        totalAmount: 590,
+      });
+      jest.spyOn(service as any, 'generateOrderNumber').mockResolvedValue('ORD-1');
+      jest.spyOn(service, 'findOrderById').mockResolvedValue({ id: 'order-1' } as any);
+    });
+
+    it('reserves the stock and allocates it from batches', async () => {
+      prisma.$executeRaw.mockResolvedValue(1);
+
+      await placeOrder();
+
+      expect(inventoryBatchesService.allocateFefo).toHaveBeenCalledWith(
+        prisma,
+        'item-1',
+        { warehouseId: 'warehouse-1', variantId: 'variant-1' },
+        5,
+      );
+      expect(stockLedgerService.recordMovement).toHaveBeenCalledWith(
+        prisma,
+        expect.objectContaining({ type: StockMovementType.RESERVATION, reservedChange: 5, referenceId: 'order-1' }),
+      );
+      expect(prisma.cartItem.deleteMany).toHaveBeenCalledWith({ where: { buyerProfileId: 'profile-1' } });
+    });
+
+    it('rejects the order when the line would oversell', async () => {
+      inventoryBatchesService.getExpiredQuantity.mockResolvedValue(2);
+      prisma.$executeRaw.mockResolvedValue(0);
+      prisma.inventory.findUnique.mockResolvedValue({ quantity: 8, reservedQuantity: 3 });
+
+      const error = await placeOrder().catch((caught) => caught);
+
+      expect(error).toBeInstanceOf(InsufficientStockException);
+      expect(error.shortages).toEqual([
+        { variantId: 'variant-1', sku: 'SKU-1', warehouseId: 'warehouse-1', requested: 5, available: 3 },
+      ]);
+      // The guarded update leaves expired units out of what can be reserved
+      expect(prisma.$executeRaw.mock.calls[0].slice(1)).toEqual([5, 'warehouse-1', 'variant-1', 2, 5]);
+      expect(inventoryBatchesService.allocateFefo).not.toHaveBeenCalled();
+      expect(stockLedgerService.recordMovement).not.toHaveBeenCalled();
+      expect(prisma.cartItem.deleteMany).not.toHaveBeenCalled();
+      expect(notificationsService.notify).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('releaseExpiredReservations', () => {
+    const expiredOrder = { id: 'order-1', orderNumber: 'ORD-1', buyerId: buyer.id };
+    const orderItem = {
+      id: 'item-1',
+      orderId: 'order-1',
+      warehouseId: 'warehouse-1',
+      productId: 'product-1',
+      variantId: 'variant-1',
+      quantity: 5,
+      quantityCancelled: 1,
+    };
+
+    beforeEach(() => {
+      prisma.order.findMany.mockResolvedValue([expiredOrder]);
+      prisma.orderItem.findMany.mockResolvedValue([orderItem]);
+    });
+
+    it('cancels the order and releases its open reservation', async () => {
+      prisma.order.updateMany.mockResolvedValue({ count: 1 });
+
+      const result = await service.releaseExpiredReservations(new Date('2026-01-01T00:00:00Z'));
+
+      expect(result).toEqual({ released: 1 });
+      expect(prisma.order.updateMany).toHaveBeenCalledWith({
+        where: { id: 'order-1', status: OrderStatus.PENDING, paymentStatus: PaymentStatus.PENDING },
+        data: { status: OrderStatus.CANCELLED, reservationExpiresAt: null },
+      });
+      expect(stockLedgerService.applyMovement).toHaveBeenCalledWith(
+        prisma,
+        expect.objectContaining({ type: StockMovementType.RELEASE, reservedChange: -4, referenceId: 'order-1' }),
+      );
+      expect(inventoryBatchesService.releaseAllocations).toHaveBeenCalledWith(prisma, orderItem, 4);
+      expect(couponsService.releaseRedemption).toHaveBeenCalledWith('order-1', prisma);
+      expect(notificationsService.notifyOrderStatus).toHaveBeenCalledWith(expiredOrder, OrderStatus.CANCELLED);
+    });
+
+    it('leaves an order alone once a payment has claimed it', async () => {
+      prisma.order.updateMany.mockResolvedValue({ count: 0 });
+
+      const result = await service.releaseExpiredReservations();
+
+      expect(result).toEqual({ released: 0 });
+      expect(stockLedgerService.applyMovement).not.toHaveBeenCalled();
+      expect(inventoryBatchesService.releaseAllocations).not.toHaveBeenCalled();
+      expect(notificationsService.notifyOrderStatus).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -3,16 +3,61 @@ import {
   NotFoundException,
   BadRequestException,
   ForbiddenException,
+  ConflictException,
   Logger,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
 import { AuditService } from '../common/services/audit.service';
 import { ValidationService } from '../common/services/validation.service';
 import { ProductsService } from '../products/products.service';
-import { UserRole, OrderStatus, PaymentStatus, PaymentMethod } from '@mawell/shared';
+import { StockLedgerService } from '../products/stock-ledger.service';
+import { InventoryBatchesService } from '../products/inventory-batches.service';
+import { InvoicesService } from '../invoices/invoices.service';
+import { CreditService } from '../credit/credit.service';
+import { CouponsService } from '../coupons/coupons.service';
+import { ServiceAreasService } from '../service-areas/service-areas.service';
+import { LogisticsService } from '../logistics/logistics.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { RefundsService } from '../payments/refunds.service';
+import { InsufficientStockException, StockShortage } from '../common/exceptions/insufficient-stock.exception';
+import {
+  UserRole,
+  OrderStatus,
+  PaymentStatus,
+  PaymentMethod,
+  FulfilmentStatus,
+  KYCStatus,
+  CreditEntryType,
+  NotificationType,
+  RefundReason,
+  StockMovementType,
+  calculateGST,
+  isInterStateSupply,
+  resolveTierPrice,
+  roundCurrency,
+  CheckoutEstimate,
+} from '@mawell/shared';
+
+const ONLINE_PAYMENT_METHODS: PaymentMethod[] = [
+  PaymentMethod.UPI,
+  PaymentMethod.CARD,
+  PaymentMethod.NET_BANKING,
+];
+
+// Order statuses in which lines that have not shipped can still be cancelled
+const ITEM_CANCELLABLE_ORDER_STATUSES: OrderStatus[] = [
+  OrderStatus.PENDING,
+  OrderStatus.CONFIRMED,
+  OrderStatus.PROCESSING,
+  OrderStatus.PARTIALLY_SHIPPED,
+  OrderStatus.PARTIALLY_DELIVERED,
+];
 
 export interface AddToCartDto {
-  productId: string;
+  productId?: string;
+  variantId?: string;
   quantity: number;
   warehouseId: string;
 }
@@ -21,11 +66,16 @@ export interface UpdateCartItemDto {
   quantity: number;
 }
 
-export interface CreateOrderDto {
+export interface EstimateOrderDto {
   deliveryAddressId: string;
+  requestedDeliveryDate?: Date;
+  couponCode?: string;
+}
+
+export interface CreateOrderDto extends EstimateOrderDto {
   paymentMethod: PaymentMethod;
   notes?: string;
-  requestedDeliveryDate?: Date;
+  expectedTotalAmount?: number;
 }
 
 export interface UpdateOrderStatusDto {
@@ -33,6 +83,11 @@ export interface UpdateOrderStatusDto {
   notes?: string;
 }
 
+export interface CancelOrderItemDto {
+  quantity: number;
+  reason?: string;
+}
+
 export interface UpdatePaymentStatusDto {
   paymentStatus: PaymentStatus;
   paymentReference?: string;
@@ -62,6 +117,16 @@ export class OrdersService {
     private auditService: AuditService,
     private validationService: ValidationService,
     private productsService: ProductsService,
+    private stockLedgerService: StockLedgerService,
+    private inventoryBatchesService: InventoryBatchesService,
+    private invoicesService: InvoicesService,
+    private creditService: CreditService,
+    private couponsService: CouponsService,
+    private serviceAreasService: ServiceAreasService,
+    private logisticsService: LogisticsService,
+    private notificationsService: NotificationsService,
+    private configService: ConfigService,
+    private refundsService: RefundsService,
   ) {}
 
   // Cart Management
@@ -89,11 +154,9 @@ export class OrdersService {
       throw new BadRequestException('Only buyers can have a cart');
     }
 
-    // Verify product exists and is active
-    const product = await this.productsService.findById(cartData.productId);
-    if (!product.isActive) {
-      throw new BadRequestException('Product is not available');
-    }
+    // Verify the variant exists and is sellable
+    const variant = await this.resolveCartVariant(cartData);
+    const { product } = variant;
 
     // Verify warehouse exists
     const warehouse = await this.prisma.warehouse.findUnique({
@@ -106,13 +169,13 @@ export class OrdersService {
     // Check inventory availability
     const inventory = await this.prisma.inventory.findUnique({
       where: {
-        warehouseId_productId: {
+        warehouseId_variantId: {
           warehouseId: cartData.warehouseId,
-          productId: cartData.productId,
+          variantId: variant.id,
         },
       },
     });
-    if (!inventory || inventory.quantity < cartData.quantity) {
+    if (!inventory || inventory.quantity - inventory.reservedQuantity < cartData.quantity) {
       throw new BadRequestException('Insufficient inventory');
     }
 
@@ -134,9 +197,9 @@ export class OrdersService {
     // Check if item already exists in cart
     const existingCartItem = await this.prisma.cartItem.findUnique({
       where: {
-        cartId_productId: {
+        cartId_variantId: {
           cartId: cart.id,
-          productId: cartData.productId,
+          variantId: variant.id,
         },
       },
     });
@@ -147,7 +210,7 @@ export class OrdersService {
       const newQuantity = existingCartItem.quantity + cartData.quantity;
       
       // Check inventory for new quantity
-      if (inventory.quantity < newQuantity) {
+      if (inventory.quantity - inventory.reservedQuantity < newQuantity) {
         throw new BadRequestException('Insufficient inventory for requested quantity');
       }
       
@@ -159,10 +222,11 @@ export class OrdersService {
         },
         data: {
           quantity: newQuantity,
-          price: product.price,
+          price: resolveTierPrice(variant.price, variant.pricingTiers, newQuantity),
         },
         include: {
           product: true,
+          variant: true,
           warehouse: true,
         },
       });
@@ -172,13 +236,15 @@ export class OrdersService {
         data: {
           cartId: cart.id,
           buyerProfileId: user.buyerProfile.id,
-          productId: cartData.productId,
+          productId: product.id,
+          variantId: variant.id,
           warehouseId: cartData.warehouseId,
           quantity: cartData.quantity,
-          price: product.price,
+          price: resolveTierPrice(variant.price, variant.pricingTiers, cartData.quantity),
         },
         include: {
           product: true,
+          variant: true,
           warehouse: true,
         },
       });
@@ -220,6 +286,11 @@ export class OrdersService {
       },
       include: {
         product: true,
+        variant: {
+          include: {
+            pricingTiers: true,
+          },
+        },
         warehouse: true,
       },
     });
@@ -230,13 +301,13 @@ export class OrdersService {
     // Check inventory availability
     const inventory = await this.prisma.inventory.findUnique({
       where: {
-        warehouseId_productId: {
+        warehouseId_variantId: {
           warehouseId: cartItem.warehouseId,
-          productId: cartItem.productId,
+          variantId: cartItem.variantId,
         },
       },
     });
-    if (!inventory || inventory.quantity < updateData.quantity) {
+    if (!inventory || inventory.quantity - inventory.reservedQuantity < updateData.quantity) {
       throw new BadRequestException('Insufficient inventory');
     }
 
@@ -249,10 +320,12 @@ export class OrdersService {
       where: { id: cartItemId },
       data: {
         quantity: updateData.quantity,
-        price: cartItem.product.price, // Update price in case it changed
+        // Re-price for the new quantity's slab and any base price change
+        price: resolveTierPrice(cartItem.variant.price, cartItem.variant.pricingTiers, updateData.quantity),
       },
       include: {
         product: true,
+        variant: true,
         warehouse: true,
       },
     });
@@ -336,6 +409,13 @@ export class OrdersService {
             brand: true,
           },
         },
+        variant: {
+          include: {
+            pricingTiers: {
+              orderBy: { minQuantity: 'asc' },
+            },
+          },
+        },
         warehouse: true,
       },
       orderBy: { createdAt: 'desc' },
@@ -387,20 +467,18 @@ export class OrdersService {
     return { message: 'Cart cleared successfully' };
   }
 
-  // Order Management
-
   /**
-   * Create order from cart
+   * Preview a coupon against the user's cart without redeeming it
    */
-  async createOrder(
+  async applyCoupon(
     userId: string,
-    orderData: CreateOrderDto,
+    code: string,
     requestingUserId: string,
     requestingUserRole: UserRole,
   ) {
     // Check permissions
     if (userId !== requestingUserId && requestingUserRole !== UserRole.ADMIN) {
-      throw new ForbiddenException('You can only create orders for yourself');
+      throw new ForbiddenException('You can only apply coupons to your own cart');
     }
 
     const user = await this.prisma.user.findUnique({
@@ -408,57 +486,131 @@ export class OrdersService {
       include: { buyerProfile: true },
     });
     if (!user || user.role !== UserRole.BUYER || !user.buyerProfile) {
-      throw new BadRequestException('Only buyers can create orders');
-    }
-
-    // Verify delivery address
-    const address = await this.prisma.address.findFirst({
-      where: {
-        id: orderData.deliveryAddressId,
-        userId: userId,
-      },
-    });
-    if (!address) {
-      throw new BadRequestException('Delivery address not found');
+      throw new BadRequestException('Only buyers can have a cart');
     }
 
-    // Get cart items
     const cartItems = await this.prisma.cartItem.findMany({
       where: {
         buyerProfileId: user.buyerProfile.id,
       },
       include: {
         product: true,
-        warehouse: true,
       },
     });
-
     if (cartItems.length === 0) {
       throw new BadRequestException('Cart is empty');
     }
 
-    // Validate inventory for all items
-    for (const item of cartItems) {
-      const inventory = await this.prisma.inventory.findUnique({
-        where: {
-          warehouseId_productId: {
-            warehouseId: item.warehouseId,
-            productId: item.productId,
-          },
-        },
+    const lines = this.toCouponLines(cartItems);
+    const { coupon, eligibleSubtotal, discountAmount } = await this.couponsService.evaluateCoupon(
+      code,
+      userId,
+      lines,
+    );
+    const subtotal = roundCurrency(lines.reduce((sum, line) => sum + line.totalPrice, 0));
+
+    return {
+      code: coupon.code,
+      description: coupon.description,
+      subtotal,
+      eligibleSubtotal,
+      discountAmount,
+      discountedSubtotal: roundCurrency(subtotal - discountAmount),
+    };
+  }
+
+  // Order Management
+
+  /**
+   * Estimate checkout totals for the user's cart without creating an order
+   */
+  async estimateOrder(
+    userId: string,
+    estimateData: EstimateOrderDto,
+    requestingUserId: string,
+    requestingUserRole: UserRole,
+  ): Promise<CheckoutEstimate> {
+    // Check permissions
+    if (userId !== requestingUserId && requestingUserRole !== UserRole.ADMIN) {
+      throw new ForbiddenException('You can only estimate your own checkout');
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      include: { buyerProfile: true },
+    });
+    if (!user || user.role !== UserRole.BUYER || !user.buyerProfile) {
+      throw new BadRequestException('Only buyers can check out');
+    }
+
+    const pricing = await this.priceCheckout(userId, user.buyerProfile.id, estimateData);
+
+    return this.toCheckoutEstimate(pricing);
+  }
+
+  /**
+   * Create order from cart
+   */
+  async createOrder(
+    userId: string,
+    orderData: CreateOrderDto,
+    requestingUserId: string,
+    requestingUserRole: UserRole,
+  ) {
+    // Check permissions
+    if (userId !== requestingUserId && requestingUserRole !== UserRole.ADMIN) {
+      throw new ForbiddenException('You can only create orders for yourself');
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      include: { buyerProfile: true },
+    });
+    if (!user || user.role !== UserRole.BUYER || !user.buyerProfile) {
+      throw new BadRequestException('Only buyers can create orders');
+    }
+
+    if (
+      orderData.paymentMethod === PaymentMethod.CREDIT &&
+      user.buyerProfile.kycStatus !== KYCStatus.APPROVED
+    ) {
+      throw new BadRequestException('Credit checkout is only available to KYC-verified buyers');
+    }
+
+    const pricing = await this.priceCheckout(userId, user.buyerProfile.id, orderData);
+    const {
+      lines,
+      coupon,
+      subtotal,
+      discountAmount,
+      taxAmount,
+      cgstAmount,
+      sgstAmount,
+      igstAmount,
+      deliveryFee,
+      estimatedDeliveryAt,
+      totalAmount,
+    } = pricing;
+
+    // Refuse to charge a different amount than the buyer confirmed at checkout
+    if (
+      orderData.expectedTotalAmount !== undefined &&
+      roundCurrency(orderData.expectedTotalAmount) !== totalAmount
+    ) {
+      throw new ConflictException({
+        message: 'Order total has changed. Please review the updated amount and try again.',
+        error: 'PriceChanged',
+        details: { estimate: this.toCheckoutEstimate(pricing) },
       });
-      if (!inventory || inventory.quantity < item.quantity) {
-        throw new BadRequestException(`Insufficient inventory for product: ${item.product.name}`);
-      }
     }
 
     // Generate order number
     const orderNumber = await this.generateOrderNumber();
 
-    // Calculate totals
-    const subtotal = cartItems.reduce((sum, item) => sum + (item.quantity * item.price), 0);
-    const taxAmount = subtotal * 0.18; // 18% GST
-    const totalAmount = subtotal + taxAmount;
+    // Unpaid online orders hold stock only for a limited time
+    const reservationExpiresAt = ONLINE_PAYMENT_METHODS.includes(orderData.paymentMethod)
+      ? new Date(Date.now() + this.configService.get<number>('business.reservationTtlMinutes', 30) * 60 * 1000)
+      : null;
 
     const order = await this.prisma.$transaction(async (tx) => {
       // Create order
@@ -471,47 +623,62 @@ export class OrdersService {
           paymentStatus: PaymentStatus.PENDING,
           paymentMethod: orderData.paymentMethod,
           subtotal,
+          discountAmount,
+          couponCode: coupon?.coupon.code,
           taxAmount,
-          deliveryFee: 0, // Default delivery fee
+          cgstAmount,
+          sgstAmount,
+          igstAmount,
+          deliveryFee,
           totalAmount,
           notes: orderData.notes,
-          estimatedDeliveryAt: orderData.requestedDeliveryDate,
+          estimatedDeliveryAt,
+          reservationExpiresAt,
         },
       });
 
+      if (coupon) {
+        await this.couponsService.redeemCoupon(tx, coupon.coupon.id, userId, newOrder.id, discountAmount);
+      }
+
+      // Draw credit atomically with the order
+      if (orderData.paymentMethod === PaymentMethod.CREDIT) {
+        await this.creditService.chargeOrder(
+          tx,
+          user.buyerProfile!.id,
+          newOrder.id,
+          totalAmount,
+          requestingUserId,
+        );
+      }
+
       // Create order items
-      for (const cartItem of cartItems) {
-        const itemTotalPrice = cartItem.quantity * cartItem.price;
-        const itemTaxAmount = itemTotalPrice * 0.18; // 18% GST
-        
-        await tx.orderItem.create({
+      const reservations = [];
+      for (const { cartItem, ...line } of lines) {
+        const orderItem = await tx.orderItem.create({
           data: {
             orderId: newOrder.id,
             productId: cartItem.productId,
+            variantId: cartItem.variantId,
             warehouseId: cartItem.warehouseId,
             quantity: cartItem.quantity,
             price: cartItem.price,
-            totalPrice: itemTotalPrice,
-            taxAmount: itemTaxAmount,
-          },
-        });
-
-        // Reserve inventory
-        await tx.inventory.update({
-          where: {
-            warehouseId_productId: {
-              warehouseId: cartItem.warehouseId,
-              productId: cartItem.productId,
-            },
-          },
-          data: {
-            reservedQuantity: {
-              increment: cartItem.quantity,
-            },
+            totalPrice: line.totalPrice,
+            discountAmount: line.discountAmount,
+            hsnCode: cartItem.product.hsnCode,
+            taxRate: line.taxRate,
+            taxAmount: line.taxAmount,
+            cgstAmount: line.cgstAmount,
+            sgstAmount: line.sgstAmount,
+            igstAmount: line.igstAmount,
           },
         });
+        reservations.push({ ...cartItem, orderItemId: orderItem.id });
       }
 
+      // Reserve inventory; rolls the whole order back if any line is short
+      await this.reserveInventory(tx, newOrder.id, reservations);
+
       // Clear cart
       await tx.cartItem.deleteMany({
         where: {
@@ -533,6 +700,13 @@ export class OrdersService {
 
     this.logger.log(`Order created: ${order.orderNumber}`);
 
+    await this.notificationsService.notify(
+      order.buyerId,
+      NotificationType.ORDER_PLACED,
+      { orderNumber: order.orderNumber, totalAmount: order.totalAmount.toFixed(2) },
+      { orderId: order.id },
+    );
+
     return this.findOrderById(order.id);
   }
 
@@ -584,6 +758,14 @@ export class OrdersService {
             warehouse: true,
           },
         },
+        invoice: {
+          select: {
+            invoiceNumber: true,
+            pdfUrl: true,
+            issuedAt: true,
+            generatedAt: true,
+          },
+        },
       },
     });
 
@@ -715,6 +897,12 @@ export class OrdersService {
           items: {
             include: {
               product: {
+                select: {
+                  id: true,
+                  name: true,
+                },
+              },
+              variant: {
                 select: {
                   id: true,
                   name: true,
@@ -754,7 +942,8 @@ export class OrdersService {
   }
 
   /**
-   * Update order status
+   * Update order status. The transition is applied only from the status read here and
+   * commits together with its stock, consignment, coupon and credit side effects.
    */
   async updateOrderStatus(
     orderId: string,
@@ -774,35 +963,220 @@ export class OrdersService {
       throw new BadRequestException(`Invalid status transition from ${order.status} to ${statusData.status}`);
     }
 
-    await this.prisma.order.update({
-      where: { id: orderId },
-      data: {
-        status: statusData.status,
-        notes: statusData.notes ? `${order.notes || ''}\n${statusData.notes}` : order.notes,
-      },
+    const refund = await this.prisma.$transaction(async (tx) => {
+      // A concurrent cancellation or reservation expiry moves the order first and wins
+      const { count } = await tx.order.updateMany({
+        where: { id: orderId, status: order.status },
+        data: {
+          status: statusData.status,
+          notes: statusData.notes ? `${order.notes || ''}\n${statusData.notes}` : order.notes,
+          reservationExpiresAt: null,
+        },
+      });
+      if (count === 0) {
+        throw new ConflictException('Order was changed by someone else; reload and try again');
+      }
+
+      // Handle inventory changes based on status
+      if (statusData.status === OrderStatus.CANCELLED) {
+        // Pending orders only hold a reservation; confirmed ones have already taken the stock
+        await this.cancelUnshippedItems(orderId, order.status !== OrderStatus.PENDING, 'Order cancelled', tx);
+        await this.logisticsService.cancelOpenConsignments(orderId, undefined, tx);
+        await this.couponsService.releaseRedemption(orderId, tx);
+
+        // Whatever the buyer has paid and not yet had back is refunded, as when the
+        // lines are cancelled one by one
+        if ([PaymentStatus.PAID, PaymentStatus.PARTIALLY_REFUNDED].includes(order.paymentStatus as PaymentStatus)) {
+          return this.refundsService.recordCancellationRefund(tx, orderId, statusData.notes, requestingUserId);
+        }
+        if (order.paymentMethod === PaymentMethod.CREDIT) {
+          await this.creditService.releaseOrderCredit(
+            orderId,
+            CreditEntryType.CANCELLATION,
+            { notes: statusData.notes, createdBy: requestingUserId },
+            tx,
+          );
+        }
+      } else if (statusData.status === OrderStatus.CONFIRMED) {
+        await this.fulfilConfirmedOrder(orderId, tx);
+      }
+      return null;
     });
 
-    // Handle inventory changes based on status
-    if (statusData.status === OrderStatus.CANCELLED) {
-      // Release reserved inventory
-      await this.releaseOrderInventory(orderId);
-    } else if (statusData.status === OrderStatus.CONFIRMED) {
-      // Deduct inventory
-      await this.deductOrderInventory(orderId);
+    if (refund) {
+      await this.refundsService.completeRecordedRefund(refund.id);
     }
 
+    await this.invoicesService.handleOrderStatusChange(orderId, statusData.status);
+
     // Log audit trail
     await this.auditService.logUpdate(
       'ORDER',
       orderId,
       oldValues,
-      statusData,
+      { ...statusData, ...(refund && { refundId: refund.id }) },
       requestingUserId,
       requestingUserRole,
     );
 
     this.logger.log(`Order ${order.orderNumber} status updated to ${statusData.status}`);
 
+    await this.notificationsService.notifyOrderStatus(order, statusData.status);
+
+    return this.findOrderById(orderId);
+  }
+
+  /**
+   * Take a confirmed order's stock off the shelf and split it into one consignment
+   * per fulfilling warehouse. Runs in the transaction that confirms the order, so the
+   * order is never left confirmed without its stock and consignments.
+   */
+  async fulfilConfirmedOrder(orderId: string, tx: Prisma.TransactionClient) {
+    await this.deductOrderInventory(orderId, tx);
+    await this.logisticsService.createOrderConsignments(orderId, tx);
+  }
+
+  /**
+   * Cancel part or all of an order line that has not shipped yet. The stock goes back
+   * to the warehouse, paid or credit orders are refunded for the units, and the order
+   * is cancelled once no line is left open.
+   */
+  async cancelOrderItem(
+    orderId: string,
+    itemId: string,
+    cancelData: CancelOrderItemDto,
+    requestingUserId: string,
+    requestingUserRole: UserRole,
+  ) {
+    if (![UserRole.ADMIN, UserRole.OPS].includes(requestingUserRole)) {
+      throw new ForbiddenException('Only admins and ops users can cancel order items');
+    }
+
+    const order = await this.findOrderById(orderId);
+    if (!ITEM_CANCELLABLE_ORDER_STATUSES.includes(order.status as OrderStatus)) {
+      throw new BadRequestException(`Items cannot be cancelled on a ${order.status} order`);
+    }
+
+    const item = order.items.find((orderItem) => orderItem.id === itemId);
+    if (!item) {
+      throw new NotFoundException('Order item not found');
+    }
+
+    if (item.fulfilmentStatus !== FulfilmentStatus.PENDING && item.fulfilmentStatus !== FulfilmentStatus.BACKORDERED) {
+      throw new BadRequestException('Only items that have not shipped can be cancelled');
+    }
+
+    const openQuantity = item.quantity - item.quantityCancelled;
+    if (cancelData.quantity < 1 || cancelData.quantity > openQuantity) {
+      throw new BadRequestException(`Between 1 and ${openQuantity} unit(s) of this item can be cancelled`);
+    }
+
+    // Money already taken, or drawn on credit, goes back through a refund. On an unpaid
+    // order the cancelled units stop being owed: their share of the total, delivery fee
+    // and discounts spread in proportion as for COD consignments.
+    const refundable =
+      order.paymentMethod === PaymentMethod.CREDIT ||
+      [PaymentStatus.PAID, PaymentStatus.PARTIALLY_REFUNDED].includes(order.paymentStatus as PaymentStatus);
+    const lineTotal = (line: (typeof order.items)[number]) =>
+      line.totalPrice - line.discountAmount + line.cgstAmount + line.sgstAmount + line.igstAmount;
+    const orderLinesTotal = order.items.reduce((sum, line) => sum + lineTotal(line), 0);
+    const cancelledAmount =
+      orderLinesTotal > 0
+        ? roundCurrency(((lineTotal(item) / item.quantity) * cancelData.quantity * order.totalAmount) / orderLinesTotal)
+        : 0;
+
+    const { refund, remainingQuantity } = await this.prisma.$transaction(async (tx) => {
+      // Only units still open when the row is written can be cancelled; a concurrent
+      // cancellation or dispatch of the same line makes this one fail instead
+      const { count } = await tx.orderItem.updateMany({
+        where: {
+          id: itemId,
+          quantityCancelled: { lte: item.quantity - cancelData.quantity },
+          fulfilmentStatus: { in: [FulfilmentStatus.PENDING, FulfilmentStatus.BACKORDERED] },
+        },
+        data: { quantityCancelled: { increment: cancelData.quantity } },
+      });
+      if (count === 0) {
+        throw new ConflictException('Order item was changed by someone else; reload and try again');
+      }
+
+      const updated = await tx.orderItem.findUniqueOrThrow({ where: { id: itemId } });
+      const remaining = updated.quantity - updated.quantityCancelled;
+      if (remaining === 0) {
+        await tx.orderItem.update({ where: { id: itemId }, data: { fulfilmentStatus: FulfilmentStatus.CANCELLED } });
+      }
+
+      await this.returnItemStock(
+        item,
+        cancelData.quantity,
+        order.status !== OrderStatus.PENDING,
+        cancelData.reason || 'Order item cancelled',
+        tx,
+      );
+
+      if (refundable) {
+        const recorded = await this.refundsService.recordRefund(
+          tx,
+          orderId,
+          {
+            reason: RefundReason.CANCELLATION,
+            items: [{ orderItemId: itemId, quantity: cancelData.quantity }],
+            notes: cancelData.reason,
+          },
+          requestingUserId,
+        );
+        return { refund: recorded, remainingQuantity: remaining };
+      }
+
+      await tx.order.update({
+        where: { id: orderId },
+        data: { cancelledAmount: { increment: cancelledAmount } },
+      });
+      await this.logisticsService.refreshCodAmounts(orderId, item.warehouseId, tx);
+      return { refund: null, remainingQuantity: remaining };
+    });
+
+    if (refund) {
+      await this.refundsService.completeRecordedRefund(refund.id);
+    }
+
+    // Log audit trail
+    await this.auditService.logUpdate(
+      'ORDER_ITEM',
+      itemId,
+      { quantityCancelled: item.quantityCancelled },
+      {
+        quantityCancelled: item.quantityCancelled + cancelData.quantity,
+        reason: cancelData.reason,
+        ...(refund && { refundId: refund.id }),
+      },
+      requestingUserId,
+      requestingUserRole,
+    );
+
+    this.logger.log(`Order ${order.orderNumber}: cancelled ${cancelData.quantity} unit(s) of item ${itemId}`);
+
+    if (remainingQuantity === 0) {
+      const openItems = await this.prisma.orderItem.findMany({
+        where: { orderId, fulfilmentStatus: { not: FulfilmentStatus.CANCELLED } },
+        select: { warehouseId: true },
+      });
+
+      if (openItems.length === 0) {
+        return this.updateOrderStatus(
+          orderId,
+          { status: OrderStatus.CANCELLED, notes: cancelData.reason },
+          requestingUserId,
+          requestingUserRole,
+        );
+      }
+
+      if (!openItems.some((openItem) => openItem.warehouseId === item.warehouseId)) {
+        await this.logisticsService.cancelOpenConsignments(orderId, item.warehouseId);
+      }
+      await this.logisticsService.checkAndUpdateOrderStatus(orderId);
+    }
+
     return this.findOrderById(orderId);
   }
 
@@ -831,10 +1205,24 @@ export class OrdersService {
         paymentStatus: paymentData.paymentStatus,
         paymentReference: paymentData.paymentReference,
         paymentDate: paymentData.paymentStatus === PaymentStatus.PAID ? new Date() : null,
+        ...(paymentData.paymentStatus === PaymentStatus.PAID && { reservationExpiresAt: null }),
         notes: paymentData.paymentNotes ? `${order.notes || ''}\n${paymentData.paymentNotes}` : order.notes,
       },
     });
 
+    // Settling a credit order frees the buyer's credit
+    if (
+      order.paymentMethod === PaymentMethod.CREDIT &&
+      paymentData.paymentStatus === PaymentStatus.PAID &&
+      order.paymentStatus !== PaymentStatus.PAID
+    ) {
+      await this.creditService.releaseOrderCredit(orderId, CreditEntryType.PAYMENT, {
+        reference: paymentData.paymentReference,
+        notes: paymentData.paymentNotes,
+        createdBy: requestingUserId,
+      });
+    }
+
     // Log audit trail
     await this.auditService.logUpdate(
       'ORDER',
@@ -850,8 +1238,245 @@ export class OrdersService {
     return this.findOrderById(orderId);
   }
 
+  /**
+   * Cancel unpaid online orders whose stock reservation has expired and release their stock.
+   * Each order is claimed with a conditional update so a payment landing concurrently wins.
+   */
+  async releaseExpiredReservations(now: Date = new Date()) {
+    const expiredOrders = await this.prisma.order.findMany({
+      where: {
+        status: OrderStatus.PENDING,
+        paymentStatus: PaymentStatus.PENDING,
+        reservationExpiresAt: { lte: now },
+      },
+      select: { id: true, orderNumber: true, buyerId: true },
+    });
+
+    let released = 0;
+    for (const order of expiredOrders) {
+      const claimed = await this.prisma.$transaction(async (tx) => {
+        const { count } = await tx.order.updateMany({
+          where: {
+            id: order.id,
+            status: OrderStatus.PENDING,
+            paymentStatus: PaymentStatus.PENDING,
+          },
+          data: {
+            status: OrderStatus.CANCELLED,
+            reservationExpiresAt: null,
+          },
+        });
+        if (count === 0) {
+          return false;
+        }
+
+        await this.cancelUnshippedItems(order.id, false, 'Reservation expired', tx);
+        await this.couponsService.releaseRedemption(order.id, tx);
+        return true;
+      });
+      if (!claimed) {
+        continue;
+      }
+
+      await this.auditService.logUpdate(
+        'ORDER',
+        order.id,
+        { status: OrderStatus.PENDING },
+        { status: OrderStatus.CANCELLED, reason: 'Payment not received before reservation expired' },
+      );
+
+      this.logger.log(`Order ${order.orderNumber} cancelled: reservation expired`);
+
+      await this.notificationsService.notifyOrderStatus(order, OrderStatus.CANCELLED);
+      released++;
+    }
+
+    return { released };
+  }
+
   // Helper methods
 
+  /**
+   * Price the buyer's cart for checkout. Order creation and the checkout estimate
+   * both go through here so the estimate always matches what the order charges.
+   */
+  private async priceCheckout(userId: string, buyerProfileId: string, checkout: EstimateOrderDto) {
+    // Verify delivery address
+    const address = await this.prisma.address.findFirst({
+      where: {
+        id: checkout.deliveryAddressId,
+        userId,
+      },
+    });
+    if (!address) {
+      throw new BadRequestException('Delivery address not found');
+    }
+
+    // Get cart items
+    const cartItems = await this.prisma.cartItem.findMany({
+      where: {
+        buyerProfileId,
+      },
+      include: {
+        product: true,
+        variant: true,
+        warehouse: true,
+      },
+    });
+
+    if (cartItems.length === 0) {
+      throw new BadRequestException('Cart is empty');
+    }
+
+    // Validate available (unreserved) inventory for all items
+    const shortages: StockShortage[] = [];
+    for (const item of cartItems) {
+      const inventory = await this.prisma.inventory.findUnique({
+        where: {
+          warehouseId_variantId: {
+            warehouseId: item.warehouseId,
+            variantId: item.variantId,
+          },
+        },
+      });
+      const available = inventory ? inventory.quantity - inventory.reservedQuantity : 0;
+      if (available < item.quantity) {
+        shortages.push({
+          variantId: item.variantId,
+          sku: item.variant.sku,
+          warehouseId: item.warehouseId,
+          requested: item.quantity,
+          available: Math.max(available, 0),
+        });
+      }
+    }
+    if (shortages.length > 0) {
+      throw new InsufficientStockException(shortages);
+    }
+
+    // Apply coupon before tax so GST is charged on the discounted value
+    const coupon = checkout.couponCode
+      ? await this.couponsService.evaluateCoupon(checkout.couponCode, userId, this.toCouponLines(cartItems))
+      : null;
+
+    // Calculate totals
+    const lines = this.calculateLineTaxes(cartItems, address.state, coupon?.lineDiscounts);
+    const subtotal = roundCurrency(lines.reduce((sum, line) => sum + line.totalPrice, 0));
+    const discountAmount = coupon?.discountAmount ?? 0;
+    const taxAmount = roundCurrency(lines.reduce((sum, line) => sum + line.taxAmount, 0));
+    const cgstAmount = roundCurrency(lines.reduce((sum, line) => sum + line.cgstAmount, 0));
+    const sgstAmount = roundCurrency(lines.reduce((sum, line) => sum + line.sgstAmount, 0));
+    const igstAmount = roundCurrency(lines.reduce((sum, line) => sum + line.igstAmount, 0));
+
+    // Delivery fee and ETA come from the service area; unserviceable pincodes are rejected
+    const delivery = await this.serviceAreasService.quoteDelivery(
+      address.pincode,
+      roundCurrency(subtotal - discountAmount),
+    );
+    const deliveryFee = delivery.deliveryFee;
+    const estimatedDeliveryAt =
+      checkout.requestedDeliveryDate && new Date(checkout.requestedDeliveryDate) > delivery.estimatedDeliveryAt
+        ? new Date(checkout.requestedDeliveryDate)
+        : delivery.estimatedDeliveryAt;
+    const totalAmount = roundCurrency(subtotal - discountAmount + taxAmount + deliveryFee);
+
+    return {
+      address,
+      cartItems,
+      coupon,
+      lines,
+      subtotal,
+      discountAmount,
+      taxAmount,
+      cgstAmount,
+      sgstAmount,
+      igstAmount,
+      deliveryFee,
+      estimatedDeliveryAt,
+      totalAmount,
+    };
+  }
+
+  private toCheckoutEstimate(pricing: {
+    subtotal: number;
+    taxAmount: number;
+    deliveryFee: number;
+    discountAmount: number;
+    totalAmount: number;
+    estimatedDeliveryAt: Date;
+  }): CheckoutEstimate {
+    return {
+      subtotal: pricing.subtotal,
+      taxAmount: pricing.taxAmount,
+      deliveryFee: pricing.deliveryFee,
+      discountAmount: pricing.discountAmount,
+      totalAmount: pricing.totalAmount,
+      estimatedDeliveryAt: pricing.estimatedDeliveryAt,
+    };
+  }
+
+  /**
+   * Compute per-line GST using each product's rate; supply is inter-state
+   * (IGST) when the fulfilling warehouse and delivery address are in different states
+   */
+  private calculateLineTaxes<
+    T extends {
+      quantity: number;
+      price: number;
+      product: { taxRate: number };
+      warehouse: { state: string };
+    },
+  >(cartItems: T[], deliveryState: string, lineDiscounts: number[] = []) {
+    return cartItems.map((cartItem, index) => {
+      const totalPrice = roundCurrency(cartItem.quantity * cartItem.price);
+      const discountAmount = lineDiscounts[index] ?? 0;
+      const interState = isInterStateSupply(cartItem.warehouse.state, deliveryState);
+      const gst = calculateGST(roundCurrency(totalPrice - discountAmount), cartItem.product.taxRate, interState);
+
+      return {
+        cartItem,
+        totalPrice,
+        discountAmount,
+        taxRate: cartItem.product.taxRate,
+        taxAmount: gst.gstAmount,
+        cgstAmount: gst.cgst,
+        sgstAmount: gst.sgst,
+        igstAmount: gst.igst,
+      };
+    });
+  }
+
+  private async resolveCartVariant(cartData: AddToCartDto) {
+    if (cartData.variantId) {
+      const variant = await this.productsService.findVariantById(cartData.variantId);
+      if (cartData.productId && variant.productId !== cartData.productId) {
+        throw new BadRequestException('Variant does not belong to the given product');
+      }
+      return variant;
+    }
+
+    if (!cartData.productId) {
+      throw new BadRequestException('variantId is required');
+    }
+
+    // Single-variant products can still be added by product ID
+    const product = await this.productsService.findById(cartData.productId);
+    const activeVariants = product.variants.filter((variant) => variant.isActive);
+    if (activeVariants.length !== 1) {
+      throw new BadRequestException('Select a variant for this product');
+    }
+    return this.productsService.findVariantById(activeVariants[0].id);
+  }
+
+  private toCouponLines(
+    cartItems: { quantity: number; price: number; product: { categoryId: string; brandId: string | null } }[],
+  ) {
+    return cartItems.map((cartItem) => ({
+      totalPrice: roundCurrency(cartItem.quantity * cartItem.price),
+      product: cartItem.product,
+    }));
+  }
+
   private async generateOrderNumber(): Promise<string> {
     const today = new Date();
     const year = today.getFullYear().toString().slice(-2);
@@ -882,7 +1507,14 @@ export class OrdersService {
       [OrderStatus.PENDING]: [OrderStatus.CONFIRMED, OrderStatus.CANCELLED],
       [OrderStatus.CONFIRMED]: [OrderStatus.PROCESSING, OrderStatus.CANCELLED],
       [OrderStatus.PROCESSING]: [OrderStatus.SHIPPED, OrderStatus.CANCELLED],
-      [OrderStatus.SHIPPED]: [OrderStatus.DELIVERED, OrderStatus.CANCELLED, OrderStatus.RETURNED],
+      [OrderStatus.PARTIALLY_SHIPPED]: [OrderStatus.SHIPPED, OrderStatus.PARTIALLY_DELIVERED],
+      [OrderStatus.SHIPPED]: [
+        OrderStatus.PARTIALLY_DELIVERED,
+        OrderStatus.DELIVERED,
+        OrderStatus.CANCELLED,
+        OrderStatus.RETURNED,
+      ],
+      [OrderStatus.PARTIALLY_DELIVERED]: [OrderStatus.DELIVERED, OrderStatus.RETURNED],
       [OrderStatus.DELIVERED]: [OrderStatus.RETURNED],
       [OrderStatus.CANCELLED]: [],
       [OrderStatus.RETURNED]: [],
@@ -891,50 +1523,158 @@ export class OrdersService {
     return validTransitions[currentStatus]?.includes(newStatus) || false;
   }
 
-  private async releaseOrderInventory(orderId: string) {
-    const orderItems = await this.prisma.orderItem.findMany({
-      where: { orderId },
+  /**
+   * Atomically reserve stock for each line. The update only applies while
+   * quantity - reservedQuantity covers the line, so concurrent checkouts cannot oversell.
+   * Units in expired batches are not for sale; the rest are allocated from batches FEFO.
+   */
+  private async reserveInventory(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    items: {
+      orderItemId: string;
+      warehouseId: string;
+      productId: string;
+      variantId: string;
+      quantity: number;
+      variant: { sku: string };
+    }[],
+  ) {
+    const shortages: StockShortage[] = [];
+
+    for (const item of items) {
+      const ref = { warehouseId: item.warehouseId, variantId: item.variantId };
+      const expiredQuantity = await this.inventoryBatchesService.getExpiredQuantity(tx, ref);
+
+      const reserved = await tx.$executeRaw`
+        UPDATE "inventory"
+        SET "reservedQuantity" = "reservedQuantity" + ${item.quantity}, "updatedAt" = NOW()
+        WHERE "warehouseId" = ${item.warehouseId}
+          AND "variantId" = ${item.variantId}
+          AND "quantity" - "reservedQuantity" - ${expiredQuantity} >= ${item.quantity}
+      `;
+      if (reserved > 0) {
+        await this.inventoryBatchesService.allocateFefo(tx, item.orderItemId, ref, item.quantity);
+        await this.stockLedgerService.recordMovement(tx, {
+          warehouseId: item.warehouseId,
+          productId: item.productId,
+          variantId: item.variantId,
+          type: StockMovementType.RESERVATION,
+          reservedChange: item.quantity,
+          referenceType: 'ORDER',
+          referenceId: orderId,
+        });
+      } else {
+        const inventory = await tx.inventory.findUnique({
+          where: {
+            warehouseId_variantId: {
+              warehouseId: item.warehouseId,
+              variantId: item.variantId,
+            },
+          },
+        });
+        shortages.push({
+          variantId: item.variantId,
+          sku: item.variant.sku,
+          warehouseId: item.warehouseId,
+          requested: item.quantity,
+          available: inventory ? Math.max(inventory.quantity - inventory.reservedQuantity - expiredQuantity, 0) : 0,
+        });
+      }
+    }
+
+    if (shortages.length > 0) {
+      throw new InsufficientStockException(shortages);
+    }
+  }
+
+  /**
+   * Cancel every line that has not left the warehouse and put its open quantity back:
+   * as a released reservation before confirmation, or as on-hand stock after it.
+   */
+  private async cancelUnshippedItems(
+    orderId: string,
+    stockDeducted: boolean,
+    reason: string,
+    client: Prisma.TransactionClient,
+  ) {
+    const orderItems = await client.orderItem.findMany({
+      where: {
+        orderId,
+        fulfilmentStatus: { in: [FulfilmentStatus.PENDING, FulfilmentStatus.BACKORDERED] },
+      },
     });
 
     for (const item of orderItems) {
-      await this.prisma.inventory.update({
-        where: {
-          warehouseId_productId: {
-            warehouseId: item.warehouseId,
-            productId: item.productId,
-          },
-        },
+      await this.returnItemStock(item, item.quantity - item.quantityCancelled, stockDeducted, reason, client);
+      await client.orderItem.update({
+        where: { id: item.id },
         data: {
-          reservedQuantity: {
-            decrement: item.quantity,
-          },
+          quantityCancelled: item.quantity,
+          fulfilmentStatus: FulfilmentStatus.CANCELLED,
         },
       });
     }
   }
 
-  private async deductOrderInventory(orderId: string) {
-    const orderItems = await this.prisma.orderItem.findMany({
-      where: { orderId },
+  private async returnItemStock(
+    item: {
+      id: string;
+      orderId: string;
+      warehouseId: string;
+      productId: string;
+      variantId: string;
+      quantity: number;
+      quantityCancelled: number;
+    },
+    quantity: number,
+    stockDeducted: boolean,
+    reason: string,
+    client: Prisma.TransactionClient,
+  ) {
+    if (quantity <= 0) {
+      return;
+    }
+
+    await this.stockLedgerService.applyMovement(client, {
+      warehouseId: item.warehouseId,
+      productId: item.productId,
+      variantId: item.variantId,
+      ...(stockDeducted
+        ? { type: StockMovementType.RETURN, quantityChange: quantity }
+        : { type: StockMovementType.RELEASE, reservedChange: -quantity }),
+      reason,
+      referenceType: 'ORDER',
+      referenceId: item.orderId,
+    });
+    await this.inventoryBatchesService.releaseAllocations(client, item, quantity);
+  }
+
+  private async deductOrderInventory(orderId: string, tx: Prisma.TransactionClient) {
+    const orderItems = await tx.orderItem.findMany({
+      where: {
+        orderId,
+        fulfilmentStatus: { not: FulfilmentStatus.CANCELLED },
+      },
     });
 
     for (const item of orderItems) {
-      await this.prisma.inventory.update({
-        where: {
-          warehouseId_productId: {
-            warehouseId: item.warehouseId,
-            productId: item.productId,
-          },
-        },
-        data: {
-          quantity: {
-            decrement: item.quantity,
-          },
-          reservedQuantity: {
-            decrement: item.quantity,
-          },
-        },
+      const openQuantity = item.quantity - item.quantityCancelled;
+      if (openQuantity <= 0) {
+        continue;
+      }
+
+      await this.stockLedgerService.applyMovement(tx, {
+        warehouseId: item.warehouseId,
+        productId: item.productId,
+        variantId: item.variantId,
+        type: StockMovementType.DISPATCH,
+        quantityChange: -openQuantity,
+        reservedChange: -openQuantity,
+        referenceType: 'ORDER',
+        referenceId: orderId,
       });
+      await this.inventoryBatchesService.dispatchAllocations(tx, item.id);
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,80 @@
+import { Injectable } from '@nestjs/common';
+import * as crypto from 'crypto';
+import {
+  RazorpayClient,
+  RazorpayOrderRequest,
+  RazorpayOrderResponse,
+  RazorpayRefundResponse,
+} from './razorpay.client';
+import { SettlementReportEntry } from './settlement-report-client.interface';
+
+export interface FakeRazorpayRefund {
+  razorpayPaymentId: string;
+  amount: number;
+  notes: Record<string, string>;
+  response: RazorpayRefundResponse;
+}
+
+/**
+ * In-memory stand-in for the Razorpay gateway, for specs and local environments.
+ * Orders and refunds are kept so callers can inspect what was sent; refunds settle
+ * with `refundStatus` unless `failRefunds` is set.
+ */
+@Injectable()
+export class FakeRazorpayClient implements Pick<RazorpayClient, keyof RazorpayClient> {
+  readonly name = 'razorpay';
+  readonly orders: RazorpayOrderResponse[] = [];
+  readonly refunds: FakeRazorpayRefund[] = [];
+  readonly settlementEntries: SettlementReportEntry[] = [];
+  refundStatus: RazorpayRefundResponse['status'] = 'processed';
+  failRefunds = false;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async createOrder(request: RazorpayOrderRequest): Promise<RazorpayOrderResponse> {
+    const order: RazorpayOrderResponse = {
+      id: `order_${crypto.randomUUID()}`,
+      amount: request.amount,
+      currency: request.currency,
+      receipt: request.receipt,
+      status: 'created',
+    };
+    this.orders.push(order);
+    return order;
+  }
+
+  async refundPayment(
+    razorpayPaymentId: string,
+    amount: number,
+    notes: Record<string, string> = {},
+  ): Promise<RazorpayRefundResponse> {
+    if (this.failRefunds) {
+      throw new Error('Refund declined by the fake gateway');
+    }
+
+    const response: RazorpayRefundResponse = {
+      id: `rfnd_${crypto.randomUUID()}`,
+      payment_id: razorpayPaymentId,
+      amount,
+      status: this.refundStatus,
+    };
+    this.refunds.push({ razorpayPaymentId, amount, notes, response });
+    return response;
+  }
+
+  async fetchSettlementReport(date: Date): Promise<SettlementReportEntry[]> {
+    return this.settlementEntries.filter(
+      (entry) => entry.settledAt && entry.settledAt.toDateString() === date.toDateString(),
+    );
+  }
+
+  clear(): void {
+    this.orders.length = 0;
+    this.refunds.length = 0;
+    this.settlementEntries.length = 0;
+    this.refundStatus = 'processed';
+    this.failRefunds = false;
+  }
+}
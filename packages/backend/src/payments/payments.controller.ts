@@ -6,23 +6,253 @@ import {
   Body,
   Param,
   Query,
+  Headers,
+  Req,
+  HttpCode,
+  Res,
   UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  BadRequestException,
+  ValidationPipe,
+  RawBodyRequest,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Request, Response } from 'express';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiParam, ApiConsumes } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
 import { PaymentsService } from './payments.service';
+import { RefundsService } from './refunds.service';
+import { ReconciliationService } from './reconciliation.service';
+import { InvoicesService } from '../invoices/invoices.service';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../common/guards/roles.guard';
 import { Roles } from '../common/decorators/roles.decorator';
 import { User } from '../common/decorators/user.decorator';
 import { Public } from '../common/decorators/public.decorator';
-import { UserRole, PaymentStatus, PaymentMethod } from '@mawell/shared';
+import {
+  UserRole,
+  PaymentStatus,
+  PaymentMethod,
+  RefundReason,
+  RefundStatus,
+  RefundMethod,
+  ReconciliationSource,
+  ReconciliationRunStatus,
+  ReconciliationExceptionType,
+  ReconciliationExceptionStatus,
+} from '@mawell/shared';
+
+// DTOs
+class RefundItemRequestDto {
+  @IsString()
+  orderItemId: string;
+
+  @IsInt()
+  @Min(1)
+  quantity: number;
+}
+
+class CreateRefundRequestDto {
+  @IsEnum(RefundReason)
+  reason: RefundReason;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0.01)
+  amount?: number;
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => RefundItemRequestDto)
+  items?: RefundItemRequestDto[];
+
+  @IsOptional()
+  @IsBoolean()
+  restock?: boolean;
+
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+class RefundFiltersDto {
+  @IsOptional()
+  @IsEnum(RefundStatus)
+  status?: RefundStatus;
+
+  @IsOptional()
+  @IsEnum(RefundReason)
+  reason?: RefundReason;
+
+  @IsOptional()
+  @IsEnum(RefundMethod)
+  method?: RefundMethod;
+
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
+
+class PaymentHistoryFiltersDto {
+  @IsOptional()
+  @IsEnum(PaymentStatus)
+  status?: PaymentStatus;
+
+  @IsOptional()
+  @IsEnum(PaymentMethod)
+  method?: PaymentMethod;
+
+  @IsOptional()
+  @IsString()
+  buyerId?: string;
+
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
+
+class PaymentAnalyticsFiltersDto {
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+}
+
+class ReconciliationPeriodDto {
+  @IsOptional()
+  @IsDateString()
+  periodStart?: string;
+
+  @IsOptional()
+  @IsDateString()
+  periodEnd?: string;
+}
+
+class FetchSettlementReportRequestDto extends ReconciliationPeriodDto {
+  @IsDateString()
+  reportDate: string;
+}
+
+class ReconciliationRunFiltersDto {
+  @IsOptional()
+  @IsEnum(ReconciliationSource)
+  source?: ReconciliationSource;
+
+  @IsOptional()
+  @IsEnum(ReconciliationRunStatus)
+  status?: ReconciliationRunStatus;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
+
+class ReconciliationExceptionFiltersDto {
+  @IsOptional()
+  @IsString()
+  runId?: string;
+
+  @IsOptional()
+  @IsEnum(ReconciliationExceptionType)
+  type?: ReconciliationExceptionType;
+
+  @IsOptional()
+  @IsEnum(ReconciliationExceptionStatus)
+  status?: ReconciliationExceptionStatus;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
+
+class ResolveReconciliationExceptionRequestDto {
+  @IsString()
+  @IsNotEmpty()
+  note: string;
+}
 
 @ApiTags('Payments')
 @Controller('payments')
 @UseGuards(JwtAuthGuard, RolesGuard)
 @ApiBearerAuth()
 export class PaymentsController {
-  constructor(private readonly paymentsService: PaymentsService) {}
+  constructor(
+    private readonly paymentsService: PaymentsService,
+    private readonly refundsService: RefundsService,
+    private readonly reconciliationService: ReconciliationService,
+    private readonly invoicesService: InvoicesService,
+  ) {}
 
   @Post('initiate')
   @ApiOperation({ summary: 'Initiate payment for order' })
@@ -30,7 +260,6 @@ export class PaymentsController {
   async initiatePayment(
     @Body() paymentData: {
       orderId: string;
-      amount: number;
       method: PaymentMethod;
       currency?: string;
     },
@@ -57,13 +286,155 @@ export class PaymentsController {
   @Get('history')
   @ApiOperation({ summary: 'Get payment history' })
   @ApiResponse({ status: 200, description: 'Payment history retrieved successfully' })
-  async getPaymentHistory(
-    @Query('page') page: number = 1,
-    @Query('limit') limit: number = 20,
-    @Query('status') status?: PaymentStatus,
-    @User() user?: any,
+  async getPaymentHistory(@Query(ValidationPipe) filters: PaymentHistoryFiltersDto, @User() user: any) {
+    return this.paymentsService.getPaymentHistory(
+      {
+        ...filters,
+        startDate: filters.startDate ? new Date(filters.startDate) : undefined,
+        endDate: filters.endDate ? new Date(filters.endDate) : undefined,
+      },
+      user.id,
+      user.role,
+    );
+  }
+
+  @Post('orders/:orderId/refunds')
+  @Roles(UserRole.ADMIN, UserRole.OPS)
+  @ApiOperation({ summary: 'Refund an order, specific items or an amount (Admin/OPS)' })
+  @ApiParam({ name: 'orderId', description: 'Order ID' })
+  @ApiResponse({ status: 201, description: 'Refund created successfully' })
+  @ApiResponse({ status: 400, description: 'Order cannot be refunded for this amount' })
+  async createRefund(
+    @Param('orderId') orderId: string,
+    @Body(ValidationPipe) refundData: CreateRefundRequestDto,
+    @User() user: any,
+  ) {
+    return this.refundsService.createRefund(orderId, refundData, user.id, user.role);
+  }
+
+  @Get('orders/:orderId/refunds')
+  @ApiOperation({ summary: 'Get refunds of an order' })
+  @ApiParam({ name: 'orderId', description: 'Order ID' })
+  @ApiResponse({ status: 200, description: 'Refunds retrieved successfully' })
+  async getOrderRefunds(@Param('orderId') orderId: string, @User() user: any) {
+    return this.refundsService.findOrderRefunds(orderId, user.id, user.role);
+  }
+
+  @Get('refunds')
+  @Roles(UserRole.ADMIN, UserRole.OPS)
+  @ApiOperation({ summary: 'Get refunds (Admin/OPS)' })
+  @ApiResponse({ status: 200, description: 'Refunds retrieved successfully' })
+  async getRefunds(@Query(ValidationPipe) filters: RefundFiltersDto, @User() user: any) {
+    return this.refundsService.findRefunds(
+      {
+        ...filters,
+        startDate: filters.startDate ? new Date(filters.startDate) : undefined,
+        endDate: filters.endDate ? new Date(filters.endDate) : undefined,
+      },
+      user.role,
+    );
+  }
+
+  @Get('refunds/:refundId/credit-note')
+  @ApiOperation({ summary: 'Download the credit note of a refund' })
+  @ApiParam({ name: 'refundId', description: 'Refund ID' })
+  @ApiResponse({ status: 200, description: 'Credit note PDF' })
+  @ApiResponse({ status: 404, description: 'Credit note not issued yet' })
+  async downloadCreditNote(
+    @Param('refundId') refundId: string,
+    @Res() res: Response,
+    @User() user: any,
+  ) {
+    return this.invoicesService.downloadCreditNote(refundId, res, user.id, user.role);
+  }
+
+  @Post('reconciliation/import')
+  @Roles(UserRole.ADMIN, UserRole.OPS)
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiOperation({ summary: 'Reconcile an uploaded settlement report CSV (Admin/OPS)' })
+  @ApiConsumes('multipart/form-data')
+  @ApiResponse({ status: 201, description: 'Reconciliation run completed' })
+  @ApiResponse({ status: 400, description: 'Invalid settlement report' })
+  async importSettlementReport(
+    @UploadedFile() file: Express.Multer.File,
+    @Body(ValidationPipe) period: ReconciliationPeriodDto,
+    @User() user: any,
   ) {
-    return this.paymentsService.getPaymentHistory(user.id, page, limit, status);
+    if (!file) {
+      throw new BadRequestException('Settlement report CSV is required');
+    }
+    return this.reconciliationService.importSettlementReport(
+      file.buffer.toString('utf8'),
+      file.originalname,
+      {
+        periodStart: period.periodStart ? new Date(period.periodStart) : undefined,
+        periodEnd: period.periodEnd ? new Date(period.periodEnd) : undefined,
+      },
+      user.id,
+      user.role,
+    );
+  }
+
+  @Post('reconciliation/fetch')
+  @Roles(UserRole.ADMIN, UserRole.OPS)
+  @ApiOperation({ summary: "Fetch and reconcile a day's settlement report from the gateway (Admin/OPS)" })
+  @ApiResponse({ status: 201, description: 'Reconciliation run recorded' })
+  async fetchSettlementReport(
+    @Body(ValidationPipe) request: FetchSettlementReportRequestDto,
+    @User() user: any,
+  ) {
+    return this.reconciliationService.fetchAndReconcile(
+      new Date(request.reportDate),
+      {
+        periodStart: request.periodStart ? new Date(request.periodStart) : undefined,
+        periodEnd: request.periodEnd ? new Date(request.periodEnd) : undefined,
+      },
+      user.id,
+      user.role,
+    );
+  }
+
+  @Get('reconciliation/runs')
+  @Roles(UserRole.ADMIN, UserRole.OPS)
+  @ApiOperation({ summary: 'List reconciliation runs (Admin/OPS)' })
+  @ApiResponse({ status: 200, description: 'Reconciliation runs retrieved successfully' })
+  async getReconciliationRuns(@Query(ValidationPipe) filters: ReconciliationRunFiltersDto, @User() user: any) {
+    return this.reconciliationService.findRuns(filters, user.role);
+  }
+
+  @Get('reconciliation/runs/:runId')
+  @Roles(UserRole.ADMIN, UserRole.OPS)
+  @ApiOperation({ summary: 'Get a reconciliation run with its exceptions (Admin/OPS)' })
+  @ApiParam({ name: 'runId', description: 'Reconciliation run ID' })
+  @ApiResponse({ status: 200, description: 'Reconciliation run retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Reconciliation run not found' })
+  async getReconciliationRun(@Param('runId') runId: string, @User() user: any) {
+    return this.reconciliationService.findRunById(runId, user.role);
+  }
+
+  @Get('reconciliation/exceptions')
+  @Roles(UserRole.ADMIN, UserRole.OPS)
+  @ApiOperation({ summary: 'List reconciliation exceptions (Admin/OPS)' })
+  @ApiResponse({ status: 200, description: 'Reconciliation exceptions retrieved successfully' })
+  async getReconciliationExceptions(
+    @Query(ValidationPipe) filters: ReconciliationExceptionFiltersDto,
+    @User() user: any,
+  ) {
+    return this.reconciliationService.findExceptions(filters, user.role);
+  }
+
+  @Put('reconciliation/exceptions/:exceptionId/resolve')
+  @Roles(UserRole.ADMIN, UserRole.OPS)
+  @ApiOperation({ summary: 'Resolve a reconciliation exception with a note (Admin/OPS)' })
+  @ApiParam({ name: 'exceptionId', description: 'Reconciliation exception ID' })
+  @ApiResponse({ status: 200, description: 'Exception resolved' })
+  @ApiResponse({ status: 404, description: 'Reconciliation exception not found' })
+  async resolveReconciliationException(
+    @Param('exceptionId') exceptionId: string,
+    @Body(ValidationPipe) resolution: ResolveReconciliationExceptionRequestDto,
+    @User() user: any,
+  ) {
+    return this.reconciliationService.resolveException(exceptionId, resolution.note, user.id, user.role);
   }
 
   @Get(':paymentId')
@@ -88,27 +459,36 @@ export class PaymentsController {
     },
     @User() user: any,
   ) {
-    return this.paymentsService.processRefund(paymentId, refundData, user.id);
+    return this.refundsService.refundPayment(paymentId, refundData, user.id, user.role);
   }
 
   @Post('webhook/razorpay')
   @Public()
+  @HttpCode(200)
   @ApiOperation({ summary: 'Razorpay webhook endpoint' })
   @ApiResponse({ status: 200, description: 'Webhook processed successfully' })
-  async handleRazorpayWebhook(@Body() webhookData: any) {
-    return this.paymentsService.handleRazorpayWebhook(webhookData);
+  @ApiResponse({ status: 401, description: 'Invalid webhook signature' })
+  async handleRazorpayWebhook(
+    @Req() req: RawBodyRequest<Request>,
+    @Headers('x-razorpay-signature') signature?: string,
+    @Headers('x-razorpay-event-id') eventId?: string,
+  ) {
+    return this.paymentsService.handleRazorpayWebhook(req.rawBody, signature, eventId);
   }
 
   @Get('admin/analytics')
   @Roles(UserRole.ADMIN, UserRole.OPS)
   @ApiOperation({ summary: 'Get payment analytics' })
   @ApiResponse({ status: 200, description: 'Payment analytics retrieved successfully' })
-  async getPaymentAnalytics(
-    @Query('startDate') startDate?: string,
-    @Query('endDate') endDate?: string,
-    @User() user?: any,
-  ) {
-    return this.paymentsService.getPaymentAnalytics(startDate, endDate, user.id, user.role);
+  async getPaymentAnalytics(@Query(ValidationPipe) filters: PaymentAnalyticsFiltersDto, @User() user: any) {
+    return this.paymentsService.getPaymentAnalytics(
+      {
+        startDate: filters.startDate ? new Date(filters.startDate) : undefined,
+        endDate: filters.endDate ? new Date(filters.endDate) : undefined,
+      },
+      user.id,
+      user.role,
+    );
   }
 
   @Get('health')
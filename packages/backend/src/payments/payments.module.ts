@@ -1,13 +1,38 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { PaymentsController } from './payments.controller';
 import { PaymentsService } from './payments.service';
+import { RefundsService } from './refunds.service';
+import { ReconciliationService } from './reconciliation.service';
+import { PaymentsScheduler } from './payments.scheduler';
+import { RazorpayClient } from './razorpay.client';
+import { SETTLEMENT_REPORT_CLIENT } from './settlement-report-client.interface';
 import { PrismaModule } from '../prisma/prisma.module';
+import { CommonModule } from '../common/common.module';
 import { OrdersModule } from '../orders/orders.module';
+import { InvoicesModule } from '../invoices/invoices.module';
+import { CreditModule } from '../credit/credit.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { ProductsModule } from '../products/products.module';
 
 @Module({
-  imports: [PrismaModule, OrdersModule],
+  imports: [
+    PrismaModule,
+    CommonModule,
+    forwardRef(() => OrdersModule),
+    InvoicesModule,
+    CreditModule,
+    NotificationsModule,
+    ProductsModule,
+  ],
   controllers: [PaymentsController],
-  providers: [PaymentsService],
-  exports: [PaymentsService],
+  providers: [
+    PaymentsService,
+    RefundsService,
+    ReconciliationService,
+    PaymentsScheduler,
+    RazorpayClient,
+    { provide: SETTLEMENT_REPORT_CLIENT, useExisting: RazorpayClient },
+  ],
+  exports: [PaymentsService, RefundsService, RazorpayClient],
 })
-export class PaymentsModule {}
\ No newline at end of file
+export class PaymentsModule {}
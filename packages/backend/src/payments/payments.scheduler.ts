@@ -0,0 +1,28 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { ReconciliationService } from './reconciliation.service';
+
+@Injectable()
+export class PaymentsScheduler {
+  private readonly logger = new Logger(PaymentsScheduler.name);
+
+  constructor(private readonly reconciliationService: ReconciliationService) {}
+
+  /**
+   * Reconcile yesterday's gateway settlements each morning, once the report is final
+   */
+  @Cron('0 9 * * *', { timeZone: 'Asia/Kolkata' })
+  async reconcileSettlements() {
+    if (!this.reconciliationService.isReportClientConfigured()) {
+      return;
+    }
+
+    try {
+      const reportDate = new Date(Date.now() - 24 * 60 * 60 * 1000);
+      const run = await this.reconciliationService.fetchAndReconcile(reportDate, {});
+      this.logger.log(`Settlement reconciliation finished with status ${run.status}`);
+    } catch (error) {
+      this.logger.error('Failed to reconcile settlements', error.stack);
+    }
+  }
+}
@@ -0,0 +1,330 @@
+import { ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import * as crypto from 'crypto';
+import { NotificationType, OrderStatus, PaymentMethod, PaymentStatus, RefundStatus } from '@mawell/shared';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../common/services/audit.service';
+import { ValidationService } from '../common/services/validation.service';
+import { CreditService } from '../credit/credit.service';
+import { InvoicesService } from '../invoices/invoices.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { OrdersService } from '../orders/orders.service';
+import { StockLedgerService } from '../products/stock-ledger.service';
+import { FakeRazorpayClient } from './fake-razorpay.client';
+import { PaymentsService } from './payments.service';
+import { RazorpayClient } from './razorpay.client';
+import { RefundsService } from './refunds.service';
+
+const WEBHOOK_SECRET = 'webhook-secret';
+
+const model = () => ({
+  findUnique: jest.fn(),
+  findUniqueOrThrow: jest.fn(),
+  findFirst: jest.fn(),
+  findMany: jest.fn(),
+  create: jest.fn(),
+  update: jest.fn(),
+  updateMany: jest.fn(),
+  aggregate: jest.fn(),
+});
+
+// Each interactive transaction runs against the same mocked client
+const createPrismaMock = () => {
+  const prisma = {
+    payment: model(),
+    order: model(),
+    refund: model(),
+    refundItem: model(),
+    paymentWebhookEvent: model(),
+    $transaction: jest.fn(),
+  };
+  prisma.$transaction.mockImplementation((run) => run(prisma));
+  return prisma;
+};
+
+const sign = (body: string) => crypto.createHmac('sha256', WEBHOOK_SECRET).update(body).digest('hex');
+
+describe('PaymentsService', () => {
+  let service: PaymentsService;
+  let prisma: ReturnType<typeof createPrismaMock>;
+  let gateway: FakeRazorpayClient;
+  const ordersService = { fulfilConfirmedOrder: jest.fn() };
+  const invoicesService = { handleOrderStatusChange: jest.fn(), generateCreditNote: jest.fn() };
+  const notificationsService = { notify: jest.fn(), notifyOrderStatus: jest.fn() };
+
+  const payment = {
+    id: 'payment-1',
+    orderId: 'order-1',
+    razorpayOrderId: 'order_rzp_1',
+    razorpayPaymentId: null,
+    amount: 1180,
+    amountRefunded: 0,
+    status: PaymentStatus.PENDING,
+  };
+  const order = {
+    id: 'order-1',
+    orderNumber: 'ORD-1',
+    buyerId: 'buyer-1',
+    status: OrderStatus.PENDING,
+    paymentStatus: PaymentStatus.PAID,
+    totalAmount: 1180,
+    cancelledAmount: 0,
+  };
+
+  const deliver = (event: string, payload: Record<string, unknown>, eventId = `evt_${event}`) => {
+    const body = JSON.stringify({ event, payload, created_at: 1700000000 });
+    return service.handleRazorpayWebhook(Buffer.from(body), sign(body), eventId);
+  };
+
+  const paymentEntity = { id: 'pay_rzp_1', order_id: 'order_rzp_1', amount: 118000, status: 'captured' };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    prisma = createPrismaMock();
+    prisma.paymentWebhookEvent.findUnique.mockResolvedValue(null);
+    prisma.payment.findFirst.mockResolvedValue(payment);
+    prisma.payment.findUnique.mockResolvedValue(payment);
+    prisma.payment.aggregate.mockResolvedValue({ _sum: { amount: null } });
+    prisma.order.findUniqueOrThrow.mockResolvedValue({ ...order, paymentStatus: PaymentStatus.PENDING });
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        PaymentsService,
+        RefundsService,
+        { provide: RazorpayClient, useClass: FakeRazorpayClient },
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => (key === 'razorpay.webhookSecret' ? WEBHOOK_SECRET : undefined) },
+        },
+        { provide: ValidationService, useValue: {} },
+        { provide: AuditService, useValue: {} },
+        { provide: CreditService, useValue: {} },
+        { provide: StockLedgerService, useValue: {} },
+        { provide: OrdersService, useValue: ordersService },
+        { provide: InvoicesService, useValue: invoicesService },
+        { provide: NotificationsService, useValue: notificationsService },
+      ],
+    }).compile();
+
+    service = moduleRef.get(PaymentsService);
+    gateway = moduleRef.get(RazorpayClient);
+  });
+
+  describe('initiatePayment', () => {
+    it('opens the gateway order for what the buyer still owes', async () => {
+      prisma.order.findUnique.mockResolvedValue({ ...order, cancelledAmount: 180 });
+      prisma.payment.create.mockImplementation(({ data }) => ({ id: 'payment-2', ...data }));
+
+      const result = await service.initiatePayment({ orderId: order.id, method: PaymentMethod.UPI }, order.buyerId);
+
+      expect(gateway.orders).toEqual([expect.objectContaining({ amount: 100000 })]);
+      expect(result.data.amount).toBe(1000);
+    });
+
+    it("refuses to open a payment on another buyer's order", async () => {
+      prisma.order.findUnique.mockResolvedValue(order);
+
+      await expect(
+        service.initiatePayment({ orderId: order.id, method: PaymentMethod.UPI }, 'buyer-2'),
+      ).rejects.toThrow(ForbiddenException);
+      expect(gateway.orders).toHaveLength(0);
+    });
+  });
+
+  it('rejects a webhook with a bad signature', async () => {
+    const body = JSON.stringify({ event: 'payment.captured', payload: {}, created_at: 1700000000 });
+
+    await expect(service.handleRazorpayWebhook(Buffer.from(body), sign('tampered'), 'evt_1')).rejects.toThrow(
+      UnauthorizedException,
+    );
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('acknowledges a redelivered event without applying it again', async () => {
+    prisma.paymentWebhookEvent.findUnique.mockResolvedValue({ eventId: 'evt_1', status: 'PROCESSED' });
+
+    const result = await deliver('payment.captured', { payment: { entity: paymentEntity } }, 'evt_1');
+
+    expect(result.message).toBe('Webhook already processed');
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  describe('payment.captured', () => {
+    beforeEach(() => {
+      prisma.payment.updateMany.mockResolvedValue({ count: 1 });
+      prisma.order.update.mockResolvedValue(order);
+      prisma.order.updateMany.mockResolvedValue({ count: 1 });
+    });
+
+    it('captures the payment and fulfils the order in the event transaction', async () => {
+      const result = await deliver('payment.captured', { payment: { entity: paymentEntity } });
+
+      expect(result.data.status).toBe('PROCESSED');
+      expect(prisma.payment.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ status: PaymentStatus.PAID }) }),
+      );
+      expect(ordersService.fulfilConfirmedOrder).toHaveBeenCalledWith(order.id, prisma);
+      expect(prisma.paymentWebhookEvent.create).toHaveBeenCalled();
+      expect(invoicesService.handleOrderStatusChange).toHaveBeenCalledWith(order.id, OrderStatus.CONFIRMED);
+      expect(notificationsService.notify).toHaveBeenCalledWith(
+        order.buyerId,
+        NotificationType.PAYMENT_RECEIVED,
+        expect.anything(),
+        expect.anything(),
+      );
+    });
+
+    it('leaves the event unrecorded when fulfilment fails, so a retry applies it', async () => {
+      ordersService.fulfilConfirmedOrder.mockRejectedValueOnce(new Error('Insufficient stock'));
+
+      await expect(deliver('payment.captured', { payment: { entity: paymentEntity } })).rejects.toThrow(
+        'Insufficient stock',
+      );
+      expect(prisma.paymentWebhookEvent.create).not.toHaveBeenCalled();
+    });
+
+    it('confirms nothing when the payment does not match what the order owes', async () => {
+      prisma.order.findUniqueOrThrow.mockResolvedValue({ ...order, totalAmount: 5000 });
+
+      const result = await deliver('payment.captured', { payment: { entity: paymentEntity } });
+
+      expect(result.data.status).toBe('IGNORED');
+      expect(prisma.payment.updateMany).not.toHaveBeenCalled();
+      expect(ordersService.fulfilConfirmedOrder).not.toHaveBeenCalled();
+      expect(prisma.paymentWebhookEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ status: 'IGNORED', note: expect.stringContaining('5000 is payable') }),
+      });
+    });
+
+    it('ignores a capture already applied', async () => {
+      prisma.payment.findUnique.mockResolvedValue({ ...payment, status: PaymentStatus.PAID });
+
+      await deliver('payment.captured', { payment: { entity: paymentEntity } });
+
+      expect(prisma.payment.updateMany).not.toHaveBeenCalled();
+      expect(notificationsService.notify).not.toHaveBeenCalled();
+    });
+
+    it('refunds a payment captured for a cancelled order', async () => {
+      prisma.order.findUniqueOrThrow.mockResolvedValue({ ...order, status: OrderStatus.CANCELLED });
+      prisma.order.update.mockResolvedValue({ ...order, status: OrderStatus.CANCELLED });
+      prisma.order.updateMany.mockResolvedValue({ count: 0 });
+      prisma.refund.create.mockResolvedValue({ id: 'refund-1', orderId: order.id, amount: payment.amount });
+      prisma.refund.findUnique.mockResolvedValue({
+        id: 'refund-1',
+        orderId: order.id,
+        amount: payment.amount,
+        status: RefundStatus.PENDING,
+        payment: { ...payment, razorpayPaymentId: paymentEntity.id },
+      });
+      gateway.refundStatus = 'pending';
+
+      await deliver('payment.captured', { payment: { entity: paymentEntity } });
+
+      expect(ordersService.fulfilConfirmedOrder).not.toHaveBeenCalled();
+      expect(prisma.refund.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ orderId: order.id, paymentId: payment.id, amount: payment.amount }),
+      });
+      expect(gateway.refunds).toEqual([
+        expect.objectContaining({ razorpayPaymentId: paymentEntity.id, amount: 118000 }),
+      ]);
+    });
+  });
+
+  it('captures the payment on order.paid', async () => {
+    prisma.payment.updateMany.mockResolvedValue({ count: 1 });
+    prisma.order.update.mockResolvedValue(order);
+    prisma.order.updateMany.mockResolvedValue({ count: 1 });
+
+    await deliver('order.paid', {
+      payment: { entity: paymentEntity },
+      order: { entity: { id: 'order_rzp_1', amount_paid: 118000 } },
+    });
+
+    expect(prisma.payment.findFirst).toHaveBeenCalledWith({ where: { razorpayOrderId: 'order_rzp_1' } });
+    expect(ordersService.fulfilConfirmedOrder).toHaveBeenCalledWith(order.id, prisma);
+  });
+
+  it('marks the payment failed on payment.failed', async () => {
+    prisma.payment.updateMany.mockResolvedValue({ count: 1 });
+    prisma.order.findUnique.mockResolvedValue(order);
+
+    const result = await deliver('payment.failed', {
+      payment: { entity: { ...paymentEntity, status: 'failed', error_description: 'Card declined' } },
+    });
+
+    expect(result.data.status).toBe('PROCESSED');
+    expect(prisma.payment.updateMany).toHaveBeenCalledWith({
+      where: { id: payment.id, status: PaymentStatus.PENDING },
+      data: expect.objectContaining({ status: PaymentStatus.FAILED, failureReason: 'Card declined' }),
+    });
+    expect(notificationsService.notify).toHaveBeenCalledWith(
+      order.buyerId,
+      NotificationType.PAYMENT_FAILED,
+      expect.anything(),
+      expect.anything(),
+    );
+  });
+
+  describe('refund events', () => {
+    const refund = {
+      id: 'refund-1',
+      orderId: order.id,
+      paymentId: payment.id,
+      amount: 1180,
+      status: RefundStatus.PENDING,
+      gatewayRefundId: 'rfnd_1',
+      restocked: false,
+    };
+    const refundEntity = { id: 'rfnd_1', payment_id: 'pay_rzp_1', amount: 118000, status: 'processed' };
+
+    beforeEach(() => {
+      prisma.payment.findFirst.mockResolvedValue({ ...payment, status: PaymentStatus.PAID });
+      prisma.refund.findFirst.mockResolvedValue(refund);
+    });
+
+    it('settles the refund on refund.processed', async () => {
+      prisma.refund.updateMany.mockResolvedValue({ count: 1 });
+      prisma.refund.findUniqueOrThrow.mockResolvedValue({
+        ...refund,
+        items: [],
+        order,
+        payment: { ...payment, status: PaymentStatus.PAID },
+      });
+      prisma.refund.aggregate.mockResolvedValue({ _sum: { amount: 1180 } });
+      prisma.refund.findUnique.mockResolvedValue({ ...refund, order });
+      prisma.payment.update.mockResolvedValue({ ...payment, amountRefunded: 1180 });
+
+      await deliver('refund.processed', { refund: { entity: refundEntity } });
+
+      expect(prisma.payment.update).toHaveBeenCalledWith({
+        where: { id: payment.id },
+        data: { amountRefunded: { increment: 1180 } },
+      });
+      expect(prisma.payment.update).toHaveBeenCalledWith({
+        where: { id: payment.id },
+        data: { status: PaymentStatus.REFUNDED },
+      });
+      expect(prisma.order.update).toHaveBeenCalledWith({
+        where: { id: order.id },
+        data: { paymentStatus: PaymentStatus.REFUNDED },
+      });
+      expect(invoicesService.generateCreditNote).toHaveBeenCalledWith(refund.id);
+    });
+
+    it('fails the refund on refund.failed', async () => {
+      prisma.refund.updateMany.mockResolvedValue({ count: 1 });
+      prisma.refundItem.findMany.mockResolvedValue([]);
+
+      await deliver('refund.failed', { refund: { entity: { ...refundEntity, status: 'failed' } } });
+
+      expect(prisma.refund.updateMany).toHaveBeenCalledWith({
+        where: { id: refund.id, status: RefundStatus.PENDING },
+        data: { status: RefundStatus.FAILED, failureReason: 'Refund failed at the gateway' },
+      });
+      expect(invoicesService.generateCreditNote).not.toHaveBeenCalled();
+    });
+  });
+});
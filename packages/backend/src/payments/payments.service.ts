@@ -1,38 +1,112 @@
-import { Injectable, Logger, NotFoundException, ForbiddenException, BadRequestException } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  UnauthorizedException,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import Razorpay from 'razorpay';
 import * as crypto from 'crypto';
+import { Order, Payment, PaymentWebhookStatus, Prisma, Refund } from '@prisma/client';
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
 import { PrismaService } from '../prisma/prisma.service';
+import { ValidationService } from '../common/services/validation.service';
+import { InvoicesService } from '../invoices/invoices.service';
+import { OrdersService } from '../orders/orders.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { RazorpayClient } from './razorpay.client';
+import { RazorpayRefundEntity, RefundsService } from './refunds.service';
 // import { AuditService } from '../audit/audit.service'; // Commented out - service not implemented yet
-import { PaymentStatus, PaymentMethod, UserRole } from '@mawell/shared';
+import {
+  PaymentStatus,
+  PaymentMethod,
+  UserRole,
+  OrderStatus,
+  NotificationType,
+  RefundStatus,
+  roundCurrency,
+} from '@mawell/shared';
+
+export interface PaymentHistoryFilters {
+  status?: PaymentStatus;
+  method?: PaymentMethod;
+  buyerId?: string;
+  startDate?: Date;
+  endDate?: Date;
+  page?: number;
+  limit?: number;
+}
+
+export interface PaymentAnalyticsFilters {
+  startDate?: Date;
+  endDate?: Date;
+}
+
+// Statuses meaning the money came in, even if some of it was refunded later
+const COLLECTED_PAYMENT_STATUSES = [PaymentStatus.PAID, PaymentStatus.PARTIALLY_REFUNDED, PaymentStatus.REFUNDED];
+const DEFAULT_ANALYTICS_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const IST_OFFSET_MS = 330 * 60 * 1000;
+
+interface RazorpayPaymentEntity {
+  id: string;
+  order_id: string;
+  amount: number;
+  status: string;
+  error_description?: string;
+}
+
+export interface RazorpayWebhookEvent {
+  event: string;
+  payload: {
+    payment?: { entity: RazorpayPaymentEntity };
+    order?: { entity: { id: string; amount_paid: number } };
+    refund?: { entity: RazorpayRefundEntity };
+  };
+  created_at: number;
+}
+
+interface PaymentCapture {
+  order: Order;
+  confirmed: boolean;
+  refund?: Refund;
+  // Set when the payment does not match what the order owes; nothing was captured
+  mismatch?: string;
+}
+
+interface WebhookOutcome {
+  status: PaymentWebhookStatus;
+  payment?: Payment;
+  capture?: PaymentCapture;
+  failed?: boolean;
+  settledRefundId?: string;
+  note?: string;
+}
 
 @Injectable()
 export class PaymentsService {
   private readonly logger = new Logger(PaymentsService.name);
-  private razorpay: any;
 
   constructor(
     private readonly prisma: PrismaService,
     private readonly configService: ConfigService,
+    private readonly validationService: ValidationService,
+    private readonly invoicesService: InvoicesService,
+    private readonly ordersService: OrdersService,
+    private readonly notificationsService: NotificationsService,
+    private readonly razorpayClient: RazorpayClient,
+    private readonly refundsService: RefundsService,
     // private readonly auditService: AuditService, // Commented out - service not implemented yet
-  ) {
-    const keyId = this.configService.get('RAZORPAY_KEY_ID');
-    const keySecret = this.configService.get('RAZORPAY_KEY_SECRET');
-    
-    if (keyId && keySecret) {
-      this.razorpay = new Razorpay({
-        key_id: keyId,
-        key_secret: keySecret,
-      });
-    } else {
-      this.logger.warn('Razorpay credentials not configured');
-    }
-  }
+  ) {}
 
+  /**
+   * Open a Razorpay order for what the buyer still owes on their order. The amount is
+   * worked out here, never taken from the request.
+   */
   async initiatePayment(
     paymentData: {
       orderId: string;
-      amount: number;
       method: PaymentMethod;
       currency?: string;
     },
@@ -40,13 +114,29 @@ export class PaymentsService {
   ) {
     this.logger.log(`Initiating payment for order ${paymentData.orderId} by user ${userId}`);
     
-    if (!this.razorpay) {
+    if (!this.razorpayClient.isConfigured()) {
       throw new BadRequestException('Payment gateway not configured');
     }
 
+    const existingOrder = await this.prisma.order.findUnique({ where: { id: paymentData.orderId } });
+    if (!existingOrder) {
+      throw new NotFoundException('Order not found');
+    }
+    if (existingOrder.buyerId !== userId) {
+      throw new ForbiddenException('You can only pay for your own orders');
+    }
+    if (existingOrder.status === OrderStatus.CANCELLED) {
+      throw new BadRequestException('Cancelled orders cannot be paid');
+    }
+
+    const amount = await this.getPayableAmount(this.prisma, existingOrder);
+    if (amount <= 0) {
+      throw new BadRequestException('Nothing is left to pay on this order');
+    }
+
     try {
       const options = {
-        amount: paymentData.amount * 100, // Convert to paise
+        amount: Math.round(amount * 100), // Convert to paise
         currency: paymentData.currency || 'INR',
         receipt: `order_${paymentData.orderId}_${Date.now()}`,
         notes: {
@@ -55,14 +145,14 @@ export class PaymentsService {
         },
       };
 
-      const order = await this.razorpay.orders.create(options);
+      const order = await this.razorpayClient.createOrder(options);
 
       // Save payment record in database
       const payment = await this.prisma.payment.create({
         data: {
           orderId: paymentData.orderId,
           razorpayOrderId: order.id,
-          amount: paymentData.amount,
+          amount,
           currency: options.currency,
           status: PaymentStatus.PENDING,
           paymentMethod: paymentData.method,
@@ -106,7 +196,7 @@ export class PaymentsService {
   ) {
     this.logger.log(`Verifying payment ${verificationData.paymentId} for user ${userId}`);
     
-    if (!this.razorpay) {
+    if (!this.razorpayClient.isConfigured()) {
       throw new BadRequestException('Payment gateway not configured');
     }
 
@@ -124,9 +214,7 @@ export class PaymentsService {
         .update(body.toString())
         .digest('hex');
 
-      const isValid = expectedSignature === verificationData.razorpaySignature;
-
-      // Find and update payment record
+      // Find payment record
       const payment = await this.prisma.payment.findUnique({
         where: { id: verificationData.paymentId },
       });
@@ -135,24 +223,30 @@ export class PaymentsService {
         throw new NotFoundException('Payment record not found');
       }
 
-      await this.prisma.payment.update({
-        where: { id: verificationData.paymentId },
-        data: {
-          razorpayPaymentId: verificationData.razorpayPaymentId,
-          status: isValid ? PaymentStatus.PAID : PaymentStatus.FAILED,
-          updatedAt: new Date(),
-        },
-      });
+      // The signature only proves the Razorpay order was paid, so it must be this payment's order
+      const isValid =
+        expectedSignature === verificationData.razorpaySignature &&
+        payment.razorpayOrderId === verificationData.razorpayOrderId;
 
-      // Update order status if payment is successful
+      // The webhook may already have captured this payment; both paths are idempotent
       if (isValid) {
-        await this.prisma.order.update({
-          where: { id: payment.orderId },
-          data: {
-            paymentStatus: 'PAID',
-            status: 'CONFIRMED',
-          },
-        });
+        const capture = await this.prisma.$transaction((tx) =>
+          this.capturePayment(tx, payment, verificationData.razorpayPaymentId!),
+        );
+        if (capture?.mismatch) {
+          this.logger.warn(`Payment ${payment.id} not captured: ${capture.mismatch}`);
+          throw new BadRequestException('Payment amount does not match the order');
+        }
+        if (capture) {
+          await this.afterPaymentCaptured(payment, capture);
+        }
+      } else {
+        const failed = await this.prisma.$transaction((tx) =>
+          this.failPayment(tx, payment, verificationData.razorpayPaymentId!, 'Signature verification failed'),
+        );
+        if (failed) {
+          await this.afterPaymentFailed(payment);
+        }
       }
 
       // Log audit trail
@@ -183,103 +277,549 @@ export class PaymentsService {
     }
   }
 
+  /**
+   * Get payments with filters and pagination. Buyers only see payments for their own
+   * orders; admins and ops users can filter by buyer.
+   */
   async getPaymentHistory(
-    userId: string,
-    page: number,
-    limit: number,
-    _status?: PaymentStatus,
+    filters: PaymentHistoryFilters,
+    requestingUserId: string,
+    requestingUserRole: UserRole,
   ) {
-    this.logger.log(`Getting payment history for user ${userId}`);
-    
-    // Mock implementation
+    const where: Prisma.PaymentWhereInput = {};
+
+    if (requestingUserRole === UserRole.BUYER) {
+      where.order = { buyerId: requestingUserId };
+    } else if ([UserRole.ADMIN, UserRole.OPS].includes(requestingUserRole)) {
+      if (filters.buyerId) where.order = { buyerId: filters.buyerId };
+    } else {
+      throw new ForbiddenException('Insufficient permissions to view payments');
+    }
+
+    const { page, limit } = this.validationService.validatePagination(filters.page, filters.limit);
+    const skip = (page - 1) * limit;
+
+    if (filters.status) where.status = filters.status;
+    if (filters.method) where.paymentMethod = filters.method;
+    if (filters.startDate || filters.endDate) {
+      where.createdAt = {};
+      if (filters.startDate) where.createdAt.gte = filters.startDate;
+      if (filters.endDate) where.createdAt.lte = filters.endDate;
+    }
+
+    const [payments, total] = await Promise.all([
+      this.prisma.payment.findMany({
+        where,
+        skip,
+        take: limit,
+        include: {
+          order: {
+            select: {
+              orderNumber: true,
+              buyerId: true,
+              status: true,
+              totalAmount: true,
+              buyer: { select: { name: true, phone: true } },
+            },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.payment.count({ where }),
+    ]);
+
     return {
-      items: [],
-      total: 0,
+      payments,
+      total,
       page,
       limit,
-      totalPages: 0,
+      totalPages: Math.ceil(total / limit),
     };
   }
 
-  async getPaymentDetails(paymentId: string, userId: string, _userRole: UserRole) {
-    this.logger.log(`Getting payment details ${paymentId} for user ${userId}`);
-    
-    // Mock implementation
-    return {
-      id: paymentId,
-      orderId: `order_${Date.now()}`,
-      userId,
-      amount: 1000,
-      currency: 'INR',
-      method: PaymentMethod.UPI,
-      status: PaymentStatus.PAID,
-      createdAt: new Date().toISOString(),
-      completedAt: new Date().toISOString(),
-    };
-  }
+  /**
+   * Get payment details with its order and refunds
+   */
+  async getPaymentDetails(paymentId: string, requestingUserId: string, requestingUserRole: UserRole) {
+    const payment = await this.prisma.payment.findUnique({
+      where: { id: paymentId },
+      include: {
+        order: {
+          select: {
+            orderNumber: true,
+            buyerId: true,
+            status: true,
+            paymentStatus: true,
+            totalAmount: true,
+            createdAt: true,
+            buyer: { select: { name: true, phone: true } },
+          },
+        },
+        refunds: {
+          include: { creditNote: true },
+          orderBy: { createdAt: 'desc' },
+        },
+      },
+    });
+    if (!payment) {
+      throw new NotFoundException('Payment not found');
+    }
 
-  async processRefund(
-    paymentId: string,
-    refundData: {
-      amount?: number;
-      reason: string;
-    },
-    adminId: string,
-  ) {
-    this.logger.log(`Processing refund for payment ${paymentId} by admin ${adminId}`);
-    
-    // Mock implementation - in real app, process refund with Razorpay
-    const refund = {
-      id: `rfnd_${Date.now()}`,
-      paymentId,
-      amount: refundData.amount,
-      reason: refundData.reason,
-      status: 'processed',
-      processedBy: adminId,
-      processedAt: new Date().toISOString(),
-    };
+    if (![UserRole.ADMIN, UserRole.OPS].includes(requestingUserRole) && payment.order.buyerId !== requestingUserId) {
+      throw new ForbiddenException('You can only view your own payments');
+    }
 
-    return {
-      success: true,
-      message: 'Refund processed successfully',
-      data: refund,
-    };
+    return payment;
   }
 
-  async handleRazorpayWebhook(_webhookData: any) {
-    this.logger.log('Processing Razorpay webhook');
-    
-    // Mock implementation - in real app, handle webhook events
+  /**
+   * Process a Razorpay webhook. The signature is checked against the raw request body,
+   * and each event id is recorded in the same transaction that reconciles the payment
+   * and order, so a redelivered event is acknowledged without being applied twice.
+   * Errors propagate so Razorpay retries the delivery; invoicing and notifications run
+   * after the commit and are best-effort.
+   */
+  async handleRazorpayWebhook(rawBody: Buffer | undefined, signature?: string, eventIdHeader?: string) {
+    if (!rawBody) {
+      throw new BadRequestException('Webhook body is required');
+    }
+
+    this.verifyWebhookSignature(rawBody, signature);
+
+    let webhook: RazorpayWebhookEvent;
+    try {
+      webhook = JSON.parse(rawBody.toString('utf8'));
+    } catch (error) {
+      throw new BadRequestException('Webhook body is not valid JSON');
+    }
+
+    // Razorpay sends the event id as a header; fall back to the body hash for older integrations
+    const eventId = eventIdHeader || crypto.createHash('sha256').update(rawBody).digest('hex');
+
+    const existing = await this.prisma.paymentWebhookEvent.findUnique({ where: { eventId } });
+    if (existing) {
+      return { success: true, message: 'Webhook already processed', data: { eventId, status: existing.status } };
+    }
+
+    this.logger.log(`Processing Razorpay webhook ${webhook.event} (${eventId})`);
+
+    let outcome: WebhookOutcome;
+    try {
+      outcome = await this.prisma.$transaction(async (tx) => {
+        const result = await this.applyWebhookEvent(tx, webhook);
+
+        await tx.paymentWebhookEvent.create({
+          data: {
+            eventId,
+            event: webhook.event,
+            status: result.status,
+            paymentId: result.payment?.id,
+            note: result.note,
+            payload: webhook as unknown as Prisma.InputJsonValue,
+          },
+        });
+
+        return result;
+      });
+    } catch (error) {
+      if (error instanceof PrismaClientKnownRequestError && error.code === 'P2002') {
+        // A concurrent delivery of the same event won the race and applied it
+        return { success: true, message: 'Webhook already processed', data: { eventId } };
+      }
+      throw error;
+    }
+
+    if (outcome.capture && outcome.payment) {
+      await this.afterPaymentCaptured(outcome.payment, outcome.capture);
+    } else if (outcome.failed && outcome.payment) {
+      await this.afterPaymentFailed(outcome.payment);
+    } else if (outcome.settledRefundId) {
+      await this.refundsService.afterRefundSettled(outcome.settledRefundId);
+    }
+
+    if (outcome.status === PaymentWebhookStatus.IGNORED) {
+      this.logger.warn(`Razorpay webhook ${webhook.event} (${eventId}) ignored: ${outcome.note}`);
+    }
+
     return {
       success: true,
       message: 'Webhook processed successfully',
+      data: { eventId, status: outcome.status },
     };
   }
 
+  /**
+   * Payment analytics for a period (Admin/OPS), defaulting to the last 30 days.
+   * Collections are counted on the day money came in (IST) and split by channel.
+   */
   async getPaymentAnalytics(
-    startDate?: string,
-    endDate?: string,
-    adminId?: string,
-    adminRole?: UserRole,
+    filters: PaymentAnalyticsFilters,
+    requestingUserId: string,
+    requestingUserRole: UserRole,
   ) {
-    this.logger.log(`Getting payment analytics for admin ${adminId}`);
-    
-    if (adminRole !== UserRole.ADMIN && adminRole !== UserRole.OPS) {
+    this.logger.log(`Getting payment analytics for ${requestingUserRole} user ${requestingUserId}`);
+
+    if (![UserRole.ADMIN, UserRole.OPS].includes(requestingUserRole)) {
       throw new ForbiddenException('Insufficient permissions to view payment analytics');
     }
 
-    // Mock implementation
+    const endDate = filters.endDate ?? new Date();
+    const startDate = filters.startDate ?? new Date(endDate.getTime() - DEFAULT_ANALYTICS_DAYS * DAY_MS);
+    if (startDate > endDate) {
+      throw new BadRequestException('Start date must be before end date');
+    }
+
+    const [payments, paidOrders, refunds] = await Promise.all([
+      this.prisma.payment.findMany({
+        where: { createdAt: { gte: startDate, lte: endDate } },
+        select: {
+          paymentMethod: true,
+          status: true,
+          amount: true,
+          failureReason: true,
+          paidAt: true,
+          order: { select: { createdAt: true } },
+        },
+      }),
+      this.prisma.order.findMany({
+        where: {
+          paymentDate: { gte: startDate, lte: endDate },
+          paymentStatus: { in: COLLECTED_PAYMENT_STATUSES },
+        },
+        select: { paymentMethod: true, totalAmount: true, paymentDate: true },
+      }),
+      this.prisma.refund.aggregate({
+        where: { status: RefundStatus.PROCESSED, processedAt: { gte: startDate, lte: endDate } },
+        _sum: { amount: true },
+        _count: true,
+      }),
+    ]);
+
+    // Success rate by method; pending attempts are neither a success nor a failure yet
+    const methodStats = new Map<string, {
+      method: string;
+      attempts: number;
+      captured: number;
+      failed: number;
+      capturedAmount: number;
+    }>();
+    const failureReasons = new Map<string, number>();
+    let timeToPayTotal = 0;
+    let timeToPayCount = 0;
+
+    payments.forEach(payment => {
+      const stats = methodStats.get(payment.paymentMethod) || {
+        method: payment.paymentMethod,
+        attempts: 0,
+        captured: 0,
+        failed: 0,
+        capturedAmount: 0,
+      };
+      stats.attempts += 1;
+
+      if (COLLECTED_PAYMENT_STATUSES.includes(payment.status as PaymentStatus)) {
+        stats.captured += 1;
+        stats.capturedAmount += payment.amount;
+      } else if (payment.status === PaymentStatus.FAILED) {
+        stats.failed += 1;
+        const reason = payment.failureReason || 'Unknown';
+        failureReasons.set(reason, (failureReasons.get(reason) || 0) + 1);
+      }
+
+      if (payment.paidAt) {
+        timeToPayTotal += payment.paidAt.getTime() - payment.order.createdAt.getTime();
+        timeToPayCount += 1;
+      }
+
+      methodStats.set(payment.paymentMethod, stats);
+    });
+
+    const successRate = (captured: number, failed: number) =>
+      captured + failed > 0 ? roundCurrency((captured / (captured + failed)) * 100) : 0;
+
+    const methods = Array.from(methodStats.values())
+      .map(stats => ({
+        ...stats,
+        capturedAmount: roundCurrency(stats.capturedAmount),
+        successRate: successRate(stats.captured, stats.failed),
+      }))
+      .sort((a, b) => b.attempts - a.attempts);
+
+    const totalCaptured = methods.reduce((sum, stats) => sum + stats.captured, 0);
+    const totalFailed = methods.reduce((sum, stats) => sum + stats.failed, 0);
+
+    // Daily collections by channel
+    const dailyStats = new Map<string, { online: number; cod: number; credit: number }>();
+
+    paidOrders.forEach(order => {
+      const date = new Date(order.paymentDate!.getTime() + IST_OFFSET_MS).toISOString().split('T')[0];
+      const existing = dailyStats.get(date) || { online: 0, cod: 0, credit: 0 };
+      if (order.paymentMethod === PaymentMethod.COD) {
+        existing.cod += order.totalAmount;
+      } else if (order.paymentMethod === PaymentMethod.CREDIT) {
+        existing.credit += order.totalAmount;
+      } else {
+        existing.online += order.totalAmount;
+      }
+      dailyStats.set(date, existing);
+    });
+
+    const dailyCollections = Array.from(dailyStats.entries())
+      .map(([date, stats]) => ({
+        date,
+        online: roundCurrency(stats.online),
+        cod: roundCurrency(stats.cod),
+        credit: roundCurrency(stats.credit),
+        total: roundCurrency(stats.online + stats.cod + stats.credit),
+      }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+
     return {
-      totalRevenue: 0,
-      totalTransactions: 0,
-      successRate: 0,
-      averageOrderValue: 0,
-      paymentMethodBreakdown: {},
-      dailyRevenue: [],
+      startDate,
+      endDate,
+      totalCollected: roundCurrency(dailyCollections.reduce((sum, day) => sum + day.total, 0)),
+      totalTransactions: payments.length,
+      successRate: successRate(totalCaptured, totalFailed),
+      averageTimeToPayMinutes: timeToPayCount > 0 ? Math.round(timeToPayTotal / timeToPayCount / 60000) : null,
+      methods,
+      failureReasons: Array.from(failureReasons.entries())
+        .map(([reason, count]) => ({ reason, count }))
+        .sort((a, b) => b.count - a.count),
+      dailyCollections,
       refunds: {
-        total: 0,
-        amount: 0,
+        count: refunds._count,
+        amount: roundCurrency(refunds._sum.amount ?? 0),
       },
     };
   }
-}
\ No newline at end of file
+
+  // Helper methods
+
+  private verifyWebhookSignature(rawBody: Buffer, signature?: string) {
+    const secret = this.configService.get<string>('razorpay.webhookSecret');
+    if (!secret) {
+      this.logger.error('Razorpay webhook secret not configured; rejecting webhook');
+      throw new UnauthorizedException('Webhook signature cannot be verified');
+    }
+
+    const expected = crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
+    const isValid =
+      !!signature &&
+      signature.length === expected.length &&
+      crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+
+    if (!isValid) {
+      throw new UnauthorizedException('Invalid webhook signature');
+    }
+  }
+
+  private async applyWebhookEvent(
+    tx: Prisma.TransactionClient,
+    webhook: RazorpayWebhookEvent,
+  ): Promise<WebhookOutcome> {
+    switch (webhook.event) {
+      case 'payment.captured':
+      case 'order.paid': {
+        const entity = webhook.payload.payment?.entity;
+        const razorpayOrderId = entity?.order_id ?? webhook.payload.order?.entity.id;
+        const payment = razorpayOrderId
+          ? await tx.payment.findFirst({ where: { razorpayOrderId } })
+          : null;
+        if (!payment || !entity) {
+          return { status: PaymentWebhookStatus.IGNORED, note: `No payment for Razorpay order ${razorpayOrderId}` };
+        }
+
+        if (entity.amount !== Math.round(payment.amount * 100)) {
+          return {
+            status: PaymentWebhookStatus.IGNORED,
+            payment,
+            note: `Captured ${entity.amount} paise but expected ${Math.round(payment.amount * 100)}`,
+          };
+        }
+
+        const capture = await this.capturePayment(tx, payment, entity.id);
+        if (capture?.mismatch) {
+          return { status: PaymentWebhookStatus.IGNORED, payment, note: capture.mismatch };
+        }
+        return {
+          status: PaymentWebhookStatus.PROCESSED,
+          payment,
+          capture: capture ?? undefined,
+          note: capture ? undefined : 'Payment already captured',
+        };
+      }
+
+      case 'payment.failed': {
+        const entity = webhook.payload.payment?.entity;
+        const payment = entity?.order_id
+          ? await tx.payment.findFirst({ where: { razorpayOrderId: entity.order_id } })
+          : null;
+        if (!payment || !entity) {
+          return { status: PaymentWebhookStatus.IGNORED, note: `No payment for Razorpay order ${entity?.order_id}` };
+        }
+
+        const failed = await this.failPayment(
+          tx,
+          payment,
+          entity.id,
+          entity.error_description || 'Payment failed',
+        );
+        return {
+          status: PaymentWebhookStatus.PROCESSED,
+          payment,
+          failed,
+          note: failed ? undefined : `Payment is already ${payment.status}`,
+        };
+      }
+
+      case 'refund.processed':
+      case 'refund.failed': {
+        const refund = webhook.payload.refund?.entity;
+        if (!refund) {
+          return { status: PaymentWebhookStatus.IGNORED, note: 'Refund entity missing' };
+        }
+
+        return this.refundsService.applyGatewayRefundEvent(tx, webhook.event as 'refund.processed' | 'refund.failed', refund);
+      }
+
+      default:
+        return { status: PaymentWebhookStatus.IGNORED, note: `Unhandled event ${webhook.event}` };
+    }
+  }
+
+  /**
+   * Mark the payment and its order paid, and confirm and fulfil a still-pending order
+   * in the same transaction, so a failed fulfilment leaves the event to be retried.
+   * Money taken for an order cancelled in the meantime is recorded as owed back. A
+   * payment that does not cover exactly what the order owes confirms nothing.
+   * Returns null when the payment was already captured.
+   */
+  private async capturePayment(
+    tx: Prisma.TransactionClient,
+    payment: Payment,
+    razorpayPaymentId: string,
+  ): Promise<PaymentCapture | null> {
+    const current = await tx.payment.findUnique({ where: { id: payment.id } });
+    if (!current || ![PaymentStatus.PENDING, PaymentStatus.FAILED].includes(current.status as PaymentStatus)) {
+      return null;
+    }
+
+    const currentOrder = await tx.order.findUniqueOrThrow({ where: { id: payment.orderId } });
+    if (currentOrder.status !== OrderStatus.CANCELLED) {
+      const payable = await this.getPayableAmount(tx, currentOrder);
+      if (Math.round(current.amount * 100) !== Math.round(payable * 100)) {
+        return {
+          order: currentOrder,
+          confirmed: false,
+          mismatch: `Paid ${current.amount} but ${payable} is payable on order ${currentOrder.orderNumber}`,
+        };
+      }
+    }
+
+    const { count } = await tx.payment.updateMany({
+      where: { id: payment.id, status: { in: [PaymentStatus.PENDING, PaymentStatus.FAILED] } },
+      data: {
+        status: PaymentStatus.PAID,
+        razorpayPaymentId,
+        failureReason: null,
+        paidAt: new Date(),
+      },
+    });
+    if (count === 0) {
+      return null;
+    }
+
+    const order = await tx.order.update({
+      where: { id: payment.orderId },
+      data: {
+        paymentStatus: PaymentStatus.PAID,
+        paymentReference: razorpayPaymentId,
+        paymentDate: new Date(),
+        reservationExpiresAt: null,
+      },
+    });
+
+    // Only a pending order is confirmed, so a repeated capture cannot take stock twice
+    const { count: confirmed } = await tx.order.updateMany({
+      where: { id: order.id, status: OrderStatus.PENDING },
+      data: { status: OrderStatus.CONFIRMED },
+    });
+    if (confirmed > 0) {
+      await this.ordersService.fulfilConfirmedOrder(order.id, tx);
+    }
+
+    const refund =
+      order.status === OrderStatus.CANCELLED
+        ? await this.refundsService.recordCancelledOrderRefund(tx, payment)
+        : undefined;
+
+    return { order, confirmed: confirmed > 0, refund };
+  }
+
+  /**
+   * What the buyer still owes on an order: its total less cancelled lines and the
+   * payments already captured
+   */
+  private async getPayableAmount(client: Prisma.TransactionClient, order: Order): Promise<number> {
+    const { _sum } = await client.payment.aggregate({
+      where: { orderId: order.id, status: { in: COLLECTED_PAYMENT_STATUSES } },
+      _sum: { amount: true },
+    });
+
+    return roundCurrency(order.totalAmount - order.cancelledAmount - (_sum.amount ?? 0));
+  }
+
+  /**
+   * Mark a pending payment failed. Returns false when it had already settled.
+   */
+  private async failPayment(
+    tx: Prisma.TransactionClient,
+    payment: Payment,
+    razorpayPaymentId: string,
+    reason: string,
+  ): Promise<boolean> {
+    const { count } = await tx.payment.updateMany({
+      where: { id: payment.id, status: PaymentStatus.PENDING },
+      data: {
+        status: PaymentStatus.FAILED,
+        razorpayPaymentId,
+        failureReason: reason,
+      },
+    });
+
+    return count > 0;
+  }
+
+  private async afterPaymentCaptured(payment: Payment, capture: PaymentCapture) {
+    const { order, confirmed } = capture;
+
+    await this.notificationsService.notify(
+      order.buyerId,
+      NotificationType.PAYMENT_RECEIVED,
+      { orderNumber: order.orderNumber, amount: payment.amount.toFixed(2) },
+      { orderId: order.id, paymentId: payment.id },
+    );
+
+    if (confirmed) {
+      await this.invoicesService.handleOrderStatusChange(order.id, OrderStatus.CONFIRMED);
+      await this.notificationsService.notifyOrderStatus(order, OrderStatus.CONFIRMED);
+    } else if (capture.refund) {
+      this.logger.warn(`Payment ${payment.id} captured for cancelled order ${order.orderNumber}; refunding it`);
+      await this.refundsService.completeRecordedRefund(capture.refund.id);
+    }
+  }
+
+  private async afterPaymentFailed(payment: Payment) {
+    const order = await this.prisma.order.findUnique({ where: { id: payment.orderId } });
+    if (!order) {
+      return;
+    }
+
+    await this.notificationsService.notify(
+      order.buyerId,
+      NotificationType.PAYMENT_FAILED,
+      { orderNumber: order.orderNumber },
+      { orderId: order.id, paymentId: payment.id },
+    );
+  }
+}
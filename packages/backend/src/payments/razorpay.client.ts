@@ -0,0 +1,140 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Razorpay from 'razorpay';
+import { SettlementReportClient, SettlementReportEntry } from './settlement-report-client.interface';
+
+export interface RazorpayOrderRequest {
+  amount: number;
+  currency: string;
+  receipt: string;
+  notes?: Record<string, string>;
+}
+
+export interface RazorpayOrderResponse {
+  id: string;
+  amount: number;
+  currency: string;
+  receipt: string;
+  status: string;
+}
+
+export interface RazorpayRefundResponse {
+  id: string;
+  payment_id: string;
+  amount: number;
+  status: 'pending' | 'processed' | 'failed';
+}
+
+interface RazorpayReconItem {
+  entity_id: string;
+  type: string;
+  amount: number | string;
+  fee: number;
+  tax: number;
+  settlement_id: string;
+  created_at: number;
+  settled_at: number;
+}
+
+const RECON_PAGE_SIZE = 1000;
+const IST_OFFSET_MS = 330 * 60 * 1000;
+
+/**
+ * Thin wrapper over the Razorpay SDK. Amounts are in paise. Services depend on this
+ * instead of the SDK so the gateway can be swapped for a fake in local environments.
+ */
+@Injectable()
+export class RazorpayClient implements SettlementReportClient {
+  readonly name = 'razorpay';
+  private readonly logger = new Logger(RazorpayClient.name);
+  private razorpay: Razorpay | null = null;
+
+  constructor(private readonly configService: ConfigService) {
+    const keyId = this.configService.get<string>('razorpay.keyId');
+    const keySecret = this.configService.get<string>('razorpay.keySecret');
+
+    if (keyId && keySecret) {
+      this.razorpay = new Razorpay({
+        key_id: keyId,
+        key_secret: keySecret,
+      });
+    } else {
+      this.logger.warn('Razorpay credentials not configured');
+    }
+  }
+
+  isConfigured(): boolean {
+    return this.razorpay !== null;
+  }
+
+  async createOrder(request: RazorpayOrderRequest): Promise<RazorpayOrderResponse> {
+    const order = await this.getSdk().orders.create(request);
+
+    return {
+      id: order.id,
+      amount: Number(order.amount),
+      currency: order.currency,
+      receipt: order.receipt ?? request.receipt,
+      status: order.status,
+    };
+  }
+
+  async refundPayment(
+    razorpayPaymentId: string,
+    amount: number,
+    notes: Record<string, string> = {},
+  ): Promise<RazorpayRefundResponse> {
+    const refund = await this.getSdk().payments.refund(razorpayPaymentId, { amount, notes });
+
+    return {
+      id: refund.id,
+      payment_id: refund.payment_id,
+      amount: Number(refund.amount),
+      status: refund.status as RazorpayRefundResponse['status'],
+    };
+  }
+
+  /**
+   * Fetch the settlement recon report for a day, following pagination. The API reports
+   * amounts in paise; entries are returned in rupees.
+   */
+  async fetchSettlementReport(date: Date): Promise<SettlementReportEntry[]> {
+    const day = new Date(date.getTime() + IST_OFFSET_MS);
+    const entries: SettlementReportEntry[] = [];
+
+    for (let skip = 0; ; skip += RECON_PAGE_SIZE) {
+      // The SDK types the response as a single item; the API returns a collection
+      const page = (await this.getSdk().settlements.reports({
+        year: day.getUTCFullYear(),
+        month: day.getUTCMonth() + 1,
+        day: day.getUTCDate(),
+        count: RECON_PAGE_SIZE,
+        skip,
+      })) as unknown as { items: RazorpayReconItem[] };
+
+      entries.push(
+        ...page.items.map((item) => ({
+          entityId: item.entity_id,
+          type: item.type,
+          amount: Number(item.amount) / 100,
+          fee: item.fee / 100,
+          tax: item.tax / 100,
+          settlementId: item.settlement_id,
+          createdAt: item.created_at ? new Date(item.created_at * 1000) : undefined,
+          settledAt: item.settled_at ? new Date(item.settled_at * 1000) : undefined,
+        })),
+      );
+
+      if (page.items.length < RECON_PAGE_SIZE) {
+        return entries;
+      }
+    }
+  }
+
+  private getSdk(): Razorpay {
+    if (!this.razorpay) {
+      throw new Error('Payment gateway not configured');
+    }
+    return this.razorpay;
+  }
+}
@@ -0,0 +1,568 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+import { Payment, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../common/services/audit.service';
+import { ValidationService } from '../common/services/validation.service';
+import {
+  SETTLEMENT_REPORT_CLIENT,
+  SettlementReportClient,
+  SettlementReportEntry,
+} from './settlement-report-client.interface';
+import {
+  UserRole,
+  PaymentStatus,
+  ReconciliationSource,
+  ReconciliationRunStatus,
+  ReconciliationExceptionType,
+  ReconciliationExceptionStatus,
+  parseCsvLine,
+  roundCurrency,
+} from '@mawell/shared';
+
+export interface ReconciliationPeriod {
+  periodStart?: Date;
+  periodEnd?: Date;
+}
+
+export interface ReconciliationRunFilters {
+  source?: ReconciliationSource;
+  status?: ReconciliationRunStatus;
+  page?: number;
+  limit?: number;
+}
+
+export interface ReconciliationExceptionFilters {
+  runId?: string;
+  type?: ReconciliationExceptionType;
+  status?: ReconciliationExceptionStatus;
+  page?: number;
+  limit?: number;
+}
+
+interface ReconciliationRunSource extends ReconciliationPeriod {
+  source: ReconciliationSource;
+  reportDate?: Date;
+  fileName?: string;
+}
+
+// Statuses meaning the money came in, so the gateway owes us a settlement for it
+const SETTLEABLE_PAYMENT_STATUSES = [PaymentStatus.PAID, PaymentStatus.PARTIALLY_REFUNDED, PaymentStatus.REFUNDED];
+const REQUIRED_REPORT_COLUMNS = ['entity_id', 'type', 'amount', 'settlement_id'];
+const AMOUNT_TOLERANCE = 0.01;
+
+const exceptionInclude = Prisma.validator<Prisma.ReconciliationExceptionInclude>()({
+  payment: {
+    select: {
+      id: true,
+      amount: true,
+      status: true,
+      paidAt: true,
+      order: { select: { id: true, orderNumber: true } },
+    },
+  },
+});
+
+type NewException = Omit<Prisma.ReconciliationExceptionCreateManyRunInput, 'status'>;
+
+@Injectable()
+export class ReconciliationService {
+  private readonly logger = new Logger(ReconciliationService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+    private validationService: ValidationService,
+    @Inject(SETTLEMENT_REPORT_CLIENT) private reportClient: SettlementReportClient,
+  ) {}
+
+  /**
+   * Reconcile a settlement report exported from the Razorpay dashboard (Admin/OPS).
+   * Amounts are in rupees, as exported.
+   *
+   * Required columns: entity_id,type,amount,settlement_id. created_at and settled_at are
+   * used when present; created_at also bounds the period checked for missing payments.
+   */
+  async importSettlementReport(
+    csv: string,
+    fileName: string,
+    period: ReconciliationPeriod,
+    requestingUserId: string,
+    requestingUserRole: UserRole,
+  ) {
+    this.assertFinanceAccess(requestingUserRole);
+
+    const entries = this.parseSettlementReport(csv);
+
+    return this.reconcile(
+      entries,
+      { source: ReconciliationSource.CSV_UPLOAD, fileName, ...period },
+      requestingUserId,
+      requestingUserRole,
+    );
+  }
+
+  /**
+   * Fetch a day's settlement report through the configured client and reconcile it. A
+   * fetch failure is recorded as a failed run rather than thrown, so it shows up in the
+   * run history next to the daily job's other runs.
+   */
+  async fetchAndReconcile(
+    reportDate: Date,
+    period: ReconciliationPeriod,
+    requestingUserId?: string,
+    requestingUserRole?: UserRole,
+  ) {
+    if (requestingUserRole) {
+      this.assertFinanceAccess(requestingUserRole);
+    }
+    if (!this.reportClient.isConfigured()) {
+      throw new BadRequestException(`Settlement report client ${this.reportClient.name} is not configured`);
+    }
+
+    let entries: SettlementReportEntry[];
+    try {
+      entries = await this.reportClient.fetchSettlementReport(reportDate);
+    } catch (error) {
+      this.logger.error(`Failed to fetch settlement report for ${reportDate.toISOString()}: ${error.message}`);
+
+      return this.prisma.reconciliationRun.create({
+        data: {
+          source: ReconciliationSource.GATEWAY_API,
+          status: ReconciliationRunStatus.FAILED,
+          reportDate,
+          failureReason: error.message,
+          createdBy: requestingUserId,
+        },
+      });
+    }
+
+    return this.reconcile(
+      entries,
+      { source: ReconciliationSource.GATEWAY_API, reportDate, ...period },
+      requestingUserId,
+      requestingUserRole,
+    );
+  }
+
+  isReportClientConfigured(): boolean {
+    return this.reportClient.isConfigured();
+  }
+
+  async findRuns(filters: ReconciliationRunFilters, requestingUserRole: UserRole) {
+    this.assertFinanceAccess(requestingUserRole);
+
+    const { page, limit } = this.validationService.validatePagination(filters.page, filters.limit);
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.ReconciliationRunWhereInput = {};
+    if (filters.source) where.source = filters.source;
+    if (filters.status) where.status = filters.status;
+
+    const [runs, total] = await Promise.all([
+      this.prisma.reconciliationRun.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.reconciliationRun.count({ where }),
+    ]);
+
+    return {
+      runs,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  async findRunById(runId: string, requestingUserRole: UserRole) {
+    this.assertFinanceAccess(requestingUserRole);
+
+    const run = await this.prisma.reconciliationRun.findUnique({
+      where: { id: runId },
+      include: {
+        exceptions: {
+          include: exceptionInclude,
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+    if (!run) {
+      throw new NotFoundException('Reconciliation run not found');
+    }
+
+    return run;
+  }
+
+  async findExceptions(filters: ReconciliationExceptionFilters, requestingUserRole: UserRole) {
+    this.assertFinanceAccess(requestingUserRole);
+
+    const { page, limit } = this.validationService.validatePagination(filters.page, filters.limit);
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.ReconciliationExceptionWhereInput = {};
+    if (filters.runId) where.runId = filters.runId;
+    if (filters.type) where.type = filters.type;
+    if (filters.status) where.status = filters.status;
+
+    const [exceptions, total] = await Promise.all([
+      this.prisma.reconciliationException.findMany({
+        where,
+        skip,
+        take: limit,
+        include: exceptionInclude,
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.reconciliationException.count({ where }),
+    ]);
+
+    return {
+      exceptions,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Close an exception with a note explaining how it was settled
+   */
+  async resolveException(
+    exceptionId: string,
+    note: string,
+    requestingUserId: string,
+    requestingUserRole: UserRole,
+  ) {
+    this.assertFinanceAccess(requestingUserRole);
+
+    if (!note?.trim()) {
+      throw new BadRequestException('A resolution note is required');
+    }
+
+    const exception = await this.prisma.reconciliationException.findUnique({ where: { id: exceptionId } });
+    if (!exception) {
+      throw new NotFoundException('Reconciliation exception not found');
+    }
+    if (exception.status === ReconciliationExceptionStatus.RESOLVED) {
+      throw new BadRequestException('Exception is already resolved');
+    }
+
+    const resolved = await this.prisma.reconciliationException.update({
+      where: { id: exceptionId },
+      data: {
+        status: ReconciliationExceptionStatus.RESOLVED,
+        resolutionNote: note.trim(),
+        resolvedBy: requestingUserId,
+        resolvedAt: new Date(),
+      },
+      include: exceptionInclude,
+    });
+
+    await this.auditService.log({
+      userId: requestingUserId,
+      userRole: requestingUserRole,
+      action: 'RESOLVE',
+      resource: 'RECONCILIATION_EXCEPTION',
+      resourceId: exceptionId,
+      oldValues: { status: exception.status },
+      newValues: { status: resolved.status, resolutionNote: resolved.resolutionNote },
+      metadata: {
+        runId: exception.runId,
+        type: exception.type,
+        paymentId: exception.paymentId,
+        razorpayPaymentId: exception.razorpayPaymentId,
+      },
+    });
+
+    this.logger.log(`Reconciliation exception ${exceptionId} resolved by ${requestingUserId}`);
+
+    return resolved;
+  }
+
+  // Helper methods
+
+  /**
+   * Match settled payments against our Payment rows by Razorpay payment id and amount,
+   * then look for captured payments in the period the report does not cover. Exceptions
+   * already open from an earlier run are not raised again.
+   */
+  private async reconcile(
+    entries: SettlementReportEntry[],
+    runSource: ReconciliationRunSource,
+    requestingUserId?: string,
+    requestingUserRole?: UserRole,
+  ) {
+    const paymentEntries = entries.filter((entry) => entry.type === 'payment');
+
+    const entriesByGatewayId = new Map<string, SettlementReportEntry[]>();
+    paymentEntries.forEach((entry) => {
+      const existing = entriesByGatewayId.get(entry.entityId) || [];
+      existing.push(entry);
+      entriesByGatewayId.set(entry.entityId, existing);
+    });
+    const gatewayIds = Array.from(entriesByGatewayId.keys());
+
+    const payments = await this.prisma.payment.findMany({
+      where: { razorpayPaymentId: { in: gatewayIds } },
+    });
+    const paymentsByGatewayId = new Map<string, Payment>(
+      payments.map((payment) => [payment.razorpayPaymentId!, payment]),
+    );
+
+    const exceptions: NewException[] = [];
+    const matched: { payment: Payment; entry: SettlementReportEntry }[] = [];
+
+    entriesByGatewayId.forEach(([entry, ...repeats], gatewayId) => {
+      const payment = paymentsByGatewayId.get(gatewayId);
+
+      repeats.forEach((repeat) =>
+        exceptions.push({
+          type: ReconciliationExceptionType.DUPLICATE,
+          paymentId: payment?.id,
+          razorpayPaymentId: gatewayId,
+          expectedAmount: payment?.amount,
+          settledAmount: repeat.amount,
+          settlementId: repeat.settlementId,
+          details: 'Payment appears more than once in the settlement report',
+        }),
+      );
+
+      if (!payment) {
+        exceptions.push({
+          type: ReconciliationExceptionType.GATEWAY_ONLY,
+          razorpayPaymentId: gatewayId,
+          settledAmount: entry.amount,
+          settlementId: entry.settlementId,
+          details: 'Settled by the gateway but no payment has this Razorpay payment id',
+        });
+        return;
+      }
+
+      if (!SETTLEABLE_PAYMENT_STATUSES.includes(payment.status as PaymentStatus)) {
+        exceptions.push({
+          type: ReconciliationExceptionType.GATEWAY_ONLY,
+          paymentId: payment.id,
+          razorpayPaymentId: gatewayId,
+          expectedAmount: payment.amount,
+          settledAmount: entry.amount,
+          settlementId: entry.settlementId,
+          details: `Settled by the gateway but the payment is ${payment.status} in our records`,
+        });
+        return;
+      }
+
+      if (payment.settlementId && payment.settlementId !== entry.settlementId) {
+        exceptions.push({
+          type: ReconciliationExceptionType.DUPLICATE,
+          paymentId: payment.id,
+          razorpayPaymentId: gatewayId,
+          expectedAmount: payment.amount,
+          settledAmount: entry.amount,
+          settlementId: entry.settlementId,
+          details: `Payment was already settled in ${payment.settlementId}`,
+        });
+        return;
+      }
+
+      // The money did settle, so a mismatched payment is still marked settled and is
+      // not reported as missing again; the exception tracks the difference
+      if (Math.abs(payment.amount - entry.amount) > AMOUNT_TOLERANCE) {
+        exceptions.push({
+          type: ReconciliationExceptionType.AMOUNT_MISMATCH,
+          paymentId: payment.id,
+          razorpayPaymentId: gatewayId,
+          expectedAmount: payment.amount,
+          settledAmount: entry.amount,
+          settlementId: entry.settlementId,
+          details: `Expected ₹${payment.amount}, settled ₹${entry.amount}`,
+        });
+      }
+
+      matched.push({ payment, entry });
+    });
+
+    const captureTimes = paymentEntries
+      .map((entry) => entry.createdAt?.getTime())
+      .filter((time): time is number => time !== undefined);
+    const periodStart = runSource.periodStart ?? (captureTimes.length ? new Date(Math.min(...captureTimes)) : undefined);
+    const periodEnd = runSource.periodEnd ?? (captureTimes.length ? new Date(Math.max(...captureTimes)) : undefined);
+    if (periodStart && periodEnd && periodStart > periodEnd) {
+      throw new BadRequestException('Period start must be before period end');
+    }
+
+    if (periodStart && periodEnd) {
+      const missing = await this.prisma.payment.findMany({
+        where: {
+          status: { in: SETTLEABLE_PAYMENT_STATUSES },
+          razorpayPaymentId: { not: null, notIn: gatewayIds },
+          settledAt: null,
+          paidAt: { gte: periodStart, lte: periodEnd },
+        },
+      });
+
+      missing.forEach((payment) =>
+        exceptions.push({
+          type: ReconciliationExceptionType.MISSING_IN_SETTLEMENT,
+          paymentId: payment.id,
+          razorpayPaymentId: payment.razorpayPaymentId,
+          expectedAmount: payment.amount,
+          details: 'Captured in the period but not found in the settlement report',
+        }),
+      );
+    }
+
+    const alreadyOpen = await this.prisma.reconciliationException.findMany({
+      where: {
+        status: ReconciliationExceptionStatus.OPEN,
+        razorpayPaymentId: { in: exceptions.map((exception) => exception.razorpayPaymentId!) },
+      },
+      select: { type: true, razorpayPaymentId: true },
+    });
+    const openKeys = new Set(alreadyOpen.map((exception) => `${exception.type}:${exception.razorpayPaymentId}`));
+    const newExceptions = exceptions.filter(
+      (exception) => !openKeys.has(`${exception.type}:${exception.razorpayPaymentId}`),
+    );
+
+    const settledAmount = roundCurrency(paymentEntries.reduce((sum, entry) => sum + entry.amount, 0));
+
+    const run = await this.prisma.$transaction(
+      async (tx) => {
+        const run = await tx.reconciliationRun.create({
+          data: {
+            source: runSource.source,
+            status: ReconciliationRunStatus.COMPLETED,
+            reportDate: runSource.reportDate,
+            fileName: runSource.fileName,
+            periodStart,
+            periodEnd,
+            totalRows: entries.length,
+            matchedCount: matched.length,
+            exceptionCount: newExceptions.length,
+            settledAmount,
+            createdBy: requestingUserId,
+            exceptions: { createMany: { data: newExceptions } },
+          },
+        });
+
+        for (const { payment, entry } of matched) {
+          await tx.payment.update({
+            where: { id: payment.id },
+            data: { settlementId: entry.settlementId, settledAt: entry.settledAt ?? new Date() },
+          });
+        }
+
+        // Payments reported missing by an earlier run have now turned up
+        await tx.reconciliationException.updateMany({
+          where: {
+            type: ReconciliationExceptionType.MISSING_IN_SETTLEMENT,
+            status: ReconciliationExceptionStatus.OPEN,
+            paymentId: { in: matched.map(({ payment }) => payment.id) },
+          },
+          data: {
+            status: ReconciliationExceptionStatus.RESOLVED,
+            resolutionNote: `Found in a later settlement report (run ${run.id})`,
+            resolvedAt: new Date(),
+          },
+        });
+
+        return run;
+      },
+      { timeout: 60000 },
+    );
+
+    if (requestingUserId) {
+      await this.auditService.logCreate(
+        'RECONCILIATION_RUN',
+        run.id,
+        {
+          source: run.source,
+          totalRows: run.totalRows,
+          matchedCount: run.matchedCount,
+          exceptionCount: run.exceptionCount,
+        },
+        requestingUserId,
+        requestingUserRole,
+      );
+    }
+
+    this.logger.log(
+      `Reconciliation run ${run.id}: ${run.matchedCount} matched, ${run.exceptionCount} exceptions from ${run.totalRows} rows`,
+    );
+
+    return run;
+  }
+
+  private parseSettlementReport(csv: string): SettlementReportEntry[] {
+    const lines = csv.split(/\r?\n/).filter((line) => line.trim() !== '');
+    if (lines.length < 2) {
+      throw new BadRequestException('Settlement report must contain a header row and at least one transaction');
+    }
+
+    const header = parseCsvLine(lines[0]).map((column) => column.trim().toLowerCase());
+    const missing = REQUIRED_REPORT_COLUMNS.filter((column) => !header.includes(column));
+    if (missing.length > 0) {
+      throw new BadRequestException(`Settlement report is missing required columns: ${missing.join(', ')}`);
+    }
+
+    return lines.slice(1).map((line, index) => {
+      const values = parseCsvLine(line);
+      const row: Record<string, string> = {};
+      header.forEach((column, position) => {
+        row[column] = (values[position] ?? '').trim();
+      });
+
+      const amount = Number(row.amount);
+      if (!row.entity_id || !Number.isFinite(amount)) {
+        throw new BadRequestException(`Line ${index + 2}: entity_id and a numeric amount are required`);
+      }
+
+      return {
+        entityId: row.entity_id,
+        type: row.type.toLowerCase(),
+        amount,
+        fee: Number(row.fee) || 0,
+        tax: Number(row.tax) || 0,
+        settlementId: row.settlement_id,
+        createdAt: this.parseReportDate(row.created_at),
+        settledAt: this.parseReportDate(row.settled_at),
+      };
+    });
+  }
+
+  /**
+   * Dashboard exports use DD/MM/YYYY HH:mm:ss in IST; API-style exports use unix seconds
+   */
+  private parseReportDate(value?: string): Date | undefined {
+    if (!value) {
+      return undefined;
+    }
+    if (/^\d+$/.test(value)) {
+      return new Date(Number(value) * 1000);
+    }
+
+    const match = value.match(/^(\d{2})\/(\d{2})\/(\d{4})(?:\s+(\d{2}):(\d{2})(?::(\d{2}))?)?$/);
+    const date = match
+      ? new Date(
+          `${match[3]}-${match[2]}-${match[1]}T${match[4] ?? '00'}:${match[5] ?? '00'}:${match[6] ?? '00'}+05:30`,
+        )
+      : new Date(value);
+
+    return Number.isNaN(date.getTime()) ? undefined : date;
+  }
+
+  private assertFinanceAccess(requestingUserRole: UserRole) {
+    if (![UserRole.ADMIN, UserRole.OPS].includes(requestingUserRole)) {
+      throw new ForbiddenException('Only admins and ops users can reconcile payments');
+    }
+  }
+}
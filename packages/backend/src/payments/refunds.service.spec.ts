@@ -0,0 +1,240 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import {
+  PaymentMethod,
+  PaymentStatus,
+  RefundMethod,
+  RefundReason,
+  RefundStatus,
+  StockMovementType,
+  UserRole,
+} from '@mawell/shared';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../common/services/audit.service';
+import { ValidationService } from '../common/services/validation.service';
+import { CreditService } from '../credit/credit.service';
+import { InvoicesService } from '../invoices/invoices.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { StockLedgerService } from '../products/stock-ledger.service';
+import { FakeRazorpayClient } from './fake-razorpay.client';
+import { RazorpayClient } from './razorpay.client';
+import { RefundsService } from './refunds.service';
+
+const model = () => ({
+  findUnique: jest.fn(),
+  findUniqueOrThrow: jest.fn(),
+  create: jest.fn(),
+  update: jest.fn(),
+  updateMany: jest.fn(),
+  aggregate: jest.fn(),
+});
+
+// Each interactive transaction runs against the same mocked client
+const createPrismaMock = () => {
+  const prisma = {
+    order: model(),
+    orderItem: model(),
+    payment: model(),
+    refund: model(),
+    $queryRaw: jest.fn(),
+    $transaction: jest.fn(),
+  };
+  prisma.$transaction.mockImplementation((run) => run(prisma));
+  return prisma;
+};
+
+describe('RefundsService', () => {
+  let service: RefundsService;
+  let prisma: ReturnType<typeof createPrismaMock>;
+  let gateway: FakeRazorpayClient;
+  const stockLedgerService = { applyMovement: jest.fn() };
+  const invoicesService = { generateCreditNote: jest.fn() };
+  const notificationsService = { notify: jest.fn() };
+  const auditService = { logCreate: jest.fn() };
+
+  // Ten units at ₹100 with 18% GST, so each unit was paid ₹118
+  const orderItem = {
+    id: 'item-1',
+    warehouseId: 'warehouse-1',
+    productId: 'product-1',
+    variantId: 'variant-1',
+    quantity: 10,
+    quantityShipped: 5,
+    quantityRefunded: 0,
+    totalPrice: 1000,
+    discountAmount: 0,
+    cgstAmount: 90,
+    sgstAmount: 90,
+    igstAmount: 0,
+  };
+  const payment = {
+    id: 'payment-1',
+    razorpayPaymentId: 'pay_rzp_1',
+    amount: 1180,
+    amountRefunded: 0,
+    status: PaymentStatus.PAID,
+  };
+  const order = {
+    id: 'order-1',
+    orderNumber: 'ORD-1',
+    buyerId: 'buyer-1',
+    paymentMethod: PaymentMethod.UPI,
+    paymentStatus: PaymentStatus.PAID,
+    totalAmount: 1180,
+    items: [orderItem],
+    payments: [payment],
+    refunds: [] as unknown[],
+    buyer: { buyerProfile: { id: 'profile-1' } },
+  };
+
+  const refund = (data: Record<string, unknown>) =>
+    service.createRefund(order.id, { reason: RefundReason.RETURN, ...data }, 'admin-1', UserRole.ADMIN);
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    prisma = createPrismaMock();
+    prisma.order.findUnique.mockResolvedValue(order);
+    prisma.orderItem.updateMany.mockResolvedValue({ count: 1 });
+    prisma.refund.create.mockImplementation(({ data }) => ({
+      id: 'refund-1',
+      status: RefundStatus.PENDING,
+      ...data,
+      items: undefined,
+    }));
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        RefundsService,
+        { provide: RazorpayClient, useClass: FakeRazorpayClient },
+        { provide: PrismaService, useValue: prisma },
+        { provide: AuditService, useValue: auditService },
+        { provide: ValidationService, useValue: {} },
+        { provide: CreditService, useValue: {} },
+        { provide: InvoicesService, useValue: invoicesService },
+        { provide: NotificationsService, useValue: notificationsService },
+        { provide: StockLedgerService, useValue: stockLedgerService },
+      ],
+    }).compile();
+
+    service = moduleRef.get(RefundsService);
+    gateway = moduleRef.get(RazorpayClient);
+  });
+
+  describe('refund amount', () => {
+    beforeEach(() => {
+      // Leave gateway refunds pending so only the recorded refund is under test
+      gateway.refundStatus = 'pending';
+      prisma.refund.findUnique.mockResolvedValue({ id: 'refund-1' });
+    });
+
+    it('refuses more than what is not yet refunded', async () => {
+      prisma.order.findUnique.mockResolvedValue({ ...order, refunds: [{ amount: 1000, restocked: false, items: [] }] });
+
+      await expect(refund({ amount: 200 })).rejects.toThrow(
+        new BadRequestException('Refund must be between 0 and 180, the amount not yet refunded'),
+      );
+      expect(prisma.refund.create).not.toHaveBeenCalled();
+      expect(gateway.refunds).toHaveLength(0);
+    });
+
+    it('refunds what is left when no amount or items are given', async () => {
+      prisma.order.findUnique.mockResolvedValue({ ...order, refunds: [{ amount: 1000, restocked: false, items: [] }] });
+
+      await refund({});
+
+      expect(prisma.refund.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ amount: 180, paymentId: payment.id, method: RefundMethod.GATEWAY }),
+      });
+      expect(gateway.refunds).toEqual([expect.objectContaining({ razorpayPaymentId: 'pay_rzp_1', amount: 18000 })]);
+    });
+
+    it('prices items at what the buyer paid per unit and caps the amount to them', async () => {
+      await expect(refund({ amount: 300, items: [{ orderItemId: orderItem.id, quantity: 2 }] })).rejects.toThrow(
+        new BadRequestException('Refund cannot exceed 236 for the selected items'),
+      );
+
+      prisma.refund.create.mockClear();
+      await refund({ items: [{ orderItemId: orderItem.id, quantity: 2 }] });
+
+      expect(prisma.refund.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          amount: 236,
+          items: { create: [{ orderItemId: orderItem.id, quantity: 2, amount: 236 }] },
+        }),
+      });
+      expect(prisma.orderItem.updateMany).toHaveBeenCalledWith({
+        where: { id: orderItem.id, quantityRefunded: { lte: 8 } },
+        data: { quantityRefunded: { increment: 2 } },
+      });
+    });
+
+    it('refuses more units than are left to refund on the line', async () => {
+      prisma.order.findUnique.mockResolvedValue({ ...order, items: [{ ...orderItem, quantityRefunded: 9 }] });
+
+      await expect(refund({ items: [{ orderItemId: orderItem.id, quantity: 2 }] })).rejects.toThrow(
+        new BadRequestException('Between 1 and 1 unit(s) of item item-1 can be refunded'),
+      );
+    });
+  });
+
+  describe('restocking', () => {
+    it('only restocks units that left the warehouse', async () => {
+      await expect(
+        refund({ restock: true, items: [{ orderItemId: orderItem.id, quantity: 6 }] }),
+      ).rejects.toThrow(new BadRequestException('Only 5 shipped unit(s) of item item-1 can still be restocked'));
+    });
+
+    it('does not restock units an earlier refund already put back', async () => {
+      prisma.order.findUnique.mockResolvedValue({
+        ...order,
+        items: [{ ...orderItem, quantityRefunded: 4 }],
+        refunds: [
+          { amount: 472, restocked: true, items: [{ orderItemId: orderItem.id, quantity: 4 }] },
+        ],
+      });
+
+      await expect(
+        refund({ restock: true, items: [{ orderItemId: orderItem.id, quantity: 2 }] }),
+      ).rejects.toThrow(new BadRequestException('Only 1 shipped unit(s) of item item-1 can still be restocked'));
+    });
+
+    it('puts the units back into stock once the gateway settles the refund', async () => {
+      prisma.refund.updateMany.mockResolvedValue({ count: 1 });
+      prisma.refund.findUniqueOrThrow.mockResolvedValue({
+        id: 'refund-1',
+        orderId: order.id,
+        amount: 236,
+        reason: RefundReason.RETURN,
+        restocked: true,
+        items: [{ quantity: 2, orderItem }],
+        order,
+        payment,
+      });
+      prisma.payment.update.mockResolvedValue({ ...payment, amountRefunded: 236 });
+      prisma.refund.aggregate.mockResolvedValue({ _sum: { amount: 236 } });
+      prisma.refund.findUnique.mockResolvedValue({ id: 'refund-1', amount: 236, order });
+
+      await refund({ restock: true, items: [{ orderItemId: orderItem.id, quantity: 2 }] });
+
+      expect(stockLedgerService.applyMovement).toHaveBeenCalledWith(
+        prisma,
+        expect.objectContaining({
+          warehouseId: 'warehouse-1',
+          variantId: 'variant-1',
+          type: StockMovementType.RETURN,
+          quantityChange: 2,
+          referenceId: 'refund-1',
+        }),
+      );
+      expect(prisma.payment.update).toHaveBeenCalledWith({
+        where: { id: payment.id },
+        data: { amountRefunded: { increment: 236 } },
+      });
+      expect(prisma.order.update).toHaveBeenCalledWith({
+        where: { id: order.id },
+        data: { paymentStatus: PaymentStatus.PARTIALLY_REFUNDED },
+      });
+      expect(invoicesService.generateCreditNote).toHaveBeenCalledWith('refund-1');
+    });
+  });
+});
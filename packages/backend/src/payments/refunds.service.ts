@@ -0,0 +1,657 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+import { Payment, PaymentWebhookStatus, Prisma, Refund } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../common/services/audit.service';
+import { ValidationService } from '../common/services/validation.service';
+import { CreditService } from '../credit/credit.service';
+import { InvoicesService } from '../invoices/invoices.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { StockLedgerService } from '../products/stock-ledger.service';
+import { RazorpayClient } from './razorpay.client';
+import {
+  UserRole,
+  PaymentMethod,
+  PaymentStatus,
+  RefundMethod,
+  RefundReason,
+  RefundStatus,
+  CreditEntryType,
+  NotificationType,
+  StockMovementType,
+  roundCurrency,
+} from '@mawell/shared';
+
+export interface RefundItemDto {
+  orderItemId: string;
+  quantity: number;
+}
+
+export interface CreateRefundDto {
+  reason: RefundReason;
+  amount?: number;
+  items?: RefundItemDto[];
+  restock?: boolean;
+  notes?: string;
+}
+
+export interface RefundFilters {
+  status?: RefundStatus;
+  reason?: RefundReason;
+  method?: RefundMethod;
+  startDate?: Date;
+  endDate?: Date;
+  page?: number;
+  limit?: number;
+}
+
+export interface RazorpayRefundEntity {
+  id: string;
+  payment_id: string;
+  amount: number;
+  status: string;
+  notes?: Record<string, string> | unknown[];
+}
+
+export interface RefundWebhookOutcome {
+  status: PaymentWebhookStatus;
+  payment?: Payment;
+  settledRefundId?: string;
+  note?: string;
+}
+
+// Orders paid through the gateway can only be refunded once money has actually come in
+const REFUNDABLE_PAYMENT_STATUSES = [PaymentStatus.PAID, PaymentStatus.PARTIALLY_REFUNDED];
+
+const refundInclude = Prisma.validator<Prisma.RefundInclude>()({
+  items: true,
+  creditNote: true,
+});
+
+@Injectable()
+export class RefundsService {
+  private readonly logger = new Logger(RefundsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+    private validationService: ValidationService,
+    private creditService: CreditService,
+    private invoicesService: InvoicesService,
+    private notificationsService: NotificationsService,
+    private stockLedgerService: StockLedgerService,
+    private razorpayClient: RazorpayClient,
+  ) {}
+
+  /**
+   * Refund a whole order, specific items, or an amount (Admin/OPS). Prepaid orders are
+   * refunded through the gateway; COD and credit orders are refunded to the buyer's
+   * credit ledger. Without items or an amount, everything not yet refunded is returned.
+   */
+  async createRefund(
+    orderId: string,
+    refundData: CreateRefundDto,
+    requestingUserId: string,
+    requestingUserRole: UserRole,
+  ) {
+    if (![UserRole.ADMIN, UserRole.OPS].includes(requestingUserRole)) {
+      throw new ForbiddenException('Only admins and ops users can issue refunds');
+    }
+
+    const refund = await this.prisma.$transaction((tx) => this.recordRefund(tx, orderId, refundData, requestingUserId));
+
+    await this.auditService.logCreate(
+      'REFUND',
+      refund.id,
+      { orderId, ...refundData, amount: refund.amount, method: refund.method },
+      requestingUserId,
+      requestingUserRole,
+    );
+
+    if (refund.method === RefundMethod.GATEWAY) {
+      await this.submitGatewayRefund(refund, refund.payment!);
+    } else {
+      await this.afterRefundSettled(refund.id);
+    }
+
+    return this.findRefundById(refund.id);
+  }
+
+  /**
+   * Record a refund inside the caller's transaction, with the order locked so that
+   * concurrent refunds see each other. Credit ledger refunds settle at once; gateway
+   * refunds stay pending until submitted with `completeRecordedRefund`.
+   */
+  async recordRefund(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    refundData: CreateRefundDto,
+    requestingUserId: string,
+  ): Promise<Refund & { payment: Payment | null }> {
+    await tx.$queryRaw`SELECT "id" FROM "orders" WHERE "id" = ${orderId} FOR UPDATE`;
+
+    const order = await tx.order.findUnique({
+      where: { id: orderId },
+      include: {
+        items: true,
+        payments: true,
+        refunds: { where: { status: { not: RefundStatus.FAILED } }, include: { items: true } },
+        buyer: { select: { buyerProfile: { select: { id: true } } } },
+      },
+    });
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    const method = [PaymentMethod.COD, PaymentMethod.CREDIT].includes(order.paymentMethod as PaymentMethod)
+      ? RefundMethod.CREDIT_LEDGER
+      : RefundMethod.GATEWAY;
+
+    const isPaid = REFUNDABLE_PAYMENT_STATUSES.includes(order.paymentStatus as PaymentStatus);
+    if (!isPaid && order.paymentMethod !== PaymentMethod.CREDIT) {
+      throw new BadRequestException('Only paid orders can be refunded');
+    }
+
+    // Price the refunded items at what the buyer paid per unit, tax included
+    const refundItems = (refundData.items || []).map((requested) => {
+      const item = order.items.find((orderItem) => orderItem.id === requested.orderItemId);
+      if (!item) {
+        throw new BadRequestException(`Order item ${requested.orderItemId} not found on this order`);
+      }
+
+      const refundableQuantity = item.quantity - item.quantityRefunded;
+      if (!Number.isInteger(requested.quantity) || requested.quantity < 1 || requested.quantity > refundableQuantity) {
+        throw new BadRequestException(`Between 1 and ${refundableQuantity} unit(s) of item ${item.id} can be refunded`);
+      }
+      if (refundData.restock) {
+        // Units put back by earlier refunds cannot come back into stock a second time
+        const alreadyRestocked = order.refunds
+          .filter((refund) => refund.restocked)
+          .flatMap((refund) => refund.items)
+          .filter((refundItem) => refundItem.orderItemId === item.id)
+          .reduce((sum, refundItem) => sum + refundItem.quantity, 0);
+        const restockable = item.quantityShipped - alreadyRestocked;
+        if (requested.quantity > restockable) {
+          throw new BadRequestException(`Only ${restockable} shipped unit(s) of item ${item.id} can still be restocked`);
+        }
+      }
+
+      const lineTotal = item.totalPrice - item.discountAmount + item.cgstAmount + item.sgstAmount + item.igstAmount;
+      return {
+        orderItemId: item.id,
+        quantity: requested.quantity,
+        amount: roundCurrency((lineTotal / item.quantity) * requested.quantity),
+      };
+    });
+
+    if (refundData.restock && refundItems.length === 0) {
+      throw new BadRequestException('Restocking requires the refunded items');
+    }
+
+    const alreadyRefunded = order.refunds.reduce((sum, refund) => sum + refund.amount, 0);
+    const refundable = roundCurrency(order.totalAmount - alreadyRefunded);
+    const itemsTotal = roundCurrency(refundItems.reduce((sum, item) => sum + item.amount, 0));
+
+    if (refundable <= 0) {
+      throw new BadRequestException('Nothing left to refund on this order');
+    }
+
+    const amount = roundCurrency(refundData.amount ?? (refundItems.length > 0 ? itemsTotal : refundable));
+    if (amount <= 0 || amount > refundable) {
+      throw new BadRequestException(`Refund must be between 0 and ${refundable}, the amount not yet refunded`);
+    }
+    if (refundItems.length > 0 && amount > itemsTotal) {
+      throw new BadRequestException(`Refund cannot exceed ${itemsTotal} for the selected items`);
+    }
+
+    let payment: Payment | undefined;
+    if (method === RefundMethod.GATEWAY) {
+      payment = order.payments.find(
+        (candidate) =>
+          REFUNDABLE_PAYMENT_STATUSES.includes(candidate.status as PaymentStatus) &&
+          candidate.razorpayPaymentId &&
+          roundCurrency(candidate.amount - candidate.amountRefunded) >= amount,
+      );
+      if (!payment) {
+        throw new BadRequestException('No captured payment on this order covers the refund amount');
+      }
+    }
+
+    const buyerProfileId = order.buyer.buyerProfile?.id;
+    if (method === RefundMethod.CREDIT_LEDGER && !buyerProfileId) {
+      throw new BadRequestException('Buyer has no credit account to refund to');
+    }
+
+    const created = await tx.refund.create({
+      data: {
+        orderId,
+        paymentId: payment?.id,
+        amount,
+        reason: refundData.reason,
+        notes: refundData.notes,
+        method,
+        restocked: !!refundData.restock,
+        createdBy: requestingUserId,
+        items: { create: refundItems },
+      },
+    });
+
+    for (const item of refundItems) {
+      const orderItem = order.items.find((candidate) => candidate.id === item.orderItemId)!;
+      const { count } = await tx.orderItem.updateMany({
+        where: { id: item.orderItemId, quantityRefunded: { lte: orderItem.quantity - item.quantity } },
+        data: { quantityRefunded: { increment: item.quantity } },
+      });
+      if (count === 0) {
+        throw new BadRequestException(`Item ${item.orderItemId} has already been refunded`);
+      }
+    }
+
+    if (method === RefundMethod.CREDIT_LEDGER) {
+      const creditOptions = { reference: created.id, notes: refundData.notes, createdBy: requestingUserId };
+
+      if (order.paymentMethod === PaymentMethod.CREDIT && !isPaid) {
+        // The buyer has not settled this order yet, so the refund reduces what they owe
+        const entry = await this.creditService.releaseOrderCredit(orderId, CreditEntryType.REFUND, {
+          ...creditOptions,
+          amount,
+        }, tx);
+        if (!entry || roundCurrency(-entry.amount) < amount) {
+          throw new BadRequestException('The refund exceeds the credit still outstanding on this order');
+        }
+      } else {
+        await this.creditService.refundToCredit(tx, buyerProfileId!, orderId, amount, creditOptions);
+      }
+
+      await this.settleRefund(tx, created.id);
+    }
+
+    this.logger.log(`Refund ${created.id} of ${amount} recorded for order ${order.orderNumber} (${method})`);
+
+    return { ...created, payment: payment ?? null };
+  }
+
+  /**
+   * Refund against a specific gateway payment (Admin/OPS)
+   */
+  async refundPayment(
+    paymentId: string,
+    refundData: { amount?: number; reason: string },
+    requestingUserId: string,
+    requestingUserRole: UserRole,
+  ) {
+    const payment = await this.prisma.payment.findUnique({ where: { id: paymentId } });
+    if (!payment) {
+      throw new NotFoundException('Payment not found');
+    }
+
+    return this.createRefund(
+      payment.orderId,
+      {
+        reason: RefundReason.OTHER,
+        amount: refundData.amount ?? roundCurrency(payment.amount - payment.amountRefunded),
+        notes: refundData.reason,
+      },
+      requestingUserId,
+      requestingUserRole,
+    );
+  }
+
+  async findRefundById(refundId: string) {
+    const refund = await this.prisma.refund.findUnique({
+      where: { id: refundId },
+      include: refundInclude,
+    });
+    if (!refund) {
+      throw new NotFoundException('Refund not found');
+    }
+    return refund;
+  }
+
+  /**
+   * Get refunds of an order (the buyer or Admin/OPS)
+   */
+  async findOrderRefunds(orderId: string, requestingUserId: string, requestingUserRole: UserRole) {
+    const order = await this.prisma.order.findUnique({
+      where: { id: orderId },
+      select: { buyerId: true },
+    });
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    if (![UserRole.ADMIN, UserRole.OPS].includes(requestingUserRole) && order.buyerId !== requestingUserId) {
+      throw new ForbiddenException('You can only view refunds for your own orders');
+    }
+
+    return this.prisma.refund.findMany({
+      where: { orderId },
+      include: refundInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Get refunds with filters and pagination (Admin/OPS)
+   */
+  async findRefunds(filters: RefundFilters, requestingUserRole: UserRole) {
+    if (![UserRole.ADMIN, UserRole.OPS].includes(requestingUserRole)) {
+      throw new ForbiddenException('Only admins and ops users can view refunds');
+    }
+
+    const { page, limit } = this.validationService.validatePagination(filters.page, filters.limit);
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.RefundWhereInput = {};
+    if (filters.status) where.status = filters.status;
+    if (filters.reason) where.reason = filters.reason;
+    if (filters.method) where.method = filters.method;
+    if (filters.startDate || filters.endDate) {
+      where.createdAt = {};
+      if (filters.startDate) where.createdAt.gte = filters.startDate;
+      if (filters.endDate) where.createdAt.lte = filters.endDate;
+    }
+
+    const [refunds, total] = await Promise.all([
+      this.prisma.refund.findMany({
+        where,
+        skip,
+        take: limit,
+        include: {
+          ...refundInclude,
+          order: { select: { orderNumber: true, buyerId: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.refund.count({ where }),
+    ]);
+
+    return {
+      refunds,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Reconcile a Razorpay refund webhook inside the webhook transaction. Refunds issued
+   * from the Razorpay dashboard have no record yet, so one is created for them.
+   */
+  async applyGatewayRefundEvent(
+    tx: Prisma.TransactionClient,
+    event: 'refund.processed' | 'refund.failed',
+    entity: RazorpayRefundEntity,
+  ): Promise<RefundWebhookOutcome> {
+    const payment = await tx.payment.findFirst({ where: { razorpayPaymentId: entity.payment_id } });
+    if (!payment) {
+      return { status: PaymentWebhookStatus.IGNORED, note: `No payment for Razorpay payment ${entity.payment_id}` };
+    }
+
+    // Our own refunds carry their id in the notes, which also covers a webhook that
+    // arrives before the gateway refund id was stored
+    const notes = Array.isArray(entity.notes) ? {} : entity.notes ?? {};
+    let refund = await tx.refund.findFirst({
+      where: {
+        OR: [{ gatewayRefundId: entity.id }, ...(notes.refundId ? [{ id: notes.refundId }] : [])],
+      },
+    });
+
+    if (!refund) {
+      if (event === 'refund.failed') {
+        return { status: PaymentWebhookStatus.IGNORED, payment, note: `Unknown refund ${entity.id} failed` };
+      }
+
+      refund = await tx.refund.create({
+        data: {
+          orderId: payment.orderId,
+          paymentId: payment.id,
+          amount: roundCurrency(entity.amount / 100),
+          reason: RefundReason.OTHER,
+          notes: 'Issued from the Razorpay dashboard',
+          method: RefundMethod.GATEWAY,
+          gatewayRefundId: entity.id,
+        },
+      });
+    } else if (!refund.gatewayRefundId) {
+      await tx.refund.update({ where: { id: refund.id }, data: { gatewayRefundId: entity.id } });
+    }
+
+    if (event === 'refund.failed') {
+      const failed = await this.failRefund(tx, refund.id, 'Refund failed at the gateway');
+      return {
+        status: PaymentWebhookStatus.PROCESSED,
+        payment,
+        note: failed ? `Refund ${refund.id} failed` : `Refund ${refund.id} is already ${refund.status}`,
+      };
+    }
+
+    const settled = await this.settleRefund(tx, refund.id);
+    return {
+      status: PaymentWebhookStatus.PROCESSED,
+      payment,
+      settledRefundId: settled ? refund.id : undefined,
+      note: settled ? `Refund ${refund.id} processed` : `Refund ${refund.id} is already ${refund.status}`,
+    };
+  }
+
+  /**
+   * Record a full refund of a payment captured after its order was cancelled. Runs in
+   * the capturing transaction, so the refund is on record even if sending it fails.
+   */
+  async recordCancelledOrderRefund(tx: Prisma.TransactionClient, payment: Payment): Promise<Refund> {
+    return tx.refund.create({
+      data: {
+        orderId: payment.orderId,
+        paymentId: payment.id,
+        amount: payment.amount,
+        reason: RefundReason.CANCELLATION,
+        notes: 'Payment captured after the order was cancelled',
+        method: RefundMethod.GATEWAY,
+      },
+    });
+  }
+
+  /**
+   * Record the refund of everything not yet refunded on an order being cancelled, in
+   * the cancelling transaction. Returns null when nothing is left to refund.
+   */
+  async recordCancellationRefund(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    notes: string | undefined,
+    requestingUserId: string,
+  ) {
+    await tx.$queryRaw`SELECT "id" FROM "orders" WHERE "id" = ${orderId} FOR UPDATE`;
+    const order = await tx.order.findUniqueOrThrow({ where: { id: orderId }, select: { totalAmount: true } });
+    const { _sum } = await tx.refund.aggregate({
+      where: { orderId, status: { not: RefundStatus.FAILED } },
+      _sum: { amount: true },
+    });
+    if (roundCurrency(order.totalAmount - (_sum.amount ?? 0)) <= 0) {
+      return null;
+    }
+
+    return this.recordRefund(tx, orderId, { reason: RefundReason.CANCELLATION, notes }, requestingUserId);
+  }
+
+  /**
+   * Finish a refund recorded inside another transaction: send a pending gateway refund,
+   * or issue the credit note for one already settled to the credit ledger. A gateway
+   * error marks the refund failed for ops to reissue instead of propagating.
+   */
+  async completeRecordedRefund(refundId: string) {
+    const refund = await this.prisma.refund.findUnique({ where: { id: refundId }, include: { payment: true } });
+    if (!refund) {
+      return;
+    }
+
+    if (refund.method === RefundMethod.CREDIT_LEDGER) {
+      if (refund.status === RefundStatus.PROCESSED) {
+        await this.afterRefundSettled(refund.id);
+      }
+      return;
+    }
+    if (refund.status !== RefundStatus.PENDING || !refund.payment) {
+      return;
+    }
+
+    try {
+      await this.submitGatewayRefund(refund, refund.payment);
+    } catch (error) {
+      this.logger.error(`Refund ${refundId} could not be submitted: ${error.message}`);
+    }
+  }
+
+  /**
+   * Issue the credit note and tell the buyer once a refund has gone through.
+   * Failures are logged so they never undo the refund itself.
+   */
+  async afterRefundSettled(refundId: string) {
+    const refund = await this.prisma.refund.findUnique({
+      where: { id: refundId },
+      include: { order: { select: { id: true, orderNumber: true, buyerId: true } } },
+    });
+    if (!refund) {
+      return;
+    }
+
+    try {
+      await this.invoicesService.generateCreditNote(refundId);
+    } catch (error) {
+      this.logger.error(`Failed to generate credit note for refund ${refundId}: ${error.message}`);
+    }
+
+    await this.notificationsService.notify(
+      refund.order.buyerId,
+      NotificationType.REFUND_PROCESSED,
+      { orderNumber: refund.order.orderNumber, amount: refund.amount.toFixed(2) },
+      { orderId: refund.order.id, refundId },
+    );
+  }
+
+  // Helper methods
+
+  private async submitGatewayRefund(refund: Refund, payment: Payment) {
+    let response;
+    try {
+      response = await this.razorpayClient.refundPayment(
+        payment.razorpayPaymentId!,
+        Math.round(refund.amount * 100),
+        { refundId: refund.id, orderId: refund.orderId },
+      );
+    } catch (error) {
+      const reason = error?.error?.description || error.message || 'Gateway refund failed';
+      await this.prisma.$transaction((tx) => this.failRefund(tx, refund.id, reason));
+      this.logger.error(`Gateway refund ${refund.id} failed: ${reason}`);
+      throw new BadRequestException(`Refund failed at the payment gateway: ${reason}`);
+    }
+
+    const settled = await this.prisma.$transaction(async (tx) => {
+      await tx.refund.update({ where: { id: refund.id }, data: { gatewayRefundId: response.id } });
+      return response.status === 'processed' ? this.settleRefund(tx, refund.id) : false;
+    });
+
+    if (settled) {
+      await this.afterRefundSettled(refund.id);
+    }
+  }
+
+  /**
+   * Mark a pending refund processed, put returned stock back and roll the refunded
+   * total up into the payment and order. Returns false if it was already settled.
+   */
+  private async settleRefund(tx: Prisma.TransactionClient, refundId: string): Promise<boolean> {
+    const { count } = await tx.refund.updateMany({
+      where: { id: refundId, status: RefundStatus.PENDING },
+      data: { status: RefundStatus.PROCESSED, processedAt: new Date() },
+    });
+    if (count === 0) {
+      return false;
+    }
+
+    const refund = await tx.refund.findUniqueOrThrow({
+      where: { id: refundId },
+      include: { items: { include: { orderItem: true } }, order: true, payment: true },
+    });
+
+    if (refund.restocked) {
+      for (const item of refund.items) {
+        await this.stockLedgerService.applyMovement(tx, {
+          warehouseId: item.orderItem.warehouseId,
+          productId: item.orderItem.productId,
+          variantId: item.orderItem.variantId,
+          type: StockMovementType.RETURN,
+          quantityChange: item.quantity,
+          reason: refund.reason,
+          referenceType: 'REFUND',
+          referenceId: refund.id,
+        });
+      }
+    }
+
+    if (refund.payment) {
+      // Concurrent settlements against the same payment each add their own amount
+      const payment = await tx.payment.update({
+        where: { id: refund.payment.id },
+        data: { amountRefunded: { increment: refund.amount } },
+      });
+      await tx.payment.update({
+        where: { id: payment.id },
+        data: {
+          status:
+            roundCurrency(payment.amountRefunded) >= payment.amount
+              ? PaymentStatus.REFUNDED
+              : PaymentStatus.PARTIALLY_REFUNDED,
+        },
+      });
+    }
+
+    if (REFUNDABLE_PAYMENT_STATUSES.includes(refund.order.paymentStatus as PaymentStatus)) {
+      const { _sum } = await tx.refund.aggregate({
+        where: { orderId: refund.orderId, status: RefundStatus.PROCESSED },
+        _sum: { amount: true },
+      });
+      const totalRefunded = roundCurrency(_sum.amount ?? 0);
+
+      await tx.order.update({
+        where: { id: refund.orderId },
+        data: {
+          paymentStatus:
+            totalRefunded >= refund.order.totalAmount ? PaymentStatus.REFUNDED : PaymentStatus.PARTIALLY_REFUNDED,
+        },
+      });
+    }
+
+    return true;
+  }
+
+  /**
+   * Mark a pending refund failed and make its items refundable again
+   */
+  private async failRefund(tx: Prisma.TransactionClient, refundId: string, reason: string): Promise<boolean> {
+    const { count } = await tx.refund.updateMany({
+      where: { id: refundId, status: RefundStatus.PENDING },
+      data: { status: RefundStatus.FAILED, failureReason: reason },
+    });
+    if (count === 0) {
+      return false;
+    }
+
+    const items = await tx.refundItem.findMany({ where: { refundId } });
+    for (const item of items) {
+      await tx.orderItem.update({
+        where: { id: item.orderItemId },
+        data: { quantityRefunded: { decrement: item.quantity } },
+      });
+    }
+
+    return true;
+  }
+}
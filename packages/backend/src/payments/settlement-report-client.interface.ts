@@ -0,0 +1,20 @@
+export const SETTLEMENT_REPORT_CLIENT = 'SETTLEMENT_REPORT_CLIENT';
+
+// One transaction from a gateway settlement report. Amounts are in rupees.
+export interface SettlementReportEntry {
+  entityId: string; // pay_... for payments, rfnd_... for refunds
+  type: string; // payment, refund, adjustment, transfer
+  amount: number;
+  fee: number;
+  tax: number;
+  settlementId: string;
+  createdAt?: Date;
+  settledAt?: Date;
+}
+
+export interface SettlementReportClient {
+  readonly name: string;
+  isConfigured(): boolean;
+  // Transactions settled on the given day (IST)
+  fetchSettlementReport(date: Date): Promise<SettlementReportEntry[]>;
+}
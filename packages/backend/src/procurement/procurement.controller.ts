@@ -0,0 +1,436 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ValidationPipe,
+  ParseIntPipe,
+  ParseBoolPipe,
+  DefaultValuePipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import {
+  IsString,
+  IsOptional,
+  IsNumber,
+  IsInt,
+  IsEmail,
+  IsBoolean,
+  IsArray,
+  IsDateString,
+  ArrayMinSize,
+  ArrayMaxSize,
+  Length,
+  Matches,
+  MaxLength,
+  Min,
+  Max,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { SuppliersService, CreateSupplierDto, UpdateSupplierDto } from './suppliers.service';
+import {
+  PurchaseOrdersService,
+  PurchaseOrderItemDto,
+  CreatePurchaseOrderDto,
+  UpdatePurchaseOrderDto,
+  GoodsReceiptItemDto,
+  ReceiveGoodsDto,
+} from './purchase-orders.service';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { User } from '../common/decorators/user.decorator';
+import { Public } from '../common/decorators/public.decorator';
+import { UserRole, PurchaseOrderStatus } from '@mawell/shared';
+
+// DTOs
+class CreateSupplierRequestDto implements CreateSupplierDto {
+  @IsString()
+  @Length(2, 100)
+  name: string;
+
+  @IsString()
+  @Length(2, 20)
+  @Matches(/^[A-Za-z0-9]+$/, { message: 'Supplier code must contain only letters and numbers' })
+  code: string;
+
+  @IsOptional()
+  @IsString()
+  gstin?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  contactPerson?: string;
+
+  @IsString()
+  phone: string;
+
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(300)
+  address?: string;
+
+  @IsOptional()
+  @IsString()
+  city?: string;
+
+  @IsOptional()
+  @IsString()
+  state?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(365)
+  paymentTermsDays?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+class UpdateSupplierRequestDto implements UpdateSupplierDto {
+  @IsOptional()
+  @IsString()
+  @Length(2, 100)
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  @Length(2, 20)
+  @Matches(/^[A-Za-z0-9]+$/, { message: 'Supplier code must contain only letters and numbers' })
+  code?: string;
+
+  @IsOptional()
+  @IsString()
+  gstin?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  contactPerson?: string;
+
+  @IsOptional()
+  @IsString()
+  phone?: string;
+
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(300)
+  address?: string;
+
+  @IsOptional()
+  @IsString()
+  city?: string;
+
+  @IsOptional()
+  @IsString()
+  state?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(365)
+  paymentTermsDays?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+class PurchaseOrderItemRequestDto implements PurchaseOrderItemDto {
+  @IsString()
+  variantId: string;
+
+  @IsInt()
+  @Min(1)
+  quantity: number;
+
+  @IsNumber()
+  @Min(0)
+  unitCost: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(28)
+  taxRate?: number;
+}
+
+class CreatePurchaseOrderRequestDto implements CreatePurchaseOrderDto {
+  @IsString()
+  supplierId: string;
+
+  @IsString()
+  warehouseId: string;
+
+  @IsOptional()
+  @IsDateString()
+  expectedDate?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  notes?: string;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(200)
+  @ValidateNested({ each: true })
+  @Type(() => PurchaseOrderItemRequestDto)
+  items: PurchaseOrderItemRequestDto[];
+}
+
+class UpdatePurchaseOrderRequestDto implements UpdatePurchaseOrderDto {
+  @IsOptional()
+  @IsDateString()
+  expectedDate?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  notes?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(200)
+  @ValidateNested({ each: true })
+  @Type(() => PurchaseOrderItemRequestDto)
+  items?: PurchaseOrderItemRequestDto[];
+}
+
+class ClosePurchaseOrderRequestDto {
+  @IsString()
+  @Length(3, 500)
+  reason: string;
+}
+
+class GoodsReceiptItemRequestDto implements GoodsReceiptItemDto {
+  @IsString()
+  purchaseOrderItemId: string;
+
+  @IsInt()
+  @Min(0)
+  quantityReceived: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  quantityRejected?: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  batchNumber?: string;
+
+  @IsOptional()
+  @IsDateString()
+  manufacturingDate?: string;
+
+  @IsOptional()
+  @IsDateString()
+  expiryDate?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(300)
+  notes?: string;
+}
+
+class ReceiveGoodsRequestDto implements ReceiveGoodsDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  notes?: string;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => GoodsReceiptItemRequestDto)
+  items: GoodsReceiptItemRequestDto[];
+}
+
+@ApiTags('Procurement')
+@Controller('procurement')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class ProcurementController {
+  constructor(
+    private readonly suppliersService: SuppliersService,
+    private readonly purchaseOrdersService: PurchaseOrdersService,
+  ) {}
+
+  // Supplier endpoints
+
+  @Post('suppliers')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Create a supplier (Admin only)' })
+  @ApiResponse({ status: 201, description: 'Supplier created successfully' })
+  @ApiResponse({ status: 409, description: 'Supplier code already exists' })
+  async createSupplier(@Body(ValidationPipe) supplierData: CreateSupplierRequestDto, @User() user: any) {
+    return this.suppliersService.createSupplier(supplierData, user.id, user.role);
+  }
+
+  @Get('suppliers')
+  @Roles(UserRole.ADMIN, UserRole.OPS)
+  @ApiOperation({ summary: 'List suppliers' })
+  @ApiQuery({ name: 'search', required: false, type: String })
+  @ApiQuery({ name: 'isActive', required: false, type: Boolean })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({ status: 200, description: 'Suppliers retrieved successfully' })
+  async getSuppliers(
+    @Query('search') search?: string,
+    @Query('isActive', new DefaultValuePipe(undefined), new ParseBoolPipe({ optional: true })) isActive?: boolean,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page?: number,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit?: number,
+  ) {
+    return this.suppliersService.findSuppliers({ search, isActive, page, limit });
+  }
+
+  @Get('suppliers/:id')
+  @Roles(UserRole.ADMIN, UserRole.OPS)
+  @ApiOperation({ summary: 'Get a supplier' })
+  @ApiResponse({ status: 200, description: 'Supplier retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Supplier not found' })
+  async getSupplier(@Param('id') id: string) {
+    return this.suppliersService.findSupplierById(id);
+  }
+
+  @Put('suppliers/:id')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Update a supplier (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Supplier updated successfully' })
+  async updateSupplier(
+    @Param('id') id: string,
+    @Body(ValidationPipe) updateData: UpdateSupplierRequestDto,
+    @User() user: any,
+  ) {
+    return this.suppliersService.updateSupplier(id, updateData, user.id, user.role);
+  }
+
+  // Purchase order endpoints
+
+  @Post('purchase-orders')
+  @Roles(UserRole.ADMIN, UserRole.OPS)
+  @ApiOperation({ summary: 'Create a draft purchase order' })
+  @ApiResponse({ status: 201, description: 'Purchase order created successfully' })
+  async createPurchaseOrder(@Body(ValidationPipe) orderData: CreatePurchaseOrderRequestDto, @User() user: any) {
+    return this.purchaseOrdersService.createPurchaseOrder(orderData, user.id, user.role);
+  }
+
+  @Get('purchase-orders')
+  @Roles(UserRole.ADMIN, UserRole.OPS)
+  @ApiOperation({ summary: 'List purchase orders' })
+  @ApiQuery({ name: 'status', required: false, enum: PurchaseOrderStatus })
+  @ApiQuery({ name: 'supplierId', required: false, type: String })
+  @ApiQuery({ name: 'warehouseId', required: false, type: String })
+  @ApiQuery({ name: 'search', required: false, type: String })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({ status: 200, description: 'Purchase orders retrieved successfully' })
+  async getPurchaseOrders(
+    @User() user: any,
+    @Query('status') status?: PurchaseOrderStatus,
+    @Query('supplierId') supplierId?: string,
+    @Query('warehouseId') warehouseId?: string,
+    @Query('search') search?: string,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page?: number,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit?: number,
+  ) {
+    return this.purchaseOrdersService.findPurchaseOrders(
+      { status, supplierId, warehouseId, search, page, limit },
+      user.id,
+      user.role,
+    );
+  }
+
+  @Get('purchase-orders/:id')
+  @Roles(UserRole.ADMIN, UserRole.OPS)
+  @ApiOperation({ summary: 'Get a purchase order with its lines and receipts' })
+  @ApiResponse({ status: 200, description: 'Purchase order retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Purchase order not found' })
+  async getPurchaseOrder(@Param('id') id: string, @User() user: any) {
+    return this.purchaseOrdersService.findPurchaseOrderById(id, user.id, user.role);
+  }
+
+  @Put('purchase-orders/:id')
+  @Roles(UserRole.ADMIN, UserRole.OPS)
+  @ApiOperation({ summary: 'Update a purchase order; lines only while it is a draft' })
+  @ApiResponse({ status: 200, description: 'Purchase order updated successfully' })
+  async updatePurchaseOrder(
+    @Param('id') id: string,
+    @Body(ValidationPipe) updateData: UpdatePurchaseOrderRequestDto,
+    @User() user: any,
+  ) {
+    return this.purchaseOrdersService.updatePurchaseOrder(id, updateData, user.id, user.role);
+  }
+
+  @Post('purchase-orders/:id/issue')
+  @Roles(UserRole.ADMIN, UserRole.OPS)
+  @ApiOperation({ summary: 'Issue a draft purchase order to the supplier' })
+  @ApiResponse({ status: 200, description: 'Purchase order issued successfully' })
+  async issuePurchaseOrder(@Param('id') id: string, @User() user: any) {
+    return this.purchaseOrdersService.issuePurchaseOrder(id, user.id, user.role);
+  }
+
+  @Post('purchase-orders/:id/cancel')
+  @Roles(UserRole.ADMIN, UserRole.OPS)
+  @ApiOperation({ summary: 'Cancel a purchase order that has not received anything' })
+  @ApiResponse({ status: 200, description: 'Purchase order cancelled successfully' })
+  async cancelPurchaseOrder(@Param('id') id: string, @User() user: any) {
+    return this.purchaseOrdersService.cancelPurchaseOrder(id, user.id, user.role);
+  }
+
+  @Post('purchase-orders/:id/close')
+  @Roles(UserRole.ADMIN, UserRole.OPS)
+  @ApiOperation({ summary: 'Close a partially received purchase order short' })
+  @ApiResponse({ status: 200, description: 'Purchase order closed successfully' })
+  async closePurchaseOrder(
+    @Param('id') id: string,
+    @Body(ValidationPipe) closeData: ClosePurchaseOrderRequestDto,
+    @User() user: any,
+  ) {
+    return this.purchaseOrdersService.closePurchaseOrder(id, closeData.reason, user.id, user.role);
+  }
+
+  @Post('purchase-orders/:id/receipts')
+  @Roles(UserRole.ADMIN, UserRole.OPS)
+  @ApiOperation({ summary: 'Record a goods-received note against a purchase order' })
+  @ApiResponse({ status: 201, description: 'Goods receipt recorded successfully' })
+  @ApiResponse({ status: 400, description: 'Purchase order not open for receiving, or quantity over tolerance' })
+  async receiveGoods(
+    @Param('id') id: string,
+    @Body(ValidationPipe) receiptData: ReceiveGoodsRequestDto,
+    @User() user: any,
+  ) {
+    return this.purchaseOrdersService.receiveGoods(id, receiptData, user.id, user.role);
+  }
+
+  @Get('health')
+  @Public()
+  @ApiOperation({ summary: 'Procurement service health check' })
+  @ApiResponse({ status: 200, description: 'Service is healthy' })
+  async healthCheck() {
+    return {
+      status: 'ok',
+      service: 'procurement',
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
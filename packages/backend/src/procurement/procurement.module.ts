@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { ProcurementController } from './procurement.controller';
+import { SuppliersService } from './suppliers.service';
+import { PurchaseOrdersService } from './purchase-orders.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { CommonModule } from '../common/common.module';
+import { ProductsModule } from '../products/products.module';
+import { WarehousesModule } from '../warehouses/warehouses.module';
+
+@Module({
+  imports: [PrismaModule, CommonModule, ProductsModule, WarehousesModule],
+  controllers: [ProcurementController],
+  providers: [SuppliersService, PurchaseOrdersService],
+  exports: [SuppliersService, PurchaseOrdersService],
+})
+export class ProcurementModule {}
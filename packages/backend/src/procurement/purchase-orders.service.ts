@@ -0,0 +1,581 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  ConflictException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../common/services/audit.service';
+import { ValidationService } from '../common/services/validation.service';
+import { StockLedgerService } from '../products/stock-ledger.service';
+import { InventoryBatchesService } from '../products/inventory-batches.service';
+import { WarehousesService } from '../warehouses/warehouses.service';
+import { StockAlertsService } from '../warehouses/stock-alerts.service';
+import { SuppliersService } from './suppliers.service';
+import { UserRole, PurchaseOrderStatus, StockMovementType, roundCurrency } from '@mawell/shared';
+
+export interface PurchaseOrderItemDto {
+  variantId: string;
+  quantity: number;
+  unitCost: number;
+  taxRate?: number;
+}
+
+export interface CreatePurchaseOrderDto {
+  supplierId: string;
+  warehouseId: string;
+  expectedDate?: string;
+  notes?: string;
+  items: PurchaseOrderItemDto[];
+}
+
+export interface UpdatePurchaseOrderDto {
+  expectedDate?: string;
+  notes?: string;
+  items?: PurchaseOrderItemDto[];
+}
+
+export interface GoodsReceiptItemDto {
+  purchaseOrderItemId: string;
+  quantityReceived: number;
+  quantityRejected?: number;
+  batchNumber?: string;
+  manufacturingDate?: string;
+  expiryDate?: string;
+  notes?: string;
+}
+
+export interface ReceiveGoodsDto {
+  notes?: string;
+  items: GoodsReceiptItemDto[];
+}
+
+export interface PurchaseOrderFilters {
+  status?: PurchaseOrderStatus;
+  supplierId?: string;
+  warehouseId?: string;
+  search?: string;
+  page?: number;
+  limit?: number;
+}
+
+const RECEIVABLE_STATUSES = [PurchaseOrderStatus.ISSUED, PurchaseOrderStatus.PARTIALLY_RECEIVED];
+
+const purchaseOrderInclude = Prisma.validator<Prisma.PurchaseOrderInclude>()({
+  supplier: { select: { id: true, name: true, code: true, phone: true } },
+  warehouse: { select: { id: true, name: true, code: true } },
+  items: {
+    include: {
+      product: { select: { id: true, name: true, hsnCode: true } },
+      variant: { select: { id: true, sku: true, name: true, barcode: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  },
+  receipts: {
+    include: { items: true },
+    orderBy: { receivedAt: 'desc' },
+  },
+});
+
+@Injectable()
+export class PurchaseOrdersService {
+  private readonly logger = new Logger(PurchaseOrdersService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+    private validationService: ValidationService,
+    private stockLedgerService: StockLedgerService,
+    private inventoryBatchesService: InventoryBatchesService,
+    private warehousesService: WarehousesService,
+    private stockAlertsService: StockAlertsService,
+    private suppliersService: SuppliersService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Create a draft purchase order. Line tax rates default to the product's GST rate.
+   */
+  async createPurchaseOrder(
+    orderData: CreatePurchaseOrderDto,
+    requestingUserId: string,
+    requestingUserRole: UserRole,
+  ) {
+    this.assertProcurementRole(requestingUserRole);
+    await this.warehousesService.findWarehouseById(orderData.warehouseId, requestingUserId, requestingUserRole);
+
+    const supplier = await this.suppliersService.findSupplierById(orderData.supplierId);
+    if (!supplier.isActive) {
+      throw new BadRequestException('Supplier is inactive');
+    }
+
+    const lines = await this.buildLines(orderData.items);
+    const poNumber = await this.generatePoNumber();
+
+    const purchaseOrder = await this.prisma.purchaseOrder.create({
+      data: {
+        poNumber,
+        supplierId: supplier.id,
+        warehouseId: orderData.warehouseId,
+        expectedDate: orderData.expectedDate ? new Date(orderData.expectedDate) : null,
+        notes: orderData.notes,
+        ...this.calculateTotals(lines),
+        createdBy: requestingUserId,
+        items: { create: lines },
+      },
+      include: purchaseOrderInclude,
+    });
+
+    // Log audit trail
+    await this.auditService.logCreate(
+      'PURCHASE_ORDER',
+      purchaseOrder.id,
+      { poNumber, supplierId: supplier.id, warehouseId: orderData.warehouseId, items: orderData.items },
+      requestingUserId,
+      requestingUserRole,
+    );
+
+    this.logger.log(`Purchase order ${poNumber} created for supplier ${supplier.code}`);
+
+    return purchaseOrder;
+  }
+
+  /**
+   * Edit a purchase order. Lines can only change while it is a draft.
+   */
+  async updatePurchaseOrder(
+    purchaseOrderId: string,
+    updateData: UpdatePurchaseOrderDto,
+    requestingUserId: string,
+    requestingUserRole: UserRole,
+  ) {
+    const purchaseOrder = await this.findPurchaseOrderById(purchaseOrderId, requestingUserId, requestingUserRole);
+
+    if (![PurchaseOrderStatus.DRAFT, ...RECEIVABLE_STATUSES].includes(purchaseOrder.status as PurchaseOrderStatus)) {
+      throw new BadRequestException(`A ${purchaseOrder.status} purchase order cannot be edited`);
+    }
+    if (updateData.items && purchaseOrder.status !== PurchaseOrderStatus.DRAFT) {
+      throw new BadRequestException('Lines can only be changed on a draft purchase order');
+    }
+
+    const lines = updateData.items ? await this.buildLines(updateData.items) : null;
+
+    await this.prisma.$transaction(async (tx) => {
+      if (lines) {
+        await tx.purchaseOrderItem.deleteMany({ where: { purchaseOrderId } });
+      }
+
+      await tx.purchaseOrder.update({
+        where: { id: purchaseOrderId },
+        data: {
+          ...(updateData.expectedDate !== undefined && {
+            expectedDate: updateData.expectedDate ? new Date(updateData.expectedDate) : null,
+          }),
+          ...(updateData.notes !== undefined && { notes: updateData.notes }),
+          ...(lines && { ...this.calculateTotals(lines), items: { create: lines } }),
+        },
+      });
+    });
+
+    // Log audit trail
+    await this.auditService.logUpdate(
+      'PURCHASE_ORDER',
+      purchaseOrderId,
+      { expectedDate: purchaseOrder.expectedDate, notes: purchaseOrder.notes },
+      updateData,
+      requestingUserId,
+      requestingUserRole,
+    );
+
+    return this.findPurchaseOrderById(purchaseOrderId);
+  }
+
+  async issuePurchaseOrder(purchaseOrderId: string, requestingUserId: string, requestingUserRole: UserRole) {
+    const purchaseOrder = await this.findPurchaseOrderById(purchaseOrderId, requestingUserId, requestingUserRole);
+
+    if (purchaseOrder.status !== PurchaseOrderStatus.DRAFT) {
+      throw new BadRequestException('Only draft purchase orders can be issued');
+    }
+
+    return this.transition(purchaseOrder, PurchaseOrderStatus.ISSUED, { issuedAt: new Date() }, requestingUserId, requestingUserRole);
+  }
+
+  /**
+   * Cancel a purchase order that has not received anything yet
+   */
+  async cancelPurchaseOrder(purchaseOrderId: string, requestingUserId: string, requestingUserRole: UserRole) {
+    const purchaseOrder = await this.findPurchaseOrderById(purchaseOrderId, requestingUserId, requestingUserRole);
+
+    if (![PurchaseOrderStatus.DRAFT, PurchaseOrderStatus.ISSUED].includes(purchaseOrder.status as PurchaseOrderStatus)) {
+      throw new BadRequestException('Purchase orders with receipts cannot be cancelled; close them instead');
+    }
+
+    return this.transition(
+      purchaseOrder,
+      PurchaseOrderStatus.CANCELLED,
+      { cancelledAt: new Date() },
+      requestingUserId,
+      requestingUserRole,
+    );
+  }
+
+  /**
+   * Close a partially received purchase order short, giving up on the outstanding quantity
+   */
+  async closePurchaseOrder(
+    purchaseOrderId: string,
+    reason: string,
+    requestingUserId: string,
+    requestingUserRole: UserRole,
+  ) {
+    const purchaseOrder = await this.findPurchaseOrderById(purchaseOrderId, requestingUserId, requestingUserRole);
+
+    if (purchaseOrder.status !== PurchaseOrderStatus.PARTIALLY_RECEIVED) {
+      throw new BadRequestException('Only partially received purchase orders can be closed');
+    }
+
+    return this.transition(
+      purchaseOrder,
+      PurchaseOrderStatus.CLOSED,
+      { closedAt: new Date(), closeReason: reason },
+      requestingUserId,
+      requestingUserRole,
+    );
+  }
+
+  /**
+   * Record a goods-received note against an issued purchase order. Accepted units go
+   * into the warehouse through the stock ledger, and into a batch when the line has a
+   * batch number or expiry date; rejected units are only recorded. Receipts beyond the
+   * ordered quantity are allowed up to the configured tolerance.
+   */
+  async receiveGoods(
+    purchaseOrderId: string,
+    receiptData: ReceiveGoodsDto,
+    requestingUserId: string,
+    requestingUserRole: UserRole,
+  ) {
+    const purchaseOrder = await this.findPurchaseOrderById(purchaseOrderId, requestingUserId, requestingUserRole);
+
+    if (!RECEIVABLE_STATUSES.includes(purchaseOrder.status as PurchaseOrderStatus)) {
+      throw new BadRequestException(`Goods cannot be received against a ${purchaseOrder.status} purchase order`);
+    }
+    if (receiptData.items.length === 0) {
+      throw new BadRequestException('At least one line is required');
+    }
+
+    const tolerance = this.configService.get<number>('procurement.overReceiptTolerancePercent', 0);
+    const linesById = new Map(purchaseOrder.items.map((item) => [item.id, item]));
+    const seen = new Set<string>();
+
+    for (const receiptItem of receiptData.items) {
+      const line = linesById.get(receiptItem.purchaseOrderItemId);
+      if (!line) {
+        throw new BadRequestException('Line not found on this purchase order');
+      }
+      if (seen.has(line.id)) {
+        throw new BadRequestException(`Line ${line.variant.sku} appears more than once`);
+      }
+      seen.add(line.id);
+
+      if (receiptItem.quantityReceived + (receiptItem.quantityRejected ?? 0) <= 0) {
+        throw new BadRequestException(`Nothing received for ${line.variant.sku}`);
+      }
+
+      const allowed = this.getReceivableLimit(line.quantityOrdered, tolerance) - line.quantityReceived;
+      if (receiptItem.quantityReceived > allowed) {
+        throw new BadRequestException(
+          `Only ${Math.max(allowed, 0)} more unit(s) of ${line.variant.sku} can be accepted; record the excess as rejected`,
+        );
+      }
+
+      if (receiptItem.expiryDate) {
+        const expiryDate = new Date(receiptItem.expiryDate);
+        if (expiryDate <= new Date()) {
+          throw new BadRequestException(`Batch of ${line.variant.sku} has already expired`);
+        }
+        if (receiptItem.manufacturingDate && new Date(receiptItem.manufacturingDate) >= expiryDate) {
+          throw new BadRequestException(`Manufacturing date of ${line.variant.sku} must be before its expiry date`);
+        }
+      }
+    }
+
+    const grnNumber = await this.generateGrnNumber();
+
+    const receipt = await this.prisma.$transaction(async (tx) => {
+      const goodsReceipt = await tx.goodsReceipt.create({
+        data: {
+          grnNumber,
+          purchaseOrderId,
+          warehouseId: purchaseOrder.warehouseId,
+          receivedBy: requestingUserId,
+          notes: receiptData.notes,
+          items: {
+            create: receiptData.items.map((receiptItem) => ({
+              purchaseOrderItemId: receiptItem.purchaseOrderItemId,
+              variantId: linesById.get(receiptItem.purchaseOrderItemId)!.variantId,
+              quantityReceived: receiptItem.quantityReceived,
+              quantityRejected: receiptItem.quantityRejected ?? 0,
+              batchNumber: receiptItem.batchNumber,
+              manufacturingDate: receiptItem.manufacturingDate ? new Date(receiptItem.manufacturingDate) : null,
+              expiryDate: receiptItem.expiryDate ? new Date(receiptItem.expiryDate) : null,
+              notes: receiptItem.notes,
+            })),
+          },
+        },
+        include: { items: true },
+      });
+
+      for (const receiptItem of receiptData.items) {
+        const line = linesById.get(receiptItem.purchaseOrderItemId)!;
+
+        // Guarded so a concurrent receipt cannot push the line past its tolerance
+        const limit = this.getReceivableLimit(line.quantityOrdered, tolerance);
+        const { count } = await tx.purchaseOrderItem.updateMany({
+          where: { id: line.id, quantityReceived: { lte: limit - receiptItem.quantityReceived } },
+          data: {
+            quantityReceived: { increment: receiptItem.quantityReceived },
+            quantityRejected: { increment: receiptItem.quantityRejected ?? 0 },
+          },
+        });
+        if (count === 0) {
+          throw new ConflictException(`${line.variant.sku} was received meanwhile; reload and try again`);
+        }
+
+        if (receiptItem.quantityReceived > 0) {
+          await this.stockLedgerService.applyMovement(tx, {
+            warehouseId: purchaseOrder.warehouseId,
+            productId: line.productId,
+            variantId: line.variantId,
+            type: StockMovementType.RECEIPT,
+            quantityChange: receiptItem.quantityReceived,
+            reason: `Received against ${purchaseOrder.poNumber}`,
+            referenceType: 'GRN',
+            referenceId: goodsReceipt.id,
+            createdBy: requestingUserId,
+          });
+
+          // Dated stock without a supplier batch number is tracked under the GRN number
+          if (receiptItem.batchNumber || receiptItem.expiryDate) {
+            await this.inventoryBatchesService.addToBatch(
+              tx,
+              { warehouseId: purchaseOrder.warehouseId, variantId: line.variantId },
+              {
+                batchNumber: receiptItem.batchNumber || grnNumber,
+                manufacturingDate: receiptItem.manufacturingDate ? new Date(receiptItem.manufacturingDate) : null,
+                expiryDate: receiptItem.expiryDate ? new Date(receiptItem.expiryDate) : null,
+              },
+              receiptItem.quantityReceived,
+            );
+          }
+        }
+      }
+
+      // Fully received once every line has all its ordered units accepted
+      const items = await tx.purchaseOrderItem.findMany({ where: { purchaseOrderId } });
+      const fullyReceived = items.every((item) => item.quantityReceived >= item.quantityOrdered);
+
+      const { count } = await tx.purchaseOrder.updateMany({
+        where: { id: purchaseOrderId, status: { in: RECEIVABLE_STATUSES } },
+        data: { status: fullyReceived ? PurchaseOrderStatus.RECEIVED : PurchaseOrderStatus.PARTIALLY_RECEIVED },
+      });
+      if (count === 0) {
+        throw new BadRequestException('Purchase order is no longer open for receiving');
+      }
+
+      return goodsReceipt;
+    });
+
+    // Log audit trail
+    await this.auditService.logCreate(
+      'GOODS_RECEIPT',
+      receipt.id,
+      { grnNumber, purchaseOrderId, items: receiptData.items },
+      requestingUserId,
+      requestingUserRole,
+    );
+
+    this.logger.log(`GRN ${grnNumber} recorded against purchase order ${purchaseOrder.poNumber}`);
+
+    // Received stock may clear low-stock alerts
+    await this.stockAlertsService.evaluateAlerts(purchaseOrder.warehouseId);
+
+    return receipt;
+  }
+
+  async findPurchaseOrderById(purchaseOrderId: string, requestingUserId?: string, requestingUserRole?: UserRole) {
+    if (requestingUserRole) {
+      this.assertProcurementRole(requestingUserRole);
+    }
+
+    const purchaseOrder = await this.prisma.purchaseOrder.findUnique({
+      where: { id: purchaseOrderId },
+      include: purchaseOrderInclude,
+    });
+
+    if (!purchaseOrder) {
+      throw new NotFoundException('Purchase order not found');
+    }
+
+    if (requestingUserRole === UserRole.OPS) {
+      await this.warehousesService.findWarehouseById(purchaseOrder.warehouseId, requestingUserId, requestingUserRole);
+    }
+
+    return purchaseOrder;
+  }
+
+  async findPurchaseOrders(filters: PurchaseOrderFilters, requestingUserId: string, requestingUserRole: UserRole) {
+    this.assertProcurementRole(requestingUserRole);
+
+    const { page, limit } = this.validationService.validatePagination(filters.page, filters.limit);
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.PurchaseOrderWhereInput = {};
+    if (filters.status) where.status = filters.status;
+    if (filters.supplierId) where.supplierId = filters.supplierId;
+    if (filters.warehouseId) where.warehouseId = filters.warehouseId;
+    if (filters.search) {
+      where.OR = [
+        { poNumber: { contains: filters.search, mode: 'insensitive' } },
+        { supplier: { name: { contains: filters.search, mode: 'insensitive' } } },
+      ];
+    }
+    if (requestingUserRole === UserRole.OPS) {
+      // OPS users only see purchase orders for their assigned warehouses
+      where.warehouse = { warehouseOpsUser: { some: { opsUserId: requestingUserId } } };
+    }
+
+    const [purchaseOrders, total] = await Promise.all([
+      this.prisma.purchaseOrder.findMany({
+        where,
+        include: {
+          supplier: { select: { id: true, name: true, code: true } },
+          warehouse: { select: { id: true, name: true, code: true } },
+          _count: { select: { items: true, receipts: true } },
+        },
+        orderBy: [{ expectedDate: 'asc' }, { createdAt: 'desc' }],
+        skip,
+        take: limit,
+      }),
+      this.prisma.purchaseOrder.count({ where }),
+    ]);
+
+    return {
+      purchaseOrders,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  // Helper methods
+
+  private assertProcurementRole(requestingUserRole: UserRole) {
+    if (![UserRole.ADMIN, UserRole.OPS].includes(requestingUserRole)) {
+      throw new ForbiddenException('Only admins and ops users can manage purchase orders');
+    }
+  }
+
+  private async transition(
+    purchaseOrder: { id: string; poNumber: string; status: string },
+    status: PurchaseOrderStatus,
+    data: Prisma.PurchaseOrderUpdateManyMutationInput,
+    requestingUserId: string,
+    requestingUserRole: UserRole,
+  ) {
+    const { count } = await this.prisma.purchaseOrder.updateMany({
+      where: { id: purchaseOrder.id, status: purchaseOrder.status as PurchaseOrderStatus },
+      data: { ...data, status },
+    });
+    if (count === 0) {
+      throw new BadRequestException('Purchase order was changed by someone else; reload and try again');
+    }
+
+    // Log audit trail
+    await this.auditService.logUpdate(
+      'PURCHASE_ORDER',
+      purchaseOrder.id,
+      { status: purchaseOrder.status },
+      { status, ...data },
+      requestingUserId,
+      requestingUserRole,
+    );
+
+    this.logger.log(`Purchase order ${purchaseOrder.poNumber} moved from ${purchaseOrder.status} to ${status}`);
+
+    return this.findPurchaseOrderById(purchaseOrder.id);
+  }
+
+  private async buildLines(items: PurchaseOrderItemDto[]) {
+    if (items.length === 0) {
+      throw new BadRequestException('A purchase order needs at least one line');
+    }
+    if (new Set(items.map((item) => item.variantId)).size !== items.length) {
+      throw new BadRequestException('Each variant can only appear once on a purchase order');
+    }
+
+    const variants = await this.prisma.productVariant.findMany({
+      where: { id: { in: items.map((item) => item.variantId) } },
+      include: { product: { select: { id: true, taxRate: true } } },
+    });
+    if (variants.length !== items.length) {
+      throw new BadRequestException('One or more variants were not found');
+    }
+    const variantsById = new Map(variants.map((variant) => [variant.id, variant]));
+
+    return items.map((item) => {
+      const variant = variantsById.get(item.variantId)!;
+      return {
+        productId: variant.product.id,
+        variantId: variant.id,
+        quantityOrdered: item.quantity,
+        unitCost: roundCurrency(item.unitCost),
+        taxRate: item.taxRate ?? variant.product.taxRate,
+      };
+    });
+  }
+
+  private calculateTotals(lines: { quantityOrdered: number; unitCost: number; taxRate: number }[]) {
+    const subtotal = roundCurrency(lines.reduce((sum, line) => sum + line.quantityOrdered * line.unitCost, 0));
+    const taxAmount = roundCurrency(
+      lines.reduce((sum, line) => sum + (line.quantityOrdered * line.unitCost * line.taxRate) / 100, 0),
+    );
+
+    return { subtotal, taxAmount, totalAmount: roundCurrency(subtotal + taxAmount) };
+  }
+
+  // Most units a line may accept in total, the ordered quantity plus the tolerance
+  private getReceivableLimit(quantityOrdered: number, tolerancePercent: number) {
+    return Math.floor(quantityOrdered * (1 + tolerancePercent / 100));
+  }
+
+  private async generatePoNumber(): Promise<string> {
+    return this.generateDocumentNumber('PO', (range) => this.prisma.purchaseOrder.count({ where: { createdAt: range } }));
+  }
+
+  private async generateGrnNumber(): Promise<string> {
+    return this.generateDocumentNumber('GRN', (range) => this.prisma.goodsReceipt.count({ where: { receivedAt: range } }));
+  }
+
+  private async generateDocumentNumber(
+    prefix: string,
+    countToday: (range: { gte: Date; lt: Date }) => Promise<number>,
+  ): Promise<string> {
+    const today = new Date();
+    const year = today.getFullYear().toString().slice(-2);
+    const month = (today.getMonth() + 1).toString().padStart(2, '0');
+    const day = today.getDate().toString().padStart(2, '0');
+
+    const startOfDay = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+    const endOfDay = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1);
+    const count = await countToday({ gte: startOfDay, lt: endOfDay });
+
+    const sequence = (count + 1).toString().padStart(4, '0');
+    return `${prefix}${year}${month}${day}${sequence}`;
+  }
+}
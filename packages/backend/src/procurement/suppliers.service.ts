@@ -0,0 +1,183 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../common/services/audit.service';
+import { ValidationService } from '../common/services/validation.service';
+import { UserRole } from '@mawell/shared';
+
+export interface CreateSupplierDto {
+  name: string;
+  code: string;
+  gstin?: string;
+  contactPerson?: string;
+  phone: string;
+  email?: string;
+  address?: string;
+  city?: string;
+  state?: string;
+  paymentTermsDays?: number;
+  isActive?: boolean;
+}
+
+export interface UpdateSupplierDto extends Partial<CreateSupplierDto> {}
+
+export interface SupplierFilters {
+  search?: string;
+  isActive?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+@Injectable()
+export class SuppliersService {
+  private readonly logger = new Logger(SuppliersService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+    private validationService: ValidationService,
+  ) {}
+
+  async createSupplier(supplierData: CreateSupplierDto, requestingUserId: string, requestingUserRole: UserRole) {
+    if (requestingUserRole !== UserRole.ADMIN) {
+      throw new ForbiddenException('Only admins can create suppliers');
+    }
+
+    const data = this.normalizeSupplierData(supplierData);
+
+    const existing = await this.prisma.supplier.findUnique({ where: { code: data.code } });
+    if (existing) {
+      throw new ConflictException('Supplier with this code already exists');
+    }
+
+    const supplier = await this.prisma.supplier.create({
+      data: data as Prisma.SupplierCreateInput,
+    });
+
+    // Log audit trail
+    await this.auditService.logCreate('SUPPLIER', supplier.id, supplier, requestingUserId, requestingUserRole);
+
+    this.logger.log(`Supplier created: ${supplier.name} (${supplier.code})`);
+
+    return supplier;
+  }
+
+  async updateSupplier(
+    supplierId: string,
+    updateData: UpdateSupplierDto,
+    requestingUserId: string,
+    requestingUserRole: UserRole,
+  ) {
+    if (requestingUserRole !== UserRole.ADMIN) {
+      throw new ForbiddenException('Only admins can update suppliers');
+    }
+
+    const supplier = await this.findSupplierById(supplierId);
+    const data = this.normalizeSupplierData(updateData);
+
+    if (data.code && data.code !== supplier.code) {
+      const existing = await this.prisma.supplier.findUnique({ where: { code: data.code } });
+      if (existing) {
+        throw new ConflictException('Supplier with this code already exists');
+      }
+    }
+
+    const updated = await this.prisma.supplier.update({
+      where: { id: supplierId },
+      data,
+    });
+
+    // Log audit trail
+    await this.auditService.logUpdate('SUPPLIER', supplierId, supplier, data, requestingUserId, requestingUserRole);
+
+    return updated;
+  }
+
+  async findSupplierById(supplierId: string) {
+    const supplier = await this.prisma.supplier.findUnique({
+      where: { id: supplierId },
+    });
+
+    if (!supplier) {
+      throw new NotFoundException('Supplier not found');
+    }
+
+    return supplier;
+  }
+
+  async findSuppliers(filters: SupplierFilters = {}) {
+    const { page, limit } = this.validationService.validatePagination(filters.page, filters.limit);
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.SupplierWhereInput = {};
+    if (typeof filters.isActive === 'boolean') where.isActive = filters.isActive;
+    if (filters.search) {
+      where.OR = [
+        { name: { contains: filters.search, mode: 'insensitive' } },
+        { code: { contains: filters.search, mode: 'insensitive' } },
+        { gstin: { contains: filters.search, mode: 'insensitive' } },
+        { phone: { contains: filters.search } },
+      ];
+    }
+
+    const [suppliers, total] = await Promise.all([
+      this.prisma.supplier.findMany({
+        where,
+        orderBy: { name: 'asc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.supplier.count({ where }),
+    ]);
+
+    return {
+      suppliers,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  // Helper methods
+
+  private normalizeSupplierData(supplierData: UpdateSupplierDto): UpdateSupplierDto {
+    const data = { ...supplierData };
+
+    if (data.code) {
+      data.code = data.code.trim().toUpperCase();
+    }
+
+    if (data.phone) {
+      const phoneValidation = this.validationService.validatePhoneNumber(data.phone);
+      if (!phoneValidation.isValid) {
+        throw new BadRequestException(phoneValidation.error);
+      }
+      data.phone = phoneValidation.formatted;
+    }
+
+    if (data.gstin) {
+      data.gstin = data.gstin.trim().toUpperCase();
+      const gstinValidation = this.validationService.validateGSTIN(data.gstin);
+      if (!gstinValidation.isValid) {
+        throw new BadRequestException(gstinValidation.error);
+      }
+    }
+
+    if (data.email) {
+      const emailValidation = this.validationService.validateEmail(data.email);
+      if (!emailValidation.isValid) {
+        throw new BadRequestException(emailValidation.error);
+      }
+    }
+
+    return data;
+  }
+}
@@ -0,0 +1,171 @@
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { PrismaService } from '../prisma/prisma.service';
+import { ValidationService } from '../common/services/validation.service';
+import { InventoryBatchesService } from './inventory-batches.service';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const model = () => ({
+  findFirst: jest.fn(),
+  findMany: jest.fn(),
+  create: jest.fn(),
+  update: jest.fn(),
+  delete: jest.fn(),
+});
+
+const createPrismaMock = () => ({
+  inventoryBatch: model(),
+  orderItemBatch: model(),
+  $executeRaw: jest.fn(),
+});
+
+describe('InventoryBatchesService', () => {
+  let service: InventoryBatchesService;
+  let prisma: ReturnType<typeof createPrismaMock>;
+
+  const ref = { warehouseId: 'warehouse-1', variantId: 'variant-1' };
+  const batch = (id: string, expiresInDays: number | null, quantity: number, reservedQuantity = 0) => ({
+    id,
+    batchNumber: id.toUpperCase(),
+    manufacturingDate: null,
+    expiryDate: expiresInDays === null ? null : new Date(Date.now() + expiresInDays * DAY),
+    quantity,
+    reservedQuantity,
+  });
+  const expired = batch('b-expired', -2, 10);
+  const soon = batch('b-soon', 5, 3);
+  const later = batch('b-later', 60, 10);
+  const undated = batch('b-undated', null, 10);
+
+  // Applies the expiry filter and the FEFO order the service asks for
+  const stubBatches = (batches: ReturnType<typeof batch>[]) =>
+    prisma.inventoryBatch.findMany.mockImplementation(async ({ where }) =>
+      batches
+        .filter((candidate) => !where.OR || !candidate.expiryDate || candidate.expiryDate > new Date())
+        .sort((a, b) => (a.expiryDate?.getTime() ?? Infinity) - (b.expiryDate?.getTime() ?? Infinity)),
+    );
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    prisma = createPrismaMock();
+    prisma.$executeRaw.mockResolvedValue(1);
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        InventoryBatchesService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: ValidationService, useValue: {} },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    service = moduleRef.get(InventoryBatchesService);
+  });
+
+  describe('allocateFefo', () => {
+    it('reserves from the earliest-expiring unexpired batches first', async () => {
+      stubBatches([later, undated, expired, soon]);
+
+      await service.allocateFefo(prisma as any, 'item-1', ref, 5);
+
+      expect(prisma.inventoryBatch.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ OR: [{ expiryDate: null }, { expiryDate: { gt: expect.any(Date) } }] }),
+        }),
+      );
+      expect(prisma.orderItemBatch.create.mock.calls.map(([{ data }]) => data)).toEqual([
+        { orderItemId: 'item-1', batchId: 'b-soon', quantity: 3 },
+        { orderItemId: 'item-1', batchId: 'b-later', quantity: 2 },
+      ]);
+    });
+
+    it('moves on when a batch was reserved by a concurrent checkout', async () => {
+      stubBatches([soon, later]);
+      prisma.$executeRaw.mockResolvedValueOnce(0);
+
+      await service.allocateFefo(prisma as any, 'item-1', ref, 2);
+
+      expect(prisma.orderItemBatch.create.mock.calls.map(([{ data }]) => data)).toEqual([
+        { orderItemId: 'item-1', batchId: 'b-later', quantity: 2 },
+      ]);
+    });
+  });
+
+  describe('consume', () => {
+    it('takes unreserved units in FEFO order and skips expired batches', async () => {
+      stubBatches([undated, expired, later, batch('b-soon', 5, 3, 1)]);
+
+      const taken = await service.consume(prisma as any, ref, 6);
+
+      expect(taken.map(({ batchNumber, quantity }) => ({ batchNumber, quantity }))).toEqual([
+        { batchNumber: 'B-SOON', quantity: 2 },
+        { batchNumber: 'B-LATER', quantity: 4 },
+      ]);
+      expect(prisma.inventoryBatch.update).toHaveBeenCalledWith({
+        where: { id: 'b-soon' },
+        data: { quantity: { decrement: 2 } },
+      });
+    });
+
+    it('writes off an expired batch when it is named', async () => {
+      prisma.inventoryBatch.findFirst.mockResolvedValue(expired);
+
+      const taken = await service.consume(prisma as any, ref, 10, { batchNumber: 'B-EXPIRED' });
+
+      expect(taken).toEqual([expect.objectContaining({ batchNumber: 'B-EXPIRED', quantity: 10 })]);
+      expect(prisma.inventoryBatch.update).toHaveBeenCalledWith({
+        where: { id: 'b-expired' },
+        data: { quantity: { decrement: 10 } },
+      });
+    });
+  });
+
+  describe('releaseAllocations', () => {
+    it('gives back unbatched units first, then the latest-expiring batches', async () => {
+      prisma.orderItemBatch.findMany.mockResolvedValue([
+        { id: 'alloc-soon', batchId: 'b-soon', quantity: 3, dispatchedAt: null, batch: soon },
+        { id: 'alloc-later', batchId: 'b-later', quantity: 4, dispatchedAt: null, batch: later },
+      ]);
+
+      // 10 open units, 7 of them from batches: 3 unbatched go first, then 2 from the later batch
+      await service.releaseAllocations(prisma as any, { id: 'item-1', quantity: 10, quantityCancelled: 0 }, 5);
+
+      expect(prisma.inventoryBatch.update).toHaveBeenCalledTimes(1);
+      expect(prisma.inventoryBatch.update).toHaveBeenCalledWith({
+        where: { id: 'b-later' },
+        data: { reservedQuantity: { decrement: 2 } },
+      });
+      expect(prisma.orderItemBatch.update).toHaveBeenCalledWith({
+        where: { id: 'alloc-later' },
+        data: { quantity: { decrement: 2 } },
+      });
+    });
+
+    it('returns dispatched units to their batch on hand', async () => {
+      const dispatchedAt = new Date();
+      prisma.orderItemBatch.findMany.mockResolvedValue([
+        { id: 'alloc-soon', batchId: 'b-soon', quantity: 3, dispatchedAt, batch: soon },
+      ]);
+
+      await service.releaseAllocations(prisma as any, { id: 'item-1', quantity: 3, quantityCancelled: 0 }, 3);
+
+      expect(prisma.inventoryBatch.update).toHaveBeenCalledWith({
+        where: { id: 'b-soon' },
+        data: { quantity: { increment: 3 } },
+      });
+      expect(prisma.orderItemBatch.delete).toHaveBeenCalledWith({ where: { id: 'alloc-soon' } });
+    });
+  });
+
+  describe('getExpiredQuantity', () => {
+    it('counts the unreserved units of expired batches', async () => {
+      prisma.inventoryBatch.findMany.mockResolvedValue([
+        { quantity: 10, reservedQuantity: 4 },
+        { quantity: 2, reservedQuantity: 3 },
+      ]);
+
+      await expect(service.getExpiredQuantity(prisma as any, ref)).resolves.toBe(6);
+    });
+  });
+});
@@ -0,0 +1,564 @@
+import { Injectable, BadRequestException, ForbiddenException, NotFoundException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InventoryBatch, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { ValidationService } from '../common/services/validation.service';
+import { UserRole } from '@mawell/shared';
+
+export interface InventoryRef {
+  warehouseId: string;
+  variantId: string;
+}
+
+export interface BatchDetails {
+  batchNumber: string;
+  manufacturingDate?: Date | null;
+  expiryDate?: Date | null;
+}
+
+export interface BatchQuantity {
+  batchNumber: string;
+  manufacturingDate: string | null;
+  expiryDate: string | null;
+  quantity: number;
+}
+
+/**
+ * Read a batch breakdown stored as JSON, e.g. on a transfer line. Entries that are
+ * not batch quantities are skipped.
+ */
+export function parseBatchQuantities(value: Prisma.JsonValue | null): BatchQuantity[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value.flatMap((entry) => {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      return [];
+    }
+
+    const { batchNumber, manufacturingDate, expiryDate, quantity } = entry;
+    if (typeof batchNumber !== 'string' || typeof quantity !== 'number') {
+      return [];
+    }
+
+    return [
+      {
+        batchNumber,
+        manufacturingDate: typeof manufacturingDate === 'string' ? manufacturingDate : null,
+        expiryDate: typeof expiryDate === 'string' ? expiryDate : null,
+        quantity,
+      },
+    ];
+  });
+}
+
+export interface NearExpiryFilters {
+  warehouseId?: string;
+  days?: number;
+  page?: number;
+  limit?: number;
+}
+
+// First-expiry-first-out; undated batches go after every dated one
+const FEFO_ORDER: Prisma.InventoryBatchOrderByWithRelationInput[] = [
+  { expiryDate: { sort: 'asc', nulls: 'last' } },
+  { createdAt: 'asc' },
+];
+
+/**
+ * Keeps the batch breakdown of each inventory row in step with the stock ledger.
+ * Batches hold part of the row's stock; whatever no batch covers is unbatched,
+ * is treated as never expiring and is used after every batch.
+ */
+@Injectable()
+export class InventoryBatchesService {
+  private readonly logger = new Logger(InventoryBatchesService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private validationService: ValidationService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Put received units into a batch, creating it on first receipt. The inventory
+   * row must already hold them, i.e. call this after applying the movement.
+   */
+  async addToBatch(tx: Prisma.TransactionClient, ref: InventoryRef, batch: BatchDetails, quantity: number) {
+    if (quantity <= 0) {
+      return;
+    }
+
+    const inventory = await tx.inventory.findUniqueOrThrow({
+      where: { warehouseId_variantId: ref },
+    });
+    const existing = await tx.inventoryBatch.findUnique({
+      where: { inventoryId_batchNumber: { inventoryId: inventory.id, batchNumber: batch.batchNumber } },
+    });
+
+    if (existing) {
+      if (batch.expiryDate && existing.expiryDate && existing.expiryDate.getTime() !== batch.expiryDate.getTime()) {
+        throw new BadRequestException(`Batch ${batch.batchNumber} is already recorded with a different expiry date`);
+      }
+
+      await tx.inventoryBatch.update({
+        where: { id: existing.id },
+        data: {
+          quantity: { increment: quantity },
+          ...(!existing.expiryDate && batch.expiryDate && { expiryDate: batch.expiryDate }),
+          ...(!existing.manufacturingDate && batch.manufacturingDate && { manufacturingDate: batch.manufacturingDate }),
+        },
+      });
+      return;
+    }
+
+    await tx.inventoryBatch.create({
+      data: {
+        inventoryId: inventory.id,
+        warehouseId: inventory.warehouseId,
+        productId: inventory.productId,
+        variantId: inventory.variantId,
+        batchNumber: batch.batchNumber,
+        manufacturingDate: batch.manufacturingDate ?? null,
+        expiryDate: batch.expiryDate ?? null,
+        quantity,
+      },
+    });
+  }
+
+  /**
+   * Reserve an order line's units from unexpired batches in FEFO order and record
+   * the allocation on the line. Units no batch can cover come from unbatched stock,
+   * which the caller's row-level reservation has already checked.
+   */
+  async allocateFefo(tx: Prisma.TransactionClient, orderItemId: string, ref: InventoryRef, quantity: number) {
+    const batches = await tx.inventoryBatch.findMany({
+      where: {
+        ...ref,
+        quantity: { gt: 0 },
+        OR: [{ expiryDate: null }, { expiryDate: { gt: new Date() } }],
+      },
+      orderBy: FEFO_ORDER,
+    });
+
+    let remaining = quantity;
+    for (const batch of batches) {
+      if (remaining === 0) {
+        break;
+      }
+
+      const take = Math.min(remaining, batch.quantity - batch.reservedQuantity);
+      if (take <= 0) {
+        continue;
+      }
+
+      // Guarded like the row-level reservation so concurrent checkouts cannot share units
+      const reserved = await tx.$executeRaw`
+        UPDATE "inventory_batches"
+        SET "reservedQuantity" = "reservedQuantity" + ${take}, "updatedAt" = NOW()
+        WHERE "id" = ${batch.id}
+          AND "quantity" - "reservedQuantity" >= ${take}
+      `;
+      if (reserved === 0) {
+        continue;
+      }
+
+      await tx.orderItemBatch.create({
+        data: { orderItemId, batchId: batch.id, quantity: take },
+      });
+      remaining -= take;
+    }
+  }
+
+  /**
+   * Take back units of an order line that is being cancelled, before the line's
+   * quantityCancelled is updated. Unbatched units go first so the line keeps its
+   * earliest-expiring batches; reserved units are released and dispatched units
+   * are returned to their batch's on-hand stock.
+   */
+  async releaseAllocations(
+    tx: Prisma.TransactionClient,
+    orderItem: { id: string; quantity: number; quantityCancelled: number },
+    quantity: number,
+  ) {
+    const allocations = await tx.orderItemBatch.findMany({
+      where: { orderItemId: orderItem.id },
+      include: { batch: true },
+    });
+    if (allocations.length === 0) {
+      return;
+    }
+
+    const allocated = allocations.reduce((sum, allocation) => sum + allocation.quantity, 0);
+    const unbatched = Math.max(orderItem.quantity - orderItem.quantityCancelled - allocated, 0);
+    let remaining = quantity - Math.min(quantity, unbatched);
+
+    const latestExpiryFirst = [...allocations].sort(
+      (a, b) => (b.batch.expiryDate?.getTime() ?? Infinity) - (a.batch.expiryDate?.getTime() ?? Infinity),
+    );
+    for (const allocation of latestExpiryFirst) {
+      if (remaining === 0) {
+        break;
+      }
+
+      const give = Math.min(remaining, allocation.quantity);
+      await tx.inventoryBatch.update({
+        where: { id: allocation.batchId },
+        data: allocation.dispatchedAt
+          ? { quantity: { increment: give } }
+          : { reservedQuantity: { decrement: give } },
+      });
+
+      if (give === allocation.quantity) {
+        await tx.orderItemBatch.delete({ where: { id: allocation.id } });
+      } else {
+        await tx.orderItemBatch.update({
+          where: { id: allocation.id },
+          data: { quantity: { decrement: give } },
+        });
+      }
+      remaining -= give;
+    }
+  }
+
+  /**
+   * Move an order line's reserved batch units out of on-hand stock when the
+   * order's inventory is deducted
+   */
+  async dispatchAllocations(tx: Prisma.TransactionClient, orderItemId: string) {
+    const allocations = await tx.orderItemBatch.findMany({
+      where: { orderItemId, dispatchedAt: null },
+    });
+
+    for (const allocation of allocations) {
+      const batch = await tx.inventoryBatch.update({
+        where: { id: allocation.batchId },
+        data: {
+          quantity: { decrement: allocation.quantity },
+          reservedQuantity: { decrement: allocation.quantity },
+        },
+      });
+      if (batch.quantity < 0 || batch.reservedQuantity < 0) {
+        throw new BadRequestException(`Batch ${batch.batchNumber} does not hold the units allocated to it`);
+      }
+
+      await tx.orderItemBatch.update({
+        where: { id: allocation.id },
+        data: { dispatchedAt: new Date() },
+      });
+    }
+  }
+
+  /**
+   * Take units that leave outside an order (damage, stock counts, transfers) from
+   * the named batch, or else from batches in FEFO order and then unbatched stock.
+   * Call before applying the movement. Returns what was taken from each batch.
+   */
+  async consume(
+    tx: Prisma.TransactionClient,
+    ref: InventoryRef,
+    quantity: number,
+    options: { batchNumber?: string; includeExpired?: boolean } = {},
+  ): Promise<BatchQuantity[]> {
+    if (quantity <= 0) {
+      return [];
+    }
+
+    if (options.batchNumber) {
+      const batch = await tx.inventoryBatch.findFirst({
+        where: { ...ref, batchNumber: options.batchNumber },
+      });
+      if (!batch) {
+        throw new BadRequestException(`Batch ${options.batchNumber} not found in this warehouse`);
+      }
+      if (batch.quantity - batch.reservedQuantity < quantity) {
+        throw new BadRequestException(
+          `Only ${Math.max(batch.quantity - batch.reservedQuantity, 0)} unreserved unit(s) left in batch ${batch.batchNumber}`,
+        );
+      }
+
+      await tx.inventoryBatch.update({
+        where: { id: batch.id },
+        data: { quantity: { decrement: quantity } },
+      });
+      return [this.toBatchQuantity(batch, quantity)];
+    }
+
+    const batches = await tx.inventoryBatch.findMany({
+      where: {
+        ...ref,
+        quantity: { gt: 0 },
+        ...(!options.includeExpired && { OR: [{ expiryDate: null }, { expiryDate: { gt: new Date() } }] }),
+      },
+      orderBy: FEFO_ORDER,
+    });
+
+    const taken: BatchQuantity[] = [];
+    let remaining = quantity;
+    for (const batch of batches) {
+      if (remaining === 0) {
+        break;
+      }
+
+      const take = Math.min(remaining, batch.quantity - batch.reservedQuantity);
+      if (take <= 0) {
+        continue;
+      }
+
+      await tx.inventoryBatch.update({
+        where: { id: batch.id },
+        data: { quantity: { decrement: take } },
+      });
+      taken.push(this.toBatchQuantity(batch, take));
+      remaining -= take;
+    }
+
+    // Anything left comes out of unbatched stock, which the ledger checks
+    return taken;
+  }
+
+  /**
+   * Unreserved units in expired batches. They stay on hand until written off but
+   * cannot be sold or transferred.
+   */
+  async getExpiredQuantity(client: Prisma.TransactionClient, ref: InventoryRef) {
+    const expired = await client.inventoryBatch.findMany({
+      where: { ...ref, expiryDate: { lte: new Date() } },
+      select: { quantity: true, reservedQuantity: true },
+    });
+
+    return expired.reduce((sum, batch) => sum + Math.max(batch.quantity - batch.reservedQuantity, 0), 0);
+  }
+
+  /**
+   * Batches of a product in FEFO order, empty ones left out unless asked for
+   */
+  async findBatches(productId: string, warehouseId?: string, includeEmpty = false) {
+    const batches = await this.prisma.inventoryBatch.findMany({
+      where: {
+        productId,
+        ...(warehouseId && { warehouseId }),
+        ...(!includeEmpty && { quantity: { gt: 0 } }),
+      },
+      include: {
+        inventory: {
+          select: {
+            warehouse: { select: { id: true, name: true, code: true } },
+            variant: { select: { id: true, sku: true, name: true } },
+          },
+        },
+      },
+      orderBy: FEFO_ORDER,
+    });
+
+    const now = new Date();
+    return batches.map(({ inventory, ...batch }) => ({
+      ...batch,
+      warehouse: inventory.warehouse,
+      variant: inventory.variant,
+      isExpired: !!batch.expiryDate && batch.expiryDate <= now,
+    }));
+  }
+
+  /**
+   * Batches with stock that expire within the window, expired ones included,
+   * soonest first
+   */
+  async getNearExpiryReport(filters: NearExpiryFilters, requestingUserId: string, requestingUserRole: UserRole) {
+    if (![UserRole.ADMIN, UserRole.OPS].includes(requestingUserRole)) {
+      throw new ForbiddenException('Only admins and ops users can view expiry reports');
+    }
+
+    const { page, limit } = this.validationService.validatePagination(filters.page, filters.limit);
+    const skip = (page - 1) * limit;
+    const days = filters.days ?? this.configService.get<number>('business.nearExpiryDays', 30);
+
+    const now = new Date();
+    const cutoff = new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+
+    const where: Prisma.InventoryBatchWhereInput = {
+      quantity: { gt: 0 },
+      expiryDate: { lte: cutoff },
+      ...(filters.warehouseId && { warehouseId: filters.warehouseId }),
+    };
+    if (requestingUserRole === UserRole.OPS) {
+      // OPS users only see batches in their assigned warehouses
+      where.inventory = { warehouse: { warehouseOpsUser: { some: { opsUserId: requestingUserId } } } };
+    }
+
+    const [batches, total] = await Promise.all([
+      this.prisma.inventoryBatch.findMany({
+        where,
+        include: {
+          inventory: {
+            select: {
+              warehouse: { select: { id: true, name: true, code: true } },
+              product: { select: { id: true, name: true } },
+              variant: { select: { id: true, sku: true, name: true, price: true } },
+            },
+          },
+        },
+        orderBy: FEFO_ORDER,
+        skip,
+        take: limit,
+      }),
+      this.prisma.inventoryBatch.count({ where }),
+    ]);
+
+    return {
+      days,
+      batches: batches.map(({ inventory, ...batch }) => ({
+        ...batch,
+        warehouse: inventory.warehouse,
+        product: inventory.product,
+        variant: inventory.variant,
+        availableQuantity: batch.quantity - batch.reservedQuantity,
+        daysToExpiry: Math.ceil((batch.expiryDate!.getTime() - now.getTime()) / (24 * 60 * 60 * 1000)),
+        isExpired: batch.expiryDate! <= now,
+      })),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Every buyer whose order lines were allocated units of a batch, grouped by
+   * buyer. Lines not yet dispatched are included so they can still be stopped.
+   */
+  async getRecallReport(
+    productId: string,
+    batchNumber: string,
+    requestingUserId: string,
+    requestingUserRole: UserRole,
+  ) {
+    if (![UserRole.ADMIN, UserRole.OPS].includes(requestingUserRole)) {
+      throw new ForbiddenException('Only admins and ops users can look up batch recalls');
+    }
+
+    const batchWhere: Prisma.InventoryBatchWhereInput = { productId, batchNumber };
+    if (requestingUserRole === UserRole.OPS) {
+      batchWhere.inventory = { warehouse: { warehouseOpsUser: { some: { opsUserId: requestingUserId } } } };
+    }
+
+    const batches = await this.prisma.inventoryBatch.findMany({
+      where: batchWhere,
+      include: {
+        inventory: {
+          select: {
+            warehouse: { select: { id: true, name: true, code: true } },
+            variant: { select: { id: true, sku: true, name: true } },
+          },
+        },
+      },
+    });
+    if (batches.length === 0) {
+      throw new NotFoundException(`Batch ${batchNumber} not found for this product`);
+    }
+
+    const allocations = await this.prisma.orderItemBatch.findMany({
+      where: { batchId: { in: batches.map((batch) => batch.id) } },
+      include: {
+        orderItem: {
+          select: {
+            id: true,
+            fulfilmentStatus: true,
+            order: {
+              select: {
+                id: true,
+                orderNumber: true,
+                status: true,
+                createdAt: true,
+                buyer: {
+                  select: {
+                    id: true,
+                    name: true,
+                    phone: true,
+                    buyerProfile: { select: { shopName: true } },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const buyers = new Map<
+      string,
+      {
+        buyerId: string;
+        name: string;
+        phone: string;
+        shopName: string | null;
+        quantityDispatched: number;
+        quantityReserved: number;
+        orders: {
+          orderId: string;
+          orderNumber: string;
+          orderStatus: string;
+          fulfilmentStatus: string;
+          batchId: string;
+          quantity: number;
+          dispatchedAt: Date | null;
+        }[];
+      }
+    >();
+
+    for (const allocation of allocations) {
+      const { order } = allocation.orderItem;
+      const entry = buyers.get(order.buyer.id) ?? {
+        buyerId: order.buyer.id,
+        name: order.buyer.name,
+        phone: order.buyer.phone,
+        shopName: order.buyer.buyerProfile?.shopName ?? null,
+        quantityDispatched: 0,
+        quantityReserved: 0,
+        orders: [],
+      };
+
+      if (allocation.dispatchedAt) {
+        entry.quantityDispatched += allocation.quantity;
+      } else {
+        entry.quantityReserved += allocation.quantity;
+      }
+      entry.orders.push({
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        orderStatus: order.status,
+        fulfilmentStatus: allocation.orderItem.fulfilmentStatus,
+        batchId: allocation.batchId,
+        quantity: allocation.quantity,
+        dispatchedAt: allocation.dispatchedAt,
+      });
+      buyers.set(order.buyer.id, entry);
+    }
+
+    this.logger.log(`Recall lookup for batch ${batchNumber}: ${buyers.size} buyer(s)`);
+
+    return {
+      productId,
+      batchNumber,
+      batches: batches.map(({ inventory, ...batch }) => ({
+        ...batch,
+        warehouse: inventory.warehouse,
+        variant: inventory.variant,
+      })),
+      buyers: [...buyers.values()].sort((a, b) => b.quantityDispatched - a.quantityDispatched),
+    };
+  }
+
+  // Helper methods
+
+  private toBatchQuantity(batch: InventoryBatch, quantity: number): BatchQuantity {
+    return {
+      batchNumber: batch.batchNumber,
+      manufacturingDate: batch.manufacturingDate?.toISOString() ?? null,
+      expiryDate: batch.expiryDate?.toISOString() ?? null,
+      quantity,
+    };
+  }
+}
@@ -33,9 +33,20 @@ import {
   IsObject,
   Min,
   IsUUID,
+  IsNotEmpty,
+  IsIn,
+  IsInt,
+  IsDateString,
+  MaxLength,
+  NotEquals,
+  ValidateNested,
 } from 'class-validator';
+import { Type } from 'class-transformer';
 import {
   ProductsService,
+  PricingTierDto,
+  CreateVariantDto,
+  UpdateVariantDto,
   CreateProductDto,
   UpdateProductDto,
   CreateCategoryDto,
@@ -43,16 +54,106 @@ import {
   CreateBrandDto,
   UpdateBrandDto,
   UpdateInventoryDto,
+  RecordStockMovementDto,
   ProductFilters,
 } from './products.service';
+import { InventoryBatchesService } from './inventory-batches.service';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../common/guards/roles.guard';
 import { Roles } from '../common/decorators/roles.decorator';
 import { Public } from '../common/decorators/public.decorator';
 import { User } from '../common/decorators/user.decorator';
-import { UserRole, ProductStatus } from '@mawell/shared';
+import { UserRole, ProductStatus, StockMovementType, CONSTANTS } from '@mawell/shared';
 
 // DTOs
+class PricingTierRequestDto implements PricingTierDto {
+  @IsInt()
+  @Min(1)
+  minQuantity: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxQuantity?: number;
+
+  @IsNumber()
+  @Min(0)
+  price: number;
+}
+
+class CreateVariantRequestDto implements CreateVariantDto {
+  @IsString()
+  sku: string;
+
+  @IsString()
+  name: string;
+
+  @IsOptional()
+  @IsObject()
+  attributes?: Record<string, string>;
+
+  @IsOptional()
+  @IsString()
+  barcode?: string;
+
+  @IsNumber()
+  @Min(0)
+  price: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  mrp?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => PricingTierRequestDto)
+  pricingTiers?: PricingTierRequestDto[];
+}
+
+class UpdateVariantRequestDto implements UpdateVariantDto {
+  @IsOptional()
+  @IsString()
+  sku?: string;
+
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @IsOptional()
+  @IsObject()
+  attributes?: Record<string, string>;
+
+  @IsOptional()
+  @IsString()
+  barcode?: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  price?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  mrp?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => PricingTierRequestDto)
+  pricingTiers?: PricingTierRequestDto[];
+}
+
 class CreateProductRequestDto implements CreateProductDto {
   @IsString()
   name: string;
@@ -68,16 +169,22 @@ class CreateProductRequestDto implements CreateProductDto {
   @IsUUID()
   brandId?: string;
 
+  @IsOptional()
   @IsString()
-  sku: string;
+  sku?: string;
 
   @IsOptional()
   @IsString()
   hsn?: string;
 
+  @IsOptional()
+  @IsIn(CONSTANTS.GST.RATES)
+  taxRate?: number;
+
+  @IsOptional()
   @IsNumber()
   @Min(0)
-  basePrice: number;
+  basePrice?: number;
 
   @IsOptional()
   @IsNumber()
@@ -114,6 +221,18 @@ class CreateProductRequestDto implements CreateProductDto {
   @IsArray()
   @IsString({ each: true })
   images?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => PricingTierRequestDto)
+  pricingTiers?: PricingTierRequestDto[];
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => CreateVariantRequestDto)
+  variants?: CreateVariantRequestDto[];
 }
 
 class UpdateProductRequestDto implements UpdateProductDto {
@@ -141,6 +260,10 @@ class UpdateProductRequestDto implements UpdateProductDto {
   @IsString()
   hsn?: string;
 
+  @IsOptional()
+  @IsIn(CONSTANTS.GST.RATES)
+  taxRate?: number;
+
   @IsOptional()
   @IsNumber()
   @Min(0)
@@ -182,6 +305,12 @@ class UpdateProductRequestDto implements UpdateProductDto {
   @IsArray()
   @IsString({ each: true })
   images?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => PricingTierRequestDto)
+  pricingTiers?: PricingTierRequestDto[];
 }
 
 class CreateCategoryRequestDto implements CreateCategoryDto {
@@ -268,6 +397,10 @@ class UpdateInventoryRequestDto implements UpdateInventoryDto {
   @IsUUID()
   warehouseId: string;
 
+  @IsOptional()
+  @IsString()
+  variantId?: string;
+
   @IsNumber()
   @Min(0)
   quantity: number;
@@ -277,6 +410,11 @@ class UpdateInventoryRequestDto implements UpdateInventoryDto {
   @Min(0)
   reservedQuantity?: number;
 
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minStockLevel?: number;
+
   @IsOptional()
   @IsNumber()
   @Min(0)
@@ -286,6 +424,48 @@ class UpdateInventoryRequestDto implements UpdateInventoryDto {
   @IsNumber()
   @Min(0)
   maxStockLevel?: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  reason?: string;
+}
+
+class RecordStockMovementRequestDto implements RecordStockMovementDto {
+  @IsString()
+  @IsNotEmpty()
+  warehouseId: string;
+
+  @IsString()
+  variantId: string;
+
+  @IsIn([StockMovementType.RECEIPT, StockMovementType.RETURN, StockMovementType.DAMAGE, StockMovementType.ADJUSTMENT])
+  type: StockMovementType.RECEIPT | StockMovementType.RETURN | StockMovementType.DAMAGE | StockMovementType.ADJUSTMENT;
+
+  @IsInt()
+  @NotEquals(0)
+  quantity: number;
+
+  @IsString()
+  @MaxLength(200)
+  reason: string;
+
+  @IsOptional()
+  @IsString()
+  referenceId?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  batchNumber?: string;
+
+  @IsOptional()
+  @IsDateString()
+  manufacturingDate?: string;
+
+  @IsOptional()
+  @IsDateString()
+  expiryDate?: string;
 }
 
 class UpdateProductStatusDto {
@@ -296,7 +476,10 @@ class UpdateProductStatusDto {
 @ApiTags('Products')
 @Controller('products')
 export class ProductsController {
-  constructor(private readonly productsService: ProductsService) {}
+  constructor(
+    private readonly productsService: ProductsService,
+    private readonly inventoryBatchesService: InventoryBatchesService,
+  ) {}
 
   // Product endpoints
 
@@ -315,7 +498,7 @@ export class ProductsController {
   @ApiQuery({ name: 'warehouseId', required: false, type: String, description: 'Warehouse ID for stock check' })
   @ApiQuery({ name: 'page', required: false, type: Number, description: 'Page number (default: 1)' })
   @ApiQuery({ name: 'limit', required: false, type: Number, description: 'Items per page (default: 20)' })
-  @ApiQuery({ name: 'sortBy', required: false, enum: ['name', 'price', 'createdAt', 'updatedAt'], description: 'Sort field' })
+  @ApiQuery({ name: 'sortBy', required: false, enum: ['name', 'createdAt', 'updatedAt'], description: 'Sort field' })
   @ApiQuery({ name: 'sortOrder', required: false, enum: ['asc', 'desc'], description: 'Sort order' })
   @ApiResponse({ status: 200, description: 'Products retrieved successfully' })
   async getProducts(
@@ -331,7 +514,7 @@ export class ProductsController {
     @Query('warehouseId') warehouseId?: string,
     @Query('page', new DefaultValuePipe(1), ParseIntPipe) page?: number,
     @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit?: number,
-    @Query('sortBy', new DefaultValuePipe('createdAt')) sortBy?: 'name' | 'price' | 'createdAt' | 'updatedAt',
+    @Query('sortBy', new DefaultValuePipe('createdAt')) sortBy?: 'name' | 'createdAt' | 'updatedAt',
     @Query('sortOrder', new DefaultValuePipe('desc')) sortOrder?: 'asc' | 'desc',
   ) {
     const filters: ProductFilters = {
@@ -435,6 +618,63 @@ export class ProductsController {
     return this.productsService.updateProductStatus(id, statusData.status, user.id, user.role);
   }
 
+  // Variant endpoints
+
+  @Post(':id/variants')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Add product variant (Admin only)' })
+  @ApiParam({ name: 'id', description: 'Product ID' })
+  @ApiResponse({ status: 201, description: 'Variant created successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request - Invalid data or duplicate SKU' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin access required' })
+  @ApiResponse({ status: 404, description: 'Product not found' })
+  async createVariant(
+    @Param('id') id: string,
+    @Body(ValidationPipe) variantData: CreateVariantRequestDto,
+    @User() user: any,
+  ) {
+    return this.productsService.createVariant(id, variantData, user.id, user.role);
+  }
+
+  @Put(':id/variants/:variantId')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Update product variant (Admin only)' })
+  @ApiParam({ name: 'id', description: 'Product ID' })
+  @ApiParam({ name: 'variantId', description: 'Variant ID' })
+  @ApiResponse({ status: 200, description: 'Variant updated successfully' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin access required' })
+  @ApiResponse({ status: 404, description: 'Variant not found' })
+  async updateVariant(
+    @Param('id') id: string,
+    @Param('variantId') variantId: string,
+    @Body(ValidationPipe) updateData: UpdateVariantRequestDto,
+    @User() user: any,
+  ) {
+    return this.productsService.updateVariant(id, variantId, updateData, user.id, user.role);
+  }
+
+  @Delete(':id/variants/:variantId')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Delete product variant (Admin only)' })
+  @ApiParam({ name: 'id', description: 'Product ID' })
+  @ApiParam({ name: 'variantId', description: 'Variant ID' })
+  @ApiResponse({ status: 200, description: 'Variant deleted successfully' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin access required' })
+  @ApiResponse({ status: 404, description: 'Variant not found' })
+  async deleteVariant(
+    @Param('id') id: string,
+    @Param('variantId') variantId: string,
+    @User() user: any,
+  ) {
+    return this.productsService.deleteVariant(id, variantId, user.id, user.role);
+  }
+
   // Inventory endpoints
 
   @Get(':id/inventory')
@@ -474,6 +714,95 @@ export class ProductsController {
     return this.productsService.updateInventory(id, inventoryData, user.id, user.role);
   }
 
+  @Get(':id/inventory/movements')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.OPS)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get product stock movement history (Admin/OPS only)' })
+  @ApiParam({ name: 'id', description: 'Product ID' })
+  @ApiQuery({ name: 'warehouseId', required: false, type: String, description: 'Filter by warehouse ID' })
+  @ApiQuery({ name: 'variantId', required: false, type: String, description: 'Filter by variant ID' })
+  @ApiQuery({ name: 'type', required: false, enum: StockMovementType, description: 'Filter by movement type' })
+  @ApiQuery({ name: 'startDate', required: false, type: String, description: 'Movements on or after this date' })
+  @ApiQuery({ name: 'endDate', required: false, type: String, description: 'Movements on or before this date' })
+  @ApiQuery({ name: 'page', required: false, type: Number, description: 'Page number' })
+  @ApiQuery({ name: 'limit', required: false, type: Number, description: 'Items per page' })
+  @ApiResponse({ status: 200, description: 'Stock movements retrieved successfully' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin/OPS access required' })
+  @ApiResponse({ status: 404, description: 'Product not found' })
+  async getInventoryMovements(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('warehouseId') warehouseId?: string,
+    @Query('variantId') variantId?: string,
+    @Query('type') type?: StockMovementType,
+    @Query('startDate') startDate?: string,
+    @Query('endDate') endDate?: string,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page?: number,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit?: number,
+  ) {
+    return this.productsService.getInventoryMovements(id, { warehouseId, variantId, type, startDate, endDate, page, limit });
+  }
+
+  @Post(':id/inventory/movements')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.OPS)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Record a receipt, return, damage or adjustment (Admin/OPS only)' })
+  @ApiParam({ name: 'id', description: 'Product ID' })
+  @ApiResponse({ status: 201, description: 'Stock movement recorded successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request - Invalid data or insufficient stock' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin/OPS access required' })
+  @ApiResponse({ status: 404, description: 'Product not found' })
+  async recordStockMovement(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body(ValidationPipe) movementData: RecordStockMovementRequestDto,
+    @User() user: any,
+  ) {
+    return this.productsService.recordStockMovement(id, movementData, user.id, user.role);
+  }
+
+  @Get(':id/batches')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.OPS)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get product stock batches in FEFO order (Admin/OPS only)' })
+  @ApiParam({ name: 'id', description: 'Product ID' })
+  @ApiQuery({ name: 'warehouseId', required: false, type: String, description: 'Filter by warehouse ID' })
+  @ApiQuery({ name: 'includeEmpty', required: false, type: Boolean, description: 'Include batches with no stock left' })
+  @ApiResponse({ status: 200, description: 'Batches retrieved successfully' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin/OPS access required' })
+  @ApiResponse({ status: 404, description: 'Product not found' })
+  async getProductBatches(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('warehouseId') warehouseId?: string,
+    @Query('includeEmpty', new DefaultValuePipe(false), ParseBoolPipe) includeEmpty?: boolean,
+  ) {
+    await this.productsService.findById(id, true);
+    return this.inventoryBatchesService.findBatches(id, warehouseId, includeEmpty);
+  }
+
+  @Get(':id/batches/:batchNumber/recall')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.OPS)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List the buyers who received a batch (Admin/OPS only)' })
+  @ApiParam({ name: 'id', description: 'Product ID' })
+  @ApiParam({ name: 'batchNumber', description: 'Batch number' })
+  @ApiResponse({ status: 200, description: 'Recall report generated successfully' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin/OPS access required' })
+  @ApiResponse({ status: 404, description: 'Batch not found' })
+  async getBatchRecall(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('batchNumber') batchNumber: string,
+    @User() user: any,
+  ) {
+    return this.inventoryBatchesService.getRecallReport(id, batchNumber, user.id, user.role);
+  }
+
   // Category endpoints
 
   @Get('categories/list')
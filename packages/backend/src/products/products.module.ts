@@ -1,13 +1,15 @@
 import { Module } from '@nestjs/common';
 import { ProductsService } from './products.service';
 import { ProductsController } from './products.controller';
+import { StockLedgerService } from './stock-ledger.service';
+import { InventoryBatchesService } from './inventory-batches.service';
 import { PrismaModule } from '../prisma/prisma.module';
 import { CommonModule } from '../common/common.module';
 
 @Module({
   imports: [PrismaModule, CommonModule],
   controllers: [ProductsController],
-  providers: [ProductsService],
-  exports: [ProductsService],
+  providers: [ProductsService, StockLedgerService, InventoryBatchesService],
+  exports: [ProductsService, StockLedgerService, InventoryBatchesService],
 })
 export class ProductsModule {}
\ No newline at end of file
@@ -5,19 +5,42 @@ import {
   ForbiddenException,
   Logger,
 } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
 import { AuditService } from '../common/services/audit.service';
 import { ValidationService } from '../common/services/validation.service';
-import { UserRole, ProductStatus } from '@mawell/shared';
+import { StockLedgerService, StockMovementFilters } from './stock-ledger.service';
+import { InventoryBatchesService } from './inventory-batches.service';
+import { UserRole, ProductStatus, StockMovementType, CONSTANTS } from '@mawell/shared';
+
+export interface PricingTierDto {
+  minQuantity: number;
+  maxQuantity?: number;
+  price: number;
+}
+
+export interface CreateVariantDto {
+  sku: string;
+  name: string;
+  attributes?: Record<string, string>;
+  barcode?: string;
+  price: number;
+  mrp?: number;
+  isActive?: boolean;
+  pricingTiers?: PricingTierDto[];
+}
+
+export interface UpdateVariantDto extends Partial<CreateVariantDto> {}
 
 export interface CreateProductDto {
   name: string;
   description?: string;
   categoryId: string;
   brandId?: string;
-  sku: string;
+  sku?: string;
   hsn?: string;
-  basePrice: number;
+  taxRate?: number;
+  basePrice?: number;
   mrp?: number;
   unit: string;
   minOrderQuantity?: number;
@@ -26,9 +49,11 @@ export interface CreateProductDto {
   tags?: string[];
   specifications?: Record<string, any>;
   images?: string[];
+  pricingTiers?: PricingTierDto[];
+  variants?: CreateVariantDto[];
 }
 
-export interface UpdateProductDto extends Partial<CreateProductDto> {}
+export interface UpdateProductDto extends Partial<Omit<CreateProductDto, 'variants'>> {}
 
 export interface CreateCategoryDto {
   name: string;
@@ -51,10 +76,25 @@ export interface UpdateBrandDto extends Partial<CreateBrandDto> {}
 
 export interface UpdateInventoryDto {
   warehouseId: string;
+  variantId?: string;
   quantity: number;
   reservedQuantity?: number;
+  minStockLevel?: number;
   reorderLevel?: number;
   maxStockLevel?: number;
+  reason?: string;
+}
+
+export interface RecordStockMovementDto {
+  warehouseId: string;
+  variantId: string;
+  type: StockMovementType.RECEIPT | StockMovementType.RETURN | StockMovementType.DAMAGE | StockMovementType.ADJUSTMENT;
+  quantity: number;
+  reason: string;
+  referenceId?: string;
+  batchNumber?: string;
+  manufacturingDate?: string;
+  expiryDate?: string;
 }
 
 export interface ProductFilters {
@@ -70,10 +110,30 @@ export interface ProductFilters {
   warehouseId?: string;
   page?: number;
   limit?: number;
-  sortBy?: 'name' | 'price' | 'createdAt' | 'updatedAt';
+  sortBy?: 'name' | 'createdAt' | 'updatedAt';
   sortOrder?: 'asc' | 'desc';
 }
 
+const variantInclude = Prisma.validator<Prisma.ProductVariantInclude>()({
+  pricingTiers: {
+    orderBy: { minQuantity: 'asc' },
+  },
+});
+
+const productInclude = Prisma.validator<Prisma.ProductInclude>()({
+  category: true,
+  brand: true,
+  variants: {
+    include: variantInclude,
+    orderBy: { createdAt: 'asc' },
+  },
+  inventory: {
+    include: {
+      warehouse: true,
+    },
+  },
+});
+
 @Injectable()
 export class ProductsService {
   private readonly logger = new Logger(ProductsService.name);
@@ -82,6 +142,8 @@ export class ProductsService {
     private prisma: PrismaService,
     private auditService: AuditService,
     private validationService: ValidationService,
+    private stockLedgerService: StockLedgerService,
+    private inventoryBatchesService: InventoryBatchesService,
   ) {}
 
   /**
@@ -114,41 +176,31 @@ export class ProductsService {
       }
     }
 
-    // Check if SKU already exists
-    const existingSku = await this.prisma.product.findUnique({
-      where: { sku: productData.sku },
-    });
-    if (existingSku) {
-      throw new BadRequestException('SKU already exists');
-    }
+    // A product without explicit variants is created as a single-variant product
+    const variants = productData.variants?.length
+      ? productData.variants
+      : [this.toDefaultVariant(productData)];
+    await this.validateVariants(variants);
 
     const product = await this.prisma.product.create({
       data: {
         name: productData.name,
         description: productData.description || '',
-        sku: productData.sku,
         categoryId: productData.categoryId,
         brandId: productData.brandId,
         hsnCode: productData.hsn || '',
-        taxRate: 18, // Default GST rate, should be configurable
-        price: productData.basePrice,
-        mrp: productData.mrp || productData.basePrice,
+        taxRate: productData.taxRate ?? CONSTANTS.GST.DEFAULT_RATE,
         images: productData.images || [],
         specifications: productData.specifications,
         status: ProductStatus.DRAFT,
         isActive: productData.isActive ?? true,
         moq: productData.minOrderQuantity || 1,
         returnPolicy: null,
-      },
-      include: {
-        category: true,
-        brand: true,
-        inventory: {
-          include: {
-            warehouse: true,
-          },
+        variants: {
+          create: variants.map((variant) => this.toVariantCreateInput(variant)),
         },
       },
+      include: productInclude,
     });
 
     // Log audit trail
@@ -180,6 +232,7 @@ export class ProductsService {
 
     const product = await this.prisma.product.findUnique({
       where: { id: productId },
+      include: { variants: true },
     });
     if (!product) {
       throw new NotFoundException('Product not found');
@@ -205,14 +258,19 @@ export class ProductsService {
       }
     }
 
-    // Check if SKU already exists (if updating SKU)
-    if (updateData.sku && updateData.sku !== product.sku) {
-      const existingSku = await this.prisma.product.findUnique({
-        where: { sku: updateData.sku },
-      });
-      if (existingSku) {
-        throw new BadRequestException('SKU already exists');
+    // SKU, price and slab fields address the variant of a single-variant product
+    const variantData: UpdateVariantDto = {};
+    if (updateData.sku !== undefined) variantData.sku = updateData.sku;
+    if (updateData.basePrice !== undefined) variantData.price = updateData.basePrice;
+    if (updateData.mrp !== undefined) variantData.mrp = updateData.mrp;
+    if (updateData.pricingTiers !== undefined) variantData.pricingTiers = updateData.pricingTiers;
+
+    let variantUpdate: Prisma.ProductVariantUpdateInput | undefined;
+    if (Object.keys(variantData).length > 0) {
+      if (product.variants.length !== 1) {
+        throw new BadRequestException('Product has multiple variants; update the variant directly');
       }
+      variantUpdate = await this.prepareVariantUpdate(product.variants[0], variantData);
     }
 
     const oldValues = { ...product };
@@ -221,29 +279,24 @@ export class ProductsService {
     const mappedData: any = {};
     if (updateData.name !== undefined) mappedData.name = updateData.name;
     if (updateData.description !== undefined) mappedData.description = updateData.description;
-    if (updateData.sku !== undefined) mappedData.sku = updateData.sku;
     if (updateData.categoryId !== undefined) mappedData.categoryId = updateData.categoryId;
     if (updateData.brandId !== undefined) mappedData.brandId = updateData.brandId;
     if (updateData.hsn !== undefined) mappedData.hsnCode = updateData.hsn;
-    if (updateData.basePrice !== undefined) mappedData.price = updateData.basePrice;
-    if (updateData.mrp !== undefined) mappedData.mrp = updateData.mrp;
+    if (updateData.taxRate !== undefined) mappedData.taxRate = updateData.taxRate;
     if (updateData.images !== undefined) mappedData.images = updateData.images;
     if (updateData.specifications !== undefined) mappedData.specifications = updateData.specifications;
     if (updateData.isActive !== undefined) mappedData.isActive = updateData.isActive;
     if (updateData.minOrderQuantity !== undefined) mappedData.moq = updateData.minOrderQuantity;
+    if (variantUpdate) {
+      mappedData.variants = {
+        update: { where: { id: product.variants[0].id }, data: variantUpdate },
+      };
+    }
 
     const updatedProduct = await this.prisma.product.update({
       where: { id: productId },
       data: mappedData,
-      include: {
-        category: true,
-        brand: true,
-        inventory: {
-          include: {
-            warehouse: true,
-          },
-        },
-      },
+      include: productInclude,
     });
 
     // Log audit trail
@@ -272,15 +325,7 @@ export class ProductsService {
 
     const product = await this.prisma.product.findUnique({
       where,
-      include: {
-        category: true,
-        brand: true,
-        inventory: {
-          include: {
-            warehouse: true,
-          },
-        },
-      },
+      include: productInclude,
     });
 
     if (!product) {
@@ -320,9 +365,10 @@ export class ProductsService {
     if (status) where.status = status;
     if (isActive !== undefined) where.isActive = isActive;
     if (minPrice !== undefined || maxPrice !== undefined) {
-      where.basePrice = {};
-      if (minPrice !== undefined) where.basePrice.gte = minPrice;
-      if (maxPrice !== undefined) where.basePrice.lte = maxPrice;
+      const price: Prisma.FloatFilter = {};
+      if (minPrice !== undefined) price.gte = minPrice;
+      if (maxPrice !== undefined) price.lte = maxPrice;
+      where.variants = { some: { isActive: true, price } };
     }
     if (tags && tags.length > 0) {
       where.tags = {
@@ -333,8 +379,9 @@ export class ProductsService {
       where.OR = [
         { name: { contains: search, mode: 'insensitive' } },
         { description: { contains: search, mode: 'insensitive' } },
-        { sku: { contains: search, mode: 'insensitive' } },
-        { hsn: { contains: search, mode: 'insensitive' } },
+        { variants: { some: { sku: { contains: search, mode: 'insensitive' } } } },
+        { variants: { some: { barcode: search } } },
+        { hsnCode: { contains: search, mode: 'insensitive' } },
       ];
     }
     if (inStock && warehouseId) {
@@ -353,8 +400,7 @@ export class ProductsService {
       this.prisma.product.findMany({
         where,
         include: {
-          category: true,
-          brand: true,
+          ...productInclude,
           inventory: warehouseId
             ? {
                 where: { warehouseId },
@@ -433,15 +479,7 @@ export class ProductsService {
     const updatedProduct = await this.prisma.product.update({
       where: { id: productId },
       data: { status },
-      include: {
-        category: true,
-        brand: true,
-        inventory: {
-          include: {
-            warehouse: true,
-          },
-        },
-      },
+      include: productInclude,
     });
 
     // Log audit trail
@@ -459,6 +497,144 @@ export class ProductsService {
     return updatedProduct;
   }
 
+  // Variant Management
+
+  /**
+   * Add a variant to a product (Admin only)
+   */
+  async createVariant(
+    productId: string,
+    variantData: CreateVariantDto,
+    requestingUserId: string,
+    requestingUserRole: UserRole,
+  ) {
+    if (requestingUserRole !== UserRole.ADMIN) {
+      throw new ForbiddenException('Only admins can manage product variants');
+    }
+
+    await this.findById(productId, true);
+    await this.validateVariants([variantData]);
+
+    const variant = await this.prisma.productVariant.create({
+      data: {
+        ...this.toVariantCreateInput(variantData),
+        product: { connect: { id: productId } },
+      },
+      include: variantInclude,
+    });
+
+    // Log audit trail
+    await this.auditService.logCreate(
+      'PRODUCT_VARIANT',
+      variant.id,
+      { productId, ...variantData },
+      requestingUserId,
+      requestingUserRole,
+    );
+
+    this.logger.log(`Variant created: ${variant.sku} for product ${productId}`);
+
+    return variant;
+  }
+
+  /**
+   * Update a product variant (Admin only)
+   */
+  async updateVariant(
+    productId: string,
+    variantId: string,
+    updateData: UpdateVariantDto,
+    requestingUserId: string,
+    requestingUserRole: UserRole,
+  ) {
+    if (requestingUserRole !== UserRole.ADMIN) {
+      throw new ForbiddenException('Only admins can manage product variants');
+    }
+
+    const variant = await this.prisma.productVariant.findFirst({
+      where: { id: variantId, productId },
+    });
+    if (!variant) {
+      throw new NotFoundException('Variant not found');
+    }
+
+    const updatedVariant = await this.prisma.productVariant.update({
+      where: { id: variantId },
+      data: await this.prepareVariantUpdate(variant, updateData),
+      include: variantInclude,
+    });
+
+    // Log audit trail
+    await this.auditService.logUpdate(
+      'PRODUCT_VARIANT',
+      variantId,
+      variant,
+      updateData,
+      requestingUserId,
+      requestingUserRole,
+    );
+
+    this.logger.log(`Variant updated: ${updatedVariant.sku}`);
+
+    return updatedVariant;
+  }
+
+  /**
+   * Deactivate a product variant (soft delete)
+   */
+  async deleteVariant(
+    productId: string,
+    variantId: string,
+    requestingUserId: string,
+    requestingUserRole: UserRole,
+  ) {
+    if (requestingUserRole !== UserRole.ADMIN) {
+      throw new ForbiddenException('Only admins can manage product variants');
+    }
+
+    const variant = await this.prisma.productVariant.findFirst({
+      where: { id: variantId, productId },
+    });
+    if (!variant) {
+      throw new NotFoundException('Variant not found');
+    }
+
+    await this.prisma.productVariant.update({
+      where: { id: variantId },
+      data: { isActive: false },
+    });
+
+    // Log audit trail
+    await this.auditService.logDelete(
+      'PRODUCT_VARIANT',
+      variantId,
+      variant,
+      requestingUserId,
+      requestingUserRole,
+    );
+
+    this.logger.log(`Variant deactivated: ${variant.sku}`);
+
+    return { message: 'Variant deleted successfully' };
+  }
+
+  /**
+   * Get a sellable variant with its product and pricing slabs
+   */
+  async findVariantById(variantId: string) {
+    const variant = await this.prisma.productVariant.findUnique({
+      where: { id: variantId },
+      include: {
+        ...variantInclude,
+        product: true,
+      },
+    });
+    if (!variant || !variant.isActive || !variant.product.isActive) {
+      throw new NotFoundException('Product variant not found');
+    }
+    return variant;
+  }
+
   /**
    * Update product inventory
    */
@@ -472,8 +648,19 @@ export class ProductsService {
       throw new ForbiddenException('Only admins and ops users can update inventory');
     }
 
-    // Verify product exists
-    await this.findById(productId, true);
+    // Verify product exists and resolve the variant being stocked
+    const product = await this.findById(productId, true);
+    const requestedVariantId = inventoryData.variantId;
+    const variant = requestedVariantId
+      ? product.variants.find((v) => v.id === requestedVariantId)
+      : product.variants.length === 1
+        ? product.variants[0]
+        : undefined;
+    if (!variant) {
+      throw new BadRequestException(
+        requestedVariantId ? 'Variant not found for this product' : 'variantId is required for products with multiple variants',
+      );
+    }
 
     // Verify warehouse exists
     const warehouse = await this.prisma.warehouse.findUnique({
@@ -483,65 +670,87 @@ export class ProductsService {
       throw new BadRequestException('Warehouse not found');
     }
 
-    // Check if inventory record exists
-    const existingInventory = await this.prisma.inventory.findUnique({
-      where: {
-        warehouseId_productId: {
+    // Record the difference from the current count as an adjustment
+    const { existingInventory, inventory } = await this.prisma.$transaction(async (tx) => {
+      const where = {
+        warehouseId_variantId: {
           warehouseId: inventoryData.warehouseId,
-          productId,
+          variantId: variant.id,
         },
-      },
-    });
+      };
+      const existingInventory = await tx.inventory.findUnique({ where });
+
+      const quantityChange = inventoryData.quantity - (existingInventory?.quantity ?? 0);
+      const reservedChange =
+        inventoryData.reservedQuantity !== undefined
+          ? inventoryData.reservedQuantity - (existingInventory?.reservedQuantity ?? 0)
+          : 0;
+
+      if (!existingInventory || quantityChange !== 0 || reservedChange !== 0) {
+        // Missing units come out of batches first, expired ones included
+        if (quantityChange < 0) {
+          await this.inventoryBatchesService.consume(
+            tx,
+            { warehouseId: inventoryData.warehouseId, variantId: variant.id },
+            -quantityChange,
+            { includeExpired: true },
+          );
+        }
+
+        await this.stockLedgerService.applyMovement(tx, {
+          warehouseId: inventoryData.warehouseId,
+          productId,
+          variantId: variant.id,
+          type: StockMovementType.ADJUSTMENT,
+          quantityChange,
+          reservedChange,
+          reason: inventoryData.reason || 'Stock count',
+          createdBy: requestingUserId,
+        });
+      }
 
-    let inventory;
-    if (existingInventory) {
-      const oldValues = { ...existingInventory };
-      inventory = await this.prisma.inventory.update({
-        where: {
-          warehouseId_productId: {
-            warehouseId: inventoryData.warehouseId,
-            productId,
-          },
-        },
-        data: inventoryData,
+      const { minStockLevel, reorderLevel, maxStockLevel } = inventoryData;
+      if (minStockLevel !== undefined || reorderLevel !== undefined || maxStockLevel !== undefined) {
+        await tx.inventory.update({
+          where,
+          data: { minStockLevel, reorderLevel, maxStockLevel },
+        });
+      }
+
+      const inventory = await tx.inventory.findUniqueOrThrow({
+        where,
         include: {
           product: true,
+          variant: true,
           warehouse: true,
         },
       });
 
-      // Log audit trail
+      return { existingInventory, inventory };
+    });
+
+    // Log audit trail
+    const newValues = { quantity: inventory.quantity, reservedQuantity: inventory.reservedQuantity };
+    if (existingInventory) {
       await this.auditService.logUpdate(
         'INVENTORY',
         inventory.id,
-        oldValues,
-        inventoryData,
+        { quantity: existingInventory.quantity, reservedQuantity: existingInventory.reservedQuantity },
+        newValues,
         requestingUserId,
         requestingUserRole,
       );
     } else {
-      inventory = await this.prisma.inventory.create({
-        data: {
-          productId,
-          ...inventoryData,
-        },
-        include: {
-          product: true,
-          warehouse: true,
-        },
-      });
-
-      // Log audit trail
       await this.auditService.logCreate(
         'INVENTORY',
         inventory.id,
-        { productId, ...inventoryData },
+        { productId, variantId: variant.id, ...newValues },
         requestingUserId,
         requestingUserRole,
       );
     }
 
-    this.logger.log(`Inventory updated for product ${productId} in warehouse ${inventoryData.warehouseId}`);
+    this.logger.log(`Inventory updated for variant ${variant.sku} in warehouse ${inventoryData.warehouseId}`);
 
     return inventory;
   }
@@ -561,6 +770,7 @@ export class ProductsService {
       where,
       include: {
         warehouse: true,
+        variant: true,
       },
       orderBy: {
         warehouse: {
@@ -572,6 +782,100 @@ export class ProductsService {
     return inventory;
   }
 
+  /**
+   * Record a manual stock movement. Quantities are positive except for
+   * adjustments, which carry their own sign.
+   */
+  async recordStockMovement(
+    productId: string,
+    movementData: RecordStockMovementDto,
+    requestingUserId: string,
+    requestingUserRole: UserRole,
+  ) {
+    if (![UserRole.ADMIN, UserRole.OPS].includes(requestingUserRole)) {
+      throw new ForbiddenException('Only admins and ops users can record stock movements');
+    }
+
+    const product = await this.findById(productId, true);
+    if (!product.variants.some((v) => v.id === movementData.variantId)) {
+      throw new BadRequestException('Variant not found for this product');
+    }
+
+    const warehouse = await this.prisma.warehouse.findUnique({
+      where: { id: movementData.warehouseId },
+    });
+    if (!warehouse) {
+      throw new BadRequestException('Warehouse not found');
+    }
+
+    if (movementData.quantity === 0) {
+      throw new BadRequestException('Quantity must not be zero');
+    }
+    if (movementData.type !== StockMovementType.ADJUSTMENT && movementData.quantity < 0) {
+      throw new BadRequestException('Quantity must be positive; use an adjustment for corrections');
+    }
+
+    const quantityChange =
+      movementData.type === StockMovementType.DAMAGE ? -movementData.quantity : movementData.quantity;
+
+    if (quantityChange > 0 && movementData.expiryDate && !movementData.batchNumber) {
+      throw new BadRequestException('A batch number is required when recording an expiry date');
+    }
+
+    const ref = { warehouseId: movementData.warehouseId, variantId: movementData.variantId };
+    const movement = await this.prisma.$transaction(async (tx) => {
+      // Outgoing units are taken from the named batch, or expired batches first
+      if (quantityChange < 0) {
+        await this.inventoryBatchesService.consume(tx, ref, -quantityChange, {
+          batchNumber: movementData.batchNumber,
+          includeExpired: true,
+        });
+      }
+
+      const movement = await this.stockLedgerService.applyMovement(tx, {
+        warehouseId: movementData.warehouseId,
+        productId,
+        variantId: movementData.variantId,
+        type: movementData.type,
+        quantityChange,
+        reason: movementData.reason,
+        referenceType: movementData.referenceId ? 'MANUAL' : undefined,
+        referenceId: movementData.referenceId,
+        createdBy: requestingUserId,
+      });
+
+      if (quantityChange > 0 && movementData.batchNumber) {
+        await this.inventoryBatchesService.addToBatch(
+          tx,
+          ref,
+          {
+            batchNumber: movementData.batchNumber,
+            manufacturingDate: movementData.manufacturingDate ? new Date(movementData.manufacturingDate) : null,
+            expiryDate: movementData.expiryDate ? new Date(movementData.expiryDate) : null,
+          },
+          quantityChange,
+        );
+      }
+
+      return movement;
+    });
+
+    this.logger.log(
+      `${movementData.type} of ${quantityChange} recorded for variant ${movementData.variantId} in warehouse ${movementData.warehouseId}`,
+    );
+
+    return movement;
+  }
+
+  /**
+   * Get the stock movement history of a product
+   */
+  async getInventoryMovements(productId: string, filters: Omit<StockMovementFilters, 'productId'>) {
+    await this.findById(productId, true);
+
+    return this.stockLedgerService.findMovements({ ...filters, productId });
+  }
+
   // Category Management
 
   /**
@@ -811,4 +1115,115 @@ export class ProductsService {
 
     return updatedBrand;
   }
+
+  // Helper methods
+
+  private toDefaultVariant(productData: CreateProductDto): CreateVariantDto {
+    if (!productData.sku || productData.basePrice === undefined) {
+      throw new BadRequestException('Provide variants, or sku and basePrice for a single-variant product');
+    }
+
+    return {
+      sku: productData.sku,
+      name: 'Default',
+      price: productData.basePrice,
+      mrp: productData.mrp,
+      pricingTiers: productData.pricingTiers,
+    };
+  }
+
+  private toVariantCreateInput(variant: CreateVariantDto): Prisma.ProductVariantCreateWithoutProductInput {
+    return {
+      sku: variant.sku,
+      name: variant.name,
+      attributes: variant.attributes ?? {},
+      barcode: variant.barcode,
+      price: variant.price,
+      mrp: variant.mrp || variant.price,
+      isActive: variant.isActive ?? true,
+      pricingTiers: variant.pricingTiers?.length ? { create: variant.pricingTiers } : undefined,
+    };
+  }
+
+  private async validateVariants(variants: CreateVariantDto[]) {
+    const skus = variants.map((variant) => variant.sku);
+    const barcodes = variants.map((variant) => variant.barcode).filter((barcode): barcode is string => !!barcode);
+    if (new Set(skus).size !== skus.length || new Set(barcodes).size !== barcodes.length) {
+      throw new BadRequestException('Variant SKUs and barcodes must be unique');
+    }
+
+    for (const variant of variants) {
+      if (variant.pricingTiers) {
+        this.validatePricingTiers(variant.pricingTiers, variant.price);
+      }
+    }
+
+    const existing = await this.prisma.productVariant.findFirst({
+      where: {
+        OR: [{ sku: { in: skus } }, ...(barcodes.length ? [{ barcode: { in: barcodes } }] : [])],
+      },
+    });
+    if (existing) {
+      throw new BadRequestException(`SKU or barcode already exists: ${existing.sku}`);
+    }
+  }
+
+  private async prepareVariantUpdate(
+    variant: { id: string; sku: string; barcode: string | null; price: number },
+    updateData: UpdateVariantDto,
+  ): Promise<Prisma.ProductVariantUpdateInput> {
+    if (updateData.pricingTiers) {
+      this.validatePricingTiers(updateData.pricingTiers, updateData.price ?? variant.price);
+    } else if (updateData.price !== undefined && updateData.price < variant.price) {
+      // The slabs already set must stay at or below the lowered base price
+      const tiers = await this.prisma.pricingTier.findMany({ where: { variantId: variant.id } });
+      this.validatePricingTiers(tiers, updateData.price);
+    }
+
+    const changedSku = updateData.sku !== undefined && updateData.sku !== variant.sku;
+    const changedBarcode = updateData.barcode !== undefined && updateData.barcode !== variant.barcode;
+    if (changedSku || changedBarcode) {
+      const existing = await this.prisma.productVariant.findFirst({
+        where: {
+          id: { not: variant.id },
+          OR: [
+            ...(changedSku ? [{ sku: updateData.sku }] : []),
+            ...(changedBarcode && updateData.barcode ? [{ barcode: updateData.barcode }] : []),
+          ],
+        },
+      });
+      if (existing) {
+        throw new BadRequestException(`SKU or barcode already exists: ${existing.sku}`);
+      }
+    }
+
+    const { pricingTiers, ...fields } = updateData;
+    return {
+      ...fields,
+      // Slabs are replaced as a set so ranges never overlap mid-update
+      ...(pricingTiers !== undefined && {
+        pricingTiers: { deleteMany: {}, create: pricingTiers },
+      }),
+    };
+  }
+
+  private validatePricingTiers(tiers: PricingTierDto[], basePrice: number) {
+    const sorted = [...tiers].sort((a, b) => a.minQuantity - b.minQuantity);
+
+    sorted.forEach((tier, index) => {
+      if (tier.maxQuantity != null && tier.maxQuantity < tier.minQuantity) {
+        throw new BadRequestException(`Pricing tier starting at ${tier.minQuantity} has maxQuantity below minQuantity`);
+      }
+      if (tier.price > basePrice) {
+        throw new BadRequestException(`Pricing tier starting at ${tier.minQuantity} is priced above the base price`);
+      }
+
+      const next = sorted[index + 1];
+      if (next && (tier.maxQuantity == null || tier.maxQuantity >= next.minQuantity)) {
+        throw new BadRequestException(
+          `Pricing tiers starting at ${tier.minQuantity} and ${next.minQuantity} overlap`,
+        );
+      }
+    });
+  }
 }
\ No newline at end of file
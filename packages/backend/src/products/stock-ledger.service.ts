@@ -0,0 +1,305 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { ValidationService } from '../common/services/validation.service';
+import { StockMovementType } from '@mawell/shared';
+
+export interface StockMovementInput {
+  warehouseId: string;
+  productId: string;
+  variantId: string;
+  type: StockMovementType;
+  quantityChange?: number;
+  reservedChange?: number;
+  reason?: string;
+  referenceType?: string;
+  referenceId?: string;
+  createdBy?: string;
+}
+
+export interface StockMovementFilters {
+  productId?: string;
+  warehouseId?: string;
+  variantId?: string;
+  type?: StockMovementType;
+  startDate?: string;
+  endDate?: string;
+  page?: number;
+  limit?: number;
+}
+
+// Movement types that change on-hand stock and get their own report column
+const REPORT_TYPES = [
+  StockMovementType.RECEIPT,
+  StockMovementType.DISPATCH,
+  StockMovementType.RETURN,
+  StockMovementType.DAMAGE,
+  StockMovementType.ADJUSTMENT,
+  StockMovementType.TRANSFER_IN,
+  StockMovementType.TRANSFER_OUT,
+];
+
+/**
+ * Every change to Inventory goes through here so that each one leaves a
+ * stock_movements row with the before/after balance.
+ */
+@Injectable()
+export class StockLedgerService {
+  private readonly logger = new Logger(StockLedgerService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private validationService: ValidationService,
+  ) {}
+
+  /**
+   * Apply a movement to the inventory row (creating it on first receipt) and
+   * record it. Fails if on-hand or reserved stock would go negative, or if
+   * removing stock would dip into reserved units, which rolls back the
+   * caller's transaction.
+   */
+  async applyMovement(tx: Prisma.TransactionClient, movement: StockMovementInput) {
+    const quantityChange = movement.quantityChange ?? 0;
+    const reservedChange = movement.reservedChange ?? 0;
+    const where = {
+      warehouseId_variantId: { warehouseId: movement.warehouseId, variantId: movement.variantId },
+    };
+
+    const existing = await tx.inventory.findUnique({ where });
+    if (existing) {
+      await this.ensureOpeningBalance(tx, existing);
+    }
+
+    const inventory = existing
+      ? await tx.inventory.update({
+          where,
+          data: {
+            quantity: { increment: quantityChange },
+            reservedQuantity: { increment: reservedChange },
+          },
+        })
+      : await tx.inventory.create({
+          data: {
+            warehouseId: movement.warehouseId,
+            productId: movement.productId,
+            variantId: movement.variantId,
+            quantity: quantityChange,
+            reservedQuantity: reservedChange,
+          },
+        });
+
+    if (inventory.quantity < 0 || inventory.reservedQuantity < 0) {
+      throw new BadRequestException(
+        `Stock movement would leave ${inventory.quantity} on hand and ${inventory.reservedQuantity} reserved`,
+      );
+    }
+
+    // Units reserved for orders can only leave through the movement that releases them
+    if (quantityChange < 0 && reservedChange >= 0 && inventory.quantity < inventory.reservedQuantity) {
+      throw new BadRequestException(
+        `${inventory.reservedQuantity} unit(s) are reserved for orders; only ${Math.max(
+          inventory.quantity - quantityChange - inventory.reservedQuantity,
+          0,
+        )} can be removed`,
+      );
+    }
+
+    return this.createMovement(tx, inventory, movement);
+  }
+
+  /**
+   * Record a movement the caller has already applied with its own guarded
+   * update, e.g. the conditional reservation at checkout
+   */
+  async recordMovement(tx: Prisma.TransactionClient, movement: StockMovementInput) {
+    const inventory = await tx.inventory.findUniqueOrThrow({
+      where: {
+        warehouseId_variantId: { warehouseId: movement.warehouseId, variantId: movement.variantId },
+      },
+    });
+
+    await this.ensureOpeningBalance(tx, inventory, movement);
+
+    return this.createMovement(tx, inventory, movement);
+  }
+
+  async findMovements(filters: StockMovementFilters) {
+    const { page, limit } = this.validationService.validatePagination(filters.page, filters.limit);
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.StockMovementWhereInput = {};
+    if (filters.productId) where.productId = filters.productId;
+    if (filters.warehouseId) where.warehouseId = filters.warehouseId;
+    if (filters.variantId) where.variantId = filters.variantId;
+    if (filters.type) where.type = filters.type;
+    if (filters.startDate || filters.endDate) {
+      where.createdAt = {
+        ...(filters.startDate && { gte: new Date(filters.startDate) }),
+        ...(filters.endDate && { lte: new Date(filters.endDate) }),
+      };
+    }
+
+    const [movements, total] = await Promise.all([
+      this.prisma.stockMovement.findMany({
+        where,
+        include: {
+          inventory: {
+            select: {
+              warehouse: { select: { id: true, name: true } },
+              variant: { select: { id: true, sku: true, name: true } },
+            },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.stockMovement.count({ where }),
+    ]);
+
+    return {
+      movements,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Per-variant movement totals for a warehouse over a period, with opening
+   * and closing on-hand stock derived from the ledger
+   */
+  async getWarehouseMovementReport(warehouseId: string, startDate: Date, endDate: Date) {
+    const [inventories, inPeriod, afterPeriod] = await Promise.all([
+      this.prisma.inventory.findMany({
+        where: { warehouseId },
+        include: {
+          product: { select: { id: true, name: true } },
+          variant: { select: { id: true, sku: true, name: true } },
+        },
+      }),
+      this.prisma.stockMovement.groupBy({
+        by: ['variantId', 'type'],
+        where: { warehouseId, createdAt: { gte: startDate, lte: endDate } },
+        _sum: { quantityChange: true },
+      }),
+      this.prisma.stockMovement.groupBy({
+        by: ['variantId'],
+        where: { warehouseId, createdAt: { gt: endDate } },
+        _sum: { quantityChange: true },
+      }),
+    ]);
+
+    const laterChange = new Map(afterPeriod.map((row) => [row.variantId, row._sum.quantityChange ?? 0]));
+
+    const rows = inventories
+      .map((inventory) => {
+        const byType = Object.fromEntries(
+          REPORT_TYPES.map((type) => [
+            type,
+            inPeriod
+              .filter((row) => row.variantId === inventory.variantId && row.type === type)
+              .reduce((sum, row) => sum + (row._sum.quantityChange ?? 0), 0),
+          ]),
+        ) as Record<StockMovementType, number>;
+        const netChange = inPeriod
+          .filter((row) => row.variantId === inventory.variantId && row.type !== StockMovementType.OPENING)
+          .reduce((sum, row) => sum + (row._sum.quantityChange ?? 0), 0);
+        const closingQuantity = inventory.quantity - (laterChange.get(inventory.variantId) ?? 0);
+
+        return {
+          productId: inventory.productId,
+          productName: inventory.product.name,
+          variantId: inventory.variantId,
+          sku: inventory.variant.sku,
+          variantName: inventory.variant.name,
+          openingQuantity: closingQuantity - netChange,
+          received: byType[StockMovementType.RECEIPT],
+          dispatched: -byType[StockMovementType.DISPATCH],
+          returned: byType[StockMovementType.RETURN],
+          damaged: -byType[StockMovementType.DAMAGE],
+          adjusted: byType[StockMovementType.ADJUSTMENT],
+          transferredIn: byType[StockMovementType.TRANSFER_IN],
+          transferredOut: -byType[StockMovementType.TRANSFER_OUT],
+          netChange,
+          closingQuantity,
+        };
+      })
+      .sort((a, b) => a.sku.localeCompare(b.sku));
+
+    return {
+      warehouseId,
+      startDate,
+      endDate,
+      items: rows,
+    };
+  }
+
+  // Helper methods
+
+  private createMovement(
+    tx: Prisma.TransactionClient,
+    inventory: { id: string; quantity: number; reservedQuantity: number },
+    movement: StockMovementInput,
+  ) {
+    return tx.stockMovement.create({
+      data: {
+        inventoryId: inventory.id,
+        warehouseId: movement.warehouseId,
+        productId: movement.productId,
+        variantId: movement.variantId,
+        type: movement.type,
+        quantityChange: movement.quantityChange ?? 0,
+        reservedChange: movement.reservedChange ?? 0,
+        quantityAfter: inventory.quantity,
+        reservedAfter: inventory.reservedQuantity,
+        reason: movement.reason,
+        referenceType: movement.referenceType,
+        referenceId: movement.referenceId,
+        createdBy: movement.createdBy,
+      },
+    });
+  }
+
+  /**
+   * Rows stocked before the ledger existed get an OPENING movement for their
+   * balance so the ledger still sums to the inventory. For movements already
+   * applied by the caller, the balance is taken from before that movement.
+   */
+  private async ensureOpeningBalance(
+    tx: Prisma.TransactionClient,
+    inventory: { id: string; warehouseId: string; productId: string; variantId: string; quantity: number; reservedQuantity: number },
+    applied?: StockMovementInput,
+  ) {
+    const hasMovements = await tx.stockMovement.findFirst({
+      where: { inventoryId: inventory.id },
+      select: { id: true },
+    });
+    if (hasMovements) {
+      return;
+    }
+
+    const quantity = inventory.quantity - (applied?.quantityChange ?? 0);
+    const reservedQuantity = inventory.reservedQuantity - (applied?.reservedChange ?? 0);
+    if (quantity === 0 && reservedQuantity === 0) {
+      return;
+    }
+
+    await this.createMovement(
+      tx,
+      { id: inventory.id, quantity, reservedQuantity },
+      {
+        warehouseId: inventory.warehouseId,
+        productId: inventory.productId,
+        variantId: inventory.variantId,
+        type: StockMovementType.OPENING,
+        quantityChange: quantity,
+        reservedChange: reservedQuantity,
+        reason: 'Balance before stock ledger',
+      },
+    );
+
+    this.logger.log(`Opened stock ledger for inventory ${inventory.id} at ${quantity} on hand`);
+  }
+}
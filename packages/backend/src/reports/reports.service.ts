@@ -2,7 +2,7 @@ import { Injectable, Logger, ForbiddenException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { AuditService } from '../common/services/audit.service';
 import { ValidationService } from '../common/services/validation.service';
-import { UserRole, OrderStatus, ConsignmentStatus, PaymentStatus } from '@mawell/shared';
+import { UserRole, OrderStatus, ConsignmentStatus, PaymentStatus, StockAlertStatus, StockAlertType } from '@mawell/shared';
 
 export interface DateRangeDto {
   startDate: Date;
@@ -58,6 +58,8 @@ export interface InventoryReportDto {
     currentStock: number;
     reservedStock: number;
     availableStock: number;
+    minStockLevel: number;
+    reorderLevel: number;
     warehouseName: string;
   }>;
   warehouseInventory: Array<{
@@ -449,25 +451,30 @@ export class ReportsService {
       },
       include: {
         product: true,
+        variant: true,
         warehouse: true,
       },
     });
 
     const totalProducts = inventoryData.length;
     const totalInventoryValue = inventoryData.reduce(
-      (sum, inv) => sum + (inv.quantity * inv.product.price),
+      (sum, inv) => sum + (inv.quantity * inv.variant.price),
       0
     );
 
-    // Low stock products (available stock < 10)
+    // Low stock products (available stock at or below the row's reorder level)
     const lowStockProducts = inventoryData
-      .filter(inv => (inv.quantity - inv.reservedQuantity) < 10)
+      .filter(inv => inv.reorderLevel > 0 && (inv.quantity - inv.reservedQuantity) <= inv.reorderLevel)
       .map(inv => ({
         productId: inv.productId,
         productName: inv.product.name,
+        variantId: inv.variantId,
+        sku: inv.variant.sku,
         currentStock: inv.quantity,
         reservedStock: inv.reservedQuantity,
         availableStock: inv.quantity - inv.reservedQuantity,
+        minStockLevel: inv.minStockLevel,
+        reorderLevel: inv.reorderLevel,
         warehouseName: inv.warehouse.name,
       }));
 
@@ -492,7 +499,7 @@ export class ReportsService {
       
       existing.totalProducts += 1;
       existing.totalQuantity += inv.quantity;
-      existing.totalValue += inv.quantity * inv.product.price;
+      existing.totalValue += inv.quantity * inv.variant.price;
       warehouseStats.set(key, existing);
     });
 
@@ -753,10 +760,11 @@ export class ReportsService {
 
     const [totalProducts, lowStockCount] = await Promise.all([
       this.prisma.product.count({ where: { isActive: true } }),
-      this.prisma.inventory.count({
+      this.prisma.stockAlert.count({
         where: {
           ...inventoryWhereClause,
-          quantity: { lte: this.prisma.inventory.fields.reservedQuantity },
+          status: { in: [StockAlertStatus.OPEN, StockAlertStatus.ACKNOWLEDGED] },
+          type: { not: StockAlertType.OVERSTOCK },
         },
       }),
     ]);
@@ -0,0 +1,234 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  ValidationPipe,
+  BadRequestException,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiConsumes,
+} from '@nestjs/swagger';
+import {
+  IsString,
+  IsOptional,
+  IsNumber,
+  IsBoolean,
+  IsInt,
+  Min,
+  Max,
+  Matches,
+} from 'class-validator';
+import { Type, Transform } from 'class-transformer';
+import { ServiceAreasService } from './service-areas.service';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { Public } from '../common/decorators/public.decorator';
+import { User } from '../common/decorators/user.decorator';
+import { UserRole } from '@mawell/shared';
+
+// DTOs
+class CreateServiceAreaRequestDto {
+  @Matches(/^[1-9][0-9]{5}$/, { message: 'pincode must be a valid 6-digit pincode' })
+  pincode: string;
+
+  @IsString()
+  city: string;
+
+  @IsString()
+  state: string;
+
+  @IsNumber()
+  @Min(0)
+  deliveryFee: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  freeDeliveryThreshold?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  etaHours?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+class UpdateServiceAreaRequestDto {
+  @IsOptional()
+  @Matches(/^[1-9][0-9]{5}$/, { message: 'pincode must be a valid 6-digit pincode' })
+  pincode?: string;
+
+  @IsOptional()
+  @IsString()
+  city?: string;
+
+  @IsOptional()
+  @IsString()
+  state?: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  deliveryFee?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  freeDeliveryThreshold?: number | null;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  etaHours?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+class ServiceAreaFiltersDto {
+  @IsOptional()
+  @IsString()
+  search?: string;
+
+  @IsOptional()
+  @IsString()
+  state?: string;
+
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  isActive?: boolean;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
+
+@ApiTags('Service Areas')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('service-areas')
+export class ServiceAreasController {
+  constructor(private readonly serviceAreasService: ServiceAreasService) {}
+
+  @Get('check/:pincode')
+  @Public()
+  @ApiOperation({ summary: 'Check whether a pincode is serviceable' })
+  @ApiParam({ name: 'pincode', description: '6-digit pincode' })
+  @ApiResponse({ status: 200, description: 'Serviceability retrieved successfully' })
+  async checkPincode(@Param('pincode') pincode: string) {
+    return this.serviceAreasService.checkPincode(pincode);
+  }
+
+  @Post()
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Create service area (Admin only)' })
+  @ApiResponse({ status: 201, description: 'Service area created successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request - Invalid data' })
+  @ApiResponse({ status: 409, description: 'Service area already exists for this pincode' })
+  async createServiceArea(
+    @Body(ValidationPipe) areaData: CreateServiceAreaRequestDto,
+    @User() user: any,
+  ) {
+    return this.serviceAreasService.createServiceArea(areaData, user.id, user.role);
+  }
+
+  @Post('import')
+  @Roles(UserRole.ADMIN)
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiOperation({ summary: 'Bulk import service areas from CSV (Admin only)' })
+  @ApiConsumes('multipart/form-data')
+  @ApiResponse({ status: 201, description: 'Service areas imported' })
+  @ApiResponse({ status: 400, description: 'Invalid CSV file' })
+  async importServiceAreas(
+    @UploadedFile() file: Express.Multer.File,
+    @User() user: any,
+  ) {
+    if (!file) {
+      throw new BadRequestException('CSV file is required');
+    }
+    return this.serviceAreasService.importServiceAreas(file.buffer.toString('utf8'), user.id, user.role);
+  }
+
+  @Get()
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Get service areas (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Service areas retrieved successfully' })
+  async getServiceAreas(@Query(ValidationPipe) filters: ServiceAreaFiltersDto, @User() user: any) {
+    return this.serviceAreasService.findServiceAreas(filters, user.role);
+  }
+
+  @Get('health')
+  @Public()
+  @ApiOperation({ summary: 'Service areas service health check' })
+  @ApiResponse({ status: 200, description: 'Service is healthy' })
+  async healthCheck() {
+    return {
+      status: 'ok',
+      service: 'service-areas',
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  @Get(':id')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Get service area by ID (Admin only)' })
+  @ApiParam({ name: 'id', description: 'Service area ID' })
+  @ApiResponse({ status: 200, description: 'Service area retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Service area not found' })
+  async getServiceArea(@Param('id') id: string) {
+    return this.serviceAreasService.findById(id);
+  }
+
+  @Put(':id')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Update service area (Admin only)' })
+  @ApiParam({ name: 'id', description: 'Service area ID' })
+  @ApiResponse({ status: 200, description: 'Service area updated successfully' })
+  @ApiResponse({ status: 404, description: 'Service area not found' })
+  async updateServiceArea(
+    @Param('id') id: string,
+    @Body(ValidationPipe) updateData: UpdateServiceAreaRequestDto,
+    @User() user: any,
+  ) {
+    return this.serviceAreasService.updateServiceArea(id, updateData, user.id, user.role);
+  }
+
+  @Delete(':id')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Delete service area (Admin only)' })
+  @ApiParam({ name: 'id', description: 'Service area ID' })
+  @ApiResponse({ status: 200, description: 'Service area deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Service area not found' })
+  async deleteServiceArea(@Param('id') id: string, @User() user: any) {
+    return this.serviceAreasService.deleteServiceArea(id, user.id, user.role);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ServiceAreasService } from './service-areas.service';
+import { ServiceAreasController } from './service-areas.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { CommonModule } from '../common/common.module';
+
+@Module({
+  imports: [PrismaModule, CommonModule],
+  controllers: [ServiceAreasController],
+  providers: [ServiceAreasService],
+  exports: [ServiceAreasService],
+})
+export class ServiceAreasModule {}
@@ -0,0 +1,371 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  ConflictException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, ServiceArea } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../common/services/audit.service';
+import { ValidationService } from '../common/services/validation.service';
+import { UserRole, ServiceabilityCheck, parseCsvLine } from '@mawell/shared';
+
+export interface CreateServiceAreaDto {
+  pincode: string;
+  city: string;
+  state: string;
+  deliveryFee: number;
+  freeDeliveryThreshold?: number | null;
+  etaHours?: number;
+  isActive?: boolean;
+}
+
+export interface UpdateServiceAreaDto extends Partial<CreateServiceAreaDto> {}
+
+export interface ServiceAreaFilters {
+  search?: string;
+  state?: string;
+  isActive?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+export interface DeliveryQuote {
+  serviceAreaId: string;
+  deliveryFee: number;
+  etaHours: number;
+  estimatedDeliveryAt: Date;
+}
+
+export interface ServiceAreaImportResult {
+  created: number;
+  updated: number;
+  failed: { line: number; error: string }[];
+}
+
+const CSV_COLUMNS = ['pincode', 'city', 'state', 'deliveryFee', 'etaHours', 'freeDeliveryThreshold', 'isActive'];
+
+@Injectable()
+export class ServiceAreasService {
+  private readonly logger = new Logger(ServiceAreasService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+    private validationService: ValidationService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Check whether a pincode is serviceable (public)
+   */
+  async checkPincode(pincode: string): Promise<ServiceabilityCheck> {
+    const area = await this.prisma.serviceArea.findUnique({ where: { pincode } });
+    if (!area || !area.isActive) {
+      return { pincode, serviceable: false };
+    }
+
+    return {
+      pincode,
+      serviceable: true,
+      city: area.city,
+      state: area.state,
+      deliveryFee: area.deliveryFee,
+      freeDeliveryThreshold: this.getFreeDeliveryThreshold(area) ?? undefined,
+      etaHours: area.etaHours,
+    };
+  }
+
+  /**
+   * Quote delivery fee and ETA for an order value. Rejects unserviceable pincodes.
+   */
+  async quoteDelivery(
+    pincode: string,
+    orderValue: number,
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<DeliveryQuote> {
+    const area = await client.serviceArea.findUnique({ where: { pincode } });
+    if (!area || !area.isActive) {
+      throw new BadRequestException(`Delivery is not available for pincode ${pincode}`);
+    }
+
+    const threshold = this.getFreeDeliveryThreshold(area);
+    const deliveryFee = threshold !== null && orderValue >= threshold ? 0 : area.deliveryFee;
+
+    return {
+      serviceAreaId: area.id,
+      deliveryFee,
+      etaHours: area.etaHours,
+      estimatedDeliveryAt: new Date(Date.now() + area.etaHours * 60 * 60 * 1000),
+    };
+  }
+
+  /**
+   * Create service area (Admin only)
+   */
+  async createServiceArea(
+    areaData: CreateServiceAreaDto,
+    requestingUserId: string,
+    requestingUserRole: UserRole,
+  ) {
+    this.assertAdmin(requestingUserRole);
+    this.validateServiceAreaData(areaData);
+
+    const existing = await this.prisma.serviceArea.findUnique({ where: { pincode: areaData.pincode } });
+    if (existing) {
+      throw new ConflictException('Service area already exists for this pincode');
+    }
+
+    const area = await this.prisma.serviceArea.create({ data: areaData });
+
+    await this.auditService.logCreate('SERVICE_AREA', area.id, areaData, requestingUserId, requestingUserRole);
+
+    this.logger.log(`Service area created: ${area.pincode}`);
+
+    return area;
+  }
+
+  /**
+   * Get service area by ID
+   */
+  async findById(areaId: string) {
+    const area = await this.prisma.serviceArea.findUnique({ where: { id: areaId } });
+    if (!area) {
+      throw new NotFoundException('Service area not found');
+    }
+    return area;
+  }
+
+  /**
+   * Get service areas with filters and pagination (Admin only)
+   */
+  async findServiceAreas(filters: ServiceAreaFilters, requestingUserRole: UserRole) {
+    this.assertAdmin(requestingUserRole);
+
+    const { page, limit } = this.validationService.validatePagination(filters.page, filters.limit);
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.ServiceAreaWhereInput = {};
+    if (filters.isActive !== undefined) where.isActive = filters.isActive;
+    if (filters.state) where.state = { equals: filters.state, mode: 'insensitive' };
+    if (filters.search) {
+      where.OR = [
+        { pincode: { startsWith: filters.search } },
+        { city: { contains: filters.search, mode: 'insensitive' } },
+      ];
+    }
+
+    const [serviceAreas, total] = await Promise.all([
+      this.prisma.serviceArea.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { pincode: 'asc' },
+      }),
+      this.prisma.serviceArea.count({ where }),
+    ]);
+
+    return {
+      serviceAreas,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Update service area (Admin only)
+   */
+  async updateServiceArea(
+    areaId: string,
+    updateData: UpdateServiceAreaDto,
+    requestingUserId: string,
+    requestingUserRole: UserRole,
+  ) {
+    this.assertAdmin(requestingUserRole);
+
+    const area = await this.findById(areaId);
+    this.validateServiceAreaData({ ...area, ...updateData });
+
+    if (updateData.pincode && updateData.pincode !== area.pincode) {
+      const existing = await this.prisma.serviceArea.findUnique({ where: { pincode: updateData.pincode } });
+      if (existing) {
+        throw new ConflictException('Service area already exists for this pincode');
+      }
+    }
+
+    const updatedArea = await this.prisma.serviceArea.update({
+      where: { id: areaId },
+      data: updateData,
+    });
+
+    await this.auditService.logUpdate(
+      'SERVICE_AREA',
+      areaId,
+      area,
+      updateData,
+      requestingUserId,
+      requestingUserRole,
+    );
+
+    this.logger.log(`Service area updated: ${updatedArea.pincode}`);
+
+    return updatedArea;
+  }
+
+  /**
+   * Delete service area (Admin only)
+   */
+  async deleteServiceArea(areaId: string, requestingUserId: string, requestingUserRole: UserRole) {
+    this.assertAdmin(requestingUserRole);
+
+    const area = await this.findById(areaId);
+
+    await this.prisma.serviceArea.delete({ where: { id: areaId } });
+
+    await this.auditService.logDelete('SERVICE_AREA', areaId, area, requestingUserId, requestingUserRole);
+
+    this.logger.log(`Service area deleted: ${area.pincode}`);
+
+    return { message: 'Service area deleted successfully' };
+  }
+
+  /**
+   * Bulk import service areas from CSV (Admin only). Rows are upserted by pincode;
+   * invalid rows are reported and skipped. Optional columns left out or left blank
+   * keep an existing area's value.
+   *
+   * Expected header: pincode,city,state,deliveryFee,etaHours,freeDeliveryThreshold,isActive
+   */
+  async importServiceAreas(
+    csv: string,
+    requestingUserId: string,
+    requestingUserRole: UserRole,
+  ): Promise<ServiceAreaImportResult> {
+    this.assertAdmin(requestingUserRole);
+
+    const lines = csv.split(/\r?\n/).filter((line) => line.trim() !== '');
+    if (lines.length < 2) {
+      throw new BadRequestException('CSV must contain a header row and at least one service area');
+    }
+
+    const header = parseCsvLine(lines[0]).map((column) => column.trim());
+    const missing = ['pincode', 'city', 'state', 'deliveryFee'].filter((column) => !header.includes(column));
+    if (missing.length > 0) {
+      throw new BadRequestException(`CSV is missing required columns: ${missing.join(', ')}`);
+    }
+
+    const result: ServiceAreaImportResult = { created: 0, updated: 0, failed: [] };
+
+    for (let index = 1; index < lines.length; index++) {
+      const lineNumber = index + 1;
+      try {
+        const values = parseCsvLine(lines[index]);
+        const row: Record<string, string> = {};
+        header.forEach((column, position) => {
+          if (CSV_COLUMNS.includes(column)) row[column] = (values[position] ?? '').trim();
+        });
+
+        const areaData = this.toServiceAreaData(row);
+        this.validateServiceAreaData(areaData);
+
+        const existing = await this.prisma.serviceArea.findUnique({ where: { pincode: areaData.pincode } });
+        await this.prisma.serviceArea.upsert({
+          where: { pincode: areaData.pincode },
+          create: areaData,
+          update: areaData,
+        });
+        if (existing) {
+          result.updated++;
+        } else {
+          result.created++;
+        }
+      } catch (error) {
+        result.failed.push({ line: lineNumber, error: error.message });
+      }
+    }
+
+    await this.auditService.logCreate(
+      'SERVICE_AREA_IMPORT',
+      'bulk',
+      { created: result.created, updated: result.updated, failed: result.failed.length },
+      requestingUserId,
+      requestingUserRole,
+    );
+
+    this.logger.log(
+      `Service areas imported: ${result.created} created, ${result.updated} updated, ${result.failed.length} failed`,
+    );
+
+    return result;
+  }
+
+  // Helper methods
+
+  private assertAdmin(requestingUserRole: UserRole) {
+    if (requestingUserRole !== UserRole.ADMIN) {
+      throw new ForbiddenException('Only admins can manage service areas');
+    }
+  }
+
+  private getFreeDeliveryThreshold(area: ServiceArea): number | null {
+    if (area.freeDeliveryThreshold !== null) {
+      return area.freeDeliveryThreshold;
+    }
+    const defaultThreshold = this.configService.get<number>('business.freeDeliveryThreshold');
+    return defaultThreshold ? defaultThreshold : null;
+  }
+
+  private validateServiceAreaData(areaData: CreateServiceAreaDto) {
+    const pincodeValidation = this.validationService.validatePincode(areaData.pincode);
+    if (!pincodeValidation.isValid) {
+      throw new BadRequestException(pincodeValidation.error);
+    }
+    if (!areaData.city?.trim() || !areaData.state?.trim()) {
+      throw new BadRequestException('City and state are required');
+    }
+    if (!Number.isFinite(areaData.deliveryFee) || areaData.deliveryFee < 0) {
+      throw new BadRequestException('Delivery fee must be a non-negative number');
+    }
+    if (areaData.etaHours !== undefined && (!Number.isInteger(areaData.etaHours) || areaData.etaHours < 1)) {
+      throw new BadRequestException('ETA hours must be a positive whole number');
+    }
+    if (
+      areaData.freeDeliveryThreshold !== undefined &&
+      areaData.freeDeliveryThreshold !== null &&
+      (!Number.isFinite(areaData.freeDeliveryThreshold) || areaData.freeDeliveryThreshold < 0)
+    ) {
+      throw new BadRequestException('Free delivery threshold must be a non-negative number');
+    }
+  }
+
+  private toServiceAreaData(row: Record<string, string>): CreateServiceAreaDto {
+    if (!row.deliveryFee) {
+      throw new BadRequestException('Delivery fee is required');
+    }
+
+    return {
+      pincode: row.pincode,
+      city: row.city,
+      state: row.state,
+      deliveryFee: this.parseNumberCell(row.deliveryFee, 'Delivery fee'),
+      ...(row.etaHours && { etaHours: this.parseNumberCell(row.etaHours, 'ETA hours') }),
+      ...(row.freeDeliveryThreshold && {
+        freeDeliveryThreshold: this.parseNumberCell(row.freeDeliveryThreshold, 'Free delivery threshold'),
+      }),
+      ...(row.isActive && { isActive: !['false', '0', 'no'].includes(row.isActive.toLowerCase()) }),
+    };
+  }
+
+  private parseNumberCell(value: string, label: string): number {
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed)) {
+      throw new BadRequestException(`${label} must be a number, got "${value}"`);
+    }
+    return parsed;
+  }
+}
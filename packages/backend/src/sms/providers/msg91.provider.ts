@@ -0,0 +1,72 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import { SmsMessage, SmsProvider, SmsSendResult } from './sms-provider.interface';
+
+@Injectable()
+export class Msg91SmsProvider implements SmsProvider {
+  readonly name = 'MSG91';
+  private readonly logger = new Logger(Msg91SmsProvider.name);
+
+  constructor(private configService: ConfigService) {}
+
+  isConfigured(): boolean {
+    return Boolean(
+      this.configService.get<string>('sms.msg91.apiKey') &&
+      this.configService.get<string>('sms.msg91.templateId'),
+    );
+  }
+
+  /**
+   * MSG91 only sends DLT-approved templates: OTPs go through the OTP API, anything
+   * else through the flow named in `variables.templateId` with the message variables.
+   * A message without its own flow is refused so the fallback provider can send it.
+   */
+  async send(message: SmsMessage): Promise<SmsSendResult> {
+    const authKey = this.configService.get<string>('sms.msg91.apiKey');
+    const templateId = this.configService.get<string>('sms.msg91.templateId');
+    const mobile = message.to.replace(/\D/g, '');
+
+    const { templateId: flowId, ...flowVariables } = message.variables ?? {};
+    if (!message.variables?.otp && !flowId) {
+      return { success: false, message: `No MSG91 flow configured for ${message.purpose}` };
+    }
+
+    try {
+      const response = message.variables?.otp
+        ? await axios.post('https://api.msg91.com/api/v5/otp', {
+            template_id: templateId,
+            mobile,
+            authkey: authKey,
+            otp: message.variables.otp,
+          })
+        : await axios.post(
+            'https://control.msg91.com/api/v5/flow/',
+            {
+              template_id: flowId,
+              recipients: [{ mobiles: mobile, ...flowVariables }],
+            },
+            { headers: { authkey: authKey } },
+          );
+
+      if (response.data.type === 'success') {
+        return {
+          success: true,
+          message: 'SMS sent successfully',
+          providerMessageId: response.data.request_id || response.data.message,
+        };
+      }
+
+      return {
+        success: false,
+        message: response.data.message || 'Failed to send SMS',
+      };
+    } catch (error) {
+      this.logger.error('MSG91 SMS error', error);
+      return {
+        success: false,
+        message: error.response?.data?.message || 'SMS service error',
+      };
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { SmsMessage, SmsProvider, SmsSendResult } from './sms-provider.interface';
+
+export interface OutboxEntry {
+  id: string;
+  to: string;
+  body: string;
+  purpose: string;
+  variables?: Record<string, string>;
+  sentAt: string;
+}
+
+// Only the most recent messages are kept in memory
+const MAX_OUTBOX_ENTRIES = 500;
+
+/**
+ * Local sink for development and e2e tests: messages are logged to the console, kept in
+ * memory and, when SMS_OUTBOX_PATH is set, appended to that file as JSON lines.
+ */
+@Injectable()
+export class OutboxSmsProvider implements SmsProvider {
+  readonly name = 'OUTBOX';
+  private readonly logger = new Logger(OutboxSmsProvider.name);
+  private readonly entries: OutboxEntry[] = [];
+
+  constructor(private configService: ConfigService) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async send(message: SmsMessage): Promise<SmsSendResult> {
+    const entry: OutboxEntry = {
+      id: `outbox-${crypto.randomUUID()}`,
+      to: message.to,
+      body: message.body,
+      purpose: message.purpose,
+      variables: message.variables,
+      sentAt: new Date().toISOString(),
+    };
+
+    this.entries.push(entry);
+    if (this.entries.length > MAX_OUTBOX_ENTRIES) {
+      this.entries.shift();
+    }
+
+    const outboxPath = this.configService.get<string>('sms.outbox.path');
+    if (outboxPath) {
+      try {
+        await fs.mkdir(path.dirname(outboxPath), { recursive: true });
+        await fs.appendFile(outboxPath, `${JSON.stringify(entry)}\n`);
+      } catch (error) {
+        this.logger.error(`Failed to write SMS outbox file ${outboxPath}`, error);
+        return {
+          success: false,
+          message: 'Failed to write SMS outbox',
+        };
+      }
+    }
+
+    this.logger.log(`[OUTBOX] SMS to ${message.to}: ${message.body}`);
+
+    return {
+      success: true,
+      message: 'SMS written to outbox',
+      providerMessageId: entry.id,
+    };
+  }
+
+  /**
+   * Messages sent so far, newest last, optionally for a single phone number
+   */
+  getMessages(to?: string): OutboxEntry[] {
+    return to ? this.entries.filter((entry) => entry.to === to) : [...this.entries];
+  }
+
+  getLatestMessage(to: string): OutboxEntry | undefined {
+    return this.getMessages(to).pop();
+  }
+
+  clear(): void {
+    this.entries.length = 0;
+  }
+}
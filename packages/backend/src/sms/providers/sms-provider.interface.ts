@@ -0,0 +1,23 @@
+export const SMS_PROVIDERS = 'SMS_PROVIDERS';
+
+export interface SmsMessage {
+  to: string; // E.164, e.g. +919876543210
+  body: string;
+  purpose: string;
+  // Template variables for providers that send from pre-approved templates (MSG91)
+  variables?: Record<string, string>;
+  // Values masked in the copy persisted for support, e.g. the OTP itself
+  redact?: string[];
+}
+
+export interface SmsSendResult {
+  success: boolean;
+  message: string;
+  providerMessageId?: string;
+}
+
+export interface SmsProvider {
+  readonly name: string;
+  isConfigured(): boolean;
+  send(message: SmsMessage): Promise<SmsSendResult>;
+}
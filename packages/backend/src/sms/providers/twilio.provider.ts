@@ -0,0 +1,58 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import { SmsMessage, SmsProvider, SmsSendResult } from './sms-provider.interface';
+
+@Injectable()
+export class TwilioSmsProvider implements SmsProvider {
+  readonly name = 'TWILIO';
+  private readonly logger = new Logger(TwilioSmsProvider.name);
+
+  constructor(private configService: ConfigService) {}
+
+  isConfigured(): boolean {
+    return Boolean(
+      this.configService.get<string>('sms.twilio.accountSid') &&
+      this.configService.get<string>('sms.twilio.authToken') &&
+      this.configService.get<string>('sms.twilio.phoneNumber'),
+    );
+  }
+
+  async send(message: SmsMessage): Promise<SmsSendResult> {
+    const accountSid = this.configService.get<string>('sms.twilio.accountSid');
+    const authToken = this.configService.get<string>('sms.twilio.authToken');
+    const fromNumber = this.configService.get<string>('sms.twilio.phoneNumber');
+
+    try {
+      const response = await axios.post(
+        `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`,
+        new URLSearchParams({
+          To: message.to,
+          From: fromNumber,
+          Body: message.body,
+        }),
+        {
+          auth: {
+            username: accountSid,
+            password: authToken,
+          },
+          headers: {
+            'Content-Type': 'application/x-www-form-urlencoded',
+          },
+        },
+      );
+
+      return {
+        success: true,
+        message: 'SMS sent successfully',
+        providerMessageId: response.data.sid,
+      };
+    } catch (error) {
+      this.logger.error('Twilio SMS error', error);
+      return {
+        success: false,
+        message: error.response?.data?.message || 'SMS service error',
+      };
+    }
+  }
+}
@@ -0,0 +1,79 @@
+import {
+  Controller,
+  Get,
+  Query,
+  UseGuards,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { IsString, IsOptional, IsEnum, IsInt, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import { SmsDeliveryStatus } from '@prisma/client';
+import { SmsService } from './sms.service';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { Public } from '../common/decorators/public.decorator';
+import { User } from '../common/decorators/user.decorator';
+import { UserRole } from '@mawell/shared';
+
+// DTOs
+class SmsDeliveryFiltersDto {
+  @IsOptional()
+  @IsString()
+  phone?: string;
+
+  @IsOptional()
+  @IsString()
+  purpose?: string;
+
+  @IsOptional()
+  @IsEnum(SmsDeliveryStatus)
+  status?: SmsDeliveryStatus;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
+
+@ApiTags('SMS')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('sms')
+export class SmsController {
+  constructor(private readonly smsService: SmsService) {}
+
+  @Get('deliveries')
+  @Roles(UserRole.ADMIN, UserRole.OPS)
+  @ApiOperation({ summary: 'Get SMS delivery records for support (Admin/Ops only)' })
+  @ApiResponse({ status: 200, description: 'SMS deliveries retrieved successfully' })
+  async getDeliveries(@Query(ValidationPipe) filters: SmsDeliveryFiltersDto, @User() user: any) {
+    return this.smsService.findDeliveries(filters, user.role);
+  }
+
+  @Get('health')
+  @Public()
+  @ApiOperation({ summary: 'SMS service health check' })
+  @ApiResponse({ status: 200, description: 'Service is healthy' })
+  async healthCheck() {
+    return {
+      status: 'ok',
+      service: 'sms',
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
@@ -0,0 +1,31 @@
+import { Module } from '@nestjs/common';
+import { SmsService } from './sms.service';
+import { SmsController } from './sms.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { CommonModule } from '../common/common.module';
+import { SMS_PROVIDERS } from './providers/sms-provider.interface';
+import { Msg91SmsProvider } from './providers/msg91.provider';
+import { TwilioSmsProvider } from './providers/twilio.provider';
+import { OutboxSmsProvider } from './providers/outbox.provider';
+
+@Module({
+  imports: [PrismaModule, CommonModule],
+  controllers: [SmsController],
+  providers: [
+    Msg91SmsProvider,
+    TwilioSmsProvider,
+    OutboxSmsProvider,
+    {
+      provide: SMS_PROVIDERS,
+      useFactory: (
+        msg91: Msg91SmsProvider,
+        twilio: TwilioSmsProvider,
+        outbox: OutboxSmsProvider,
+      ) => [msg91, twilio, outbox],
+      inject: [Msg91SmsProvider, TwilioSmsProvider, OutboxSmsProvider],
+    },
+    SmsService,
+  ],
+  exports: [SmsService, OutboxSmsProvider],
+})
+export class SmsModule {}
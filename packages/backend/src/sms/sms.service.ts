@@ -0,0 +1,179 @@
+import { Injectable, Inject, ForbiddenException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, SmsDeliveryStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { ValidationService } from '../common/services/validation.service';
+import { SMS_PROVIDERS, SmsMessage, SmsProvider, SmsSendResult } from './providers/sms-provider.interface';
+import { OutboxSmsProvider } from './providers/outbox.provider';
+import { UserRole } from '@mawell/shared';
+
+export interface SmsDeliveryResult {
+  success: boolean;
+  message: string;
+  deliveryId: string;
+  provider?: string;
+  providerMessageId?: string;
+}
+
+export interface SmsDeliveryFilters {
+  phone?: string;
+  purpose?: string;
+  status?: SmsDeliveryStatus;
+  page?: number;
+  limit?: number;
+}
+
+@Injectable()
+export class SmsService {
+  private readonly logger = new Logger(SmsService.name);
+
+  constructor(
+    @Inject(SMS_PROVIDERS) private providers: SmsProvider[],
+    private outboxProvider: OutboxSmsProvider,
+    private prisma: PrismaService,
+    private validationService: ValidationService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Send an SMS through the configured provider, failing over to the secondary one.
+   * Every message is recorded with its outcome so support can trace delivery.
+   */
+  async send(message: SmsMessage): Promise<SmsDeliveryResult> {
+    const delivery = await this.prisma.smsDelivery.create({
+      data: {
+        phone: message.to,
+        purpose: message.purpose,
+        body: this.redact(message),
+      },
+    });
+
+    const providers = this.getProviderChain();
+    const errors: string[] = [];
+
+    for (const [index, provider] of providers.entries()) {
+      let result: SmsSendResult;
+      try {
+        result = await provider.send(message);
+      } catch (error) {
+        result = { success: false, message: error.message };
+      }
+
+      if (result.success) {
+        await this.prisma.smsDelivery.update({
+          where: { id: delivery.id },
+          data: {
+            status: SmsDeliveryStatus.SENT,
+            provider: provider.name,
+            providerMessageId: result.providerMessageId,
+            attempts: index + 1,
+            error: errors.length > 0 ? errors.join('; ') : null,
+            sentAt: new Date(),
+          },
+        });
+
+        return {
+          success: true,
+          message: result.message,
+          deliveryId: delivery.id,
+          provider: provider.name,
+          providerMessageId: result.providerMessageId,
+        };
+      }
+
+      this.logger.warn(`SMS ${delivery.id} via ${provider.name} failed: ${result.message}`);
+      errors.push(`${provider.name}: ${result.message}`);
+    }
+
+    const error = errors.length > 0 ? errors.join('; ') : 'SMS provider not configured';
+    await this.prisma.smsDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: SmsDeliveryStatus.FAILED,
+        provider: providers[providers.length - 1]?.name,
+        attempts: providers.length,
+        error,
+      },
+    });
+
+    return {
+      success: false,
+      message: error,
+      deliveryId: delivery.id,
+    };
+  }
+
+  /**
+   * Get SMS delivery records for support (Admin/Ops only)
+   */
+  async findDeliveries(filters: SmsDeliveryFilters, requestingUserRole: UserRole) {
+    if (![UserRole.ADMIN, UserRole.OPS].includes(requestingUserRole)) {
+      throw new ForbiddenException('Only admins and ops users can view SMS deliveries');
+    }
+
+    const { page, limit } = this.validationService.validatePagination(filters.page, filters.limit);
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.SmsDeliveryWhereInput = {};
+    if (filters.phone) where.phone = { contains: filters.phone.replace(/\D/g, '').slice(-10) };
+    if (filters.purpose) where.purpose = filters.purpose;
+    if (filters.status) where.status = filters.status;
+
+    const [deliveries, total] = await Promise.all([
+      this.prisma.smsDelivery.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.smsDelivery.count({ where }),
+    ]);
+
+    return {
+      deliveries,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  // Helper methods
+
+  /**
+   * Primary provider first, then the fallback. Unknown or unconfigured providers are
+   * skipped; in development the local outbox stands in when nothing is configured.
+   */
+  private getProviderChain(): SmsProvider[] {
+    const names = [
+      this.configService.get<string>('sms.provider'),
+      this.configService.get<string>('sms.fallbackProvider'),
+    ]
+      .filter(Boolean)
+      .map((name) => name!.toUpperCase());
+
+    const chain: SmsProvider[] = [];
+    for (const name of new Set(names)) {
+      const provider = this.providers.find((candidate) => candidate.name === name);
+      if (!provider) {
+        this.logger.warn(`Unknown SMS provider ${name}`);
+      } else if (!provider.isConfigured()) {
+        this.logger.warn(`SMS provider ${name} is not configured`);
+      } else {
+        chain.push(provider);
+      }
+    }
+
+    if (chain.length === 0 && this.configService.get<string>('nodeEnv') === 'development') {
+      chain.push(this.outboxProvider);
+    }
+
+    return chain;
+  }
+
+  private redact(message: SmsMessage): string {
+    return (message.redact || [])
+      .filter(Boolean)
+      .reduce((body, value) => body.split(value).join('*'.repeat(value.length)), message.body);
+  }
+}
@@ -0,0 +1,497 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../common/services/audit.service';
+import { ValidationService } from '../common/services/validation.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import {
+  UserRole,
+  StockAlertType,
+  StockAlertStatus,
+  StockMovementType,
+  PurchaseOrderStatus,
+  StockTransferStatus,
+  NotificationType,
+} from '@mawell/shared';
+
+export interface ReorderSettingDto {
+  variantId: string;
+  minStockLevel: number;
+  reorderLevel: number;
+  maxStockLevel?: number | null;
+}
+
+export interface StockAlertFilters {
+  warehouseId?: string;
+  status?: StockAlertStatus;
+  type?: StockAlertType;
+  page?: number;
+  limit?: number;
+}
+
+const ACTIVE_ALERT_STATUSES = [StockAlertStatus.OPEN, StockAlertStatus.ACKNOWLEDGED];
+
+const alertInventoryInclude = Prisma.validator<Prisma.InventoryInclude>()({
+  product: { select: { id: true, name: true } },
+  variant: { select: { id: true, sku: true, name: true } },
+  warehouse: { select: { id: true, name: true, code: true } },
+});
+
+type AlertInventory = Prisma.InventoryGetPayload<{ include: typeof alertInventoryInclude }>;
+
+@Injectable()
+export class StockAlertsService {
+  private readonly logger = new Logger(StockAlertsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+    private validationService: ValidationService,
+    private notificationsService: NotificationsService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Set min/reorder/max levels for many variants of a warehouse at once. Variants
+   * without an inventory row get one with zero stock so the levels have a home.
+   */
+  async updateReorderSettings(
+    warehouseId: string,
+    settings: ReorderSettingDto[],
+    requestingUserId: string,
+    requestingUserRole: UserRole,
+  ) {
+    await this.assertWarehouseAccess(warehouseId, requestingUserId, requestingUserRole);
+
+    if (settings.length === 0) {
+      throw new BadRequestException('At least one reorder setting is required');
+    }
+    if (new Set(settings.map((setting) => setting.variantId)).size !== settings.length) {
+      throw new BadRequestException('Each variant can only appear once');
+    }
+    for (const setting of settings) {
+      if (setting.minStockLevel > setting.reorderLevel) {
+        throw new BadRequestException(`Minimum stock cannot exceed the reorder level for variant ${setting.variantId}`);
+      }
+      if (setting.maxStockLevel != null && setting.maxStockLevel < setting.reorderLevel) {
+        throw new BadRequestException(`Maximum stock cannot be below the reorder level for variant ${setting.variantId}`);
+      }
+    }
+
+    const variants = await this.prisma.productVariant.findMany({
+      where: { id: { in: settings.map((setting) => setting.variantId) } },
+      select: { id: true, productId: true },
+    });
+    if (variants.length !== settings.length) {
+      throw new BadRequestException('One or more variants were not found');
+    }
+    const productIds = new Map(variants.map((variant) => [variant.id, variant.productId]));
+
+    await this.prisma.$transaction(
+      settings.map((setting) => {
+        const levels = {
+          minStockLevel: setting.minStockLevel,
+          reorderLevel: setting.reorderLevel,
+          maxStockLevel: setting.maxStockLevel ?? null,
+        };
+        return this.prisma.inventory.upsert({
+          where: { warehouseId_variantId: { warehouseId, variantId: setting.variantId } },
+          update: levels,
+          create: {
+            warehouseId,
+            productId: productIds.get(setting.variantId)!,
+            variantId: setting.variantId,
+            ...levels,
+          },
+        });
+      }),
+    );
+
+    // Log audit trail
+    await this.auditService.logUpdate(
+      'WAREHOUSE_REORDER_SETTINGS',
+      warehouseId,
+      {},
+      { settings },
+      requestingUserId,
+      requestingUserRole,
+    );
+
+    this.logger.log(`Reorder settings updated for ${settings.length} variant(s) in warehouse ${warehouseId}`);
+
+    // Apply the new levels straight away rather than waiting for the next run
+    await this.evaluateAlerts(warehouseId);
+
+    return this.getReorderSuggestions(warehouseId, requestingUserId, requestingUserRole);
+  }
+
+  /**
+   * Inventory rows with their levels and a suggested reorder quantity, most urgent first
+   */
+  async getReorderSuggestions(warehouseId: string, requestingUserId: string, requestingUserRole: UserRole) {
+    await this.assertWarehouseAccess(warehouseId, requestingUserId, requestingUserRole);
+
+    const inventories = await this.prisma.inventory.findMany({
+      where: { warehouseId },
+      include: alertInventoryInclude,
+    });
+    const { consumption, onOrder } = await this.getReplenishmentData(warehouseId);
+
+    return inventories
+      .map((inventory) => {
+        const available = inventory.quantity - inventory.reservedQuantity;
+        return {
+          inventoryId: inventory.id,
+          productId: inventory.productId,
+          productName: inventory.product.name,
+          variantId: inventory.variantId,
+          sku: inventory.variant.sku,
+          quantity: inventory.quantity,
+          reservedQuantity: inventory.reservedQuantity,
+          availableQuantity: available,
+          minStockLevel: inventory.minStockLevel,
+          reorderLevel: inventory.reorderLevel,
+          maxStockLevel: inventory.maxStockLevel,
+          averageDailyConsumption: Math.round((consumption.get(inventory.variantId) ?? 0) * 100) / 100,
+          onOrderQuantity: onOrder.get(inventory.variantId) ?? 0,
+          condition: this.getAlertCondition(inventory)?.type ?? null,
+          suggestedQuantity: this.getSuggestedQuantity(
+            inventory,
+            consumption.get(inventory.variantId) ?? 0,
+            onOrder.get(inventory.variantId) ?? 0,
+          ),
+        };
+      })
+      .sort((a, b) => b.suggestedQuantity - a.suggestedQuantity || a.sku.localeCompare(b.sku));
+  }
+
+  /**
+   * Raise an alert for every inventory row that has crossed one of its levels and has
+   * no active alert of that kind yet, and resolve alerts whose condition has cleared.
+   */
+  async evaluateAlerts(warehouseId?: string) {
+    const inventories = await this.prisma.inventory.findMany({
+      where: {
+        ...(warehouseId && { warehouseId }),
+        OR: [
+          { minStockLevel: { gt: 0 } },
+          { reorderLevel: { gt: 0 } },
+          { maxStockLevel: { not: null } },
+          { alerts: { some: { status: { in: ACTIVE_ALERT_STATUSES } } } },
+        ],
+      },
+      include: {
+        ...alertInventoryInclude,
+        alerts: { where: { status: { in: ACTIVE_ALERT_STATUSES } } },
+      },
+    });
+
+    const replenishmentByWarehouse = new Map<string, { consumption: Map<string, number>; onOrder: Map<string, number> }>();
+    let raised = 0;
+    let resolved = 0;
+
+    for (const inventory of inventories) {
+      const condition = this.getAlertCondition(inventory);
+      const stale = inventory.alerts.filter((alert) => alert.type !== condition?.type);
+
+      if (stale.length > 0) {
+        const { count } = await this.prisma.stockAlert.updateMany({
+          where: { id: { in: stale.map((alert) => alert.id) }, status: { in: ACTIVE_ALERT_STATUSES } },
+          data: { status: StockAlertStatus.RESOLVED, resolvedAt: new Date() },
+        });
+        resolved += count;
+      }
+
+      if (!condition || inventory.alerts.some((alert) => alert.type === condition.type)) {
+        continue;
+      }
+
+      if (!replenishmentByWarehouse.has(inventory.warehouseId)) {
+        replenishmentByWarehouse.set(inventory.warehouseId, await this.getReplenishmentData(inventory.warehouseId));
+      }
+      const { consumption, onOrder } = replenishmentByWarehouse.get(inventory.warehouseId)!;
+
+      // Concurrent evaluations lock the inventory row, so only one raises the alert
+      const alert = await this.prisma.$transaction(async (tx) => {
+        await tx.$queryRaw`SELECT "id" FROM "inventory" WHERE "id" = ${inventory.id} FOR UPDATE`;
+        const active = await tx.stockAlert.findFirst({
+          where: { inventoryId: inventory.id, type: condition.type, status: { in: ACTIVE_ALERT_STATUSES } },
+        });
+        if (active) {
+          return null;
+        }
+
+        return tx.stockAlert.create({
+          data: {
+            inventoryId: inventory.id,
+            warehouseId: inventory.warehouseId,
+            productId: inventory.productId,
+            variantId: inventory.variantId,
+            type: condition.type,
+            availableQuantity: inventory.quantity - inventory.reservedQuantity,
+            threshold: condition.threshold,
+            suggestedQuantity: this.getSuggestedQuantity(
+              inventory,
+              consumption.get(inventory.variantId) ?? 0,
+              onOrder.get(inventory.variantId) ?? 0,
+            ),
+          },
+        });
+      });
+      if (!alert) {
+        continue;
+      }
+      raised += 1;
+
+      await this.notifyOpsUsers(inventory, alert);
+    }
+
+    if (raised > 0 || resolved > 0) {
+      this.logger.log(`Stock alerts evaluated: ${raised} raised, ${resolved} resolved`);
+    }
+
+    return { evaluated: inventories.length, raised, resolved };
+  }
+
+  async getAlerts(filters: StockAlertFilters, requestingUserId: string, requestingUserRole: UserRole) {
+    if (![UserRole.ADMIN, UserRole.OPS].includes(requestingUserRole)) {
+      throw new ForbiddenException('Only admins and ops users can view stock alerts');
+    }
+
+    const { page, limit } = this.validationService.validatePagination(filters.page, filters.limit);
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.StockAlertWhereInput = {
+      status: filters.status ?? { in: ACTIVE_ALERT_STATUSES },
+    };
+    if (filters.warehouseId) where.warehouseId = filters.warehouseId;
+    if (filters.type) where.type = filters.type;
+    if (requestingUserRole === UserRole.OPS) {
+      where.inventory = { warehouse: { warehouseOpsUser: { some: { opsUserId: requestingUserId } } } };
+    }
+
+    const [alerts, total] = await Promise.all([
+      this.prisma.stockAlert.findMany({
+        where,
+        include: {
+          inventory: {
+            select: {
+              quantity: true,
+              reservedQuantity: true,
+              ...alertInventoryInclude,
+            },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.stockAlert.count({ where }),
+    ]);
+
+    return {
+      alerts,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Mark an alert as seen. It stays active, so no duplicate is raised, until stock recovers.
+   */
+  async acknowledgeAlert(alertId: string, requestingUserId: string, requestingUserRole: UserRole) {
+    const alert = await this.prisma.stockAlert.findUnique({ where: { id: alertId } });
+    if (!alert) {
+      throw new NotFoundException('Stock alert not found');
+    }
+
+    await this.assertWarehouseAccess(alert.warehouseId, requestingUserId, requestingUserRole);
+
+    if (alert.status !== StockAlertStatus.OPEN) {
+      throw new BadRequestException(`Stock alert is already ${alert.status.toLowerCase()}`);
+    }
+
+    const updated = await this.prisma.stockAlert.update({
+      where: { id: alertId },
+      data: {
+        status: StockAlertStatus.ACKNOWLEDGED,
+        acknowledgedBy: requestingUserId,
+        acknowledgedAt: new Date(),
+      },
+    });
+
+    // Log audit trail
+    await this.auditService.logUpdate(
+      'STOCK_ALERT',
+      alertId,
+      { status: alert.status },
+      { status: updated.status },
+      requestingUserId,
+      requestingUserRole,
+    );
+
+    return updated;
+  }
+
+  // Helper methods
+
+  private async assertWarehouseAccess(warehouseId: string, requestingUserId: string, requestingUserRole: UserRole) {
+    if (![UserRole.ADMIN, UserRole.OPS].includes(requestingUserRole)) {
+      throw new ForbiddenException('Only admins and ops users can manage stock levels');
+    }
+
+    const warehouse = await this.prisma.warehouse.findUnique({
+      where: { id: warehouseId },
+      include: { warehouseOpsUser: { select: { opsUserId: true } } },
+    });
+    if (!warehouse) {
+      throw new NotFoundException('Warehouse not found');
+    }
+
+    if (
+      requestingUserRole === UserRole.OPS &&
+      !warehouse.warehouseOpsUser.some((assignment) => assignment.opsUserId === requestingUserId)
+    ) {
+      throw new ForbiddenException('You can only manage warehouses assigned to you');
+    }
+  }
+
+  /**
+   * The most severe level the row has crossed, checked against available stock
+   * (on-hand less reserved); overstock is checked against on-hand stock.
+   */
+  private getAlertCondition(inventory: {
+    quantity: number;
+    reservedQuantity: number;
+    minStockLevel: number;
+    reorderLevel: number;
+    maxStockLevel: number | null;
+  }): { type: StockAlertType; threshold: number } | null {
+    const available = inventory.quantity - inventory.reservedQuantity;
+    const hasLowLevels = inventory.minStockLevel > 0 || inventory.reorderLevel > 0;
+
+    if (hasLowLevels && available <= 0) {
+      return { type: StockAlertType.OUT_OF_STOCK, threshold: 0 };
+    }
+    if (available < inventory.minStockLevel) {
+      return { type: StockAlertType.BELOW_MINIMUM, threshold: inventory.minStockLevel };
+    }
+    if (inventory.reorderLevel > 0 && available <= inventory.reorderLevel) {
+      return { type: StockAlertType.LOW_STOCK, threshold: inventory.reorderLevel };
+    }
+    if (inventory.maxStockLevel != null && inventory.quantity > inventory.maxStockLevel) {
+      return { type: StockAlertType.OVERSTOCK, threshold: inventory.maxStockLevel };
+    }
+    return null;
+  }
+
+  /**
+   * Units to order to get back to the maximum level, or, without one, to the reorder
+   * level plus enough to cover recent consumption for the configured number of days.
+   * Units already on open purchase orders count towards the target.
+   */
+  private getSuggestedQuantity(
+    inventory: { quantity: number; reservedQuantity: number; reorderLevel: number; maxStockLevel: number | null },
+    dailyConsumption: number,
+    onOrder: number,
+  ) {
+    const available = inventory.quantity - inventory.reservedQuantity;
+    if (inventory.reorderLevel <= 0 || available > inventory.reorderLevel) {
+      return 0;
+    }
+
+    const coverDays = this.configService.get<number>('business.reorderCoverDays', 14);
+    const target = inventory.maxStockLevel ?? inventory.reorderLevel + Math.ceil(dailyConsumption * coverDays);
+    return Math.max(target - available - onOrder, 0);
+  }
+
+  private async getReplenishmentData(warehouseId: string) {
+    const [consumption, onOrder] = await Promise.all([
+      this.getDailyConsumption(warehouseId),
+      this.getOnOrderQuantities(warehouseId),
+    ]);
+    return { consumption, onOrder };
+  }
+
+  /**
+   * Average units dispatched per day by variant over the lookback window, from the stock ledger
+   */
+  private async getDailyConsumption(warehouseId: string) {
+    const lookbackDays = this.configService.get<number>('business.reorderLookbackDays', 30);
+    const since = new Date(Date.now() - lookbackDays * 24 * 60 * 60 * 1000);
+
+    const dispatched = await this.prisma.stockMovement.groupBy({
+      by: ['variantId'],
+      where: { warehouseId, type: StockMovementType.DISPATCH, createdAt: { gte: since } },
+      _sum: { quantityChange: true },
+    });
+
+    return new Map(dispatched.map((row) => [row.variantId, -(row._sum.quantityChange ?? 0) / lookbackDays]));
+  }
+
+  /**
+   * Units still to arrive on issued purchase orders and inbound transfers, by variant
+   */
+  private async getOnOrderQuantities(warehouseId: string) {
+    const [items, transferItems] = await Promise.all([
+      this.prisma.purchaseOrderItem.findMany({
+        where: {
+          purchaseOrder: {
+            warehouseId,
+            status: { in: [PurchaseOrderStatus.ISSUED, PurchaseOrderStatus.PARTIALLY_RECEIVED] },
+          },
+        },
+        select: { variantId: true, quantityOrdered: true, quantityReceived: true },
+      }),
+      this.prisma.stockTransferItem.findMany({
+        where: { transfer: { toWarehouseId: warehouseId, status: StockTransferStatus.IN_TRANSIT } },
+        select: { variantId: true, quantity: true },
+      }),
+    ]);
+
+    const onOrder = new Map<string, number>();
+    for (const item of items) {
+      const outstanding = Math.max(item.quantityOrdered - item.quantityReceived, 0);
+      onOrder.set(item.variantId, (onOrder.get(item.variantId) ?? 0) + outstanding);
+    }
+    for (const item of transferItems) {
+      onOrder.set(item.variantId, (onOrder.get(item.variantId) ?? 0) + item.quantity);
+    }
+    return onOrder;
+  }
+
+  private async notifyOpsUsers(inventory: AlertInventory, alert: { type: string; threshold: number; availableQuantity: number; suggestedQuantity: number }) {
+    const assignments = await this.prisma.warehouseOpsUser.findMany({
+      where: { warehouseId: inventory.warehouseId },
+      select: { opsUserId: true },
+    });
+
+    const type = alert.type === StockAlertType.OVERSTOCK ? NotificationType.OVERSTOCK : NotificationType.LOW_STOCK;
+    const variables = {
+      productName: inventory.product.name,
+      sku: inventory.variant.sku,
+      warehouseName: inventory.warehouse.name,
+      available: alert.availableQuantity,
+      quantity: inventory.quantity,
+      threshold: alert.threshold,
+      suggestedQuantity: alert.suggestedQuantity,
+    };
+
+    for (const { opsUserId } of assignments) {
+      await this.notificationsService.notify(opsUserId, type, variables, {
+        warehouseId: inventory.warehouseId,
+        variantId: inventory.variantId,
+        alertType: alert.type,
+      });
+    }
+  }
+}
@@ -0,0 +1,256 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { NotificationType, StockMovementType, StockTransferStatus, UserRole } from '@mawell/shared';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../common/services/audit.service';
+import { ValidationService } from '../common/services/validation.service';
+import { StockLedgerService } from '../products/stock-ledger.service';
+import { InventoryBatchesService } from '../products/inventory-batches.service';
+import { LogisticsService } from '../logistics/logistics.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { StockAlertsService } from './stock-alerts.service';
+import { StockTransfersService } from './stock-transfers.service';
+
+const model = () => ({
+  findUnique: jest.fn(),
+  findMany: jest.fn(),
+  update: jest.fn(),
+  updateMany: jest.fn(),
+});
+
+// Each interactive transaction runs against the same mocked client
+const createPrismaMock = () => {
+  const prisma = {
+    stockTransfer: model(),
+    stockTransferItem: model(),
+    inventory: model(),
+    warehouseOpsUser: model(),
+    $queryRaw: jest.fn(),
+    $transaction: jest.fn(),
+  };
+  prisma.$transaction.mockImplementation((run) => run(prisma));
+  return prisma;
+};
+
+describe('StockTransfersService', () => {
+  let service: StockTransfersService;
+  let prisma: ReturnType<typeof createPrismaMock>;
+  const stockLedgerService = { applyMovement: jest.fn() };
+  const inventoryBatchesService = { getExpiredQuantity: jest.fn(), consume: jest.fn(), addToBatch: jest.fn() };
+  const logisticsService = { completeTransferConsignment: jest.fn() };
+  const notificationsService = { notify: jest.fn() };
+  const stockAlertsService = { evaluateAlerts: jest.fn() };
+  const auditService = { logUpdate: jest.fn() };
+
+  const batches = [
+    { batchNumber: 'B-1', manufacturingDate: null, expiryDate: '2027-01-31T00:00:00.000Z', quantity: 6 },
+    { batchNumber: 'B-2', manufacturingDate: null, expiryDate: '2027-06-30T00:00:00.000Z', quantity: 4 },
+  ];
+  const item = {
+    id: 'line-1',
+    productId: 'product-1',
+    variantId: 'variant-1',
+    quantity: 10,
+    quantityReceived: 0,
+    quantityDamaged: 0,
+    batches: null as typeof batches | null,
+    variant: { sku: 'SKU-1' },
+  };
+  const transfer = {
+    id: 'transfer-1',
+    transferNumber: 'TRF-1',
+    status: StockTransferStatus.DRAFT,
+    notes: null,
+    fromWarehouseId: 'warehouse-a',
+    toWarehouseId: 'warehouse-b',
+    fromWarehouse: { name: 'Hyderabad', code: 'HYD' },
+    toWarehouse: { name: 'Vijayawada', code: 'VJA' },
+    items: [item],
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    prisma = createPrismaMock();
+    prisma.stockTransfer.updateMany.mockResolvedValue({ count: 1 });
+    prisma.warehouseOpsUser.findMany.mockResolvedValue([{ opsUserId: 'ops-1' }]);
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        StockTransfersService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: AuditService, useValue: auditService },
+        { provide: ValidationService, useValue: {} },
+        { provide: StockLedgerService, useValue: stockLedgerService },
+        { provide: InventoryBatchesService, useValue: inventoryBatchesService },
+        { provide: LogisticsService, useValue: logisticsService },
+        { provide: NotificationsService, useValue: notificationsService },
+        { provide: StockAlertsService, useValue: stockAlertsService },
+      ],
+    }).compile();
+
+    service = moduleRef.get(StockTransfersService);
+  });
+
+  describe('dispatchTransfer', () => {
+    beforeEach(() => {
+      prisma.stockTransfer.findUnique.mockResolvedValue(transfer);
+    });
+
+    it('sends the units out of the source with their batch breakdown', async () => {
+      prisma.inventory.findMany.mockResolvedValue([{ variantId: 'variant-1', quantity: 20, reservedQuantity: 5 }]);
+      inventoryBatchesService.getExpiredQuantity.mockResolvedValue(5);
+      inventoryBatchesService.consume.mockResolvedValue(batches);
+
+      await service.dispatchTransfer(transfer.id, {}, 'admin-1', UserRole.ADMIN);
+
+      expect(prisma.$queryRaw).toHaveBeenCalled();
+      expect(prisma.stockTransferItem.update).toHaveBeenCalledWith({
+        where: { id: 'line-1' },
+        data: { batches },
+      });
+      expect(stockLedgerService.applyMovement).toHaveBeenCalledWith(
+        prisma,
+        expect.objectContaining({
+          warehouseId: 'warehouse-a',
+          type: StockMovementType.TRANSFER_OUT,
+          quantityChange: -10,
+        }),
+      );
+      expect(prisma.stockTransfer.updateMany).toHaveBeenCalledWith({
+        where: { id: transfer.id, status: StockTransferStatus.DRAFT },
+        data: expect.objectContaining({ status: StockTransferStatus.IN_TRANSIT }),
+      });
+      expect(notificationsService.notify).toHaveBeenCalledWith(
+        'ops-1',
+        NotificationType.STOCK_TRANSFER_DISPATCHED,
+        expect.objectContaining({ totalUnits: 10 }),
+        { transferId: transfer.id },
+      );
+    });
+
+    it('refuses to send reserved or expired units', async () => {
+      prisma.inventory.findMany.mockResolvedValue([{ variantId: 'variant-1', quantity: 20, reservedQuantity: 5 }]);
+      inventoryBatchesService.getExpiredQuantity.mockResolvedValue(6);
+
+      await expect(service.dispatchTransfer(transfer.id, {}, 'admin-1', UserRole.ADMIN)).rejects.toThrow(
+        new BadRequestException('Only 9 unit(s) of SKU-1 are available to transfer'),
+      );
+      expect(inventoryBatchesService.consume).not.toHaveBeenCalled();
+      expect(stockLedgerService.applyMovement).not.toHaveBeenCalled();
+      expect(prisma.stockTransfer.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('receiveTransfer', () => {
+    const inTransit = {
+      ...transfer,
+      status: StockTransferStatus.IN_TRANSIT,
+      items: [{ ...item, batches }],
+    };
+
+    beforeEach(() => {
+      prisma.stockTransfer.findUnique.mockResolvedValue(inTransit);
+    });
+
+    it('books in a complete delivery into the dispatched batches', async () => {
+      await service.receiveTransfer(
+        transfer.id,
+        { items: [{ transferItemId: 'line-1', quantityReceived: 10 }] },
+        'ops-2',
+        UserRole.ADMIN,
+      );
+
+      expect(stockLedgerService.applyMovement).toHaveBeenCalledTimes(1);
+      expect(stockLedgerService.applyMovement).toHaveBeenCalledWith(
+        prisma,
+        expect.objectContaining({ warehouseId: 'warehouse-b', type: StockMovementType.TRANSFER_IN, quantityChange: 10 }),
+      );
+      expect(inventoryBatchesService.addToBatch.mock.calls.map((call) => [call[2].batchNumber, call[3]])).toEqual([
+        ['B-1', 6],
+        ['B-2', 4],
+      ]);
+      expect(prisma.stockTransfer.updateMany).toHaveBeenCalledWith({
+        where: { id: transfer.id, status: StockTransferStatus.IN_TRANSIT },
+        data: expect.objectContaining({ status: StockTransferStatus.RECEIVED }),
+      });
+    });
+
+    it('writes off damaged and missing units and holds the transfer in discrepancy', async () => {
+      await service.receiveTransfer(
+        transfer.id,
+        {
+          items: [
+            { transferItemId: 'line-1', quantityReceived: 7, quantityDamaged: 1, discrepancyReason: 'Crushed carton' },
+          ],
+        },
+        'ops-2',
+        UserRole.ADMIN,
+      );
+
+      const movements = stockLedgerService.applyMovement.mock.calls.map(([, movement]) => [
+        movement.type,
+        movement.quantityChange,
+      ]);
+      expect(movements).toEqual([
+        [StockMovementType.TRANSFER_IN, 10],
+        [StockMovementType.DAMAGE, -1],
+        [StockMovementType.ADJUSTMENT, -2],
+      ]);
+      expect(inventoryBatchesService.addToBatch.mock.calls.map((call) => [call[2].batchNumber, call[3]])).toEqual([
+        ['B-1', 6],
+        ['B-2', 1],
+      ]);
+      expect(prisma.stockTransfer.updateMany).toHaveBeenCalledWith({
+        where: { id: transfer.id, status: StockTransferStatus.IN_TRANSIT },
+        data: expect.objectContaining({ status: StockTransferStatus.DISCREPANCY }),
+      });
+      expect(notificationsService.notify).toHaveBeenCalledWith(
+        'ops-1',
+        NotificationType.STOCK_TRANSFER_DISCREPANCY,
+        expect.objectContaining({ receivedUnits: 7 }),
+        { transferId: transfer.id },
+      );
+    });
+
+    it('asks for a reason when a line arrives short', async () => {
+      await expect(
+        service.receiveTransfer(
+          transfer.id,
+          { items: [{ transferItemId: 'line-1', quantityReceived: 8 }] },
+          'ops-2',
+          UserRole.ADMIN,
+        ),
+      ).rejects.toThrow(new BadRequestException('Give a reason for the shortfall on SKU-1'));
+      expect(stockLedgerService.applyMovement).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolveDiscrepancy', () => {
+    it('returns missing units to the source in the batches they left from', async () => {
+      prisma.stockTransfer.findUnique.mockResolvedValue({
+        ...transfer,
+        status: StockTransferStatus.DISCREPANCY,
+        items: [{ ...item, batches, quantityReceived: 5, quantityDamaged: 1 }],
+      });
+
+      await service.resolveDiscrepancy(
+        transfer.id,
+        { resolutionNotes: 'Left behind at the dock', returnMissingToSource: true },
+        'admin-1',
+        UserRole.ADMIN,
+      );
+
+      expect(stockLedgerService.applyMovement).toHaveBeenCalledWith(
+        prisma,
+        expect.objectContaining({ warehouseId: 'warehouse-a', type: StockMovementType.RETURN, quantityChange: 4 }),
+      );
+      expect(inventoryBatchesService.addToBatch.mock.calls.map((call) => [call[1], call[2].batchNumber, call[3]])).toEqual(
+        [[{ warehouseId: 'warehouse-a', variantId: 'variant-1' }, 'B-2', 4]],
+      );
+      expect(prisma.stockTransfer.updateMany).toHaveBeenCalledWith({
+        where: { id: transfer.id, status: StockTransferStatus.DISCREPANCY },
+        data: expect.objectContaining({ status: StockTransferStatus.RECEIVED }),
+      });
+    });
+  });
+});
@@ -0,0 +1,834 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../common/services/audit.service';
+import { ValidationService } from '../common/services/validation.service';
+import { StockLedgerService } from '../products/stock-ledger.service';
+import { InventoryBatchesService, BatchQuantity, parseBatchQuantities } from '../products/inventory-batches.service';
+import { LogisticsService } from '../logistics/logistics.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { StockAlertsService } from './stock-alerts.service';
+import { UserRole, StockTransferStatus, StockMovementType, NotificationType } from '@mawell/shared';
+
+export interface StockTransferItemDto {
+  variantId: string;
+  quantity: number;
+}
+
+export interface CreateStockTransferDto {
+  fromWarehouseId: string;
+  toWarehouseId: string;
+  notes?: string;
+  items: StockTransferItemDto[];
+}
+
+export interface UpdateStockTransferDto {
+  notes?: string;
+  items?: StockTransferItemDto[];
+}
+
+export interface DispatchStockTransferDto {
+  // Carry the transfer on a consignment; implied when a driver is given
+  createConsignment?: boolean;
+  driverId?: string;
+  estimatedDeliveryDate?: string;
+}
+
+export interface ReceiveStockTransferItemDto {
+  transferItemId: string;
+  quantityReceived: number;
+  quantityDamaged?: number;
+  discrepancyReason?: string;
+}
+
+export interface ReceiveStockTransferDto {
+  notes?: string;
+  items: ReceiveStockTransferItemDto[];
+}
+
+export interface ResolveStockTransferDto {
+  resolutionNotes: string;
+  // The missing units turned up at the source, e.g. they were never loaded
+  returnMissingToSource?: boolean;
+}
+
+export interface StockTransferFilters {
+  status?: StockTransferStatus;
+  warehouseId?: string;
+  direction?: 'inbound' | 'outbound';
+  search?: string;
+  page?: number;
+  limit?: number;
+}
+
+// Transfers that still need someone at either warehouse to act on them
+export const PENDING_TRANSFER_STATUSES = [
+  StockTransferStatus.DRAFT,
+  StockTransferStatus.IN_TRANSIT,
+  StockTransferStatus.DISCREPANCY,
+];
+
+const stockTransferInclude = Prisma.validator<Prisma.StockTransferInclude>()({
+  fromWarehouse: { select: { id: true, name: true, code: true, city: true } },
+  toWarehouse: { select: { id: true, name: true, code: true, city: true } },
+  items: {
+    include: {
+      product: { select: { id: true, name: true } },
+      variant: { select: { id: true, sku: true, name: true, barcode: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  },
+  consignment: {
+    select: {
+      id: true,
+      consignmentNumber: true,
+      status: true,
+      driver: { select: { id: true, name: true, phone: true } },
+    },
+  },
+});
+
+type StockTransferWithDetails = Prisma.StockTransferGetPayload<{ include: typeof stockTransferInclude }>;
+
+@Injectable()
+export class StockTransfersService {
+  private readonly logger = new Logger(StockTransfersService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+    private validationService: ValidationService,
+    private stockLedgerService: StockLedgerService,
+    private inventoryBatchesService: InventoryBatchesService,
+    private logisticsService: LogisticsService,
+    private notificationsService: NotificationsService,
+    private stockAlertsService: StockAlertsService,
+  ) {}
+
+  /**
+   * Create a draft transfer. Ops users can only send stock out of their own warehouses.
+   */
+  async createTransfer(
+    transferData: CreateStockTransferDto,
+    requestingUserId: string,
+    requestingUserRole: UserRole,
+  ) {
+    this.assertTransferRole(requestingUserRole);
+
+    if (transferData.fromWarehouseId === transferData.toWarehouseId) {
+      throw new BadRequestException('Source and destination warehouses must differ');
+    }
+
+    const warehouses = await this.prisma.warehouse.findMany({
+      where: { id: { in: [transferData.fromWarehouseId, transferData.toWarehouseId] } },
+    });
+    if (warehouses.length !== 2) {
+      throw new BadRequestException('Warehouse not found');
+    }
+    if (warehouses.some((warehouse) => !warehouse.isActive)) {
+      throw new BadRequestException('Stock can only be transferred between active warehouses');
+    }
+
+    await this.assertWarehouseAccess(transferData.fromWarehouseId, requestingUserId, requestingUserRole);
+
+    const lines = await this.buildLines(transferData.items);
+    const transferNumber = await this.generateTransferNumber();
+
+    const transfer = await this.prisma.stockTransfer.create({
+      data: {
+        transferNumber,
+        fromWarehouseId: transferData.fromWarehouseId,
+        toWarehouseId: transferData.toWarehouseId,
+        notes: transferData.notes,
+        createdBy: requestingUserId,
+        items: { create: lines },
+      },
+      include: stockTransferInclude,
+    });
+
+    // Log audit trail
+    await this.auditService.logCreate(
+      'STOCK_TRANSFER',
+      transfer.id,
+      {
+        transferNumber,
+        fromWarehouseId: transferData.fromWarehouseId,
+        toWarehouseId: transferData.toWarehouseId,
+        items: transferData.items,
+      },
+      requestingUserId,
+      requestingUserRole,
+    );
+
+    this.logger.log(
+      `Transfer ${transferNumber} created from ${transfer.fromWarehouse.code} to ${transfer.toWarehouse.code}`,
+    );
+
+    return transfer;
+  }
+
+  /**
+   * Edit a draft transfer's lines or notes
+   */
+  async updateTransfer(
+    transferId: string,
+    updateData: UpdateStockTransferDto,
+    requestingUserId: string,
+    requestingUserRole: UserRole,
+  ) {
+    const transfer = await this.findTransferById(transferId, requestingUserId, requestingUserRole);
+    await this.assertWarehouseAccess(transfer.fromWarehouseId, requestingUserId, requestingUserRole);
+
+    if (transfer.status !== StockTransferStatus.DRAFT) {
+      throw new BadRequestException('Only draft transfers can be edited');
+    }
+
+    const lines = updateData.items ? await this.buildLines(updateData.items) : null;
+
+    await this.prisma.$transaction(async (tx) => {
+      if (lines) {
+        await tx.stockTransferItem.deleteMany({ where: { transferId } });
+      }
+
+      await tx.stockTransfer.update({
+        where: { id: transferId },
+        data: {
+          ...(updateData.notes !== undefined && { notes: updateData.notes }),
+          ...(lines && { items: { create: lines } }),
+        },
+      });
+    });
+
+    // Log audit trail
+    await this.auditService.logUpdate(
+      'STOCK_TRANSFER',
+      transferId,
+      { notes: transfer.notes },
+      updateData,
+      requestingUserId,
+      requestingUserRole,
+    );
+
+    return this.findTransferById(transferId);
+  }
+
+  /**
+   * Send a draft transfer on its way. Stock leaves the source warehouse through the
+   * ledger, oldest batches first, and is in transit until the destination receives it.
+   * Expired batches are never sent.
+   */
+  async dispatchTransfer(
+    transferId: string,
+    dispatchData: DispatchStockTransferDto,
+    requestingUserId: string,
+    requestingUserRole: UserRole,
+  ) {
+    const transfer = await this.findTransferById(transferId, requestingUserId, requestingUserRole);
+    await this.assertWarehouseAccess(transfer.fromWarehouseId, requestingUserId, requestingUserRole);
+
+    if (transfer.status !== StockTransferStatus.DRAFT) {
+      throw new BadRequestException('Only draft transfers can be dispatched');
+    }
+    if (dispatchData.driverId) {
+      await this.logisticsService.validateDriver(dispatchData.driverId);
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      // Lock the source rows so a checkout cannot reserve the same units while they are counted
+      const variantIds = transfer.items.map((item) => item.variantId);
+      await tx.$queryRaw`
+        SELECT "id" FROM "inventory"
+        WHERE "warehouseId" = ${transfer.fromWarehouseId} AND "variantId" IN (${Prisma.join(variantIds)})
+        ORDER BY "id"
+        FOR UPDATE
+      `;
+      const inventories = await tx.inventory.findMany({
+        where: { warehouseId: transfer.fromWarehouseId, variantId: { in: variantIds } },
+      });
+      const inventoryByVariant = new Map(inventories.map((inventory) => [inventory.variantId, inventory]));
+
+      for (const item of transfer.items) {
+        const ref = { warehouseId: transfer.fromWarehouseId, variantId: item.variantId };
+        const inventory = inventoryByVariant.get(item.variantId);
+        const expiredQuantity = inventory ? await this.inventoryBatchesService.getExpiredQuantity(tx, ref) : 0;
+        const available = inventory ? inventory.quantity - inventory.reservedQuantity - expiredQuantity : 0;
+        if (available < item.quantity) {
+          throw new BadRequestException(
+            `Only ${Math.max(available, 0)} unit(s) of ${item.variant.sku} are available to transfer`,
+          );
+        }
+
+        // Keep the batch breakdown so the destination can put units back into the same batches
+        const batches = await this.inventoryBatchesService.consume(tx, ref, item.quantity);
+        if (batches.length > 0) {
+          await tx.stockTransferItem.update({
+            where: { id: item.id },
+            data: { batches: batches as unknown as Prisma.InputJsonValue },
+          });
+        }
+
+        await this.stockLedgerService.applyMovement(tx, {
+          warehouseId: transfer.fromWarehouseId,
+          productId: item.productId,
+          variantId: item.variantId,
+          type: StockMovementType.TRANSFER_OUT,
+          quantityChange: -item.quantity,
+          reason: `Transfer ${transfer.transferNumber} to ${transfer.toWarehouse.name}`,
+          referenceType: 'TRANSFER',
+          referenceId: transfer.id,
+          createdBy: requestingUserId,
+        });
+      }
+
+      const { count } = await tx.stockTransfer.updateMany({
+        where: { id: transferId, status: StockTransferStatus.DRAFT },
+        data: {
+          status: StockTransferStatus.IN_TRANSIT,
+          dispatchedBy: requestingUserId,
+          dispatchedAt: new Date(),
+        },
+      });
+      if (count === 0) {
+        throw new BadRequestException('Transfer was changed by someone else; reload and try again');
+      }
+    });
+
+    // Log audit trail
+    await this.auditService.logUpdate(
+      'STOCK_TRANSFER',
+      transferId,
+      { status: transfer.status },
+      { status: StockTransferStatus.IN_TRANSIT, ...dispatchData },
+      requestingUserId,
+      requestingUserRole,
+    );
+
+    this.logger.log(`Transfer ${transfer.transferNumber} dispatched from ${transfer.fromWarehouse.code}`);
+
+    if (dispatchData.createConsignment || dispatchData.driverId) {
+      await this.logisticsService.createTransferConsignment(
+        transfer,
+        {
+          driverId: dispatchData.driverId,
+          estimatedDeliveryDate: dispatchData.estimatedDeliveryDate
+            ? new Date(dispatchData.estimatedDeliveryDate)
+            : undefined,
+        },
+        requestingUserId,
+        requestingUserRole,
+      );
+    }
+
+    await this.notifyOpsUsers(transfer.toWarehouseId, NotificationType.STOCK_TRANSFER_DISPATCHED, transfer);
+
+    // The source has less on hand and the destination has more on the way
+    await this.stockAlertsService.evaluateAlerts(transfer.fromWarehouseId);
+    await this.stockAlertsService.evaluateAlerts(transfer.toWarehouseId);
+
+    return this.findTransferById(transferId);
+  }
+
+  /**
+   * Receive an in-transit transfer at the destination. Every line has to be counted;
+   * good units go into stock, and damaged or missing units are booked in and written
+   * off, leaving the transfer in DISCREPANCY until an admin resolves it.
+   */
+  async receiveTransfer(
+    transferId: string,
+    receiptData: ReceiveStockTransferDto,
+    requestingUserId: string,
+    requestingUserRole: UserRole,
+  ) {
+    const transfer = await this.findTransferById(transferId, requestingUserId, requestingUserRole);
+    await this.assertWarehouseAccess(transfer.toWarehouseId, requestingUserId, requestingUserRole);
+
+    if (transfer.status !== StockTransferStatus.IN_TRANSIT) {
+      throw new BadRequestException(`A ${transfer.status} transfer cannot be received`);
+    }
+
+    const receiptsByItem = new Map(receiptData.items.map((receiptItem) => [receiptItem.transferItemId, receiptItem]));
+    if (receiptsByItem.size !== receiptData.items.length) {
+      throw new BadRequestException('Each line can only be received once');
+    }
+
+    let hasDiscrepancy = false;
+    for (const item of transfer.items) {
+      const receiptItem = receiptsByItem.get(item.id);
+      if (!receiptItem) {
+        throw new BadRequestException(`Enter the quantity received for ${item.variant.sku}`);
+      }
+
+      const counted = receiptItem.quantityReceived + (receiptItem.quantityDamaged ?? 0);
+      if (counted > item.quantity) {
+        throw new BadRequestException(`Only ${item.quantity} unit(s) of ${item.variant.sku} were dispatched`);
+      }
+      if (counted < item.quantity || (receiptItem.quantityDamaged ?? 0) > 0) {
+        if (!receiptItem.discrepancyReason) {
+          throw new BadRequestException(`Give a reason for the shortfall on ${item.variant.sku}`);
+        }
+        hasDiscrepancy = true;
+      }
+    }
+    if (receiptsByItem.size !== transfer.items.length) {
+      throw new BadRequestException('Line not found on this transfer');
+    }
+
+    const status = hasDiscrepancy ? StockTransferStatus.DISCREPANCY : StockTransferStatus.RECEIVED;
+
+    await this.prisma.$transaction(async (tx) => {
+      for (const item of transfer.items) {
+        const receiptItem = receiptsByItem.get(item.id)!;
+
+        await tx.stockTransferItem.update({
+          where: { id: item.id },
+          data: {
+            quantityReceived: receiptItem.quantityReceived,
+            quantityDamaged: receiptItem.quantityDamaged ?? 0,
+            discrepancyReason: receiptItem.discrepancyReason,
+          },
+        });
+
+        // Every dispatched unit is booked in and the losses written off, so the ledger shows them
+        const damaged = receiptItem.quantityDamaged ?? 0;
+        const missing = item.quantity - receiptItem.quantityReceived - damaged;
+        const movement = {
+          warehouseId: transfer.toWarehouseId,
+          productId: item.productId,
+          variantId: item.variantId,
+          referenceType: 'TRANSFER',
+          referenceId: transfer.id,
+          createdBy: requestingUserId,
+        };
+
+        await this.stockLedgerService.applyMovement(tx, {
+          ...movement,
+          type: StockMovementType.TRANSFER_IN,
+          quantityChange: item.quantity,
+          reason: `Transfer ${transfer.transferNumber} from ${transfer.fromWarehouse.name}`,
+        });
+        if (damaged > 0) {
+          await this.stockLedgerService.applyMovement(tx, {
+            ...movement,
+            type: StockMovementType.DAMAGE,
+            quantityChange: -damaged,
+            reason: `Damaged in transfer ${transfer.transferNumber}: ${receiptItem.discrepancyReason}`,
+          });
+        }
+        if (missing > 0) {
+          await this.stockLedgerService.applyMovement(tx, {
+            ...movement,
+            type: StockMovementType.ADJUSTMENT,
+            quantityChange: -missing,
+            reason: `Missing from transfer ${transfer.transferNumber}: ${receiptItem.discrepancyReason}`,
+          });
+        }
+
+        if (receiptItem.quantityReceived > 0) {
+          // Received units fill the dispatched batches in FEFO order; the rest is unbatched
+          let remaining = receiptItem.quantityReceived;
+          for (const batch of parseBatchQuantities(item.batches)) {
+            const quantity = Math.min(remaining, batch.quantity);
+            if (quantity <= 0) {
+              break;
+            }
+
+            await this.inventoryBatchesService.addToBatch(
+              tx,
+              { warehouseId: transfer.toWarehouseId, variantId: item.variantId },
+              {
+                batchNumber: batch.batchNumber,
+                manufacturingDate: batch.manufacturingDate ? new Date(batch.manufacturingDate) : null,
+                expiryDate: batch.expiryDate ? new Date(batch.expiryDate) : null,
+              },
+              quantity,
+            );
+            remaining -= quantity;
+          }
+        }
+      }
+
+      const { count } = await tx.stockTransfer.updateMany({
+        where: { id: transferId, status: StockTransferStatus.IN_TRANSIT },
+        data: {
+          status,
+          receivedBy: requestingUserId,
+          receivedAt: new Date(),
+          ...(receiptData.notes && {
+            notes: transfer.notes ? `${transfer.notes}\n${receiptData.notes}` : receiptData.notes,
+          }),
+        },
+      });
+      if (count === 0) {
+        throw new BadRequestException('Transfer was changed by someone else; reload and try again');
+      }
+    });
+
+    // Log audit trail
+    await this.auditService.logUpdate(
+      'STOCK_TRANSFER',
+      transferId,
+      { status: transfer.status },
+      { status, items: receiptData.items },
+      requestingUserId,
+      requestingUserRole,
+    );
+
+    this.logger.log(`Transfer ${transfer.transferNumber} received at ${transfer.toWarehouse.code} as ${status}`);
+
+    await this.logisticsService.completeTransferConsignment(transferId, requestingUserId);
+
+    if (hasDiscrepancy) {
+      const receivedUnits = receiptData.items.reduce((sum, receiptItem) => sum + receiptItem.quantityReceived, 0);
+      await this.notifyOpsUsers(transfer.fromWarehouseId, NotificationType.STOCK_TRANSFER_DISCREPANCY, transfer, {
+        receivedUnits,
+      });
+    }
+
+    await this.stockAlertsService.evaluateAlerts(transfer.toWarehouseId);
+
+    return this.findTransferById(transferId);
+  }
+
+  /**
+   * Sign off a transfer that arrived short or damaged. Damaged and missing units were
+   * written off at receipt; missing units that turn up at the source can be put back
+   * into its stock and batches here.
+   */
+  async resolveDiscrepancy(
+    transferId: string,
+    resolution: ResolveStockTransferDto,
+    requestingUserId: string,
+    requestingUserRole: UserRole,
+  ) {
+    if (requestingUserRole !== UserRole.ADMIN) {
+      throw new ForbiddenException('Only admins can resolve transfer discrepancies');
+    }
+
+    const transfer = await this.findTransferById(transferId);
+    if (transfer.status !== StockTransferStatus.DISCREPANCY) {
+      throw new BadRequestException('Only transfers with a discrepancy can be resolved');
+    }
+
+    const returned = resolution.returnMissingToSource
+      ? transfer.items
+          .map((item) => ({ item, quantity: item.quantity - item.quantityReceived - item.quantityDamaged }))
+          .filter((line) => line.quantity > 0)
+      : [];
+    if (resolution.returnMissingToSource && returned.length === 0) {
+      throw new BadRequestException('No units are missing from this transfer');
+    }
+
+    const data = { resolvedBy: requestingUserId, resolvedAt: new Date(), resolutionNotes: resolution.resolutionNotes };
+
+    await this.prisma.$transaction(async (tx) => {
+      for (const { item, quantity } of returned) {
+        await this.stockLedgerService.applyMovement(tx, {
+          warehouseId: transfer.fromWarehouseId,
+          productId: item.productId,
+          variantId: item.variantId,
+          type: StockMovementType.RETURN,
+          quantityChange: quantity,
+          reason: `Missing units of transfer ${transfer.transferNumber} returned to source`,
+          referenceType: 'TRANSFER',
+          referenceId: transfer.id,
+          createdBy: requestingUserId,
+        });
+
+        // Missing units are the tail of the dispatched batches, after the received and damaged ones
+        const batches = this.sliceBatches(
+          parseBatchQuantities(item.batches),
+          item.quantityReceived + item.quantityDamaged,
+          quantity,
+        );
+        for (const batch of batches) {
+          await this.inventoryBatchesService.addToBatch(
+            tx,
+            { warehouseId: transfer.fromWarehouseId, variantId: item.variantId },
+            {
+              batchNumber: batch.batchNumber,
+              manufacturingDate: batch.manufacturingDate ? new Date(batch.manufacturingDate) : null,
+              expiryDate: batch.expiryDate ? new Date(batch.expiryDate) : null,
+            },
+            batch.quantity,
+          );
+        }
+      }
+
+      const { count } = await tx.stockTransfer.updateMany({
+        where: { id: transferId, status: StockTransferStatus.DISCREPANCY },
+        data: { ...data, status: StockTransferStatus.RECEIVED },
+      });
+      if (count === 0) {
+        throw new BadRequestException('Transfer was changed by someone else; reload and try again');
+      }
+    });
+
+    // Log audit trail
+    await this.auditService.logUpdate(
+      'STOCK_TRANSFER',
+      transferId,
+      { status: transfer.status },
+      { status: StockTransferStatus.RECEIVED, ...data, returnMissingToSource: !!resolution.returnMissingToSource },
+      requestingUserId,
+      requestingUserRole,
+    );
+
+    this.logger.log(`Transfer ${transfer.transferNumber} discrepancy resolved`);
+
+    if (returned.length > 0) {
+      await this.stockAlertsService.evaluateAlerts(transfer.fromWarehouseId);
+    }
+
+    return this.findTransferById(transferId);
+  }
+
+  /**
+   * Cancel a transfer before it is dispatched
+   */
+  async cancelTransfer(transferId: string, requestingUserId: string, requestingUserRole: UserRole) {
+    const transfer = await this.findTransferById(transferId, requestingUserId, requestingUserRole);
+    await this.assertWarehouseAccess(transfer.fromWarehouseId, requestingUserId, requestingUserRole);
+
+    if (transfer.status !== StockTransferStatus.DRAFT) {
+      throw new BadRequestException('Dispatched transfers cannot be cancelled; receive them at the destination');
+    }
+
+    return this.transition(
+      transfer,
+      StockTransferStatus.CANCELLED,
+      { cancelledAt: new Date() },
+      requestingUserId,
+      requestingUserRole,
+    );
+  }
+
+  /**
+   * Get a transfer. Ops users at either end can see it.
+   */
+  async findTransferById(transferId: string, requestingUserId?: string, requestingUserRole?: UserRole) {
+    if (requestingUserRole) {
+      this.assertTransferRole(requestingUserRole);
+    }
+
+    const transfer = await this.prisma.stockTransfer.findUnique({
+      where: { id: transferId },
+      include: stockTransferInclude,
+    });
+
+    if (!transfer) {
+      throw new NotFoundException('Transfer not found');
+    }
+
+    if (requestingUserRole === UserRole.OPS) {
+      const assignedWarehouseIds = await this.getAssignedWarehouseIds(requestingUserId!);
+      if (
+        !assignedWarehouseIds.includes(transfer.fromWarehouseId) &&
+        !assignedWarehouseIds.includes(transfer.toWarehouseId)
+      ) {
+        throw new ForbiddenException('You can only view transfers for your assigned warehouses');
+      }
+    }
+
+    return transfer;
+  }
+
+  async findTransfers(filters: StockTransferFilters, requestingUserId: string, requestingUserRole: UserRole) {
+    this.assertTransferRole(requestingUserRole);
+
+    const { page, limit } = this.validationService.validatePagination(filters.page, filters.limit);
+    const skip = (page - 1) * limit;
+
+    const conditions: Prisma.StockTransferWhereInput[] = [];
+    if (filters.status) conditions.push({ status: filters.status });
+    if (filters.warehouseId) {
+      if (filters.direction === 'inbound') {
+        conditions.push({ toWarehouseId: filters.warehouseId });
+      } else if (filters.direction === 'outbound') {
+        conditions.push({ fromWarehouseId: filters.warehouseId });
+      } else {
+        conditions.push({ OR: [{ fromWarehouseId: filters.warehouseId }, { toWarehouseId: filters.warehouseId }] });
+      }
+    }
+    if (filters.search) {
+      conditions.push({ transferNumber: { contains: filters.search, mode: 'insensitive' } });
+    }
+    if (requestingUserRole === UserRole.OPS) {
+      // OPS users see transfers into or out of their assigned warehouses
+      const assignedWarehouseIds = await this.getAssignedWarehouseIds(requestingUserId);
+      conditions.push({
+        OR: [{ fromWarehouseId: { in: assignedWarehouseIds } }, { toWarehouseId: { in: assignedWarehouseIds } }],
+      });
+    }
+    const where: Prisma.StockTransferWhereInput = { AND: conditions };
+
+    const [transfers, total] = await Promise.all([
+      this.prisma.stockTransfer.findMany({
+        where,
+        include: {
+          fromWarehouse: { select: { id: true, name: true, code: true } },
+          toWarehouse: { select: { id: true, name: true, code: true } },
+          _count: { select: { items: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.stockTransfer.count({ where }),
+    ]);
+
+    return {
+      transfers,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  // Helper methods
+
+  private assertTransferRole(requestingUserRole: UserRole) {
+    if (![UserRole.ADMIN, UserRole.OPS].includes(requestingUserRole)) {
+      throw new ForbiddenException('Only admins and ops users can manage stock transfers');
+    }
+  }
+
+  private async assertWarehouseAccess(warehouseId: string, requestingUserId: string, requestingUserRole: UserRole) {
+    if (requestingUserRole !== UserRole.OPS) {
+      return;
+    }
+
+    const assignedWarehouseIds = await this.getAssignedWarehouseIds(requestingUserId);
+    if (!assignedWarehouseIds.includes(warehouseId)) {
+      throw new ForbiddenException('You are not assigned to this warehouse');
+    }
+  }
+
+  private async getAssignedWarehouseIds(opsUserId: string) {
+    const assignments = await this.prisma.warehouseOpsUser.findMany({
+      where: { opsUserId },
+      select: { warehouseId: true },
+    });
+    return assignments.map((assignment) => assignment.warehouseId);
+  }
+
+  private async transition(
+    transfer: { id: string; transferNumber: string; status: string },
+    status: StockTransferStatus,
+    data: Prisma.StockTransferUpdateManyMutationInput,
+    requestingUserId: string,
+    requestingUserRole: UserRole,
+  ) {
+    const { count } = await this.prisma.stockTransfer.updateMany({
+      where: { id: transfer.id, status: transfer.status as StockTransferStatus },
+      data: { ...data, status },
+    });
+    if (count === 0) {
+      throw new BadRequestException('Transfer was changed by someone else; reload and try again');
+    }
+
+    // Log audit trail
+    await this.auditService.logUpdate(
+      'STOCK_TRANSFER',
+      transfer.id,
+      { status: transfer.status },
+      { status, ...data },
+      requestingUserId,
+      requestingUserRole,
+    );
+
+    this.logger.log(`Transfer ${transfer.transferNumber} moved from ${transfer.status} to ${status}`);
+
+    return this.findTransferById(transfer.id);
+  }
+
+  // The units of a dispatched batch breakdown that follow the first `skip` units
+  private sliceBatches(batches: BatchQuantity[], skip: number, quantity: number): BatchQuantity[] {
+    const slice: BatchQuantity[] = [];
+    let toSkip = skip;
+    let remaining = quantity;
+
+    for (const batch of batches) {
+      const skipped = Math.min(toSkip, batch.quantity);
+      toSkip -= skipped;
+
+      const taken = Math.min(remaining, batch.quantity - skipped);
+      if (taken > 0) {
+        slice.push({ ...batch, quantity: taken });
+        remaining -= taken;
+      }
+    }
+
+    return slice;
+  }
+
+  private async buildLines(items: StockTransferItemDto[]) {
+    if (items.length === 0) {
+      throw new BadRequestException('A transfer needs at least one line');
+    }
+    if (new Set(items.map((item) => item.variantId)).size !== items.length) {
+      throw new BadRequestException('Each variant can only appear once on a transfer');
+    }
+
+    const variants = await this.prisma.productVariant.findMany({
+      where: { id: { in: items.map((item) => item.variantId) } },
+      select: { id: true, productId: true },
+    });
+    if (variants.length !== items.length) {
+      throw new BadRequestException('One or more variants were not found');
+    }
+    const variantsById = new Map(variants.map((variant) => [variant.id, variant]));
+
+    return items.map((item) => ({
+      productId: variantsById.get(item.variantId)!.productId,
+      variantId: item.variantId,
+      quantity: item.quantity,
+    }));
+  }
+
+  private async notifyOpsUsers(
+    warehouseId: string,
+    type: NotificationType,
+    transfer: StockTransferWithDetails,
+    extraVariables: Record<string, string | number> = {},
+  ) {
+    const assignments = await this.prisma.warehouseOpsUser.findMany({
+      where: { warehouseId },
+      select: { opsUserId: true },
+    });
+
+    const variables = {
+      transferNumber: transfer.transferNumber,
+      fromWarehouseName: transfer.fromWarehouse.name,
+      toWarehouseName: transfer.toWarehouse.name,
+      totalUnits: transfer.items.reduce((sum, item) => sum + item.quantity, 0),
+      ...extraVariables,
+    };
+
+    for (const { opsUserId } of assignments) {
+      await this.notificationsService.notify(opsUserId, type, variables, { transferId: transfer.id });
+    }
+  }
+
+  private async generateTransferNumber(): Promise<string> {
+    const today = new Date();
+    const year = today.getFullYear().toString().slice(-2);
+    const month = (today.getMonth() + 1).toString().padStart(2, '0');
+    const day = today.getDate().toString().padStart(2, '0');
+
+    const startOfDay = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+    const endOfDay = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1);
+    const count = await this.prisma.stockTransfer.count({
+      where: { createdAt: { gte: startOfDay, lt: endOfDay } },
+    });
+
+    const sequence = (count + 1).toString().padStart(4, '0');
+    return `TRF${year}${month}${day}${sequence}`;
+  }
+}
@@ -11,12 +11,19 @@ import {
   Logger,
 } from '@nestjs/common';
 import { WarehousesService } from './warehouses.service';
+import { StockAlertsService, ReorderSettingDto } from './stock-alerts.service';
+import { InventoryBatchesService, NearExpiryFilters } from '../products/inventory-batches.service';
+import {
+  StockTransfersService,
+  StockTransferItemDto,
+  ReceiveStockTransferItemDto,
+} from './stock-transfers.service';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../common/guards/roles.guard';
 import { Roles } from '../common/decorators/roles.decorator';
 import { User } from '../common/decorators/user.decorator';
 import { Public } from '../common/decorators/public.decorator';
-import { UserRole } from '@mawell/shared';
+import { UserRole, StockAlertStatus, StockAlertType, StockTransferStatus } from '@mawell/shared';
 import {
   IsString,
   IsNumber,
@@ -31,6 +38,13 @@ import {
   IsLongitude,
   Length,
   Matches,
+  IsDateString,
+  IsEnum,
+  IsArray,
+  IsIn,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ValidateNested,
 } from 'class-validator';
 import { Type } from 'class-transformer';
 
@@ -219,12 +233,238 @@ export class InventoryFiltersDto {
   limit?: number = 20;
 }
 
+export class StockMovementReportQueryDto {
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+}
+
+export class ReorderSettingRequestDto implements ReorderSettingDto {
+  @IsString()
+  variantId: string;
+
+  @IsInt()
+  @Min(0)
+  minStockLevel: number;
+
+  @IsInt()
+  @Min(0)
+  reorderLevel: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  maxStockLevel?: number | null;
+}
+
+export class UpdateReorderSettingsDto {
+  @IsArray()
+  @ArrayMaxSize(500)
+  @ValidateNested({ each: true })
+  @Type(() => ReorderSettingRequestDto)
+  settings: ReorderSettingRequestDto[];
+}
+
+export class StockAlertFiltersDto {
+  @IsOptional()
+  @IsUUID()
+  warehouseId?: string;
+
+  @IsOptional()
+  @IsEnum(StockAlertStatus)
+  status?: StockAlertStatus;
+
+  @IsOptional()
+  @IsEnum(StockAlertType)
+  type?: StockAlertType;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
+
+export class NearExpiryFiltersDto implements NearExpiryFilters {
+  @IsOptional()
+  @IsString()
+  warehouseId?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(365)
+  days?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
+
+export class StockTransferItemRequestDto implements StockTransferItemDto {
+  @IsString()
+  variantId: string;
+
+  @IsInt()
+  @Min(1)
+  quantity: number;
+}
+
+export class CreateStockTransferRequestDto {
+  @IsString()
+  fromWarehouseId: string;
+
+  @IsString()
+  toWarehouseId: string;
+
+  @IsOptional()
+  @IsString()
+  @Length(0, 500)
+  notes?: string;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(200)
+  @ValidateNested({ each: true })
+  @Type(() => StockTransferItemRequestDto)
+  items: StockTransferItemRequestDto[];
+}
+
+export class UpdateStockTransferRequestDto {
+  @IsOptional()
+  @IsString()
+  @Length(0, 500)
+  notes?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(200)
+  @ValidateNested({ each: true })
+  @Type(() => StockTransferItemRequestDto)
+  items?: StockTransferItemRequestDto[];
+}
+
+export class DispatchStockTransferRequestDto {
+  @IsOptional()
+  @IsBoolean()
+  createConsignment?: boolean;
+
+  @IsOptional()
+  @IsString()
+  driverId?: string;
+
+  @IsOptional()
+  @IsDateString()
+  estimatedDeliveryDate?: string;
+}
+
+export class ReceiveStockTransferItemRequestDto implements ReceiveStockTransferItemDto {
+  @IsString()
+  transferItemId: string;
+
+  @IsInt()
+  @Min(0)
+  quantityReceived: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  quantityDamaged?: number;
+
+  @IsOptional()
+  @IsString()
+  @Length(2, 300)
+  discrepancyReason?: string;
+}
+
+export class ReceiveStockTransferRequestDto {
+  @IsOptional()
+  @IsString()
+  @Length(0, 500)
+  notes?: string;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(200)
+  @ValidateNested({ each: true })
+  @Type(() => ReceiveStockTransferItemRequestDto)
+  items: ReceiveStockTransferItemRequestDto[];
+}
+
+export class ResolveStockTransferRequestDto {
+  @IsString()
+  @Length(5, 500)
+  resolutionNotes: string;
+
+  @IsBoolean()
+  @IsOptional()
+  returnMissingToSource?: boolean;
+}
+
+export class StockTransferFiltersDto {
+  @IsOptional()
+  @IsEnum(StockTransferStatus)
+  status?: StockTransferStatus;
+
+  @IsOptional()
+  @IsString()
+  warehouseId?: string;
+
+  @IsOptional()
+  @IsIn(['inbound', 'outbound'])
+  direction?: 'inbound' | 'outbound';
+
+  @IsOptional()
+  @IsString()
+  search?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
+
 @Controller('warehouses')
 @UseGuards(JwtAuthGuard, RolesGuard)
 export class WarehousesController {
   private readonly logger = new Logger(WarehousesController.name);
 
-  constructor(private readonly warehousesService: WarehousesService) {}
+  constructor(
+    private readonly warehousesService: WarehousesService,
+    private readonly stockAlertsService: StockAlertsService,
+    private readonly stockTransfersService: StockTransfersService,
+    private readonly inventoryBatchesService: InventoryBatchesService,
+  ) {}
 
   /**
    * Create warehouse
@@ -281,6 +521,165 @@ export class WarehousesController {
     );
   }
 
+  /**
+   * Get active stock alerts, or alerts in the given status
+   */
+  @Get('stock-alerts')
+  @Roles(UserRole.ADMIN, UserRole.OPS)
+  async getStockAlerts(
+    @Query() filters: StockAlertFiltersDto,
+    @User() user: any,
+  ) {
+    this.logger.log(`Getting stock alerts for ${user.role} user ${user.id}`);
+    return this.stockAlertsService.getAlerts(filters, user.id, user.role);
+  }
+
+  /**
+   * Acknowledge a stock alert
+   */
+  @Put('stock-alerts/:alertId/acknowledge')
+  @Roles(UserRole.ADMIN, UserRole.OPS)
+  async acknowledgeStockAlert(
+    @Param('alertId') alertId: string,
+    @User() user: any,
+  ) {
+    this.logger.log(`Acknowledging stock alert ${alertId}`);
+    return this.stockAlertsService.acknowledgeAlert(alertId, user.id, user.role);
+  }
+
+  /**
+   * Re-evaluate stock alerts now instead of waiting for the scheduled run
+   */
+  @Post('stock-alerts/evaluate')
+  @Roles(UserRole.ADMIN)
+  async evaluateStockAlerts(@Query('warehouseId') warehouseId?: string) {
+    this.logger.log(`Evaluating stock alerts${warehouseId ? ` for warehouse ${warehouseId}` : ''}`);
+    return this.stockAlertsService.evaluateAlerts(warehouseId);
+  }
+
+  /**
+   * Get batches that have expired or expire within the given number of days
+   */
+  @Get('batches/near-expiry')
+  @Roles(UserRole.ADMIN, UserRole.OPS)
+  async getNearExpiryBatches(
+    @Query() filters: NearExpiryFiltersDto,
+    @User() user: any,
+  ) {
+    this.logger.log(`Getting near-expiry batches for ${user.role} user ${user.id}`);
+    return this.inventoryBatchesService.getNearExpiryReport(filters, user.id, user.role);
+  }
+
+  /**
+   * Create a draft stock transfer between two warehouses
+   */
+  @Post('transfers')
+  @Roles(UserRole.ADMIN, UserRole.OPS)
+  async createStockTransfer(
+    @Body() createStockTransferDto: CreateStockTransferRequestDto,
+    @User() user: any,
+  ) {
+    this.logger.log(
+      `Creating transfer from ${createStockTransferDto.fromWarehouseId} to ${createStockTransferDto.toWarehouseId}`,
+    );
+    return this.stockTransfersService.createTransfer(createStockTransferDto, user.id, user.role);
+  }
+
+  /**
+   * Get stock transfers into or out of a warehouse
+   */
+  @Get('transfers')
+  @Roles(UserRole.ADMIN, UserRole.OPS)
+  async getStockTransfers(
+    @Query() filters: StockTransferFiltersDto,
+    @User() user: any,
+  ) {
+    this.logger.log(`Getting stock transfers for ${user.role} user ${user.id}`);
+    return this.stockTransfersService.findTransfers(filters, user.id, user.role);
+  }
+
+  /**
+   * Get stock transfer by ID
+   */
+  @Get('transfers/:transferId')
+  @Roles(UserRole.ADMIN, UserRole.OPS)
+  async getStockTransferById(
+    @Param('transferId') transferId: string,
+    @User() user: any,
+  ) {
+    this.logger.log(`Getting stock transfer ${transferId}`);
+    return this.stockTransfersService.findTransferById(transferId, user.id, user.role);
+  }
+
+  /**
+   * Update a draft stock transfer
+   */
+  @Put('transfers/:transferId')
+  @Roles(UserRole.ADMIN, UserRole.OPS)
+  async updateStockTransfer(
+    @Param('transferId') transferId: string,
+    @Body() updateStockTransferDto: UpdateStockTransferRequestDto,
+    @User() user: any,
+  ) {
+    this.logger.log(`Updating stock transfer ${transferId}`);
+    return this.stockTransfersService.updateTransfer(transferId, updateStockTransferDto, user.id, user.role);
+  }
+
+  /**
+   * Dispatch a stock transfer, optionally on a consignment with a driver
+   */
+  @Post('transfers/:transferId/dispatch')
+  @Roles(UserRole.ADMIN, UserRole.OPS)
+  async dispatchStockTransfer(
+    @Param('transferId') transferId: string,
+    @Body() dispatchStockTransferDto: DispatchStockTransferRequestDto,
+    @User() user: any,
+  ) {
+    this.logger.log(`Dispatching stock transfer ${transferId}`);
+    return this.stockTransfersService.dispatchTransfer(transferId, dispatchStockTransferDto, user.id, user.role);
+  }
+
+  /**
+   * Receive a stock transfer at the destination warehouse
+   */
+  @Post('transfers/:transferId/receive')
+  @Roles(UserRole.ADMIN, UserRole.OPS)
+  async receiveStockTransfer(
+    @Param('transferId') transferId: string,
+    @Body() receiveStockTransferDto: ReceiveStockTransferRequestDto,
+    @User() user: any,
+  ) {
+    this.logger.log(`Receiving stock transfer ${transferId}`);
+    return this.stockTransfersService.receiveTransfer(transferId, receiveStockTransferDto, user.id, user.role);
+  }
+
+  /**
+   * Resolve a transfer that was received short or damaged
+   */
+  @Post('transfers/:transferId/resolve')
+  @Roles(UserRole.ADMIN)
+  async resolveStockTransfer(
+    @Param('transferId') transferId: string,
+    @Body() resolveStockTransferDto: ResolveStockTransferRequestDto,
+    @User() user: any,
+  ) {
+    this.logger.log(`Resolving discrepancy on stock transfer ${transferId}`);
+    return this.stockTransfersService.resolveDiscrepancy(transferId, resolveStockTransferDto, user.id, user.role);
+  }
+
+  /**
+   * Cancel a stock transfer that has not been dispatched
+   */
+  @Post('transfers/:transferId/cancel')
+  @Roles(UserRole.ADMIN, UserRole.OPS)
+  async cancelStockTransfer(
+    @Param('transferId') transferId: string,
+    @User() user: any,
+  ) {
+    this.logger.log(`Cancelling stock transfer ${transferId}`);
+    return this.stockTransfersService.cancelTransfer(transferId, user.id, user.role);
+  }
+
   /**
    * Get warehouse by ID
    */
@@ -414,6 +813,58 @@ export class WarehousesController {
     );
   }
 
+  /**
+   * Get warehouse stock movement report
+   */
+  @Get(':warehouseId/stock-movements/report')
+  @Roles(UserRole.ADMIN, UserRole.OPS)
+  async getStockMovementReport(
+    @Param('warehouseId') warehouseId: string,
+    @Query() query: StockMovementReportQueryDto,
+    @User() user: any,
+  ) {
+    this.logger.log(`Getting stock movement report for warehouse ${warehouseId}`);
+    return this.warehousesService.getStockMovementReport(
+      warehouseId,
+      user.id,
+      user.role,
+      query.startDate,
+      query.endDate,
+    );
+  }
+
+  /**
+   * Get reorder levels with suggested reorder quantities
+   */
+  @Get(':warehouseId/reorder-settings')
+  @Roles(UserRole.ADMIN, UserRole.OPS)
+  async getReorderSettings(
+    @Param('warehouseId') warehouseId: string,
+    @User() user: any,
+  ) {
+    this.logger.log(`Getting reorder settings for warehouse ${warehouseId}`);
+    return this.stockAlertsService.getReorderSuggestions(warehouseId, user.id, user.role);
+  }
+
+  /**
+   * Bulk update reorder levels
+   */
+  @Put(':warehouseId/reorder-settings')
+  @Roles(UserRole.ADMIN, UserRole.OPS)
+  async updateReorderSettings(
+    @Param('warehouseId') warehouseId: string,
+    @Body() updateReorderSettingsDto: UpdateReorderSettingsDto,
+    @User() user: any,
+  ) {
+    this.logger.log(`Updating reorder settings for warehouse ${warehouseId}`);
+    return this.stockAlertsService.updateReorderSettings(
+      warehouseId,
+      updateReorderSettingsDto.settings,
+      user.id,
+      user.role,
+    );
+  }
+
   // Public endpoints for basic warehouse info
 
   /**
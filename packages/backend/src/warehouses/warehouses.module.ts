@@ -1,13 +1,19 @@
 import { Module } from '@nestjs/common';
 import { WarehousesService } from './warehouses.service';
 import { WarehousesController } from './warehouses.controller';
+import { StockAlertsService } from './stock-alerts.service';
+import { StockTransfersService } from './stock-transfers.service';
+import { WarehousesScheduler } from './warehouses.scheduler';
 import { PrismaModule } from '../prisma/prisma.module';
 import { CommonModule } from '../common/common.module';
+import { ProductsModule } from '../products/products.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { LogisticsModule } from '../logistics/logistics.module';
 
 @Module({
-  imports: [PrismaModule, CommonModule],
+  imports: [PrismaModule, CommonModule, ProductsModule, NotificationsModule, LogisticsModule],
   controllers: [WarehousesController],
-  providers: [WarehousesService],
-  exports: [WarehousesService],
+  providers: [WarehousesService, StockAlertsService, StockTransfersService, WarehousesScheduler],
+  exports: [WarehousesService, StockAlertsService, StockTransfersService],
 })
 export class WarehousesModule {}
\ No newline at end of file
@@ -0,0 +1,22 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { StockAlertsService } from './stock-alerts.service';
+
+@Injectable()
+export class WarehousesScheduler {
+  private readonly logger = new Logger(WarehousesScheduler.name);
+
+  constructor(private readonly stockAlertsService: StockAlertsService) {}
+
+  /**
+   * Raise and resolve stock alerts against each warehouse's reorder settings
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async evaluateStockAlerts() {
+    try {
+      await this.stockAlertsService.evaluateAlerts();
+    } catch (error) {
+      this.logger.error('Failed to evaluate stock alerts', error.stack);
+    }
+  }
+}
@@ -8,6 +8,8 @@ import {
 import { PrismaService } from '../prisma/prisma.service';
 import { AuditService } from '../common/services/audit.service';
 import { ValidationService } from '../common/services/validation.service';
+import { StockLedgerService } from '../products/stock-ledger.service';
+import { PENDING_TRANSFER_STATUSES } from './stock-transfers.service';
 import { UserRole } from '@mawell/shared';
 
 export interface CreateWarehouseDto {
@@ -65,6 +67,7 @@ export class WarehousesService {
     private prisma: PrismaService,
     private auditService: AuditService,
     private validationService: ValidationService,
+    private stockLedgerService: StockLedgerService,
   ) {}
 
   /**
@@ -155,6 +158,12 @@ export class WarehousesService {
         inventory: {
           include: {
             product: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
+            variant: {
               select: {
                 id: true,
                 name: true,
@@ -599,12 +608,10 @@ export class WarehousesService {
     };
 
     if (search) {
-      where.product = {
-        OR: [
-          { name: { contains: search, mode: 'insensitive' } },
-          { sku: { contains: search, mode: 'insensitive' } },
-        ],
-      };
+      where.OR = [
+        { product: { name: { contains: search, mode: 'insensitive' } } },
+        { variant: { sku: { contains: search, mode: 'insensitive' } } },
+      ];
     }
 
     const [inventory, total] = await Promise.all([
@@ -627,6 +634,7 @@ export class WarehousesService {
               },
             },
           },
+          variant: true,
         },
         orderBy: {
           product: {
@@ -663,7 +671,7 @@ export class WarehousesService {
       throw new ForbiddenException('Insufficient permissions to view warehouse statistics');
     }
 
-    const [inventoryStats, consignmentStats] = await Promise.all([
+    const [inventoryStats, consignmentStats, pendingTransfers] = await Promise.all([
       this.prisma.inventory.aggregate({
         where: { warehouseId },
         _count: { _all: true },
@@ -677,6 +685,18 @@ export class WarehousesService {
         where: { warehouseId },
         _count: { _all: true },
       }),
+      this.prisma.stockTransfer.findMany({
+        where: {
+          status: { in: PENDING_TRANSFER_STATUSES },
+          OR: [{ fromWarehouseId: warehouseId }, { toWarehouseId: warehouseId }],
+        },
+        include: {
+          fromWarehouse: { select: { id: true, name: true, code: true } },
+          toWarehouse: { select: { id: true, name: true, code: true } },
+          _count: { select: { items: true } },
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
     ]);
 
     const consignmentsByStatus = consignmentStats.reduce((acc, stat) => {
@@ -692,6 +712,39 @@ export class WarehousesService {
         availableQuantity: (inventoryStats._sum.quantity || 0) - (inventoryStats._sum.reservedQuantity || 0),
       },
       consignments: consignmentsByStatus,
+      // Transfers waiting on this warehouse to dispatch, receive or settle
+      transfers: {
+        outbound: pendingTransfers.filter((transfer) => transfer.fromWarehouseId === warehouseId),
+        inbound: pendingTransfers.filter((transfer) => transfer.toWarehouseId === warehouseId),
+      },
     };
   }
-}
\ No newline at end of file
+
+  /**
+   * Get receipts, dispatches, returns, damages and adjustments per variant over a
+   * period, with opening and closing stock. Defaults to the current month.
+   */
+  async getStockMovementReport(
+    warehouseId: string,
+    requestingUserId: string,
+    requestingUserRole: UserRole,
+    startDate?: string,
+    endDate?: string,
+  ) {
+    // Check permissions
+    if (requestingUserRole === UserRole.OPS) {
+      await this.findWarehouseById(warehouseId, requestingUserId, requestingUserRole);
+    } else if (![UserRole.ADMIN].includes(requestingUserRole)) {
+      throw new ForbiddenException('Insufficient permissions to view warehouse stock movements');
+    }
+
+    const now = new Date();
+    const start = startDate ? new Date(startDate) : new Date(now.getFullYear(), now.getMonth(), 1);
+    const end = endDate ? new Date(endDate) : now;
+    if (start > end) {
+      throw new BadRequestException('startDate must be before endDate');
+    }
+
+    return this.stockLedgerService.getWarehouseMovementReport(warehouseId, start, end);
+  }
+}
@@ -0,0 +1,56 @@
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import request from 'supertest';
+import { AppModule } from '../src/app.module';
+import { OutboxSmsProvider } from '../src/sms/providers/outbox.provider';
+
+describe('OTP send and verify (e2e)', () => {
+  let app: INestApplication;
+  let outbox: OutboxSmsProvider;
+
+  // A new number per run, so the resend cooldown left by earlier runs does not apply
+  const phone = `+919${Date.now().toString().slice(-9)}`;
+
+  const sendOtp = () =>
+    request(app.getHttpServer()).post('/auth/send-otp').send({ phone, purpose: 'PHONE_VERIFICATION' });
+
+  const verifyPhone = (otp: string) => request(app.getHttpServer()).post('/auth/verify-phone').send({ phone, otp });
+
+  beforeAll(async () => {
+    const moduleRef = await Test.createTestingModule({ imports: [AppModule] }).compile();
+
+    app = moduleRef.createNestApplication();
+    app.useGlobalPipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true, transform: true }));
+    await app.init();
+
+    outbox = app.get(OutboxSmsProvider);
+  });
+
+  afterAll(async () => {
+    await app?.close();
+  });
+
+  it('verifies the phone with the code sent by SMS', async () => {
+    await sendOtp().expect(200);
+
+    const message = outbox.getLatestMessage(phone);
+    expect(message).toBeDefined();
+    expect(message!.purpose).toBe('OTP_PHONE_VERIFICATION');
+
+    const otp = message!.variables!.otp;
+    expect(message!.body).toContain(otp);
+
+    await verifyPhone(otp === '000000' ? '111111' : '000000').expect(400);
+
+    const response = await verifyPhone(otp).expect(200);
+    expect(response.body).toMatchObject({ success: true });
+
+    // A code works only once
+    await verifyPhone(otp).expect(400);
+  });
+
+  it('refuses a second code within the cooldown', async () => {
+    const response = await sendOtp().expect(400);
+    expect(response.body.message).toMatch(/Please wait/);
+  });
+});
@@ -0,0 +1,4 @@
+// E2E specs boot the whole app against the database and Redis configured in .env.
+// SMS goes to the in-memory outbox so specs can read the messages back.
+process.env.SMS_PROVIDER = 'OUTBOX';
+delete process.env.SMS_FALLBACK_PROVIDER;
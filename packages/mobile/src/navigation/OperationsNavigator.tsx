@@ -18,6 +18,8 @@ import { ProfileScreen } from '@/screens/operations/ProfileScreen';
 import { WarehouseScreen } from '@/screens/operations/WarehouseScreen';
 import { ScannerScreen } from '@/screens/operations/ScannerScreen';
 import { StockAdjustmentScreen } from '@/screens/operations/StockAdjustmentScreen';
+import { PurchaseOrdersScreen } from '@/screens/operations/PurchaseOrdersScreen';
+import { ReceiveGoodsScreen } from '@/screens/operations/ReceiveGoodsScreen';
 
 export type OperationsStackParamList = {
   // Tab Screens
@@ -49,6 +51,10 @@ export type OperationsStackParamList = {
     warehouseId: string;
   };
   Consignments: undefined;
+  PurchaseOrders: undefined;
+  ReceiveGoods: {
+    purchaseOrderId: string;
+  };
 };
 
 const Tab = createBottomTabNavigator<OperationsStackParamList>();
@@ -72,6 +78,8 @@ function InventoryStack() {
       <Stack.Screen name="Warehouse" component={WarehouseScreen} />
       <Stack.Screen name="Scanner" component={ScannerScreen} />
       <Stack.Screen name="StockAdjustment" component={StockAdjustmentScreen} />
+      <Stack.Screen name="PurchaseOrders" component={PurchaseOrdersScreen} />
+      <Stack.Screen name="ReceiveGoods" component={ReceiveGoodsScreen} />
     </Stack.Navigator>
   );
 }
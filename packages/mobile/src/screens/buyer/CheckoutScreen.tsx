@@ -16,14 +16,17 @@ import {
   ActivityIndicator,
   Card,
   Divider,
-  RadioButton,
   Chip,
+  TextInput,
+  HelperText,
 } from 'react-native-paper';
 import { Ionicons } from '@expo/vector-icons';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RouteProp } from '@react-navigation/native';
 import { BuyerStackParamList } from '@/navigation/BuyerNavigator';
-import { Address, PaymentMethod, Product } from '@/types';
+import { Address, CheckoutEstimate, PaymentMethod, Product, ServiceabilityCheck } from '@/types';
+import { serviceAreaService } from '@/services/serviceAreas';
+import { orderService, OrderPaymentMethod } from '@/services/orders';
 
 type CheckoutScreenNavigationProp = StackNavigationProp<
   BuyerStackParamList,
@@ -94,30 +97,6 @@ const mockPaymentMethods: PaymentMethod[] = [
   },
 ];
 
-const deliveryOptions = [
-  {
-    id: 'standard',
-    name: 'Standard Delivery',
-    description: '5-7 business days',
-    price: 50,
-    estimatedDays: '5-7',
-  },
-  {
-    id: 'express',
-    name: 'Express Delivery',
-    description: '2-3 business days',
-    price: 150,
-    estimatedDays: '2-3',
-  },
-  {
-    id: 'same_day',
-    name: 'Same Day Delivery',
-    description: 'Within 24 hours',
-    price: 300,
-    estimatedDays: '1',
-  },
-];
-
 export function CheckoutScreen({ navigation, route }: Props) {
   const theme = useTheme();
   const { items, total } = route.params;
@@ -125,7 +104,15 @@ export function CheckoutScreen({ navigation, route }: Props) {
   const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>(mockPaymentMethods);
   const [selectedAddress, setSelectedAddress] = useState<string>(addresses.find(a => a.isDefault)?.id || addresses[0]?.id || '');
   const [selectedPayment, setSelectedPayment] = useState<string>(paymentMethods.find(p => p.isDefault)?.id || paymentMethods[0]?.id || '');
-  const [selectedDelivery, setSelectedDelivery] = useState('standard');
+  const [serviceability, setServiceability] = useState<ServiceabilityCheck | null>(null);
+  const [checkingServiceability, setCheckingServiceability] = useState(false);
+  const [estimate, setEstimate] = useState<CheckoutEstimate | null>(null);
+  const [estimating, setEstimating] = useState(false);
+  const [estimateError, setEstimateError] = useState<string | null>(null);
+  const [couponInput, setCouponInput] = useState('');
+  const [couponCode, setCouponCode] = useState<string | null>(null);
+  const [couponError, setCouponError] = useState<string | null>(null);
+  const [applyingCoupon, setApplyingCoupon] = useState(false);
   const [loading, setLoading] = useState(false);
   const [placingOrder, setPlacingOrder] = useState(false);
 
@@ -133,6 +120,98 @@ export function CheckoutScreen({ navigation, route }: Props) {
     loadUserData();
   }, []);
 
+  useEffect(() => {
+    const address = addresses.find(a => a.id === selectedAddress);
+    if (address) {
+      checkServiceability(address.pincode);
+    } else {
+      setServiceability(null);
+    }
+  }, [selectedAddress, addresses]);
+
+  useEffect(() => {
+    if (serviceability?.serviceable) {
+      loadEstimate();
+    } else {
+      setEstimate(null);
+    }
+  }, [serviceability, couponCode]);
+
+  const checkServiceability = async (pincode: string) => {
+    try {
+      setCheckingServiceability(true);
+      const response = await serviceAreaService.checkPincode(pincode);
+      setServiceability(response.success && response.data ? response.data : { pincode, serviceable: false });
+    } catch (error) {
+      console.error('Error checking serviceability:', error);
+      setServiceability({ pincode, serviceable: false });
+    } finally {
+      setCheckingServiceability(false);
+    }
+  };
+
+  // Totals are always priced by the server so they match what the order will charge
+  const fetchEstimate = async (): Promise<CheckoutEstimate | null> => {
+    const response = await orderService.estimateCheckout({
+      deliveryAddressId: selectedAddress,
+      couponCode: couponCode ?? undefined,
+    });
+    if (!response.success || !response.data) {
+      setEstimateError(response.message || 'Unable to calculate order total');
+      return null;
+    }
+    setEstimateError(null);
+    return response.data;
+  };
+
+  const loadEstimate = async () => {
+    try {
+      setEstimating(true);
+      setEstimate(await fetchEstimate());
+    } catch (error) {
+      console.error('Error estimating checkout:', error);
+      setEstimateError('Unable to calculate order total');
+    } finally {
+      setEstimating(false);
+    }
+  };
+
+  // Check the coupon against the server estimate before applying it to checkout
+  const handleApplyCoupon = async () => {
+    const code = couponInput.trim().toUpperCase();
+    if (!code) return;
+
+    try {
+      setApplyingCoupon(true);
+      const response = await orderService.estimateCheckout({ deliveryAddressId: selectedAddress, couponCode: code });
+      if (!response.success || !response.data) {
+        setCouponError(response.message || 'This coupon cannot be applied');
+        return;
+      }
+      setCouponError(null);
+      setCouponCode(code);
+    } catch (error) {
+      console.error('Error applying coupon:', error);
+      setCouponError('Unable to apply coupon');
+    } finally {
+      setApplyingCoupon(false);
+    }
+  };
+
+  const handleRemoveCoupon = () => {
+    setCouponCode(null);
+    setCouponInput('');
+    setCouponError(null);
+  };
+
+  const showPriceChanged = (previousTotal: number, updated: CheckoutEstimate) => {
+    setEstimate(updated);
+    Alert.alert(
+      'Prices Updated',
+      `Your order total has changed from ₹${previousTotal.toLocaleString()} to ₹${updated.totalAmount.toLocaleString()}. Please review the updated amount before placing your order.`
+    );
+  };
+
   const loadUserData = async () => {
     try {
       setLoading(true);
@@ -156,31 +235,48 @@ export function CheckoutScreen({ navigation, route }: Props) {
       return;
     }
 
+    if (!serviceability?.serviceable) {
+      Alert.alert('Not Deliverable', 'We do not deliver to this pincode yet. Please choose another address.');
+      return;
+    }
+
     if (!selectedPayment) {
       Alert.alert('Error', 'Please select a payment method');
       return;
     }
 
+    const payment = paymentMethods.find(p => p.id === selectedPayment);
+
     try {
       setPlacingOrder(true);
-      
-      const orderData = {
-        items: items.map(item => ({
-          productId: item.product.id,
-          quantity: item.quantity,
-          price: item.product.price,
-        })),
-        addressId: selectedAddress,
-        paymentMethodId: selectedPayment,
-        deliveryOption: selectedDelivery,
-        subtotal: getSubtotal(),
-        deliveryFee: getDeliveryFee(),
-        total: getTotal(),
-      };
-
-      // Place order API call
-      // const order = await orderService.createOrder(orderData);
-      
+
+      // Re-price at placement so the buyer is never charged an amount they have not seen
+      const latest = await fetchEstimate();
+      if (!latest) {
+        Alert.alert('Error', 'Unable to confirm your order total. Please try again.');
+        return;
+      }
+      if (estimate && latest.totalAmount !== estimate.totalAmount) {
+        showPriceChanged(estimate.totalAmount, latest);
+        return;
+      }
+
+      const response = await orderService.createOrder({
+        deliveryAddressId: selectedAddress,
+        paymentMethod: payment?.type.toUpperCase() as OrderPaymentMethod,
+        couponCode: couponCode ?? undefined,
+        expectedTotalAmount: latest.totalAmount,
+      });
+      if (!response.success || !response.data) {
+        if (response.error === 'PriceChanged' && response.details?.estimate) {
+          showPriceChanged(latest.totalAmount, response.details.estimate);
+          return;
+        }
+        Alert.alert('Error', response.message || 'Failed to place order. Please try again.');
+        return;
+      }
+      const order = response.data;
+
       Alert.alert(
         'Order Placed!',
         'Your order has been placed successfully. You will receive a confirmation shortly.',
@@ -192,7 +288,7 @@ export function CheckoutScreen({ navigation, route }: Props) {
                 index: 1,
                 routes: [
                   { name: 'Catalog' },
-                  { name: 'OrderDetails', params: { orderId: 'mock-order-id' } },
+                  { name: 'OrderDetails', params: { orderId: order.id } },
                 ],
               });
             },
@@ -216,30 +312,6 @@ export function CheckoutScreen({ navigation, route }: Props) {
     }
   };
 
-  const getSubtotal = () => {
-    return items.reduce((sum, item) => sum + (item.product.price * item.quantity), 0);
-  };
-
-  const getDeliveryFee = () => {
-    const selectedOption = deliveryOptions.find(option => option.id === selectedDelivery);
-    const subtotal = getSubtotal();
-    
-    // Free delivery for orders above ₹500 with standard delivery
-    if (selectedDelivery === 'standard' && subtotal >= 500) {
-      return 0;
-    }
-    
-    return selectedOption?.price || 0;
-  };
-
-  const getTax = () => {
-    return Math.round(getSubtotal() * 0.18); // 18% GST
-  };
-
-  const getTotal = () => {
-    return getSubtotal() + getDeliveryFee() + getTax();
-  };
-
   const renderOrderItems = () => (
     <Card style={styles.section}>
       <Card.Content>
@@ -337,47 +409,53 @@ export function CheckoutScreen({ navigation, route }: Props) {
     );
   };
 
-  const renderDeliveryOptions = () => (
-    <Card style={styles.section}>
-      <Card.Content>
-        <Text style={[styles.sectionTitle, { color: theme.colors.onSurface }]}>
-          Delivery Options
-        </Text>
-        
-        <RadioButton.Group
-          onValueChange={setSelectedDelivery}
-          value={selectedDelivery}
-        >
-          {deliveryOptions.map((option) => {
-            const isFree = option.id === 'standard' && getSubtotal() >= 500;
-            
-            return (
-              <TouchableOpacity
-                key={option.id}
-                style={styles.deliveryOption}
-                onPress={() => setSelectedDelivery(option.id)}
-              >
-                <RadioButton value={option.id} />
-                <View style={styles.deliveryOptionContent}>
-                  <View style={styles.deliveryOptionHeader}>
-                    <Text style={[styles.deliveryOptionName, { color: theme.colors.onSurface }]}>
-                      {option.name}
-                    </Text>
-                    <Text style={[styles.deliveryOptionPrice, { color: theme.colors.primary }]}>
-                      {isFree ? 'FREE' : `₹${option.price}`}
-                    </Text>
-                  </View>
-                  <Text style={[styles.deliveryOptionDescription, { color: theme.colors.onSurfaceVariant }]}>
-                    {option.description}
-                  </Text>
-                </View>
-              </TouchableOpacity>
-            );
-          })}
-        </RadioButton.Group>
-      </Card.Content>
-    </Card>
-  );
+  const renderDeliveryEstimate = () => {
+    if (!selectedAddress) return null;
+
+    const threshold = serviceability?.freeDeliveryThreshold;
+    const orderValue = estimate ? estimate.subtotal - estimate.discountAmount : 0;
+
+    return (
+      <Card style={styles.section}>
+        <Card.Content>
+          <Text style={[styles.sectionTitle, { color: theme.colors.onSurface }]}>
+            Delivery
+          </Text>
+
+          {checkingServiceability || estimating ? (
+            <ActivityIndicator size="small" color={theme.colors.primary} />
+          ) : serviceability?.serviceable && estimate ? (
+            <View style={styles.deliveryInfo}>
+              <View style={styles.deliveryInfoHeader}>
+                <Text style={[styles.deliveryInfoTitle, { color: theme.colors.onSurface }]}>
+                  Arrives by {new Date(estimate.estimatedDeliveryAt).toLocaleString()}
+                </Text>
+                <Text style={[styles.deliveryInfoPrice, { color: theme.colors.primary }]}>
+                  {estimate.deliveryFee === 0 ? 'FREE' : `₹${estimate.deliveryFee.toLocaleString()}`}
+                </Text>
+              </View>
+              {threshold !== undefined && estimate.deliveryFee > 0 && (
+                <Text style={[styles.deliveryInfoHint, { color: theme.colors.onSurfaceVariant }]}>
+                  Add ₹{(threshold - orderValue).toLocaleString()} more for free delivery
+                </Text>
+              )}
+            </View>
+          ) : serviceability?.serviceable ? (
+            <Text style={[styles.deliveryUnavailable, { color: theme.colors.error }]}>
+              {estimateError}
+            </Text>
+          ) : (
+            <View style={styles.deliveryInfoHeader}>
+              <Ionicons name="alert-circle" size={20} color={theme.colors.error} />
+              <Text style={[styles.deliveryUnavailable, { color: theme.colors.error }]}>
+                Delivery is not available to pincode {serviceability?.pincode}
+              </Text>
+            </View>
+          )}
+        </Card.Content>
+      </Card>
+    );
+  };
 
   const renderPaymentMethod = () => {
     const payment = paymentMethods.find(p => p.id === selectedPayment);
@@ -436,12 +514,55 @@ export function CheckoutScreen({ navigation, route }: Props) {
     );
   };
 
+  const renderCoupon = () => (
+    <Card style={styles.section}>
+      <Card.Content>
+        <Text style={[styles.sectionTitle, { color: theme.colors.onSurface }]}>
+          Coupon
+        </Text>
+
+        {couponCode ? (
+          <View style={styles.sectionHeader}>
+            <Chip icon="tag" style={styles.couponChip}>
+              {couponCode}
+            </Chip>
+            <Button mode="text" onPress={handleRemoveCoupon} compact>
+              Remove
+            </Button>
+          </View>
+        ) : (
+          <>
+            <View style={styles.couponRow}>
+              <TextInput
+                mode="outlined"
+                dense
+                placeholder="Enter coupon code"
+                value={couponInput}
+                onChangeText={setCouponInput}
+                autoCapitalize="characters"
+                error={!!couponError}
+                style={styles.couponInput}
+                disabled={applyingCoupon}
+              />
+              <Button
+                mode="contained-tonal"
+                onPress={handleApplyCoupon}
+                loading={applyingCoupon}
+                disabled={applyingCoupon || !couponInput.trim() || !serviceability?.serviceable}
+              >
+                Apply
+              </Button>
+            </View>
+            {couponError && <HelperText type="error">{couponError}</HelperText>}
+          </>
+        )}
+      </Card.Content>
+    </Card>
+  );
+
   const renderOrderSummary = () => {
-    const subtotal = getSubtotal();
-    const deliveryFee = getDeliveryFee();
-    const tax = getTax();
-    const total = getTotal();
-    
+    if (!estimate) return null;
+
     return (
       <Card style={styles.section}>
         <Card.Content>
@@ -454,25 +575,36 @@ export function CheckoutScreen({ navigation, route }: Props) {
               Subtotal ({items.length} items)
             </Text>
             <Text style={[styles.summaryValue, { color: theme.colors.onSurface }]}>
-              ₹{subtotal.toLocaleString()}
+              ₹{estimate.subtotal.toLocaleString()}
             </Text>
           </View>
+
+          {estimate.discountAmount > 0 && (
+            <View style={styles.summaryRow}>
+              <Text style={[styles.summaryLabel, { color: theme.colors.onSurfaceVariant }]}>
+                Discount
+              </Text>
+              <Text style={[styles.summaryValue, { color: theme.colors.error }]}>
+                -₹{estimate.discountAmount.toLocaleString()}
+              </Text>
+            </View>
+          )}
           
           <View style={styles.summaryRow}>
             <Text style={[styles.summaryLabel, { color: theme.colors.onSurfaceVariant }]}>
               Delivery Fee
             </Text>
             <Text style={[styles.summaryValue, { color: theme.colors.onSurface }]}>
-              {deliveryFee === 0 ? 'FREE' : `₹${deliveryFee.toLocaleString()}`}
+              {estimate.deliveryFee === 0 ? 'FREE' : `₹${estimate.deliveryFee.toLocaleString()}`}
             </Text>
           </View>
           
           <View style={styles.summaryRow}>
             <Text style={[styles.summaryLabel, { color: theme.colors.onSurfaceVariant }]}>
-              Tax (GST 18%)
+              Tax (GST)
             </Text>
             <Text style={[styles.summaryValue, { color: theme.colors.onSurface }]}>
-              ₹{tax.toLocaleString()}
+              ₹{estimate.taxAmount.toLocaleString()}
             </Text>
           </View>
           
@@ -483,7 +615,7 @@ export function CheckoutScreen({ navigation, route }: Props) {
               Total Amount
             </Text>
             <Text style={[styles.totalValue, { color: theme.colors.primary }]}>
-              ₹{total.toLocaleString()}
+              ₹{estimate.totalAmount.toLocaleString()}
             </Text>
           </View>
         </Card.Content>
@@ -522,8 +654,9 @@ export function CheckoutScreen({ navigation, route }: Props) {
       >
         {renderOrderItems()}
         {renderDeliveryAddress()}
-        {renderDeliveryOptions()}
+        {renderDeliveryEstimate()}
         {renderPaymentMethod()}
+        {renderCoupon()}
         {renderOrderSummary()}
         
         <View style={styles.bottomSpacing} />
@@ -533,7 +666,7 @@ export function CheckoutScreen({ navigation, route }: Props) {
       <View style={[styles.bottomActions, { backgroundColor: theme.colors.surface }]}>
         <View style={styles.totalContainer}>
           <Text style={[styles.bottomTotal, { color: theme.colors.primary }]}>
-            ₹{getTotal().toLocaleString()}
+            {estimate ? `₹${estimate.totalAmount.toLocaleString()}` : '—'}
           </Text>
           <Text style={[styles.bottomTotalLabel, { color: theme.colors.onSurfaceVariant }]}>
             Total Amount
@@ -543,7 +676,7 @@ export function CheckoutScreen({ navigation, route }: Props) {
           mode="contained"
           onPress={handlePlaceOrder}
           loading={placingOrder}
-          disabled={placingOrder || !selectedAddress || !selectedPayment}
+          disabled={placingOrder || !selectedAddress || !selectedPayment || !estimate}
           style={styles.placeOrderButton}
           contentStyle={styles.placeOrderButtonContent}
         >
@@ -579,6 +712,17 @@ const styles = StyleSheet.create({
   scrollView: {
     flex: 1,
   },
+  couponRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  couponInput: {
+    flex: 1,
+  },
+  couponChip: {
+    alignSelf: 'flex-start',
+  },
   section: {
     margin: 16,
     marginBottom: 0,
@@ -664,31 +808,31 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '500',
   },
-  deliveryOption: {
-    flexDirection: 'row',
-    alignItems: 'center',
+  deliveryInfo: {
     paddingVertical: 8,
   },
-  deliveryOptionContent: {
-    flex: 1,
-    marginLeft: 8,
-  },
-  deliveryOptionHeader: {
+  deliveryInfoHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
     alignItems: 'center',
-    marginBottom: 4,
+    gap: 8,
   },
-  deliveryOptionName: {
+  deliveryInfoTitle: {
     fontSize: 16,
     fontWeight: '600',
   },
-  deliveryOptionPrice: {
+  deliveryInfoPrice: {
     fontSize: 16,
     fontWeight: 'bold',
   },
-  deliveryOptionDescription: {
+  deliveryInfoHint: {
+    fontSize: 14,
+    marginTop: 4,
+  },
+  deliveryUnavailable: {
+    flex: 1,
     fontSize: 14,
+    fontWeight: '500',
   },
   paymentContainer: {
     paddingVertical: 8,
@@ -24,7 +24,7 @@ import { Ionicons } from '@expo/vector-icons';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RouteProp } from '@react-navigation/native';
 import { BuyerStackParamList } from '@/navigation/BuyerNavigator';
-import { Order } from '@/types';
+import { Order, OrderItem } from '@/types';
 
 type OrderDetailsScreenNavigationProp = StackNavigationProp<
   BuyerStackParamList,
@@ -51,6 +51,14 @@ interface OrderTimeline {
   isActive: boolean;
 }
 
+const fulfilmentLabels: { [key: string]: { label: string; color: string } } = {
+  PENDING: { label: 'Awaiting dispatch', color: '#F59E0B' },
+  BACKORDERED: { label: 'Backordered', color: '#F97316' },
+  SHIPPED: { label: 'Shipped', color: '#06B6D4' },
+  DELIVERED: { label: 'Delivered', color: '#10B981' },
+  CANCELLED: { label: 'Cancelled', color: '#EF4444' },
+};
+
 // Mock order data
 const mockOrder: Order = {
   id: '1',
@@ -69,6 +77,10 @@ const mockOrder: Order = {
       quantity: 1,
       price: 1999,
       total: 1999,
+      fulfilmentStatus: 'DELIVERED',
+      quantityShipped: 1,
+      quantityDelivered: 1,
+      quantityCancelled: 0,
     },
     {
       id: '2',
@@ -78,6 +90,10 @@ const mockOrder: Order = {
       quantity: 2,
       price: 299,
       total: 598,
+      fulfilmentStatus: 'DELIVERED',
+      quantityShipped: 2,
+      quantityDelivered: 2,
+      quantityCancelled: 0,
     },
     {
       id: '3',
@@ -87,6 +103,10 @@ const mockOrder: Order = {
       quantity: 1,
       price: 199,
       total: 199,
+      fulfilmentStatus: 'DELIVERED',
+      quantityShipped: 1,
+      quantityDelivered: 1,
+      quantityCancelled: 0,
     },
   ],
   shippingAddress: {
@@ -204,11 +224,35 @@ export function OrderDetailsScreen({ navigation, route }: Props) {
       pending: '#F59E0B',
       confirmed: '#3B82F6',
       processing: '#8B5CF6',
+      partially_shipped: '#0EA5E9',
       shipped: '#06B6D4',
+      partially_delivered: '#14B8A6',
       delivered: '#10B981',
       cancelled: '#EF4444',
     };
-    return statusColors[status] || '#6B7280';
+    return statusColors[status.toLowerCase()] || '#6B7280';
+  };
+
+  const formatStatus = (status: string) => status.replace(/_/g, ' ').toUpperCase();
+
+  // Describes how much of a line has shipped when the order is split across warehouses
+  const getFulfilmentSummary = (item: OrderItem) => {
+    if (!item.fulfilmentStatus) return null;
+
+    const cancelled = item.quantityCancelled || 0;
+    const openQuantity = item.quantity - cancelled;
+    const details: string[] = [];
+    if (item.fulfilmentStatus === 'SHIPPED') {
+      details.push(`${item.quantityShipped || 0} of ${openQuantity} on the way`);
+    }
+    if (cancelled > 0 && item.fulfilmentStatus !== 'CANCELLED') {
+      details.push(`${cancelled} cancelled`);
+    }
+
+    return {
+      ...fulfilmentLabels[item.fulfilmentStatus],
+      details: details.join(' · '),
+    };
   };
 
   const formatDate = (dateString: string) => {
@@ -323,7 +367,7 @@ export function OrderDetailsScreen({ navigation, route }: Props) {
             style={[styles.statusChip, { backgroundColor: getStatusColor(order?.status || '') }]}
             textStyle={styles.statusChipText}
           >
-            {order?.status.toUpperCase()}
+            {formatStatus(order?.status || '')}
           </Chip>
         </View>
         
@@ -407,6 +451,25 @@ export function OrderDetailsScreen({ navigation, route }: Props) {
     </Card>
   );
 
+  const renderItemFulfilment = (item: OrderItem) => {
+    const summary = getFulfilmentSummary(item);
+    if (!summary) return null;
+
+    return (
+      <View style={styles.fulfilmentRow}>
+        <View style={[styles.fulfilmentDot, { backgroundColor: summary.color }]} />
+        <Text style={[styles.fulfilmentText, { color: summary.color }]}>
+          {summary.label}
+        </Text>
+        {summary.details ? (
+          <Text style={[styles.fulfilmentDetails, { color: theme.colors.onSurfaceVariant }]}>
+            {summary.details}
+          </Text>
+        ) : null}
+      </View>
+    );
+  };
+
   const renderOrderItems = () => (
     <Card style={styles.section}>
       <Card.Content>
@@ -444,6 +507,7 @@ export function OrderDetailsScreen({ navigation, route }: Props) {
                 <Text style={[styles.itemTotal, { color: theme.colors.onSurface }]}>
                   Total: ₹{item.total.toLocaleString()}
                 </Text>
+                {renderItemFulfilment(item)}
               </View>
               
               <Ionicons
@@ -551,7 +615,7 @@ export function OrderDetailsScreen({ navigation, route }: Props) {
         
         <View style={styles.summaryRow}>
           <Text style={[styles.summaryLabel, { color: theme.colors.onSurfaceVariant }]}>
-            Tax (GST 18%)
+            Tax (GST)
           </Text>
           <Text style={[styles.summaryValue, { color: theme.colors.onSurface }]}>
             ₹{order?.tax?.toLocaleString()}
@@ -577,7 +641,7 @@ export function OrderDetailsScreen({ navigation, route }: Props) {
 
     const actions = [];
 
-    switch (order.status) {
+    switch (order.status.toLowerCase()) {
       case 'pending':
       case 'confirmed':
         actions.push(
@@ -592,7 +656,9 @@ export function OrderDetailsScreen({ navigation, route }: Props) {
           </Button>
         );
         break;
+      case 'partially_shipped':
       case 'shipped':
+      case 'partially_delivered':
         actions.push(
           <Button
             key="track"
@@ -855,6 +921,24 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: 'bold',
   },
+  fulfilmentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+    gap: 6,
+  },
+  fulfilmentDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  fulfilmentText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  fulfilmentDetails: {
+    fontSize: 12,
+  },
   itemDivider: {
     marginVertical: 8,
   },
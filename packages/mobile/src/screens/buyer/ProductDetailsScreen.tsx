@@ -26,6 +26,7 @@ import { RouteProp } from '@react-navigation/native';
 import { BuyerStackParamList } from '@/navigation/BuyerNavigator';
 import { Product, Review } from '@/types';
 import { productService } from '@/services/products';
+import { resolveTierPrice } from '@mawell/shared';
 
 const { width, height } = Dimensions.get('window');
 const IMAGE_HEIGHT = width * 0.8;
@@ -57,6 +58,7 @@ export function ProductDetailsScreen({ navigation, route }: Props) {
   const [loading, setLoading] = useState(true);
   const [selectedImageIndex, setSelectedImageIndex] = useState(0);
   const [quantity, setQuantity] = useState(1);
+  const [selectedVariantId, setSelectedVariantId] = useState<string | null>(null);
   const [addingToCart, setAddingToCart] = useState(false);
   const [isFavorite, setIsFavorite] = useState(false);
   const [reviews, setReviews] = useState<Review[]>([]);
@@ -99,11 +101,17 @@ export function ProductDetailsScreen({ navigation, route }: Props) {
     }
   };
 
+  const selectedVariant =
+    product?.variants?.find((variant) => variant.id === selectedVariantId) ?? product?.variants?.[0];
+  const basePrice = selectedVariant?.price ?? product?.price ?? 0;
+  const pricingTiers = selectedVariant ? selectedVariant.pricingTiers : product?.pricingTiers;
+  const unitPrice = product ? resolveTierPrice(basePrice, pricingTiers, quantity) : 0;
+
   const handleBuyNow = () => {
     if (!product) return;
     navigation.navigate('Checkout', { 
-      items: [{ product, quantity }],
-      total: product.price * quantity 
+      items: [{ product: { ...product, price: unitPrice }, variant: selectedVariant, quantity }],
+      total: unitPrice * quantity 
     });
   };
 
@@ -208,7 +216,7 @@ export function ProductDetailsScreen({ navigation, route }: Props) {
         {/* Price */}
         <View style={styles.priceContainer}>
           <Text style={[styles.currentPrice, { color: theme.colors.primary }]}>
-            ₹{product.price.toLocaleString()}
+            ₹{unitPrice.toLocaleString()}
           </Text>
           {product.originalPrice && product.originalPrice > product.price && (
             <Text style={[styles.originalPrice, { color: theme.colors.onSurfaceVariant }]}>
@@ -278,6 +286,75 @@ export function ProductDetailsScreen({ navigation, route }: Props) {
     );
   };
 
+  const renderVariantPicker = () => {
+    const variants = product?.variants?.filter((variant) => variant.isActive) ?? [];
+    if (variants.length < 2) return null;
+
+    return (
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, { color: theme.colors.onSurface }]}>
+          Variant
+        </Text>
+        <View style={styles.variantChips}>
+          {variants.map((variant) => (
+            <Chip
+              key={variant.id}
+              mode="outlined"
+              selected={variant.id === selectedVariant?.id}
+              onPress={() => setSelectedVariantId(variant.id)}
+              style={styles.variantChip}
+            >
+              {variant.name}
+            </Chip>
+          ))}
+        </View>
+        <Text style={[styles.variantSku, { color: theme.colors.onSurfaceVariant }]}>
+          SKU: {selectedVariant?.sku}
+        </Text>
+      </View>
+    );
+  };
+
+  const renderPricingTiers = () => {
+    if (!product || !pricingTiers?.length) return null;
+
+    return (
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, { color: theme.colors.onSurface }]}>
+          Bulk Pricing
+        </Text>
+        {pricingTiers.map((tier) => {
+          const isApplied =
+            quantity >= tier.minQuantity && (!tier.maxQuantity || quantity <= tier.maxQuantity);
+          const savings = basePrice - tier.price;
+          return (
+            <View
+              key={tier.id}
+              style={[
+                styles.tierRow,
+                isApplied && { backgroundColor: theme.colors.primaryContainer },
+              ]}
+            >
+              <Text style={[styles.tierRange, { color: theme.colors.onSurface }]}>
+                {tier.maxQuantity
+                  ? `Buy ${tier.minQuantity}-${tier.maxQuantity}`
+                  : `Buy ${tier.minQuantity}+`}
+              </Text>
+              <Text style={[styles.tierPrice, { color: theme.colors.primary }]}>
+                ₹{tier.price.toLocaleString()}/unit
+              </Text>
+              {savings > 0 && (
+                <Text style={[styles.tierSavings, { color: theme.colors.error }]}>
+                  save ₹{savings.toLocaleString()}/unit
+                </Text>
+              )}
+            </View>
+          );
+        })}
+      </View>
+    );
+  };
+
   const renderDescription = () => {
     if (!product?.description) return null;
 
@@ -423,7 +500,9 @@ export function ProductDetailsScreen({ navigation, route }: Props) {
         
         <Divider style={styles.divider} />
         
+        {renderVariantPicker()}
         {renderQuantitySelector()}
+        {renderPricingTiers()}
         {renderDescription()}
         {renderSpecifications()}
         {renderReviews()}
@@ -625,6 +704,39 @@ const styles = StyleSheet.create({
     fontSize: 14,
     lineHeight: 20,
   },
+  variantChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  variantChip: {
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  variantSku: {
+    fontSize: 12,
+  },
+  tierRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+    paddingHorizontal: 8,
+    borderRadius: 6,
+  },
+  tierRange: {
+    fontSize: 14,
+    fontWeight: '500',
+    flex: 1,
+  },
+  tierPrice: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginRight: 8,
+  },
+  tierSavings: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
   specRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -270,7 +270,7 @@ export function ConsignmentsScreen({ navigation }: Props) {
       const query = searchQuery.toLowerCase().trim();
       filtered = filtered.filter(consignment =>
         consignment.consignmentNumber.toLowerCase().includes(query) ||
-        consignment.orderId.toLowerCase().includes(query) ||
+        consignment.orderId?.toLowerCase().includes(query) ||
         consignment.deliveryAddress.name.toLowerCase().includes(query) ||
         consignment.items.some(item => 
           item.productName.toLowerCase().includes(query)
@@ -1,8 +1,10 @@
 import { DriverStackParamList } from '@/navigation/DriverNavigator';
 import { useAuth } from '@/store/AuthContext';
+import { logisticsService } from '@/services/logistics';
+import { DriverCashBalance } from '@/types';
 import { Ionicons } from '@expo/vector-icons';
 import { StackNavigationProp } from '@react-navigation/stack';
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
     Alert,
     Linking,
@@ -77,6 +79,22 @@ export function ProfileScreen({ navigation }: Props) {
   });
   const [isDarkMode, setIsDarkMode] = useState(false);
   const [isOnline, setIsOnline] = useState(true);
+  const [cashBalance, setCashBalance] = useState<DriverCashBalance | null>(null);
+
+  useEffect(() => {
+    loadCashBalance();
+  }, []);
+
+  const loadCashBalance = async () => {
+    try {
+      const response = await logisticsService.getMyCashBalance();
+      if (response.success && response.data) {
+        setCashBalance(response.data);
+      }
+    } catch (error) {
+      console.error('Failed to load cash balance:', error);
+    }
+  };
 
   const handleNotificationToggle = (key: keyof NotificationSettings) => {
     setNotificationSettings(prev => ({
@@ -224,6 +242,34 @@ export function ProfileScreen({ navigation }: Props) {
           </Card.Content>
         </Card>
 
+        {/* COD Cash */}
+        <Card style={[styles.card, { backgroundColor: theme.colors.surface }]}>
+          <Card.Content>
+            <Text style={[styles.sectionTitle, { color: theme.colors.onSurface }]}>
+              Cash in Hand
+            </Text>
+            <View style={styles.monthlyStats}>
+              <View style={styles.monthlyStatItem}>
+                <Ionicons name="cash-outline" size={20} color={theme.colors.primary} />
+                <Text style={[styles.monthlyStatValue, { color: theme.colors.onSurface }]}>
+                  {formatCurrency(cashBalance?.cashInHand ?? 0)} to deposit
+                </Text>
+              </View>
+              <View style={styles.monthlyStatItem}>
+                <Ionicons name="receipt-outline" size={20} color={theme.colors.primary} />
+                <Text style={[styles.monthlyStatValue, { color: theme.colors.onSurface }]}>
+                  {cashBalance?.pendingEntries ?? 0} collections
+                </Text>
+              </View>
+            </View>
+            {cashBalance?.oldestCollectedAt && (
+              <Text style={[styles.cashNote, { color: theme.colors.onSurfaceVariant }]}>
+                Oldest collection: {new Date(cashBalance.oldestCollectedAt).toLocaleDateString('en-IN')}
+              </Text>
+            )}
+          </Card.Content>
+        </Card>
+
         {/* Driver Statistics */}
         <Card style={[styles.card, { backgroundColor: theme.colors.surface }]}>
           <Card.Content>
@@ -637,6 +683,10 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '500',
   },
+  cashNote: {
+    fontSize: 12,
+    marginTop: 12,
+  },
   listItemRight: {
     flexDirection: 'row',
     alignItems: 'center',
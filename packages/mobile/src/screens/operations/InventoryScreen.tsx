@@ -464,6 +464,14 @@ export function InventoryScreen({ navigation }: Props) {
             {sortBy.charAt(0).toUpperCase() + sortBy.slice(1)}
           </Button>
         </View>
+
+        <Button
+          mode="contained-tonal"
+          icon="truck-delivery"
+          onPress={() => navigation.navigate('PurchaseOrders')}
+        >
+          Receive Stock
+        </Button>
       </View>
 
       {/* Inventory List */}
@@ -0,0 +1,182 @@
+import { OperationsStackParamList } from '@/navigation/OperationsNavigator';
+import { procurementService } from '@/services/procurement';
+import { PurchaseOrderSummary } from '@/types';
+import { useFocusEffect } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import React, { useCallback, useState } from 'react';
+import { FlatList, RefreshControl, StyleSheet, Text, View } from 'react-native';
+import { ActivityIndicator, Card, Chip, Searchbar, Title } from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+type PurchaseOrdersScreenNavigationProp = StackNavigationProp<OperationsStackParamList, 'PurchaseOrders'>;
+
+interface Props {
+  navigation: PurchaseOrdersScreenNavigationProp;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  ISSUED: 'Awaiting delivery',
+  PARTIALLY_RECEIVED: 'Partially received',
+};
+
+export function PurchaseOrdersScreen({ navigation }: Props) {
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrderSummary[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadPurchaseOrders();
+    }, [])
+  );
+
+  // Only orders that can still be received against are shown
+  const loadPurchaseOrders = async () => {
+    try {
+      const [issued, partial] = await Promise.all([
+        procurementService.getPurchaseOrders({ status: 'ISSUED', limit: 100 }),
+        procurementService.getPurchaseOrders({ status: 'PARTIALLY_RECEIVED', limit: 100 }),
+      ]);
+      setPurchaseOrders([
+        ...(partial.data?.purchaseOrders || []),
+        ...(issued.data?.purchaseOrders || []),
+      ]);
+    } catch (error) {
+      console.error('Failed to load purchase orders:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadPurchaseOrders();
+  };
+
+  const filteredOrders = purchaseOrders.filter((order) => {
+    const query = searchQuery.trim().toLowerCase();
+    return (
+      !query ||
+      order.poNumber.toLowerCase().includes(query) ||
+      order.supplier.name.toLowerCase().includes(query)
+    );
+  });
+
+  const renderOrder = ({ item }: { item: PurchaseOrderSummary }) => {
+    const overdue = !!item.expectedDate && new Date(item.expectedDate) < new Date();
+
+    return (
+      <Card style={styles.card} onPress={() => navigation.navigate('ReceiveGoods', { purchaseOrderId: item.id })}>
+        <Card.Content>
+          <View style={styles.row}>
+            <Text style={styles.poNumber}>{item.poNumber}</Text>
+            <Chip compact style={item.status === 'PARTIALLY_RECEIVED' ? styles.partialChip : styles.issuedChip}>
+              {STATUS_LABELS[item.status] || item.status}
+            </Chip>
+          </View>
+          <Text style={styles.supplier}>{item.supplier.name}</Text>
+          <View style={styles.row}>
+            <Text style={styles.meta}>
+              {item.warehouse.name} · {item._count.items} line(s)
+            </Text>
+            {item.expectedDate && (
+              <Text style={[styles.meta, overdue && styles.overdue]}>
+                Expected {new Date(item.expectedDate).toLocaleDateString()}
+              </Text>
+            )}
+          </View>
+        </Card.Content>
+      </Card>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Title>Receive Stock</Title>
+        <Searchbar
+          placeholder="Search PO number or supplier"
+          value={searchQuery}
+          onChangeText={setSearchQuery}
+          style={styles.searchbar}
+        />
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator />
+        </View>
+      ) : (
+        <FlatList
+          data={filteredOrders}
+          renderItem={renderOrder}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.list}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+          ListEmptyComponent={<Text style={styles.emptyText}>No purchase orders waiting to be received</Text>}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    padding: 16,
+    paddingBottom: 8,
+  },
+  searchbar: {
+    marginTop: 8,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  list: {
+    padding: 16,
+    paddingTop: 8,
+  },
+  card: {
+    marginBottom: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  poNumber: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  supplier: {
+    marginTop: 4,
+    color: '#333',
+  },
+  meta: {
+    marginTop: 4,
+    fontSize: 12,
+    color: '#666',
+  },
+  overdue: {
+    color: '#d32f2f',
+  },
+  issuedChip: {
+    backgroundColor: '#e3f2fd',
+  },
+  partialChip: {
+    backgroundColor: '#fff3e0',
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: '#666',
+    marginTop: 32,
+  },
+});
@@ -0,0 +1,291 @@
+import { OperationsStackParamList } from '@/navigation/OperationsNavigator';
+import { procurementService } from '@/services/procurement';
+import { PurchaseOrder, ReceiveGoodsItem } from '@/types';
+import { RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import React, { useEffect, useState } from 'react';
+import { Alert, ScrollView, StyleSheet, Text, TextInput, View } from 'react-native';
+import { ActivityIndicator, Button, Card, Paragraph, Title } from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+type ReceiveGoodsScreenNavigationProp = StackNavigationProp<OperationsStackParamList, 'ReceiveGoods'>;
+type ReceiveGoodsScreenRouteProp = RouteProp<OperationsStackParamList, 'ReceiveGoods'>;
+
+interface Props {
+  navigation: ReceiveGoodsScreenNavigationProp;
+  route: ReceiveGoodsScreenRouteProp;
+}
+
+interface LineEntry {
+  accepted: string;
+  rejected: string;
+  batchNumber: string;
+  expiryDate: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function ReceiveGoodsScreen({ navigation, route }: Props) {
+  const { purchaseOrderId } = route.params;
+  const [purchaseOrder, setPurchaseOrder] = useState<PurchaseOrder | null>(null);
+  const [entries, setEntries] = useState<Record<string, LineEntry>>({});
+  const [notes, setNotes] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    loadPurchaseOrder();
+  }, [purchaseOrderId]);
+
+  const loadPurchaseOrder = async () => {
+    try {
+      setLoading(true);
+      const response = await procurementService.getPurchaseOrder(purchaseOrderId);
+      if (!response.success || !response.data) {
+        Alert.alert('Error', response.message || 'Failed to load purchase order');
+        return;
+      }
+
+      // Default each line to its outstanding quantity
+      const initial: Record<string, LineEntry> = {};
+      response.data.items.forEach((item) => {
+        initial[item.id] = {
+          accepted: String(Math.max(item.quantityOrdered - item.quantityReceived, 0)),
+          rejected: '',
+          batchNumber: '',
+          expiryDate: '',
+        };
+      });
+      setEntries(initial);
+      setPurchaseOrder(response.data);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to load purchase order');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateEntry = (itemId: string, field: keyof LineEntry, value: string) => {
+    setEntries((prev) => ({ ...prev, [itemId]: { ...prev[itemId], [field]: value } }));
+  };
+
+  const handleSubmit = () => {
+    if (!purchaseOrder) return;
+
+    const items: ReceiveGoodsItem[] = [];
+    for (const item of purchaseOrder.items) {
+      const entry = entries[item.id];
+      const accepted = parseInt(entry.accepted || '0', 10);
+      const rejected = parseInt(entry.rejected || '0', 10);
+      if (isNaN(accepted) || isNaN(rejected) || accepted < 0 || rejected < 0) {
+        Alert.alert('Error', `Enter valid quantities for ${item.variant.sku}`);
+        return;
+      }
+      if (entry.expiryDate && !DATE_PATTERN.test(entry.expiryDate)) {
+        Alert.alert('Error', `Enter the expiry date of ${item.variant.sku} as YYYY-MM-DD`);
+        return;
+      }
+      if (accepted + rejected === 0) continue;
+
+      items.push({
+        purchaseOrderItemId: item.id,
+        quantityReceived: accepted,
+        quantityRejected: rejected || undefined,
+        batchNumber: entry.batchNumber.trim() || undefined,
+        expiryDate: entry.expiryDate || undefined,
+      });
+    }
+
+    if (items.length === 0) {
+      Alert.alert('Error', 'Enter the quantity received for at least one line');
+      return;
+    }
+
+    Alert.alert('Confirm Receipt', `Record receipt of ${items.length} line(s) against ${purchaseOrder.poNumber}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Confirm', onPress: () => submitReceipt(items) },
+    ]);
+  };
+
+  const submitReceipt = async (items: ReceiveGoodsItem[]) => {
+    try {
+      setSubmitting(true);
+      const response = await procurementService.receiveGoods(purchaseOrderId, items, notes.trim() || undefined);
+      if (!response.success || !response.data) {
+        Alert.alert('Error', response.message || 'Failed to record receipt');
+        return;
+      }
+      Alert.alert('Stock Received', `GRN ${response.data.grnNumber} recorded`, [
+        { text: 'OK', onPress: () => navigation.goBack() },
+      ]);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to record receipt');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading || !purchaseOrder) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator />
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.scrollView}>
+        <Card style={styles.card}>
+          <Card.Content>
+            <Title>{purchaseOrder.poNumber}</Title>
+            <Paragraph>{purchaseOrder.supplier.name}</Paragraph>
+            <Text style={styles.meta}>
+              {purchaseOrder.warehouse.name}
+              {purchaseOrder.expectedDate && ` · Expected ${new Date(purchaseOrder.expectedDate).toLocaleDateString()}`}
+            </Text>
+          </Card.Content>
+        </Card>
+
+        {purchaseOrder.items.map((item) => {
+          const entry = entries[item.id];
+          const outstanding = item.quantityOrdered - item.quantityReceived;
+
+          return (
+            <Card key={item.id} style={styles.card}>
+              <Card.Content>
+                <Text style={styles.productName}>{item.product.name}</Text>
+                <Text style={styles.meta}>
+                  {item.variant.sku} · ordered {item.quantityOrdered} · received {item.quantityReceived}
+                  {outstanding > 0 ? ` · ${outstanding} outstanding` : ''}
+                </Text>
+
+                <View style={styles.inputRow}>
+                  <View style={styles.inputColumn}>
+                    <Text style={styles.inputLabel}>Accepted</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={entry.accepted}
+                      onChangeText={(value) => updateEntry(item.id, 'accepted', value)}
+                      keyboardType="numeric"
+                    />
+                  </View>
+                  <View style={styles.inputColumn}>
+                    <Text style={styles.inputLabel}>Rejected</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={entry.rejected}
+                      onChangeText={(value) => updateEntry(item.id, 'rejected', value)}
+                      placeholder="0"
+                      keyboardType="numeric"
+                    />
+                  </View>
+                </View>
+
+                <View style={styles.inputRow}>
+                  <View style={styles.inputColumn}>
+                    <Text style={styles.inputLabel}>Batch</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={entry.batchNumber}
+                      onChangeText={(value) => updateEntry(item.id, 'batchNumber', value)}
+                      autoCapitalize="characters"
+                    />
+                  </View>
+                  <View style={styles.inputColumn}>
+                    <Text style={styles.inputLabel}>Expiry</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={entry.expiryDate}
+                      onChangeText={(value) => updateEntry(item.id, 'expiryDate', value)}
+                      placeholder="YYYY-MM-DD"
+                    />
+                  </View>
+                </View>
+              </Card.Content>
+            </Card>
+          );
+        })}
+
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text style={styles.inputLabel}>Notes</Text>
+            <TextInput
+              style={[styles.input, styles.notesInput]}
+              value={notes}
+              onChangeText={setNotes}
+              placeholder="Vehicle number, damages, shortages..."
+              multiline
+            />
+          </Card.Content>
+        </Card>
+
+        <Button
+          mode="contained"
+          onPress={handleSubmit}
+          loading={submitting}
+          disabled={submitting}
+          style={styles.submitButton}
+          icon="truck-check"
+        >
+          Record Receipt
+        </Button>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  card: {
+    margin: 16,
+    marginBottom: 0,
+  },
+  productName: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  meta: {
+    marginTop: 4,
+    fontSize: 12,
+    color: '#666',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    marginTop: 12,
+  },
+  inputColumn: {
+    flex: 1,
+    marginRight: 8,
+  },
+  inputLabel: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 10,
+    backgroundColor: 'white',
+  },
+  notesInput: {
+    minHeight: 60,
+  },
+  submitButton: {
+    margin: 16,
+  },
+});
@@ -1,5 +1,6 @@
+import { Platform } from 'react-native';
 import { apiService } from './api';
-import { User, ApiResponse, LoginForm, OTPForm, ProfileForm } from '@/types';
+import { User, UserSession, ApiResponse, LoginForm, OTPForm, ProfileForm } from '@/types';
 
 export interface LoginResponse {
   message: string;
@@ -49,6 +50,16 @@ class AuthService {
     return response;
   }
 
+  // List devices signed in to this account
+  async getSessions(): Promise<ApiResponse<UserSession[]>> {
+    return apiService.get<UserSession[]>('/auth/sessions');
+  }
+
+  // Sign a device out of this account
+  async revokeSession(sessionId: string): Promise<ApiResponse<{ message: string }>> {
+    return apiService.delete<{ message: string }>(`/auth/sessions/${sessionId}`);
+  }
+
   // Get current user profile
   async getCurrentUser(): Promise<ApiResponse<User>> {
     return apiService.get<User>('/auth/me');
@@ -98,12 +109,18 @@ class AuthService {
   }
 
   // Update device token for push notifications
-  async updateDeviceToken(deviceToken: string): Promise<ApiResponse<{ message: string }>> {
-    return apiService.post<{ message: string }>('/auth/device-token', {
-      deviceToken,
+  async updateDeviceToken(deviceToken: string): Promise<ApiResponse<{ id: string }>> {
+    return apiService.post<{ id: string }>('/notifications/devices', {
+      token: deviceToken,
+      platform: Platform.OS === 'ios' ? 'ios' : 'android',
     });
   }
 
+  // Stop push notifications to this device, e.g. on logout
+  async removeDeviceToken(deviceToken: string): Promise<ApiResponse<{ message: string }>> {
+    return apiService.delete<{ message: string }>(`/notifications/devices/${encodeURIComponent(deviceToken)}`);
+  }
+
   // Delete account
   async deleteAccount(): Promise<ApiResponse<{ message: string }>> {
     const response = await apiService.delete<{ message: string }>('/auth/account');
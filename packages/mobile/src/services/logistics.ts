@@ -0,0 +1,13 @@
+import { apiService } from './api';
+import { ApiResponse, DriverCashBalance } from '@/types';
+
+class LogisticsService {
+  // Cash the signed-in driver has collected and not yet deposited
+  async getMyCashBalance(): Promise<ApiResponse<DriverCashBalance>> {
+    return apiService.get<DriverCashBalance>('/logistics/cod/my-balance');
+  }
+}
+
+// Create and export singleton instance
+export const logisticsService = new LogisticsService();
+export default logisticsService;
@@ -0,0 +1,32 @@
+import { apiService } from './api';
+import { ApiResponse, CheckoutEstimate, Order } from '@/types';
+
+export type OrderPaymentMethod = 'UPI' | 'CARD' | 'NET_BANKING' | 'COD' | 'CREDIT';
+
+export interface EstimateOrderData {
+  deliveryAddressId: string;
+  couponCode?: string;
+  requestedDeliveryDate?: string;
+}
+
+export interface CreateOrderData extends EstimateOrderData {
+  paymentMethod: OrderPaymentMethod;
+  notes?: string;
+  expectedTotalAmount?: number;
+}
+
+class OrderService {
+  // Price the cart on the server without placing an order
+  async estimateCheckout(data: EstimateOrderData): Promise<ApiResponse<CheckoutEstimate>> {
+    return apiService.post<CheckoutEstimate>('/orders/estimate', data);
+  }
+
+  // Place an order from the cart
+  async createOrder(data: CreateOrderData): Promise<ApiResponse<Order>> {
+    return apiService.post<Order>('/orders', data);
+  }
+}
+
+// Create and export singleton instance
+export const orderService = new OrderService();
+export default orderService;
@@ -0,0 +1,42 @@
+import { apiService } from './api';
+import { ApiResponse, GoodsReceipt, PurchaseOrder, PurchaseOrderStatus, PurchaseOrderSummary, ReceiveGoodsItem } from '@/types';
+
+export interface PurchaseOrderList {
+  purchaseOrders: PurchaseOrderSummary[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+class ProcurementService {
+  // Purchase orders for the signed-in ops user's warehouses
+  async getPurchaseOrders(params?: {
+    status?: PurchaseOrderStatus;
+    search?: string;
+    page?: number;
+    limit?: number;
+  }): Promise<ApiResponse<PurchaseOrderList>> {
+    return apiService.get<PurchaseOrderList>('/procurement/purchase-orders', { params });
+  }
+
+  async getPurchaseOrder(id: string): Promise<ApiResponse<PurchaseOrder>> {
+    return apiService.get<PurchaseOrder>(`/procurement/purchase-orders/${id}`);
+  }
+
+  // Record a goods-received note; accepted units go straight into warehouse stock
+  async receiveGoods(
+    purchaseOrderId: string,
+    items: ReceiveGoodsItem[],
+    notes?: string
+  ): Promise<ApiResponse<GoodsReceipt>> {
+    return apiService.post<GoodsReceipt>(`/procurement/purchase-orders/${purchaseOrderId}/receipts`, {
+      items,
+      notes,
+    });
+  }
+}
+
+// Create and export singleton instance
+export const procurementService = new ProcurementService();
+export default procurementService;
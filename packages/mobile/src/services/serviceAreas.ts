@@ -0,0 +1,13 @@
+import { apiService } from './api';
+import { ApiResponse, ServiceabilityCheck } from '@/types';
+
+class ServiceAreaService {
+  // Check whether deliveries are available to a pincode
+  async checkPincode(pincode: string): Promise<ApiResponse<ServiceabilityCheck>> {
+    return apiService.get<ServiceabilityCheck>(`/service-areas/check/${pincode}`);
+  }
+}
+
+// Create and export singleton instance
+export const serviceAreaService = new ServiceAreaService();
+export default serviceAreaService;
@@ -39,6 +39,17 @@ export interface NotificationSettings {
   systemMessages: boolean;
 }
 
+export interface UserSession {
+  id: string;
+  deviceName?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  createdAt: string;
+  isCurrent: boolean;
+}
+
 // Address Types
 export interface Address {
   id: string;
@@ -47,13 +58,23 @@ export interface Address {
   street: string;
   city: string;
   state: string;
-  postalCode: string;
+  pincode: string;
   country: string;
   latitude?: number;
   longitude?: number;
   isDefault: boolean;
 }
 
+export interface ServiceabilityCheck {
+  pincode: string;
+  serviceable: boolean;
+  city?: string;
+  state?: string;
+  deliveryFee?: number;
+  freeDeliveryThreshold?: number;
+  etaHours?: number;
+}
+
 // Product Types
 export interface Product {
   id: string;
@@ -64,15 +85,32 @@ export interface Product {
   brand?: string;
   images: string[];
   price: number;
+  taxRate?: number;
+  hsnCode?: string;
   unit: string;
   weight?: number;
   dimensions?: ProductDimensions;
   isActive: boolean;
   stock: ProductStock[];
+  pricingTiers?: PricingTier[];
+  variants?: ProductVariant[];
   createdAt: string;
   updatedAt: string;
 }
 
+export interface ProductVariant {
+  id: string;
+  productId: string;
+  sku: string;
+  name: string;
+  attributes: Record<string, string>;
+  barcode?: string;
+  price: number;
+  mrp: number;
+  isActive: boolean;
+  pricingTiers?: PricingTier[];
+}
+
 export interface ProductCategory {
   id: string;
   name: string;
@@ -99,7 +137,23 @@ export interface ProductStock {
   maxStockLevel: number;
 }
 
+export interface PricingTier {
+  id: string;
+  minQuantity: number;
+  maxQuantity?: number;
+  price: number;
+}
+
 // Order Types
+export interface CheckoutEstimate {
+  subtotal: number;
+  taxAmount: number;
+  deliveryFee: number;
+  discountAmount: number;
+  totalAmount: number;
+  estimatedDeliveryAt: string;
+}
+
 export interface Order {
   id: string;
   orderNumber: string;
@@ -125,11 +179,20 @@ export type OrderStatus =
   | 'PENDING'
   | 'CONFIRMED'
   | 'PROCESSING'
+  | 'PARTIALLY_SHIPPED'
   | 'SHIPPED'
+  | 'PARTIALLY_DELIVERED'
   | 'DELIVERED'
   | 'CANCELLED'
   | 'REFUNDED';
 
+export type FulfilmentStatus =
+  | 'PENDING'
+  | 'BACKORDERED'
+  | 'SHIPPED'
+  | 'DELIVERED'
+  | 'CANCELLED';
+
 export interface OrderItem {
   id: string;
   orderId: string;
@@ -138,6 +201,10 @@ export interface OrderItem {
   quantity: number;
   unitPrice: number;
   totalPrice: number;
+  fulfilmentStatus?: FulfilmentStatus;
+  quantityShipped?: number;
+  quantityDelivered?: number;
+  quantityCancelled?: number;
   notes?: string;
 }
 
@@ -145,8 +212,10 @@ export interface OrderItem {
 export interface Consignment {
   id: string;
   consignmentNumber: string;
-  orderId: string;
-  order: Order;
+  // A consignment carries either an order or an inter-warehouse stock transfer
+  orderId: string | null;
+  order?: Order;
+  transferId?: string | null;
   driverId?: string;
   driver?: User;
   status: ConsignmentStatus;
@@ -160,10 +229,98 @@ export interface Consignment {
   distance?: number;
   route?: RoutePoint[];
   notes?: string;
+  codAmount?: number | null;
+  codCollected?: boolean;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface CodLedgerEntry {
+  id: string;
+  consignmentId: string;
+  amount: number;
+  expectedAmount: number;
+  collectedAt: string;
+  settledAt?: string | null;
+  consignment: {
+    consignmentNumber: string;
+    order: { id: string; orderNumber: string };
+  };
+}
+
+export interface DriverCashBalance {
+  driverId: string;
+  cashInHand: number;
+  expectedAmount: number;
+  pendingEntries: number;
+  oldestCollectedAt: string | null;
+  entries: CodLedgerEntry[];
+}
+
+// Procurement Types
+export type PurchaseOrderStatus =
+  | 'DRAFT'
+  | 'ISSUED'
+  | 'PARTIALLY_RECEIVED'
+  | 'RECEIVED'
+  | 'CLOSED'
+  | 'CANCELLED';
+
+export interface PurchaseOrderSummary {
+  id: string;
+  poNumber: string;
+  status: PurchaseOrderStatus;
+  expectedDate?: string | null;
+  totalAmount: number;
+  supplier: { id: string; name: string; code: string };
+  warehouse: { id: string; name: string; code: string };
+  _count: { items: number; receipts: number };
+  createdAt: string;
+}
+
+export interface PurchaseOrderItem {
+  id: string;
+  productId: string;
+  variantId: string;
+  quantityOrdered: number;
+  quantityReceived: number;
+  quantityRejected: number;
+  unitCost: number;
+  product: { id: string; name: string };
+  variant: { id: string; sku: string; name: string; barcode?: string | null };
+}
+
+export interface GoodsReceipt {
+  id: string;
+  grnNumber: string;
+  receivedAt: string;
+  notes?: string | null;
+  items: {
+    id: string;
+    purchaseOrderItemId: string;
+    quantityReceived: number;
+    quantityRejected: number;
+    batchNumber?: string | null;
+    expiryDate?: string | null;
+  }[];
+}
+
+export interface PurchaseOrder extends Omit<PurchaseOrderSummary, '_count'> {
+  notes?: string | null;
+  items: PurchaseOrderItem[];
+  receipts: GoodsReceipt[];
+}
+
+export interface ReceiveGoodsItem {
+  purchaseOrderItemId: string;
+  quantityReceived: number;
+  quantityRejected?: number;
+  batchNumber?: string;
+  manufacturingDate?: string;
+  expiryDate?: string;
+  notes?: string;
+}
+
 export type ConsignmentStatus = 
   | 'PENDING'
   | 'ASSIGNED'
@@ -219,6 +376,7 @@ export type PaymentStatus =
   | 'COMPLETED'
   | 'FAILED'
   | 'CANCELLED'
+  | 'PARTIALLY_REFUNDED'
   | 'REFUNDED';
 
 // Cart Types
@@ -275,6 +433,7 @@ export interface ApiResponse<T = any> {
   message?: string;
   error?: string;
   errors?: Record<string, string[]>;
+  details?: any;
 }
 
 export interface PaginatedResponse<T = any> {
@@ -24,7 +24,12 @@ export {
   generateOTP,
   generateOrderNumber,
   calculateGST,
+  roundCurrency,
+  isInterStateSupply,
+  resolveTierPrice,
   formatCurrency,
+  numberToWords,
+  amountInWords,
   formatDate,
   ValidationError,
   NotFoundError,
@@ -12,28 +12,142 @@ export enum KYCStatus {
   REJECTED = 'REJECTED'
 }
 
+export enum StockMovementType {
+  OPENING = 'OPENING', // balance carried in when a row first enters the ledger
+  RECEIPT = 'RECEIPT',
+  RESERVATION = 'RESERVATION',
+  RELEASE = 'RELEASE',
+  DISPATCH = 'DISPATCH',
+  RETURN = 'RETURN',
+  DAMAGE = 'DAMAGE',
+  ADJUSTMENT = 'ADJUSTMENT',
+  TRANSFER_OUT = 'TRANSFER_OUT',
+  TRANSFER_IN = 'TRANSFER_IN'
+}
+
+export enum StockAlertType {
+  OUT_OF_STOCK = 'OUT_OF_STOCK',
+  BELOW_MINIMUM = 'BELOW_MINIMUM',
+  LOW_STOCK = 'LOW_STOCK',
+  OVERSTOCK = 'OVERSTOCK'
+}
+
+export enum StockAlertStatus {
+  OPEN = 'OPEN',
+  ACKNOWLEDGED = 'ACKNOWLEDGED',
+  RESOLVED = 'RESOLVED'
+}
+
+export enum PurchaseOrderStatus {
+  DRAFT = 'DRAFT',
+  ISSUED = 'ISSUED',
+  PARTIALLY_RECEIVED = 'PARTIALLY_RECEIVED',
+  RECEIVED = 'RECEIVED',
+  CLOSED = 'CLOSED',
+  CANCELLED = 'CANCELLED'
+}
+
+export enum StockTransferStatus {
+  DRAFT = 'DRAFT',
+  IN_TRANSIT = 'IN_TRANSIT',
+  RECEIVED = 'RECEIVED',
+  DISCREPANCY = 'DISCREPANCY', // received short or damaged, awaiting sign-off
+  CANCELLED = 'CANCELLED'
+}
+
+export enum FilePurpose {
+  PRODUCT_IMAGE = 'PRODUCT_IMAGE',
+  KYC_DOCUMENT = 'KYC_DOCUMENT',
+  POD_PHOTO = 'POD_PHOTO',
+  INVOICE = 'INVOICE',
+  CREDIT_NOTE = 'CREDIT_NOTE',
+  ATTACHMENT = 'ATTACHMENT'
+}
+
+export enum KycDocumentType {
+  GST_CERTIFICATE = 'GST_CERTIFICATE',
+  SHOP_PHOTO = 'SHOP_PHOTO',
+  PAN = 'PAN',
+  DRIVING_LICENSE = 'DRIVING_LICENSE',
+  VEHICLE_RC = 'VEHICLE_RC'
+}
+
 export enum OrderStatus {
   PENDING = 'PENDING',
   CONFIRMED = 'CONFIRMED',
   PROCESSING = 'PROCESSING',
+  PARTIALLY_SHIPPED = 'PARTIALLY_SHIPPED',
   SHIPPED = 'SHIPPED',
+  PARTIALLY_DELIVERED = 'PARTIALLY_DELIVERED',
   DELIVERED = 'DELIVERED',
   CANCELLED = 'CANCELLED',
   RETURNED = 'RETURNED'
 }
 
+export enum FulfilmentStatus {
+  PENDING = 'PENDING',
+  BACKORDERED = 'BACKORDERED',
+  SHIPPED = 'SHIPPED',
+  DELIVERED = 'DELIVERED',
+  CANCELLED = 'CANCELLED'
+}
+
 export enum PaymentStatus {
   PENDING = 'PENDING',
   PAID = 'PAID',
   FAILED = 'FAILED',
+  PARTIALLY_REFUNDED = 'PARTIALLY_REFUNDED',
   REFUNDED = 'REFUNDED'
 }
 
+export enum RefundStatus {
+  PENDING = 'PENDING',
+  PROCESSED = 'PROCESSED',
+  FAILED = 'FAILED'
+}
+
+export enum RefundReason {
+  CANCELLATION = 'CANCELLATION',
+  RETURN = 'RETURN',
+  SHORT_DELIVERY = 'SHORT_DELIVERY',
+  DAMAGED = 'DAMAGED',
+  PRICING_ERROR = 'PRICING_ERROR',
+  OTHER = 'OTHER'
+}
+
+export enum RefundMethod {
+  GATEWAY = 'GATEWAY',
+  CREDIT_LEDGER = 'CREDIT_LEDGER'
+}
+
+export enum ReconciliationSource {
+  CSV_UPLOAD = 'CSV_UPLOAD',
+  GATEWAY_API = 'GATEWAY_API'
+}
+
+export enum ReconciliationRunStatus {
+  COMPLETED = 'COMPLETED',
+  FAILED = 'FAILED'
+}
+
+export enum ReconciliationExceptionType {
+  MISSING_IN_SETTLEMENT = 'MISSING_IN_SETTLEMENT',
+  DUPLICATE = 'DUPLICATE',
+  AMOUNT_MISMATCH = 'AMOUNT_MISMATCH',
+  GATEWAY_ONLY = 'GATEWAY_ONLY'
+}
+
+export enum ReconciliationExceptionStatus {
+  OPEN = 'OPEN',
+  RESOLVED = 'RESOLVED'
+}
+
 export enum PaymentMethod {
   UPI = 'UPI',
   CARD = 'CARD',
   NET_BANKING = 'NET_BANKING',
-  COD = 'COD'
+  COD = 'COD',
+  CREDIT = 'CREDIT'
 }
 
 export enum ConsignmentStatus {
@@ -59,6 +173,19 @@ export enum ProductStatus {
   DISCONTINUED = 'DISCONTINUED'
 }
 
+export enum DiscountType {
+  PERCENTAGE = 'PERCENTAGE',
+  FIXED = 'FIXED'
+}
+
+export enum CreditEntryType {
+  ORDER = 'ORDER',
+  PAYMENT = 'PAYMENT',
+  CANCELLATION = 'CANCELLATION',
+  REFUND = 'REFUND',
+  ADJUSTMENT = 'ADJUSTMENT'
+}
+
 // Base interfaces
 export interface BaseEntity {
   id: string;
@@ -74,6 +201,17 @@ export interface User extends BaseEntity {
   lastLoginAt?: Date;
 }
 
+export interface UserSession {
+  id: string;
+  deviceName?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  createdAt: Date;
+  isCurrent: boolean;
+}
+
 export interface BuyerProfile extends BaseEntity {
   userId: string;
   shopName: string;
@@ -81,6 +219,44 @@ export interface BuyerProfile extends BaseEntity {
   kycStatus: KYCStatus;
   kycDocumentUrl?: string;
   kycRejectionReason?: string;
+  creditLimit: number;
+  creditUsed: number;
+}
+
+export interface KycDocument extends BaseEntity {
+  userId: string;
+  type: KycDocumentType;
+  documentNumber?: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  status: KYCStatus;
+  rejectionReason?: string;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  supersededAt?: Date; // set when a newer upload of the same type replaces it
+}
+
+export interface KycReview {
+  id: string;
+  documentId: string;
+  status: KYCStatus;
+  reason?: string;
+  reviewedBy: string;
+  createdAt: Date;
+}
+
+export interface CreditLedgerEntry {
+  id: string;
+  buyerProfileId: string;
+  orderId?: string;
+  type: CreditEntryType;
+  amount: number; // positive increases outstanding, negative reduces it
+  balanceAfter: number;
+  reference?: string;
+  notes?: string;
+  createdBy?: string;
+  createdAt: Date;
 }
 
 export interface DriverProfile extends BaseEntity {
@@ -108,6 +284,26 @@ export interface Address extends BaseEntity {
   isDefault: boolean;
 }
 
+export interface ServiceArea extends BaseEntity {
+  pincode: string;
+  city: string;
+  state: string;
+  isActive: boolean;
+  deliveryFee: number;
+  freeDeliveryThreshold?: number;
+  etaHours: number;
+}
+
+export interface ServiceabilityCheck {
+  pincode: string;
+  serviceable: boolean;
+  city?: string;
+  state?: string;
+  deliveryFee?: number;
+  freeDeliveryThreshold?: number;
+  etaHours?: number;
+}
+
 export interface Product extends BaseEntity {
   name: string;
   description: string;
@@ -119,6 +315,7 @@ export interface Product extends BaseEntity {
   isActive: boolean;
   moq: number;
   returnPolicy?: string;
+  variants?: ProductVariant[];
 }
 
 export interface ProductVariant extends BaseEntity {
@@ -126,7 +323,11 @@ export interface ProductVariant extends BaseEntity {
   sku: string;
   name: string;
   attributes: Record<string, string>;
+  barcode?: string;
+  price: number;
+  mrp: number;
   isActive: boolean;
+  pricingTiers?: PricingTier[];
 }
 
 export interface PricingTier extends BaseEntity {
@@ -134,7 +335,6 @@ export interface PricingTier extends BaseEntity {
   minQuantity: number;
   maxQuantity?: number;
   price: number;
-  mrp: number;
 }
 
 export interface Order extends BaseEntity {
@@ -145,11 +345,15 @@ export interface Order extends BaseEntity {
   paymentMethod: PaymentMethod;
   subtotal: number;
   taxAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
   deliveryFee: number;
   discountAmount: number;
   totalAmount: number;
   deliveryAddress: Address;
   estimatedDeliveryAt?: Date;
+  reservationExpiresAt?: Date;
   deliveredAt?: Date;
   razorpayOrderId?: string;
   razorpayPaymentId?: string;
@@ -161,7 +365,18 @@ export interface OrderItem extends BaseEntity {
   quantity: number;
   unitPrice: number;
   totalPrice: number;
+  discountAmount: number;
+  hsnCode?: string;
+  taxRate: number;
   taxAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  warehouseId: string;
+  fulfilmentStatus: FulfilmentStatus;
+  quantityShipped: number;
+  quantityDelivered: number;
+  quantityCancelled: number;
 }
 
 export interface Consignment extends BaseEntity {
@@ -245,6 +460,23 @@ export interface CheckoutRequest {
   paymentMethod: PaymentMethod;
 }
 
+export interface Coupon extends BaseEntity {
+  code: string;
+  description: string;
+  discountType: DiscountType;
+  discountValue: number;
+  minOrderAmount?: number;
+  maxDiscountAmount?: number;
+  usageLimit?: number;
+  usedCount: number;
+  perBuyerLimit?: number;
+  categoryIds: string[];
+  brandIds: string[];
+  validFrom: Date;
+  validUntil: Date;
+  isActive: boolean;
+}
+
 export interface CheckoutEstimate {
   subtotal: number;
   taxAmount: number;
@@ -264,6 +496,51 @@ export interface NotificationPayload {
   role?: UserRole;
 }
 
+export enum NotificationChannel {
+  IN_APP = 'IN_APP',
+  PUSH = 'PUSH',
+  SMS = 'SMS',
+  EMAIL = 'EMAIL'
+}
+
+export enum NotificationType {
+  ORDER_PLACED = 'ORDER_PLACED',
+  ORDER_CONFIRMED = 'ORDER_CONFIRMED',
+  ORDER_PARTIALLY_SHIPPED = 'ORDER_PARTIALLY_SHIPPED',
+  ORDER_SHIPPED = 'ORDER_SHIPPED',
+  ORDER_PARTIALLY_DELIVERED = 'ORDER_PARTIALLY_DELIVERED',
+  ORDER_DELIVERED = 'ORDER_DELIVERED',
+  ORDER_CANCELLED = 'ORDER_CANCELLED',
+  PAYMENT_RECEIVED = 'PAYMENT_RECEIVED',
+  PAYMENT_FAILED = 'PAYMENT_FAILED',
+  CONSIGNMENT_ASSIGNED = 'CONSIGNMENT_ASSIGNED',
+  CONSIGNMENT_OUT_FOR_DELIVERY = 'CONSIGNMENT_OUT_FOR_DELIVERY',
+  REFUND_PROCESSED = 'REFUND_PROCESSED',
+  KYC_APPROVED = 'KYC_APPROVED',
+  KYC_REJECTED = 'KYC_REJECTED',
+  LOW_STOCK = 'LOW_STOCK',
+  OVERSTOCK = 'OVERSTOCK',
+  STOCK_TRANSFER_DISPATCHED = 'STOCK_TRANSFER_DISPATCHED',
+  STOCK_TRANSFER_DISCREPANCY = 'STOCK_TRANSFER_DISCREPANCY'
+}
+
+export interface InboxNotification {
+  id: string;
+  type?: NotificationType;
+  title: string;
+  body: string;
+  data?: Record<string, string>;
+  read: boolean;
+  readAt?: Date;
+  createdAt: Date;
+}
+
+export interface NotificationPreferences {
+  pushEnabled: boolean;
+  smsEnabled: boolean;
+  emailEnabled: boolean;
+}
+
 // Audit log types
 export interface AuditLog extends BaseEntity {
   userId: string;
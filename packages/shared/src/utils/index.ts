@@ -22,6 +22,7 @@ export const CONSTANTS = {
   },
   GST: {
     RATES: [0, 5, 12, 18, 28],
+    DEFAULT_RATE: 18,
     CGST_SGST_SPLIT: 0.5
   },
   DELIVERY: {
@@ -52,9 +53,29 @@ export const validatePhone = (phone: string): boolean => {
   return phoneRegex.test(formatPhone(phone));
 };
 
+const GSTIN_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+// Format check plus the GSTN mod-36 check digit in the last position
 export const validateGSTIN = (gstin: string): boolean => {
   const gstinRegex = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z]{1}[1-9A-Z]{1}Z[0-9A-Z]{1}$/;
-  return gstinRegex.test(gstin.toUpperCase());
+  const value = gstin.toUpperCase();
+  if (!gstinRegex.test(value)) {
+    return false;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < 14; i++) {
+    const product = GSTIN_CHARSET.indexOf(value[i]) * (i % 2 === 0 ? 1 : 2);
+    sum += Math.floor(product / 36) + (product % 36);
+  }
+  const checkDigit = GSTIN_CHARSET[(36 - (sum % 36)) % 36];
+
+  return value[14] === checkDigit;
+};
+
+export const validatePAN = (pan: string): boolean => {
+  const panRegex = /^[A-Z]{5}[0-9]{4}[A-Z]{1}$/;
+  return panRegex.test(pan.toUpperCase());
 };
 
 export const validatePincode = (pincode: string): boolean => {
@@ -72,19 +93,44 @@ export const generateOrderNumber = (): string => {
   return `MW${timestamp}${random}`.toUpperCase();
 };
 
-export const calculateGST = (amount: number, rate: number) => {
-  const gstAmount = (amount * rate) / 100;
-  const cgst = gstAmount * CONSTANTS.GST.CGST_SGST_SPLIT;
-  const sgst = gstAmount * CONSTANTS.GST.CGST_SGST_SPLIT;
+// Round a rupee amount to paise
+export const roundCurrency = (amount: number): number => {
+  return Math.round((amount + Number.EPSILON) * 100) / 100;
+};
+
+// Supply is inter-state when the place of supply differs from the origin state
+export const isInterStateSupply = (originState: string, destinationState: string): boolean => {
+  const normalize = (state: string) => state.trim().replace(/\s+/g, ' ').toLowerCase();
+  return normalize(originState) !== normalize(destinationState);
+};
+
+export const calculateGST = (amount: number, rate: number, interState: boolean = false) => {
+  const gstAmount = roundCurrency((amount * rate) / 100);
+  const cgst = interState ? 0 : roundCurrency(gstAmount * CONSTANTS.GST.CGST_SGST_SPLIT);
+  const sgst = interState ? 0 : roundCurrency(gstAmount - cgst);
+  const igst = interState ? gstAmount : 0;
   
   return {
     gstAmount,
     cgst,
     sgst,
-    totalWithGst: amount + gstAmount
+    igst,
+    totalWithGst: roundCurrency(amount + gstAmount)
   };
 };
 
+// Unit price for a quantity: the matching slab with the highest minQuantity wins, else the base price
+export const resolveTierPrice = (
+  basePrice: number,
+  tiers: { minQuantity: number; maxQuantity?: number | null; price: number }[] = [],
+  quantity: number
+): number => {
+  const tier = tiers
+    .filter((t) => quantity >= t.minQuantity && (t.maxQuantity == null || quantity <= t.maxQuantity))
+    .sort((a, b) => b.minQuantity - a.minQuantity)[0];
+  return tier ? tier.price : basePrice;
+};
+
 export const formatCurrency = (amount: number): string => {
   return new Intl.NumberFormat('en-IN', {
     style: 'currency',
@@ -93,6 +139,48 @@ export const formatCurrency = (amount: number): string => {
   }).format(amount);
 };
 
+const WORDS_ONES = [
+  '', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+  'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen'
+];
+const WORDS_TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+const belowHundredInWords = (value: number): string => {
+  if (value < 20) return WORDS_ONES[value];
+  const ones = value % 10;
+  return ones ? `${WORDS_TENS[Math.floor(value / 10)]} ${WORDS_ONES[ones]}` : WORDS_TENS[value / 10];
+};
+
+// Whole number in words using the Indian numbering system (lakh, crore)
+export const numberToWords = (value: number): string => {
+  const whole = Math.floor(Math.abs(value));
+  if (whole === 0) return 'Zero';
+
+  const crore = Math.floor(whole / 10000000);
+  const lakh = Math.floor((whole % 10000000) / 100000);
+  const thousand = Math.floor((whole % 100000) / 1000);
+  const hundred = Math.floor((whole % 1000) / 100);
+  const rest = whole % 100;
+
+  const parts: string[] = [];
+  if (crore) parts.push(`${numberToWords(crore)} Crore`);
+  if (lakh) parts.push(`${belowHundredInWords(lakh)} Lakh`);
+  if (thousand) parts.push(`${belowHundredInWords(thousand)} Thousand`);
+  if (hundred) parts.push(`${WORDS_ONES[hundred]} Hundred`);
+  if (rest) parts.push(belowHundredInWords(rest));
+
+  return parts.join(' ');
+};
+
+// Rupee amount in words as printed on tax invoices
+export const amountInWords = (amount: number): string => {
+  const paiseTotal = Math.round(roundCurrency(amount) * 100);
+  const rupees = Math.floor(paiseTotal / 100);
+  const paise = paiseTotal % 100;
+
+  return `Rupees ${numberToWords(rupees)}${paise ? ` and ${numberToWords(paise)} Paise` : ''} Only`;
+};
+
 export const formatDate = (date: Date, locale: string = 'en-IN'): string => {
   return new Intl.DateTimeFormat(locale, {
     year: 'numeric',
@@ -206,6 +294,37 @@ export const isValidDocumentType = (mimeType: string): boolean => {
   return CONSTANTS.FILE_UPLOAD.ALLOWED_DOCUMENT_TYPES.includes(mimeType);
 };
 
+// Split one CSV line into fields, honouring quoted fields and "" escapes
+export const parseCsvLine = (line: string): string[] => {
+  const values: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      values.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  values.push(current);
+
+  return values;
+};
+
 // Error classes
 export class ValidationError extends Error {
   constructor(message: string, public field?: string) {